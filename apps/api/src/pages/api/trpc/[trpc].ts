@@ -1,5 +1,6 @@
 import { createNextApiHandler } from '@trpc/server/adapters/next'
 import { appRouter } from '@/server/trpc'
+import { createContext } from '@/server/context'
 
 export const config = {
   api: {
@@ -11,5 +12,5 @@ export const config = {
 
 export default createNextApiHandler({
   router: appRouter,
-  createContext: () => ({}),
+  createContext,
 })
\ No newline at end of file
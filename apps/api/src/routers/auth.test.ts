@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { ServerResponse } from 'http'
+import { authRouter } from './auth'
+import { databaseService } from '../services/database'
+import { getRequestSession } from '../server/context'
+
+const createResponse = () => ({ setHeader: vi.fn() }) as unknown as ServerResponse & { setHeader: ReturnType<typeof vi.fn> }
+
+// Replays the cookie a procedure set as if the browser sent it back
+const sessionFromResponse = (res: ReturnType<typeof createResponse>) => {
+  const cookie = String(res.setHeader.mock.calls[0][1]).split(';')[0]
+  return getRequestSession({ headers: { cookie } } as any)
+}
+
+describe('Auth Router', () => {
+  it('should register a user, give them an organization and sign them in', async () => {
+    const res = createResponse()
+    const caller = authRouter.createCaller({ session: null, res })
+
+    const result = await caller.register({ email: 'jane@example.com', name: 'Jane Smith', password: 'password123' })
+
+    expect(result.data).toMatchObject({ email: 'jane@example.com', name: 'Jane Smith' })
+    expect(await databaseService.getUserOrganizations(result.data.id)).not.toHaveLength(0)
+    expect((await sessionFromResponse(res))?.user.id).toBe(result.data.id)
+  })
+
+  it('should refuse to register an email twice', async () => {
+    const caller = authRouter.createCaller({ session: null, res: createResponse() })
+    await caller.register({ email: 'twice@example.com', name: 'Twice', password: 'password123' })
+
+    await expect(caller.register({ email: 'twice@example.com', name: 'Twice', password: 'password123' }))
+      .rejects.toMatchObject({ code: 'CONFLICT' })
+  })
+
+  it('should sign in with valid credentials only', async () => {
+    await authRouter.createCaller({ session: null, res: createResponse() })
+      .register({ email: 'sam@example.com', name: 'Sam Lee', password: 'password123' })
+
+    const res = createResponse()
+    const caller = authRouter.createCaller({ session: null, res })
+
+    await expect(caller.login({ email: 'sam@example.com', password: 'wrong-password' }))
+      .rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password' })
+    expect(res.setHeader).not.toHaveBeenCalled()
+
+    const result = await caller.login({ email: 'SAM@example.com', password: 'password123' })
+    expect((await sessionFromResponse(res))?.user.id).toBe(result.data.id)
+  })
+
+  it('should report the signed-in user and clear the cookie on logout', async () => {
+    const user = { id: 'user1', email: 'user1@example.com', name: 'User One' }
+    const res = createResponse()
+    const caller = authRouter.createCaller({ session: { user, expiresAt: new Date(Date.now() + 60000) }, res })
+
+    expect((await caller.me()).data).toEqual(user)
+    await caller.logout()
+    expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', expect.stringContaining('Max-Age=0'))
+
+    expect((await authRouter.createCaller({ session: null }).me()).data).toBeNull()
+    await expect(authRouter.createCaller({ session: null }).logout()).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+  })
+
+  it('should keep each user\'s settings on the server', async () => {
+    const session = (id: string) => ({ user: { id, email: `${id}@example.com`, name: id }, expiresAt: new Date(Date.now() + 60000) })
+    const first = authRouter.createCaller({ session: session('settings-user1') })
+    const second = authRouter.createCaller({ session: session('settings-user2') })
+
+    expect((await first.settings()).data).toEqual({})
+    expect((await first.updateSettings({ chartLayout: 'radial' })).data).toEqual({ chartLayout: 'radial' })
+    // Settings left out of an update keep their saved values
+    expect((await first.updateSettings({})).data).toEqual({ chartLayout: 'radial' })
+    expect((await first.settings()).data).toEqual({ chartLayout: 'radial' })
+    expect((await second.settings()).data).toEqual({})
+
+    await expect(first.updateSettings({ chartLayout: 'sideways' as any })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await expect(authRouter.createCaller({ session: null }).settings()).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+  })
+})
@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { databaseService } from '../services/database'
+import { authService } from '../services/auth'
+import { router, publicProcedure, protectedProcedure, Context } from '../server/context'
+
+const email = z.string().trim().email('Enter a valid email address').max(254)
+const password = z.string().min(8, 'Password must be at least 8 characters').max(200)
+
+const setSessionCookie = (ctx: Context, cookie: string) => {
+  ctx.res?.setHeader('Set-Cookie', cookie)
+}
+
+export const authRouter = router({
+  me: publicProcedure
+    .query(({ ctx }) => {
+      return {
+        success: true,
+        data: ctx.session ? ctx.session.user : null
+      }
+    }),
+
+  register: publicProcedure
+    .input(z.object({
+      email,
+      name: z.string().trim().min(1, 'Name is required').max(100),
+      password
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (await databaseService.getUserByEmail(input.email)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'An account with this email already exists'
+        })
+      }
+
+      const user = await authService.register(input)
+
+      // Every account starts with an organization of its own to upload into
+      const organizations = await databaseService.getUserOrganizations(user.id)
+      if (!organizations.some(organization => organization.userId === user.id)) {
+        await databaseService.createOrganization({
+          id: `org_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: 'My Organization',
+          userId: user.id,
+          createdAt: new Date()
+        })
+      }
+
+      setSessionCookie(ctx, authService.createSessionCookie(authService.createSessionToken(user.id)))
+
+      return {
+        success: true,
+        data: user
+      }
+    }),
+
+  login: publicProcedure
+    .input(z.object({
+      email,
+      password: z.string().min(1, 'Password is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await authService.authenticate(input.email, input.password)
+      if (!user) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid email or password'
+        })
+      }
+
+      setSessionCookie(ctx, authService.createSessionCookie(authService.createSessionToken(user.id)))
+
+      return {
+        success: true,
+        data: user
+      }
+    }),
+
+  settings: protectedProcedure
+    .query(async ({ ctx }) => {
+      return {
+        success: true,
+        data: await databaseService.getUserSettings(ctx.session.user.id)
+      }
+    }),
+
+  updateSettings: protectedProcedure
+    .input(z.object({
+      chartLayout: z.enum(['top-down', 'left-right', 'radial', 'compact', 'outline']).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return {
+        success: true,
+        data: await databaseService.updateUserSettings(ctx.session.user.id, input)
+      }
+    }),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => {
+      setSessionCookie(ctx, authService.clearSessionCookie())
+
+      return {
+        success: true
+      }
+    })
+})
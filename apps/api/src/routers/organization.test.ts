@@ -13,6 +13,28 @@ vi.mock('../services/database', () => ({
     getEmployeesByOrganization: vi.fn(),
     getUserOrganizations: vi.fn(),
     addEmployeeToOrganization: vi.fn(),
+    createEmployee: vi.fn(),
+    deleteEmployee: vi.fn(),
+    createOrganization: vi.fn(),
+    updateOrganization: vi.fn(),
+    deleteOrganization: vi.fn(),
+    getUser: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getOrganizationMembers: vi.fn(),
+    getOrganizationMember: vi.fn(),
+    setOrganizationMember: vi.fn(),
+    removeOrganizationMember: vi.fn(),
+    getOrganizationInvitations: vi.fn(),
+    createInvitation: vi.fn(),
+    deleteInvitation: vi.fn(),
+    acceptInvitation: vi.fn(),
+    appendAuditLog: vi.fn(),
+    getAuditLog: vi.fn(),
+    replaceOrganizationEmployees: vi.fn(),
+    createSnapshot: vi.fn(),
+    getOrganizationSnapshots: vi.fn(),
+    getSnapshot: vi.fn(),
+    deleteSnapshot: vi.fn(),
   }
 }))
 
@@ -47,8 +69,11 @@ describe('Organization Router', () => {
   const mockContext = {
     session: {
       user: {
-        id: 'user1'
-      }
+        id: 'user1',
+        email: 'user1@example.com',
+        name: 'User One'
+      },
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
     }
   }
 
@@ -189,5 +214,845 @@ describe('Organization Router', () => {
         newManagerId: 'manager2'
       })).rejects.toThrow(TRPCError)
     })
+
+    it('should move an employee to the top level when the new manager is null', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.updateEmployee).mockResolvedValue({ ...mockEmployee, managerId: null })
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.updateManager({ employeeId: 'emp1', newManagerId: null })
+
+      expect(result.data).toEqual({ employeeId: 'emp1', newManagerId: null, previousManagerId: 'manager1' })
+      expect(databaseService.updateEmployee).toHaveBeenCalledWith({ ...mockEmployee, managerId: null })
+    })
+
+    it('should throw FORBIDDEN when moving to the top level in another user\'s organization', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValue(null)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateManager({ employeeId: 'emp1', newManagerId: null }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.updateEmployee).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateEmployee', () => {
+    const employeeWithFields = { ...mockEmployee, customFields: { Email: 'john@acme.com', Location: 'Berlin' } }
+
+    it('should persist name, title and merged custom fields', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(employeeWithFields)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.updateEmployee).mockImplementation(async (employee) => employee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.updateEmployee({
+        employeeId: 'emp1',
+        name: ' Johnny Doe ',
+        title: 'Staff Engineer',
+        customFields: { Location: null, Team: 'Platform' }
+      })
+
+      const expected = {
+        ...mockEmployee,
+        name: 'Johnny Doe',
+        title: 'Staff Engineer',
+        customFields: { Email: 'john@acme.com', Team: 'Platform' }
+      }
+      expect(databaseService.updateEmployee).toHaveBeenCalledWith(expected)
+      expect(result.data).toEqual(expected)
+    })
+
+    it('should keep fields that are not part of the update', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(employeeWithFields)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.updateEmployee).mockImplementation(async (employee) => employee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.updateEmployee({ employeeId: 'emp1', title: 'Principal Engineer' })
+
+      expect(result.data).toEqual({ ...employeeWithFields, title: 'Principal Engineer' })
+    })
+
+    it('should reject a blank name', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateEmployee({ employeeId: 'emp1', name: '  ' })).rejects.toThrow('Employee name is required')
+      expect(databaseService.updateEmployee).not.toHaveBeenCalled()
+    })
+
+    it('should throw NOT_FOUND when employee does not exist', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(null)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateEmployee({ employeeId: 'missing', title: 'CTO' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should throw FORBIDDEN when user does not own the organization', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.updateEmployee).not.toHaveBeenCalled()
+    })
+
+    it('should hide database failures behind a generic error', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.updateEmployee).mockRejectedValue(new Error('Failed to update employee in database'))
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })).rejects.toThrow('Database operation failed')
+    })
+  })
+
+  describe('deleteEmployee', () => {
+    const manager: Employee = { ...mockNewManager, id: 'manager1' }
+    const report: Employee = { ...mockNewManager, id: 'emp3', name: 'Sam Lee', managerId: 'emp1' }
+
+    const mockOrganizationWith = (employees: Employee[]) => {
+      const byId = new Map(employees.map(employee => [employee.id, employee]))
+      vi.mocked(databaseService.getEmployee).mockImplementation(async (id) => byId.get(id) || null)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue(employees)
+    }
+
+    it('should move direct reports up to the departing employee\'s manager', async () => {
+      mockOrganizationWith([manager, mockEmployee, report])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'manager' })
+
+      expect(databaseService.deleteEmployee).toHaveBeenCalledWith('emp1', [{ ...report, managerId: 'manager1' }])
+      expect(result.data.vacancy).toBeNull()
+    })
+
+    it('should move direct reports to a named manager', async () => {
+      mockOrganizationWith([manager, mockEmployee, report, mockNewManager])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      await caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'reassign', newManagerId: 'manager2' })
+
+      expect(databaseService.deleteEmployee).toHaveBeenCalledWith('emp1', [{ ...report, managerId: 'manager2' }])
+    })
+
+    it('should leave direct reports under a vacancy in the same position', async () => {
+      mockOrganizationWith([manager, mockEmployee, report])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'vacancy' })
+
+      const vacancy = result.data.vacancy!
+      expect(vacancy).toMatchObject({ name: 'Vacant', title: 'Software Engineer', managerId: 'manager1', organizationId: 'org1' })
+      expect(databaseService.deleteEmployee).toHaveBeenCalledWith('emp1', [vacancy, { ...report, managerId: vacancy.id }])
+    })
+
+    it('should require a manager when reassigning', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'reassign' }))
+        .rejects.toThrow('A new manager is required to reassign direct reports')
+    })
+
+    it('should reject reassigning reports inside the departing subtree', async () => {
+      mockOrganizationWith([manager, mockEmployee, report])
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'reassign', newManagerId: 'emp3' }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST' })
+      expect(databaseService.deleteEmployee).not.toHaveBeenCalled()
+    })
+
+    it('should throw NOT_FOUND when employee does not exist', async () => {
+      mockOrganizationWith([])
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'manager' }))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('command', () => {
+    const manager: Employee = { ...mockNewManager, id: 'manager1', name: 'Marcus Reed' }
+    const report: Employee = { ...mockNewManager, id: 'emp3', name: 'Priya Patel', managerId: 'emp1' }
+
+    beforeEach(() => {
+      const employees = [manager, mockEmployee, report]
+      const byId = new Map(employees.map(employee => [employee.id, employee]))
+      vi.mocked(databaseService.getEmployee).mockImplementation(async (id) => byId.get(id) || null)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue(employees)
+    })
+
+    it('should return a checked preview without changing the chart', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.command({ organizationId: 'org1', command: 'move Priya under Marcus' })
+
+      expect(result.data).toEqual({
+        command: { intent: 'move', employeeId: 'emp3', newManagerId: 'manager1' },
+        description: 'Move Priya Patel under Marcus Reed',
+        employee: report
+      })
+      expect(databaseService.updateEmployee).not.toHaveBeenCalled()
+    })
+
+    it('should reject moves the hierarchy validator refuses', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.command({ organizationId: 'org1', command: 'move John under Priya' }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining('circular') })
+    })
+
+    it('should reject commands that change nothing', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.command({ organizationId: 'org1', command: 'John Doe reports to Marcus' }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'That would not change anything' })
+    })
+
+    it('should explain commands it cannot read', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.command({ organizationId: 'org1', command: 'make everyone happy' }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining("didn't understand") })
+    })
+
+    it('should not let viewers issue commands', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValueOnce({ organizationId: 'org1', userId: 'user1', role: 'viewer', addedAt: new Date() })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.command({ organizationId: 'org1', command: 'remove Priya' }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+  })
+
+  describe('audit log', () => {
+    const loggedEntries = () => vi.mocked(databaseService.appendAuditLog).mock.calls.flatMap(([entries]) => entries)
+
+    beforeEach(() => {
+      vi.mocked(databaseService.updateEmployee).mockImplementation(async employee => employee)
+    })
+
+    it('should log moves with the employee before and after', async () => {
+      vi.mocked(databaseService.getEmployee)
+        .mockResolvedValueOnce(mockEmployee)
+        .mockResolvedValueOnce(mockNewManager)
+        .mockResolvedValueOnce(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee, mockNewManager])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      await caller.updateManager({ employeeId: 'emp1', newManagerId: 'manager2' })
+
+      expect(loggedEntries()).toEqual([expect.objectContaining({
+        organizationId: 'org1',
+        actorId: 'user1',
+        operation: 'move',
+        employeeId: 'emp1',
+        before: mockEmployee,
+        after: { ...mockEmployee, managerId: 'manager2' },
+        timestamp: expect.any(Date)
+      })])
+    })
+
+    it('should log edits and new employees', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.createEmployee).mockImplementation(async employee => employee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      await caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })
+      const created = await caller.createEmployee({ name: 'New Hire', title: 'Engineer', organizationId: 'org1' })
+
+      expect(loggedEntries().map(entry => [entry.operation, entry.before?.title ?? null, entry.after?.title ?? null])).toEqual([
+        ['edit', 'Software Engineer', 'CTO'],
+        ['create', null, 'Engineer']
+      ])
+      expect(loggedEntries()[1].employeeId).toBe(created.data.id)
+    })
+
+    it('should log a removal with the vacancy and every moved report', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      const report: Employee = { ...mockNewManager, id: 'emp3', name: 'Sam Lee', managerId: 'emp1' }
+      const byId = new Map([manager, mockEmployee, report].map(employee => [employee.id, employee]))
+      vi.mocked(databaseService.getEmployee).mockImplementation(async (id) => byId.get(id) || null)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee, report])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.deleteEmployee({ employeeId: 'emp1', reportsStrategy: 'vacancy' })
+
+      expect(loggedEntries().map(entry => [entry.operation, entry.employeeId])).toEqual([
+        ['delete', 'emp1'],
+        ['create', result.data.vacancy!.id],
+        ['move', 'emp3']
+      ])
+      expect(loggedEntries()[2].after?.managerId).toBe(result.data.vacancy!.id)
+    })
+
+    it('should not log changes that were refused', async () => {
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.appendAuditLog).not.toHaveBeenCalled()
+    })
+
+    it('should return filtered entries with the name of whoever made them', async () => {
+      const entry = {
+        id: 'audit1',
+        organizationId: 'org1',
+        actorId: 'user2',
+        timestamp: new Date('2024-03-01T09:00:00.000Z'),
+        operation: 'move' as const,
+        employeeId: 'emp1',
+        before: mockEmployee,
+        after: { ...mockEmployee, managerId: 'manager2' }
+      }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getAuditLog).mockResolvedValue([entry])
+      vi.mocked(databaseService.getUser).mockResolvedValue({ id: 'user2', email: 'sam@example.com', name: 'Sam Lee' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.getAuditLog({
+        organizationId: 'org1',
+        employeeId: 'emp1',
+        from: '2024-03-01T00:00:00.000Z' as unknown as Date
+      })
+
+      expect(databaseService.getAuditLog).toHaveBeenCalledWith('org1', {
+        employeeId: 'emp1',
+        from: new Date('2024-03-01T00:00:00.000Z'),
+        limit: 100
+      })
+      expect(result.data).toEqual([{ ...entry, actorName: 'Sam Lee' }])
+    })
+
+    it('should let viewers read the log but not outsiders', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValueOnce({
+        organizationId: 'org1', userId: 'user1', role: 'viewer', addedAt: new Date()
+      })
+      vi.mocked(databaseService.getAuditLog).mockResolvedValue([])
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      expect((await caller.getAuditLog({ organizationId: 'org1' })).data).toEqual([])
+      await expect(caller.getAuditLog({ organizationId: 'org1' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+  })
+
+  describe('snapshots', () => {
+    const manager: Employee = { ...mockNewManager, id: 'manager1' }
+    const snapshot = {
+      id: 'snap1',
+      organizationId: 'org1',
+      name: 'End of Q2',
+      source: 'manual' as const,
+      createdBy: 'user2',
+      createdAt: new Date('2024-06-30T00:00:00.000Z'),
+      employees: [manager, mockEmployee]
+    }
+
+    beforeEach(() => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.createSnapshot).mockImplementation(async ({ employees, ...summary }) => ({ ...summary, employeeCount: employees.length }))
+      vi.mocked(databaseService.replaceOrganizationEmployees).mockImplementation(async (_organizationId, employees) => employees)
+    })
+
+    it('should save the current chart under a name', async () => {
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.createSnapshot({ organizationId: 'org1', name: '  End of Q2 ' })
+
+      expect(databaseService.createSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        organizationId: 'org1',
+        name: 'End of Q2',
+        source: 'manual',
+        createdBy: 'user1',
+        employees: [manager, mockEmployee]
+      }))
+      expect(result.data.employeeCount).toBe(2)
+    })
+
+    it('should list versions with the name of whoever saved them', async () => {
+      const { employees, ...summary } = snapshot
+      vi.mocked(databaseService.getOrganizationSnapshots).mockResolvedValue([{ ...summary, employeeCount: employees.length }])
+      vi.mocked(databaseService.getUser).mockResolvedValue({ id: 'user2', email: 'sam@example.com', name: 'Sam Lee' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.snapshots({ organizationId: 'org1' })
+
+      expect(result.data).toEqual([{ ...summary, employeeCount: 2, createdByName: 'Sam Lee' }])
+    })
+
+    it('should open a version as a chart without touching the live one', async () => {
+      vi.mocked(databaseService.getSnapshot).mockResolvedValue(snapshot)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.getSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })
+
+      expect(result.data.snapshot.name).toBe('End of Q2')
+      expect(result.data.chart.employees).toEqual([manager, mockEmployee])
+      expect(result.data.chart.rootEmployees).toEqual([manager])
+      expect(databaseService.replaceOrganizationEmployees).not.toHaveBeenCalled()
+    })
+
+    it('should restore a version after saving the chart it replaces', async () => {
+      const hire: Employee = { ...mockEmployee, id: 'emp9', name: 'New Hire' }
+      vi.mocked(databaseService.getSnapshot).mockResolvedValue(snapshot)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee, hire])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.restoreSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })
+
+      expect(databaseService.createSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Before restoring "End of Q2"',
+        source: 'restore',
+        employees: [manager, mockEmployee, hire]
+      }))
+      expect(databaseService.replaceOrganizationEmployees).toHaveBeenCalledWith('org1', [manager, mockEmployee])
+      expect(databaseService.appendAuditLog).toHaveBeenCalledWith([expect.objectContaining({
+        operation: 'restore',
+        details: { snapshotId: 'snap1', snapshotName: 'End of Q2', employeeCount: 2 }
+      })])
+      expect(result.data.employees).toEqual([manager, mockEmployee])
+    })
+
+    it('should not let viewers restore or save versions', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+      // One membership lookup per call below
+      const viewer = { organizationId: 'org1', userId: 'user1', role: 'viewer' as const, addedAt: new Date() }
+      vi.mocked(databaseService.getOrganizationMember)
+        .mockResolvedValueOnce(viewer)
+        .mockResolvedValueOnce(viewer)
+        .mockResolvedValueOnce(viewer)
+      vi.mocked(databaseService.getSnapshot).mockResolvedValue(snapshot)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.restoreSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      await expect(caller.createSnapshot({ organizationId: 'org1', name: 'Mine' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect((await caller.getSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })).data.snapshot.id).toBe('snap1')
+      expect(databaseService.replaceOrganizationEmployees).not.toHaveBeenCalled()
+    })
+
+    it('should throw NOT_FOUND for a snapshot of another organization', async () => {
+      vi.mocked(databaseService.getSnapshot).mockResolvedValue({ ...snapshot, organizationId: 'org2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.getSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      await expect(caller.deleteSnapshot({ organizationId: 'org1', snapshotId: 'snap1' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      expect(databaseService.deleteSnapshot).not.toHaveBeenCalled()
+    })
+
+    it('should compare a version with the live chart', async () => {
+      const hire: Employee = { ...mockEmployee, id: 'emp9', name: 'New Hire' }
+      vi.mocked(databaseService.getSnapshot).mockResolvedValue(snapshot)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([
+        manager,
+        { ...mockEmployee, title: 'Staff Engineer' },
+        hire
+      ])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.diff({ organizationId: 'org1', baseSnapshotId: 'snap1' })
+
+      expect(result.data.base).toEqual({ id: 'snap1', name: 'End of Q2', createdAt: snapshot.createdAt })
+      expect(result.data.target).toEqual({ id: null, name: 'Current chart', createdAt: null })
+      expect(result.data.entries.map(entry => [entry.employeeId, entry.changes])).toEqual([
+        ['emp9', ['added']],
+        ['emp1', ['retitled']]
+      ])
+      expect(result.data.summary).toMatchObject({ added: 1, retitled: 1, unchanged: 1 })
+    })
+
+    it('should compare two versions', async () => {
+      vi.mocked(databaseService.getSnapshot).mockImplementation(async (id) => id === 'snap1'
+        ? snapshot
+        : { ...snapshot, id: 'snap2', name: 'End of Q3', employees: [manager] })
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.diff({ organizationId: 'org1', baseSnapshotId: 'snap1', targetSnapshotId: 'snap2' })
+
+      expect(result.data.target.name).toBe('End of Q3')
+      expect(result.data.entries).toEqual([expect.objectContaining({ employeeId: 'emp1', changes: ['removed'] })])
+      expect(result.data.combinedEmployees).toEqual([manager, mockEmployee])
+      expect(databaseService.getEmployeesByOrganization).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getChart', () => {
+    it('should rebuild the chart from stored employees', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.getChart({ organizationId: 'org1' })
+
+      expect(databaseService.getEmployeesByOrganization).toHaveBeenCalledWith('org1')
+      expect(result.data.organizationId).toBe('org1')
+      expect(result.data.employees).toEqual([manager, mockEmployee])
+      expect(result.data.rootEmployees).toEqual([manager])
+      expect(result.data.statistics.totalEmployees).toBe(2)
+      expect(result.data.validation.isValid).toBe(true)
+    })
+
+    it('should throw FORBIDDEN for another user\'s organization', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.getChart({ organizationId: 'org1' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.getEmployeesByOrganization).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('exportChart', () => {
+    it('should render the whole stored chart as an SVG file', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'svg' })
+
+      expect(result.data.fileName).toMatch(/^test-organization-org-chart-\d{4}-\d{2}-\d{2}\.svg$/)
+      expect(result.data.mimeType).toBe('image/svg+xml')
+      expect(result.data.content).toContain('>Test Organization</text>')
+      expect(result.data.content).toContain('>Jane Smith</text>')
+      expect(result.data.content).toContain('>John Doe</text>')
+    })
+
+    it('should render a PDF on the requested paper as base64', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([mockNewManager])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'pdf', pageSize: 'letter', orientation: 'portrait' })
+      const pdf = Buffer.from(result.data.content, 'base64').toString('latin1')
+
+      expect(result.data.fileName).toMatch(/\.pdf$/)
+      expect(result.data.encoding).toBe('base64')
+      expect(pdf.startsWith('%PDF-')).toBe(true)
+      expect(pdf).toContain('/MediaBox [0 0 612 792]')
+    })
+
+    it('should warn when names use characters the PDF fonts cannot show', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([{ ...mockNewManager, name: '王芳' }])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'pdf' })
+
+      expect(result.data.warnings).toEqual(['Some characters cannot be shown in PDF exports and print as "?": 王 芳'])
+      expect((await caller.exportChart({ organizationId: 'org1', format: 'svg' })).data.warnings).toBeUndefined()
+    })
+
+    it('should render a PowerPoint deck as base64', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'pptx', depth: 2, fields: ['Location'] })
+      const deck = Buffer.from(result.data.content, 'base64')
+
+      expect(result.data.fileName).toMatch(/\.pptx$/)
+      expect(result.data.mimeType).toBe('application/vnd.openxmlformats-officedocument.presentationml.presentation')
+      // A ZIP archive whose first entry is the content types part
+      expect(deck.readUInt32LE(0)).toBe(0x04034b50)
+      expect(deck.toString('latin1')).toContain('ppt/slides/slide1.xml')
+    })
+
+    it('should export the employees as a CSV the importer reads back', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'csv' })
+
+      expect(result.data.fileName).toMatch(/\.csv$/)
+      expect(result.data.content.split('\r\n')[0]).toBe('\ufeffEmployee ID,Name,Title,Manager ID,Manager')
+    })
+
+    it('should export a chosen subtree as a graph', async () => {
+      const manager: Employee = { ...mockNewManager, id: 'manager1' }
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([manager, mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'dot', rootId: mockEmployee.id })
+
+      expect(result.data.fileName).toMatch(/\.dot$/)
+      expect(result.data.content).toContain(`"${mockEmployee.id}" [label="John Doe`)
+      expect(result.data.content).not.toContain('Jane Smith')
+      await expect(caller.exportChart({ organizationId: 'org1', format: 'dot', rootId: 'missing' }))
+        .rejects.toThrow('Employee not found')
+    })
+
+    it('should draw the requested layout', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.exportChart({ organizationId: 'org1', format: 'dot', layout: 'left-right' })
+
+      expect(result.data.content).toContain('rankdir=LR;')
+      await expect(caller.exportChart({ organizationId: 'org1', format: 'svg', layout: 'sideways' as any }))
+        .rejects.toThrow()
+    })
+  })
+
+  describe('organization lifecycle', () => {
+    it('should list the organizations of the current user', async () => {
+      vi.mocked(databaseService.getUserOrganizations).mockResolvedValue([mockOrganization])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.list()
+
+      expect(result.data).toEqual([{ ...mockOrganization, role: 'owner' }])
+      expect(databaseService.getUserOrganizations).toHaveBeenCalledWith('user1')
+    })
+
+    it('should create an organization owned by the current user', async () => {
+      vi.mocked(databaseService.createOrganization).mockImplementation(async (organization) => organization)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.create({ name: '  Acme EMEA  ' })
+
+      expect(result.data).toMatchObject({ name: 'Acme EMEA', userId: 'user1' })
+      expect(result.data.id).toMatch(/^org_/)
+    })
+
+    it('should reject an empty organization name', async () => {
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.create({ name: '   ' })).rejects.toThrow('Organization name is required')
+      expect(databaseService.createOrganization).not.toHaveBeenCalled()
+    })
+
+    it('should return an organization with its employee count', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee, mockNewManager])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.get({ organizationId: 'org1' })
+
+      expect(result.data).toEqual({ ...mockOrganization, role: 'owner', employeeCount: 2 })
+    })
+
+    it('should rename an organization', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.updateOrganization).mockImplementation(async (organization) => organization)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.rename({ organizationId: 'org1', name: 'Scenario B' })
+
+      expect(databaseService.updateOrganization).toHaveBeenCalledWith({ ...mockOrganization, name: 'Scenario B' })
+      expect(result.data.name).toBe('Scenario B')
+    })
+
+    it('should delete an organization', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getUserOrganizations).mockResolvedValue([mockOrganization, { ...mockOrganization, id: 'org2' }])
+
+      const caller = organizationRouter.createCaller(mockContext)
+      await caller.delete({ organizationId: 'org1' })
+
+      expect(databaseService.deleteOrganization).toHaveBeenCalledWith('org1')
+    })
+
+    it('should refuse to delete the last organization', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getUserOrganizations).mockResolvedValue([mockOrganization])
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.delete({ organizationId: 'org1' })).rejects.toThrow('Cannot delete your only organization')
+      expect(databaseService.deleteOrganization).not.toHaveBeenCalled()
+    })
+
+    it('should throw NOT_FOUND when the organization does not exist', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(null)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.rename({ organizationId: 'missing', name: 'New name' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should throw FORBIDDEN when another user owns the organization', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.delete({ organizationId: 'org1' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.deleteOrganization).not.toHaveBeenCalled()
+    })
+
+    it('should only add employees to an organization the user owns', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.createEmployee({
+        name: 'New Hire',
+        title: 'Engineer',
+        organizationId: 'org1'
+      })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.createEmployee).not.toHaveBeenCalled()
+    })
+ 
+    it('should bring an employee back under a requested ID', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployee).mockResolvedValueOnce(null)
+      vi.mocked(databaseService.createEmployee).mockImplementation(async employee => employee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.createEmployee({
+        name: 'John Doe',
+        title: 'Software Engineer',
+        organizationId: 'org1',
+        employeeId: 'emp1'
+      })
+
+      expect(result.data.id).toBe('emp1')
+    })
+
+    it('should throw CONFLICT when the requested ID is taken', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.createEmployee({
+        name: 'John Doe',
+        title: 'Software Engineer',
+        organizationId: 'org1',
+        employeeId: 'emp1'
+      })).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(databaseService.createEmployee).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('roles', () => {
+    const sharedOrganization = { ...mockOrganization, userId: 'user2' }
+    const membership = (role: 'editor' | 'viewer') => ({ organizationId: 'org1', userId: 'user1', role, addedAt: new Date() })
+
+    beforeEach(() => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(sharedOrganization)
+    })
+
+    it('should let viewers load the chart but not change it', async () => {
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValue(membership('viewer'))
+      vi.mocked(databaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee])
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      expect((await caller.getChart({ organizationId: 'org1' })).data.role).toBe('viewer')
+      await expect(caller.createEmployee({ name: 'New Hire', title: 'Engineer', organizationId: 'org1' }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN', message: 'This action requires the editor role' })
+      await expect(caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      await expect(caller.rename({ organizationId: 'org1', name: 'Mine now' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(databaseService.updateEmployee).not.toHaveBeenCalled()
+    })
+
+    it('should let editors change employees but not manage the organization', async () => {
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValue(membership('editor'))
+      vi.mocked(databaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(databaseService.updateEmployee).mockImplementation(async (employee) => employee)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await caller.updateEmployee({ employeeId: 'emp1', title: 'CTO' })
+      expect(databaseService.updateEmployee).toHaveBeenCalledWith(expect.objectContaining({ title: 'CTO' }))
+      await expect(caller.invite({ organizationId: 'org1', email: 'new@example.com', role: 'viewer' }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+
+    it('should list shared organizations with the member role', async () => {
+      vi.mocked(databaseService.getUserOrganizations).mockResolvedValue([sharedOrganization])
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValue(membership('viewer'))
+
+      const caller = organizationRouter.createCaller(mockContext)
+      const result = await caller.list()
+
+      expect(result.data).toEqual([{ ...sharedOrganization, role: 'viewer' }])
+    })
+
+    it('should add existing users right away and keep invitations for unknown emails', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getUserByEmail)
+        .mockResolvedValueOnce({ id: 'user3', email: 'sam@example.com', name: 'Sam Lee' })
+        .mockResolvedValueOnce(null)
+      vi.mocked(databaseService.setOrganizationMember).mockImplementation(async (member) => member)
+      vi.mocked(databaseService.getOrganizationInvitations).mockResolvedValue([])
+      vi.mocked(databaseService.createInvitation).mockImplementation(async (invitation) => invitation)
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      const added = await caller.invite({ organizationId: 'org1', email: 'sam@example.com', role: 'editor' })
+      expect(added.data.status).toBe('added')
+      expect(databaseService.setOrganizationMember).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user3', role: 'editor' }))
+
+      const invited = await caller.invite({ organizationId: 'org1', email: 'new@example.com', role: 'viewer' })
+      expect(invited.data.status).toBe('invited')
+      expect(databaseService.createInvitation).toHaveBeenCalledWith(expect.objectContaining({
+        organizationId: 'org1',
+        email: 'new@example.com',
+        role: 'viewer',
+        invitedBy: 'user1'
+      }))
+    })
+
+    it('should only accept an invitation through the token from its link', async () => {
+      vi.mocked(databaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(databaseService.getUserByEmail).mockResolvedValue(null)
+      vi.mocked(databaseService.getOrganizationInvitations).mockResolvedValue([])
+      vi.mocked(databaseService.createInvitation).mockImplementation(async (invitation) => invitation)
+      const member = membership('viewer')
+      vi.mocked(databaseService.acceptInvitation).mockResolvedValue(member)
+
+      const owner = organizationRouter.createCaller(mockContext)
+      const invited = await owner.invite({ organizationId: 'org1', email: 'user1@example.com', role: 'viewer' })
+      if (invited.data.status !== 'invited') throw new Error('Expected an invitation')
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.acceptInvitation({ token: `${invited.data.invitation.id}.forged` })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      expect(databaseService.acceptInvitation).not.toHaveBeenCalled()
+
+      const accepted = await caller.acceptInvitation({ token: invited.data.token })
+      expect(accepted.data).toEqual(member)
+      expect(databaseService.acceptInvitation).toHaveBeenCalledWith(invited.data.invitation.id, mockContext.session.user)
+    })
+
+    it('should let members leave but not remove others', async () => {
+      vi.mocked(databaseService.getOrganizationMember).mockResolvedValue(membership('viewer'))
+
+      const caller = organizationRouter.createCaller(mockContext)
+
+      await expect(caller.removeMember({ organizationId: 'org1', userId: 'user3' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      await caller.removeMember({ organizationId: 'org1', userId: 'user1' })
+      expect(databaseService.removeOrganizationMember).toHaveBeenCalledWith('org1', 'user1')
+    })
   })
-})
\ No newline at end of file
+})
@@ -1,34 +1,132 @@
 import { z } from 'zod'
-import { initTRPC, TRPCError } from '@trpc/server'
-import { Employee, Organization } from '../../../../packages/shared'
+import { TRPCError } from '@trpc/server'
+import { Employee, Organization, OrganizationInvitation, OrganizationRole, OrganizationSnapshot } from '../../../../packages/shared'
 import { databaseService } from '../services/database'
+import { authService } from '../services/auth'
 import { HierarchyValidatorService } from '../services/hierarchy-validator'
-
-const t = initTRPC.create()
-
-export const router = t.router
-export const publicProcedure = t.procedure
-export const protectedProcedure = t.procedure
+import { ChartBuilderService } from '../services/chart-builder'
+import { OrganizationAccessService, hasRole } from '../services/organization-access'
+import { AuditLogService } from '../services/audit-log'
+import { SnapshotService } from '../services/snapshots'
+import { OrgDiffService } from '../services/org-diff'
+import { CommandParserService } from '../services/command-parser'
+import { ChartExportService } from '../services/chart-export'
+import { router, protectedProcedure } from '../server/context'
 
 // Initialize hierarchy validator with database service
 const hierarchyValidator = new HierarchyValidatorService(databaseService)
+const chartBuilder = new ChartBuilderService()
+const organizationAccess = new OrganizationAccessService(databaseService)
+const auditLog = new AuditLogService(databaseService)
+const snapshots = new SnapshotService(databaseService)
+const orgDiff = new OrgDiffService()
+const commandParser = new CommandParserService()
+const chartExport = new ChartExportService()
+
+// Loads an organization the user holds at least the required role in, or fails with the matching tRPC error
+export const getAuthorizedOrganization = async (
+  organizationId: string,
+  userId: string,
+  requiredRole: OrganizationRole
+): Promise<{ organization: Organization; role: OrganizationRole }> => {
+  const organization = await databaseService.getOrganization(organizationId)
+  if (!organization) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Organization not found'
+    })
+  }
+
+  const role = await organizationAccess.getRole(organization, userId)
+  if (!role) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have access to this organization'
+    })
+  }
+
+  if (!hasRole(role, requiredRole)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `This action requires the ${requiredRole} role`
+    })
+  }
+
+  return { organization, role }
+}
+
+// Re-throws tRPC errors as they are and hides everything else behind a generic message
+const toTRPCError = (error: unknown, message: string): TRPCError => {
+  if (error instanceof TRPCError) {
+    return error
+  }
+
+  if (error instanceof Error && error.message.includes('database')) {
+    return new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Database operation failed'
+    })
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message
+  })
+}
+
+// Same shape as an import result; the columns were settled when the file was imported
+const toChartData = (organizationId: string, employees: Employee[], analysis: string) => ({
+  organizationId,
+  ...chartBuilder.buildChart(employees),
+  columnIdentification: {
+    nameColumn: 0,
+    managerColumn: null as number | null,
+    confidence: 1,
+    analysis
+  }
+})
+
+const getOrganizationSnapshot = async (organizationId: string, snapshotId: string): Promise<OrganizationSnapshot> => {
+  const snapshot = await databaseService.getSnapshot(snapshotId)
+  if (!snapshot || snapshot.organizationId !== organizationId) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Snapshot not found'
+    })
+  }
+  return snapshot
+}
+
+const organizationName = z.string().trim().min(1, 'Organization name is required').max(100)
+
+// Ownership stays with the creator, so members are only ever editors or viewers
+const memberRole = z.enum(['editor', 'viewer'])
 
 export const organizationRouter = router({
-  createEmployee: publicProcedure
+  createEmployee: protectedProcedure
     .input(z.object({
       name: z.string().min(1, 'Employee name is required'),
       title: z.string().min(1, 'Employee title is required'),
       organizationId: z.string().min(1, 'Organization ID is required'),
       managerId: z.string().nullable().optional(),
-      customFields: z.record(z.any()).optional()
+      customFields: z.record(z.any()).optional(),
+      // Set when undo/redo brings back an employee under the ID it had before
+      employeeId: z.string().min(1).max(200).optional()
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        // For demo purposes, use a default user ID since no auth is set up
-        const userId = 'demo-user'
+        // Employees can only be added by owners and editors
+        await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'editor')
+
+        if (input.employeeId && await databaseService.getEmployee(input.employeeId)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'An employee with this ID already exists'
+          })
+        }
 
         // Generate a unique ID for the new employee
-        const employeeId = `emp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        const employeeId = input.employeeId || `emp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
         const newEmployee: Employee = {
           id: employeeId,
@@ -59,6 +157,9 @@ export const organizationRouter = router({
         }
 
         const createdEmployee = await databaseService.createEmployee(newEmployee)
+        await auditLog.record(ctx.session.user.id, input.organizationId, [
+          { operation: 'create', before: null, after: createdEmployee }
+        ])
 
         return {
           success: true,
@@ -82,33 +183,29 @@ export const organizationRouter = router({
   updateManager: protectedProcedure
     .input(z.object({ 
       employeeId: z.string().min(1, 'Employee ID is required'),
-      newManagerId: z.string().min(1, 'New manager ID is required')
+      // null moves the employee to the top level, e.g. when undoing a move
+      newManagerId: z.string().min(1, 'New manager ID is required').nullable()
     }))
     .mutation(async ({ ctx, input }) => {
       const { employeeId, newManagerId } = input
       
       try {
-        // Extract user ID from context (assuming it's available from authentication)
-        const userId = (ctx as any).session?.user?.id
-        if (!userId) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'User not authenticated'
-          })
-        }
+        const userId = ctx.session.user.id
 
-        // Validate the hierarchy update
-        const validation = await hierarchyValidator.validateHierarchyUpdate(
-          employeeId,
-          newManagerId,
-          userId
-        )
+        // Validate the hierarchy update; a top-level employee cannot form a cycle
+        if (newManagerId !== null) {
+          const validation = await hierarchyValidator.validateHierarchyUpdate(
+            employeeId,
+            newManagerId,
+            userId
+          )
 
-        if (!validation.isValid) {
-          throw new TRPCError({
-            code: validation.errorCode === 'UNAUTHORIZED_ACCESS' ? 'FORBIDDEN' : 'BAD_REQUEST',
-            message: validation.error || 'Validation failed'
-          })
+          if (!validation.isValid) {
+            throw new TRPCError({
+              code: validation.errorCode === 'UNAUTHORIZED_ACCESS' ? 'FORBIDDEN' : 'BAD_REQUEST',
+              message: validation.error || 'Validation failed'
+            })
+          }
         }
 
         // Get the current employee
@@ -120,6 +217,10 @@ export const organizationRouter = router({
           })
         }
 
+        if (newManagerId === null) {
+          await getAuthorizedOrganization(currentEmployee.organizationId, userId, 'editor')
+        }
+
         // Update the employee's manager
         const updatedEmployee = {
           ...currentEmployee,
@@ -127,6 +228,9 @@ export const organizationRouter = router({
         }
 
         await databaseService.updateEmployee(updatedEmployee)
+        await auditLog.record(userId, currentEmployee.organizationId, [
+          { operation: 'move', before: currentEmployee, after: updatedEmployee }
+        ])
 
         return {
           success: true,
@@ -160,6 +264,787 @@ export const organizationRouter = router({
         })
       }
     }),
+
+  updateEmployee: protectedProcedure
+    .input(z.object({
+      employeeId: z.string().min(1, 'Employee ID is required'),
+      name: z.string().trim().min(1, 'Employee name is required').max(200).optional(),
+      title: z.string().trim().min(1, 'Employee title is required').max(200).optional(),
+      // Fields set to null are removed, the rest are merged into the existing custom fields
+      customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { employeeId, name, title, customFields } = input
+
+      try {
+        const currentEmployee = await databaseService.getEmployee(employeeId)
+        if (!currentEmployee) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Employee not found'
+          })
+        }
+
+        await getAuthorizedOrganization(currentEmployee.organizationId, ctx.session.user.id, 'editor')
+
+        const mergedCustomFields: Record<string, any> = { ...(currentEmployee.customFields || {}) }
+        Object.entries(customFields || {}).forEach(([key, value]) => {
+          if (value === null) {
+            delete mergedCustomFields[key]
+          } else {
+            mergedCustomFields[key] = value
+          }
+        })
+
+        const updatedEmployee: Employee = {
+          ...currentEmployee,
+          name: name ?? currentEmployee.name,
+          title: title ?? currentEmployee.title,
+          customFields: mergedCustomFields
+        }
+
+        await databaseService.updateEmployee(updatedEmployee)
+        await auditLog.record(ctx.session.user.id, currentEmployee.organizationId, [
+          { operation: 'edit', before: currentEmployee, after: updatedEmployee }
+        ])
+
+        return {
+          success: true,
+          message: 'Employee updated successfully',
+          data: updatedEmployee
+        }
+      } catch (error) {
+        console.error('Error updating employee:', error)
+        throw toTRPCError(error, 'Failed to update employee')
+      }
+    }),
+
+  deleteEmployee: protectedProcedure
+    .input(z.object({
+      employeeId: z.string().min(1, 'Employee ID is required'),
+      // What happens to the direct reports: move up to the departing person's manager,
+      // move to a named manager, or stay together under a vacant position
+      reportsStrategy: z.enum(['manager', 'reassign', 'vacancy']),
+      newManagerId: z.string().min(1).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { employeeId, reportsStrategy, newManagerId } = input
+
+      try {
+        if (reportsStrategy === 'reassign' && !newManagerId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A new manager is required to reassign direct reports'
+          })
+        }
+
+        const validation = await hierarchyValidator.validateEmployeeRemoval(
+          employeeId,
+          reportsStrategy === 'reassign' ? newManagerId! : null,
+          ctx.session.user.id
+        )
+
+        if (!validation.isValid) {
+          throw new TRPCError({
+            code: validation.errorCode === 'UNAUTHORIZED_ACCESS'
+              ? 'FORBIDDEN'
+              : validation.errorCode === 'EMPLOYEE_NOT_FOUND' ? 'NOT_FOUND' : 'BAD_REQUEST',
+            message: validation.error || 'Validation failed'
+          })
+        }
+
+        const employee = await databaseService.getEmployee(employeeId)
+        if (!employee) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Employee not found'
+          })
+        }
+
+        // A vacancy keeps the position (and its place in the tree) without the person
+        const vacancy: Employee | null = reportsStrategy === 'vacancy' ? {
+          id: `vacancy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: 'Vacant',
+          title: employee.title,
+          organizationId: employee.organizationId,
+          managerId: employee.managerId || null,
+          customFields: { Vacancy: 'Open', 'Previously held by': employee.name }
+        } : null
+
+        const reportsManagerId = reportsStrategy === 'reassign'
+          ? newManagerId!
+          : vacancy ? vacancy.id : employee.managerId || null
+
+        const organizationEmployees = await databaseService.getEmployeesByOrganization(employee.organizationId)
+        const directReports = organizationEmployees.filter(emp => emp.managerId === employeeId)
+        const reassignedReports = directReports.map(emp => ({ ...emp, managerId: reportsManagerId }))
+
+        const updatedEmployees = vacancy ? [vacancy, ...reassignedReports] : reassignedReports
+        await databaseService.deleteEmployee(employeeId, updatedEmployees)
+        await auditLog.record(ctx.session.user.id, employee.organizationId, [
+          { operation: 'delete', before: employee, after: null },
+          ...(vacancy ? [{ operation: 'create' as const, before: null, after: vacancy }] : []),
+          ...directReports.map((report, index) => ({ operation: 'move' as const, before: report, after: reassignedReports[index] }))
+        ])
+
+        return {
+          success: true,
+          message: 'Employee removed successfully',
+          data: {
+            employeeId,
+            removedEmployee: employee,
+            updatedEmployees,
+            vacancy
+          }
+        }
+      } catch (error) {
+        console.error('Error deleting employee:', error)
+        throw toTRPCError(error, 'Failed to delete employee')
+      }
+    }),
+
+  // Reads a typed command into a checked chart change; the client applies it once the user confirms
+  command: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      command: z.string().trim().min(1, 'Command is required').max(500)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const userId = ctx.session.user.id
+        const { organization } = await getAuthorizedOrganization(input.organizationId, userId, 'editor')
+        const employees = await databaseService.getEmployeesByOrganization(organization.id)
+
+        const result = commandParser.parse(input.command, employees)
+        if (!result.success || !result.command) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: result.error || 'Could not understand the command'
+          })
+        }
+
+        const { command } = result
+        const employee = command.intent === 'add' ? null : employees.find(emp => emp.id === command.employeeId) || null
+
+        // Catch what the matching mutation would reject before the user confirms
+        const validation = command.intent === 'move'
+          ? await hierarchyValidator.validateHierarchyUpdate(command.employeeId, command.newManagerId, userId)
+          : command.intent === 'remove'
+            ? await hierarchyValidator.validateEmployeeRemoval(command.employeeId, null, userId)
+            : { isValid: true }
+        if (!validation.isValid) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: validation.error || 'Validation failed'
+          })
+        }
+
+        const unchanged = (command.intent === 'move' && employee?.managerId === command.newManagerId)
+          || (command.intent === 'edit' && employee?.name === command.name && employee?.title === command.title)
+        if (unchanged) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'That would not change anything'
+          })
+        }
+
+        return {
+          success: true,
+          data: {
+            command,
+            description: result.description!,
+            employee
+          }
+        }
+      } catch (error) {
+        console.error('Error interpreting command:', error)
+        throw toTRPCError(error, 'Failed to interpret command')
+      }
+    }),
+
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const userId = ctx.session.user.id
+        const organizations = await databaseService.getUserOrganizations(userId)
+        const roles = await Promise.all(organizations.map(organization => organizationAccess.getRole(organization, userId)))
+
+        return {
+          success: true,
+          data: organizations
+            .map((organization, index) => ({ ...organization, role: roles[index] }))
+            .filter((organization): organization is Organization & { role: OrganizationRole } => organization.role !== null)
+        }
+      } catch (error) {
+        console.error('Error listing organizations:', error)
+        throw toTRPCError(error, 'Failed to list organizations')
+      }
+    }),
+
+  get: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization, role } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const employees = await databaseService.getEmployeesByOrganization(organization.id)
+
+        return {
+          success: true,
+          data: {
+            ...organization,
+            role,
+            employeeCount: employees.length
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching organization:', error)
+        throw toTRPCError(error, 'Failed to fetch organization')
+      }
+    }),
+
+  getChart: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization, role } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const employees = await databaseService.getEmployeesByOrganization(organization.id)
+
+        return {
+          success: true,
+          data: {
+            role,
+            ...toChartData(organization.id, employees, 'Loaded from saved chart')
+          }
+        }
+      } catch (error) {
+        console.error('Error loading chart:', error)
+        throw toTRPCError(error, 'Failed to load chart')
+      }
+    }),
+
+  exportChart: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      format: z.enum(['svg', 'pdf', 'pptx', 'csv', 'xlsx', 'json', 'jsonld', 'mermaid', 'dot', 'graphml']).default('svg'),
+      pageSize: z.enum(['a4', 'letter']).default('a4'),
+      orientation: z.enum(['landscape', 'portrait']).default('landscape'),
+      rootId: z.string().min(1).optional(),
+      depth: z.number().int().min(1).optional(),
+      fields: z.array(z.string().min(1)).default([]),
+      includeOverview: z.boolean().default(true),
+      layout: z.enum(['top-down', 'left-right', 'radial', 'compact', 'outline']).default('top-down')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const employees = await databaseService.getEmployeesByOrganization(organization.id)
+        if (input.rootId && !employees.some(employee => employee.id === input.rootId)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Employee not found'
+          })
+        }
+
+        return {
+          success: true,
+          data: chartExport.export(organization, employees, input.format, {
+            pageSize: input.pageSize,
+            orientation: input.orientation,
+            rootId: input.rootId,
+            depth: input.depth,
+            fields: input.fields,
+            includeOverview: input.includeOverview,
+            layout: input.layout
+          })
+        }
+      } catch (error) {
+        console.error('Error exporting chart:', error)
+        throw toTRPCError(error, 'Failed to export chart')
+      }
+    }),
+
+  getAuditLog: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      employeeId: z.string().min(1).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      limit: z.number().int().min(1).max(500).default(100)
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const { organizationId, ...filter } = input
+        const entries = await databaseService.getAuditLog(organization.id, filter)
+
+        const actorIds = Array.from(new Set(entries.map(entry => entry.actorId)))
+        const actors = await Promise.all(actorIds.map(actorId => databaseService.getUser(actorId)))
+        const actorNames = new Map(actorIds.map((actorId, index) => [actorId, actors[index]?.name || 'Unknown user']))
+
+        return {
+          success: true,
+          data: entries.map(entry => ({
+            ...entry,
+            actorName: actorNames.get(entry.actorId)!
+          }))
+        }
+      } catch (error) {
+        console.error('Error loading audit log:', error)
+        throw toTRPCError(error, 'Failed to load audit log')
+      }
+    }),
+
+  snapshots: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const versions = await databaseService.getOrganizationSnapshots(organization.id)
+
+        const creatorIds = Array.from(new Set(versions.map(version => version.createdBy)))
+        const creators = await Promise.all(creatorIds.map(creatorId => databaseService.getUser(creatorId)))
+        const creatorNames = new Map(creatorIds.map((creatorId, index) => [creatorId, creators[index]?.name || 'Unknown user']))
+
+        return {
+          success: true,
+          data: versions.map(version => ({
+            ...version,
+            createdByName: creatorNames.get(version.createdBy)!
+          }))
+        }
+      } catch (error) {
+        console.error('Error listing snapshots:', error)
+        throw toTRPCError(error, 'Failed to list snapshots')
+      }
+    }),
+
+  createSnapshot: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      name: z.string().trim().min(1, 'Snapshot name is required').max(100)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'editor')
+        const snapshot = await snapshots.capture(organization.id, input.name, 'manual', ctx.session.user.id)
+
+        return {
+          success: true,
+          message: 'Snapshot saved',
+          data: snapshot
+        }
+      } catch (error) {
+        console.error('Error creating snapshot:', error)
+        throw toTRPCError(error, 'Failed to create snapshot')
+      }
+    }),
+
+  getSnapshot: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      snapshotId: z.string().min(1, 'Snapshot ID is required')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const { employees, ...snapshot } = await getOrganizationSnapshot(organization.id, input.snapshotId)
+
+        return {
+          success: true,
+          data: {
+            snapshot: { ...snapshot, employeeCount: employees.length },
+            chart: toChartData(organization.id, employees, `Snapshot "${snapshot.name}"`)
+          }
+        }
+      } catch (error) {
+        console.error('Error loading snapshot:', error)
+        throw toTRPCError(error, 'Failed to load snapshot')
+      }
+    }),
+
+  restoreSnapshot: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      snapshotId: z.string().min(1, 'Snapshot ID is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const userId = ctx.session.user.id
+        // Restoring replaces the chart like an import does
+        const { organization } = await getAuthorizedOrganization(input.organizationId, userId, 'editor')
+        const snapshot = await getOrganizationSnapshot(organization.id, input.snapshotId)
+
+        // Keep the chart being replaced, so a restore can itself be rolled back
+        await snapshots.capture(organization.id, `Before restoring "${snapshot.name}"`, 'restore', userId)
+        const employees = await databaseService.replaceOrganizationEmployees(organization.id, snapshot.employees)
+        await auditLog.record(userId, organization.id, [{
+          operation: 'restore',
+          before: null,
+          after: null,
+          details: { snapshotId: snapshot.id, snapshotName: snapshot.name, employeeCount: employees.length }
+        }])
+
+        return {
+          success: true,
+          message: `Restored "${snapshot.name}"`,
+          data: toChartData(organization.id, employees, `Restored from snapshot "${snapshot.name}"`)
+        }
+      } catch (error) {
+        console.error('Error restoring snapshot:', error)
+        throw toTRPCError(error, 'Failed to restore snapshot')
+      }
+    }),
+
+  deleteSnapshot: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      snapshotId: z.string().min(1, 'Snapshot ID is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'editor')
+        await getOrganizationSnapshot(organization.id, input.snapshotId)
+        await databaseService.deleteSnapshot(input.snapshotId)
+
+        return {
+          success: true,
+          message: 'Snapshot deleted'
+        }
+      } catch (error) {
+        console.error('Error deleting snapshot:', error)
+        throw toTRPCError(error, 'Failed to delete snapshot')
+      }
+    }),
+
+  diff: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      baseSnapshotId: z.string().min(1, 'Base snapshot ID is required'),
+      // Compares against the live chart when left out
+      targetSnapshotId: z.string().min(1).nullish()
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const base = await getOrganizationSnapshot(organization.id, input.baseSnapshotId)
+        const target = input.targetSnapshotId
+          ? await getOrganizationSnapshot(organization.id, input.targetSnapshotId)
+          : null
+        const targetEmployees = target ? target.employees : await databaseService.getEmployeesByOrganization(organization.id)
+
+        return {
+          success: true,
+          data: {
+            base: { id: base.id, name: base.name, createdAt: base.createdAt },
+            target: target
+              ? { id: target.id, name: target.name, createdAt: target.createdAt }
+              : { id: null, name: 'Current chart', createdAt: null },
+            ...orgDiff.diff(base.employees, targetEmployees)
+          }
+        }
+      } catch (error) {
+        console.error('Error comparing versions:', error)
+        throw toTRPCError(error, 'Failed to compare versions')
+      }
+    }),
+
+  create: protectedProcedure
+    .input(z.object({
+      name: organizationName
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const organization: Organization = {
+          id: `org_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: input.name,
+          userId: ctx.session.user.id,
+          createdAt: new Date()
+        }
+
+        const createdOrganization = await databaseService.createOrganization(organization)
+
+        return {
+          success: true,
+          message: 'Organization created successfully',
+          data: createdOrganization
+        }
+      } catch (error) {
+        console.error('Error creating organization:', error)
+        throw toTRPCError(error, 'Failed to create organization')
+      }
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      name: organizationName
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'owner')
+        const renamedOrganization = await databaseService.updateOrganization({ ...organization, name: input.name })
+
+        return {
+          success: true,
+          message: 'Organization renamed successfully',
+          data: renamedOrganization
+        }
+      } catch (error) {
+        console.error('Error renaming organization:', error)
+        throw toTRPCError(error, 'Failed to rename organization')
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const userId = ctx.session.user.id
+        const { organization } = await getAuthorizedOrganization(input.organizationId, userId, 'owner')
+
+        // Uploads always need an organization of their own to land in
+        const organizations = await databaseService.getUserOrganizations(userId)
+        if (organizations.filter(owned => owned.userId === userId).length <= 1) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Cannot delete your only organization'
+          })
+        }
+
+        await databaseService.deleteOrganization(organization.id)
+
+        return {
+          success: true,
+          message: 'Organization deleted successfully',
+          data: { organizationId: organization.id }
+        }
+      } catch (error) {
+        console.error('Error deleting organization:', error)
+        throw toTRPCError(error, 'Failed to delete organization')
+      }
+    }),
+
+  members: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required')
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { organization, role } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'viewer')
+        const memberships = await databaseService.getOrganizationMembers(organization.id)
+
+        const entries = [
+          { userId: organization.userId, role: 'owner' as OrganizationRole },
+          ...memberships.map(member => ({ userId: member.userId, role: member.role }))
+        ]
+        const users = await Promise.all(entries.map(entry => databaseService.getUser(entry.userId)))
+
+        return {
+          success: true,
+          data: {
+            role,
+            members: entries.map((entry, index) => ({
+              ...entry,
+              name: users[index]?.name || 'Unknown user',
+              email: users[index]?.email || ''
+            })),
+            // Only owners manage invitations, so only they see who is pending
+            invitations: role === 'owner' ? await databaseService.getOrganizationInvitations(organization.id) : []
+          }
+        }
+      } catch (error) {
+        console.error('Error listing organization members:', error)
+        throw toTRPCError(error, 'Failed to list organization members')
+      }
+    }),
+
+  invite: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      email: z.string().trim().email('Enter a valid email address'),
+      role: memberRole
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const userId = ctx.session.user.id
+        const { organization } = await getAuthorizedOrganization(input.organizationId, userId, 'owner')
+
+        // People who already have an account join straight away
+        const invitee = await databaseService.getUserByEmail(input.email)
+        if (invitee) {
+          if (invitee.id === organization.userId) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'The owner is already a member of this organization'
+            })
+          }
+
+          const member = await databaseService.setOrganizationMember({
+            organizationId: organization.id,
+            userId: invitee.id,
+            role: input.role,
+            addedAt: new Date()
+          })
+
+          return {
+            success: true,
+            message: `${invitee.name} now has access to ${organization.name}`,
+            data: { status: 'added' as const, member }
+          }
+        }
+
+        // Otherwise the invitation waits for that email to register and open the invitation link
+        const pending = await databaseService.getOrganizationInvitations(organization.id)
+        for (const existing of pending.filter(invitation => invitation.email.toLowerCase() === input.email.toLowerCase())) {
+          await databaseService.deleteInvitation(existing.id)
+        }
+
+        const invitation: OrganizationInvitation = {
+          id: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          organizationId: organization.id,
+          email: input.email,
+          role: input.role,
+          invitedBy: userId,
+          createdAt: new Date()
+        }
+        await databaseService.createInvitation(invitation)
+
+        return {
+          success: true,
+          message: `Invitation saved for ${input.email}`,
+          data: { status: 'invited' as const, invitation, token: authService.createInvitationToken(invitation.id) }
+        }
+      } catch (error) {
+        console.error('Error inviting organization member:', error)
+        throw toTRPCError(error, 'Failed to invite member')
+      }
+    }),
+
+  acceptInvitation: protectedProcedure
+    .input(z.object({
+      token: z.string().min(1, 'Invitation token is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // The signed link proves the owner sent it; the account must also have the invited email
+        const invitationId = authService.verifyInvitationToken(input.token)
+        const member = invitationId ? await databaseService.acceptInvitation(invitationId, ctx.session.user) : null
+        if (!member) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'This invitation is no longer valid'
+          })
+        }
+
+        const organization = await databaseService.getOrganization(member.organizationId)
+
+        return {
+          success: true,
+          message: `You now have access to ${organization?.name || 'the organization'}`,
+          data: member
+        }
+      } catch (error) {
+        console.error('Error accepting invitation:', error)
+        throw toTRPCError(error, 'Failed to accept invitation')
+      }
+    }),
+
+  updateMemberRole: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      userId: z.string().min(1, 'User ID is required'),
+      role: memberRole
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'owner')
+
+        const member = await databaseService.getOrganizationMember(organization.id, input.userId)
+        if (!member) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Member not found'
+          })
+        }
+
+        const updatedMember = await databaseService.setOrganizationMember({ ...member, role: input.role })
+
+        return {
+          success: true,
+          data: updatedMember
+        }
+      } catch (error) {
+        console.error('Error updating member role:', error)
+        throw toTRPCError(error, 'Failed to update member role')
+      }
+    }),
+
+  removeMember: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      userId: z.string().min(1, 'User ID is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Members may leave on their own; removing someone else takes the owner
+        const requiredRole: OrganizationRole = input.userId === ctx.session.user.id ? 'viewer' : 'owner'
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, requiredRole)
+
+        if (input.userId === organization.userId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The owner cannot be removed from an organization'
+          })
+        }
+
+        await databaseService.removeOrganizationMember(organization.id, input.userId)
+
+        return {
+          success: true,
+          data: { organizationId: organization.id, userId: input.userId }
+        }
+      } catch (error) {
+        console.error('Error removing organization member:', error)
+        throw toTRPCError(error, 'Failed to remove member')
+      }
+    }),
+
+  revokeInvitation: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      invitationId: z.string().min(1, 'Invitation ID is required')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { organization } = await getAuthorizedOrganization(input.organizationId, ctx.session.user.id, 'owner')
+
+        const invitations = await databaseService.getOrganizationInvitations(organization.id)
+        if (!invitations.some(invitation => invitation.id === input.invitationId)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Invitation not found'
+          })
+        }
+
+        await databaseService.deleteInvitation(input.invitationId)
+
+        return {
+          success: true,
+          data: { invitationId: input.invitationId }
+        }
+      } catch (error) {
+        console.error('Error revoking invitation:', error)
+        throw toTRPCError(error, 'Failed to revoke invitation')
+      }
+    }),
 })
 
 export type OrganizationRouter = typeof organizationRouter
\ No newline at end of file
@@ -0,0 +1,59 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import { initTRPC, TRPCError } from '@trpc/server'
+import { authService, parseCookies, Session, SessionProvider } from '../services/auth'
+
+export interface Context {
+  session: Session | null
+  req?: IncomingMessage
+  res?: ServerResponse
+}
+
+// Tried in order; the first provider that recognizes the request wins
+export const sessionProviders: SessionProvider[] = [authService.localSessionProvider]
+
+/**
+ * Resolves the signed-in user for a request, or null for anonymous requests
+ */
+export const getRequestSession = async (req: IncomingMessage): Promise<Session | null> => {
+  const cookies = parseCookies(req.headers.cookie)
+
+  for (const provider of sessionProviders) {
+    const session = await provider.getSession(cookies)
+    if (session) {
+      return session
+    }
+  }
+
+  return null
+}
+
+/**
+ * Context factory shared by the API route and the web app's proxy route
+ */
+export const createContext = async ({ req, res }: { req: IncomingMessage; res: ServerResponse }): Promise<Context> => ({
+  session: await getRequestSession(req),
+  req,
+  res
+})
+
+const t = initTRPC.context<Context>().create()
+
+export const router = t.router
+export const publicProcedure = t.procedure
+
+// Rejects anonymous callers and narrows the session for the procedures behind it
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.session?.user?.id) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'User not authenticated'
+    })
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      session: ctx.session
+    }
+  })
+})
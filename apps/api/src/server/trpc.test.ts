@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { appRouter } from './trpc'
 import { AIParserService } from '../services/ai-parser'
+import { databaseService } from '../services/database'
 
 // Mock the AIParserService
 vi.mock('../services/ai-parser')
@@ -8,6 +9,14 @@ vi.mock('../services/ai-parser')
 // Mock fetch globally
 global.fetch = vi.fn()
 
+// Owner of the organization seeded by the first migration
+const demoContext = {
+  session: {
+    user: { id: 'demo-user', email: 'demo@example.com', name: 'Demo User' },
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  }
+}
+
 describe('tRPC API - parseUploadedFile', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -67,7 +76,7 @@ describe('tRPC API - parseUploadedFile', () => {
     mockAIParser.prototype.generateHierarchy = mockGenerateHierarchy
     mockAIParser.prototype.validateStructure = mockValidateStructure
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     const result = await caller.parseUploadedFile({
       fileUrl: 'https://example.com/test.csv',
@@ -90,7 +99,7 @@ describe('tRPC API - parseUploadedFile', () => {
       statusText: 'Not Found'
     } as Response)
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     await expect(caller.parseUploadedFile({
       fileUrl: 'https://example.com/nonexistent.csv',
@@ -115,7 +124,7 @@ describe('tRPC API - parseUploadedFile', () => {
 
     mockAIParser.prototype.parseFile = mockParseFile
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     await expect(caller.parseUploadedFile({
       fileUrl: 'https://example.com/invalid.csv',
@@ -140,7 +149,7 @@ describe('tRPC API - parseUploadedFile', () => {
 
     mockAIParser.prototype.parseFile = mockParseFile
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     await expect(caller.parseUploadedFile({
       fileUrl: 'https://example.com/empty.csv',
@@ -177,7 +186,7 @@ describe('tRPC API - parseUploadedFile', () => {
     mockAIParser.prototype.parseFile = mockParseFile
     mockAIParser.prototype.identifyColumns = mockIdentifyColumns
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     await expect(caller.parseUploadedFile({
       fileUrl: 'https://example.com/unclear.csv',
@@ -214,7 +223,7 @@ describe('tRPC API - parseUploadedFile', () => {
     mockAIParser.prototype.parseFile = mockParseFile
     mockAIParser.prototype.identifyColumns = mockIdentifyColumns
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     await expect(caller.parseUploadedFile({
       fileUrl: 'https://example.com/no-name.csv',
@@ -274,7 +283,7 @@ describe('tRPC API - parseUploadedFile', () => {
     mockAIParser.prototype.generateHierarchy = mockGenerateHierarchy
     mockAIParser.prototype.validateStructure = mockValidateStructure
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     // This should succeed because we have a name column (flat hierarchy is valid)
     const result = await caller.parseUploadedFile({
@@ -336,7 +345,7 @@ describe('tRPC API - parseUploadedFile', () => {
     mockAIParser.prototype.generateHierarchy = mockGenerateHierarchy
     mockAIParser.prototype.validateStructure = mockValidateStructure
 
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     const result = await caller.parseUploadedFile({
       fileUrl: 'https://example.com/comprehensive.csv',
@@ -372,8 +381,54 @@ describe('tRPC API - parseUploadedFile', () => {
     })
   })
 
+  it('should pass the encoding override to the parser and report the encoding used', async () => {
+    const mockFileBuffer = Buffer.from('Name\nJohn Doe')
+    const mockFetch = vi.mocked(fetch)
+    const mockAIParser = vi.mocked(AIParserService)
+
+    mockFetch.mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(mockFileBuffer.buffer)
+    } as Response)
+
+    const encoding = { encoding: 'windows-1252', confidence: 1, source: 'override', hasBom: false }
+    const mockParseFile = vi.fn().mockResolvedValue({
+      success: true,
+      data: [['Name'], ['John Doe']],
+      encoding
+    })
+
+    mockAIParser.prototype.parseFile = mockParseFile
+    mockAIParser.prototype.identifyColumns = vi.fn().mockReturnValue({
+      nameColumn: 0,
+      managerColumn: null,
+      titleColumn: null,
+      confidence: 0.4,
+      analysis: 'Found name column'
+    })
+    mockAIParser.prototype.generateHierarchy = vi.fn().mockReturnValue({
+      employees: [{ name: 'John Doe', customFields: {} }],
+      hierarchy: {},
+      rootEmployees: ['John Doe'],
+      orphanedEmployees: [],
+      errors: []
+    })
+    mockAIParser.prototype.validateStructure = vi.fn().mockReturnValue({ isValid: true, issues: [] })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.parseUploadedFile({
+      fileUrl: 'https://example.com/legacy.csv',
+      fileName: 'legacy.csv',
+      encoding: 'windows-1252'
+    })
+
+    expect(mockParseFile).toHaveBeenCalledWith(expect.any(Buffer), 'legacy.csv', expect.objectContaining({ encoding: 'windows-1252' }))
+    expect(result.data.encoding).toEqual(encoding)
+  })
+
   it('should validate input parameters', async () => {
-    const caller = appRouter.createCaller({})
+    const caller = appRouter.createCaller(demoContext)
     
     // Test invalid URL
     await expect(caller.parseUploadedFile({
@@ -393,4 +448,485 @@ describe('tRPC API - parseUploadedFile', () => {
       fileName: 'a'.repeat(256)
     })).rejects.toThrow()
   })
-})
\ No newline at end of file
+})
+describe('tRPC API - listWorksheets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list worksheets of an Excel workbook', async () => {
+    const mockFileBuffer = Buffer.from('workbook')
+    const mockFetch = vi.mocked(fetch)
+    const mockAIParser = vi.mocked(AIParserService)
+
+    mockFetch.mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(mockFileBuffer.buffer)
+    } as Response)
+
+    const sheets = [
+      { name: 'Instructions', rowCount: 2, headers: ['Read me'] },
+      { name: 'Roster', rowCount: 120, headers: ['Name', 'Manager'] }
+    ]
+    mockAIParser.prototype.listWorksheets = vi.fn().mockReturnValue({ success: true, sheets })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.listWorksheets({
+      fileUrl: 'https://example.com/roster.xlsx',
+      fileName: 'roster.xlsx'
+    })
+
+    expect(result.data.sheets).toEqual(sheets)
+  })
+
+  it('should return no worksheets for CSV files', async () => {
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.listWorksheets({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv'
+    })
+
+    expect(result.data.sheets).toEqual([])
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('should surface workbook read errors', async () => {
+    const mockFileBuffer = Buffer.from('broken')
+    const mockFetch = vi.mocked(fetch)
+    const mockAIParser = vi.mocked(AIParserService)
+
+    mockFetch.mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(mockFileBuffer.buffer)
+    } as Response)
+
+    mockAIParser.prototype.listWorksheets = vi.fn().mockReturnValue({ success: false, error: 'Corrupt workbook' })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    await expect(caller.listWorksheets({
+      fileUrl: 'https://example.com/broken.xlsx',
+      fileName: 'broken.xlsx'
+    })).rejects.toThrow('Corrupt workbook')
+  })
+})
+
+describe('tRPC API - previewUpload and confirmUpload', () => {
+  const rows = [
+    ['Full Name', 'Boss', 'Position', 'Email'],
+    ['Jane Smith', '', 'CEO', 'jane@acme.com'],
+    ['John Doe', 'Jane Smith', 'Developer', 'john@acme.com']
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(Buffer.from('roster').buffer)
+    } as Response)
+
+    const mockAIParser = vi.mocked(AIParserService)
+    mockAIParser.prototype.parseFile = vi.fn().mockResolvedValue({ success: true, data: rows })
+  })
+
+  it('should return headers, sample rows, guessed columns and candidate scores without persisting', async () => {
+    const mockAIParser = vi.mocked(AIParserService)
+    const columnIdentification = {
+      nameColumn: 0,
+      managerColumn: 1,
+      titleColumn: 2,
+      confidence: 0.4,
+      analysis: 'Low confidence'
+    }
+    const candidates = [{ columnIndex: 0, header: 'Full Name', scores: { name: 1 } }]
+    mockAIParser.prototype.identifyColumns = vi.fn().mockReturnValue(columnIdentification)
+    mockAIParser.prototype.scoreColumns = vi.fn().mockReturnValue(candidates)
+    mockAIParser.prototype.generateHierarchy = vi.fn()
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.previewUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv'
+    })
+
+    expect(result.data.headers).toEqual(rows[0])
+    expect(result.data.sampleRows).toEqual(rows.slice(1))
+    expect(result.data.totalRows).toBe(2)
+    expect(result.data.columnIdentification).toEqual(columnIdentification)
+    expect(result.data.candidates).toEqual(candidates)
+    expect(mockAIParser.prototype.generateHierarchy).not.toHaveBeenCalled()
+  })
+
+  it('should build the hierarchy from an explicit mapping', async () => {
+    const mockAIParser = vi.mocked(AIParserService)
+    const mockGenerateHierarchy = vi.fn().mockReturnValue({
+      employees: [
+        { name: 'Jane Smith', title: 'CEO', customFields: { Email: 'jane@acme.com' } },
+        { name: 'John Doe', title: 'Developer', manager: 'Jane Smith', customFields: { Email: 'john@acme.com' } }
+      ],
+      hierarchy: {},
+      rootEmployees: ['Jane Smith'],
+      orphanedEmployees: [],
+      errors: []
+    })
+    mockAIParser.prototype.identifyColumns = vi.fn()
+    mockAIParser.prototype.generateHierarchy = mockGenerateHierarchy
+    mockAIParser.prototype.validateStructure = vi.fn().mockReturnValue({ isValid: true, issues: [] })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: 1, titleColumn: 2, emailColumn: 3 }
+    })
+
+    expect(mockAIParser.prototype.identifyColumns).not.toHaveBeenCalled()
+    expect(mockGenerateHierarchy).toHaveBeenCalledWith(rows, 0, 1, 2, {
+      employeeId: undefined,
+      email: 3,
+      department: undefined
+    })
+    expect(result.data.employees).toHaveLength(2)
+    expect(result.data.employees[1].managerId).toBe(result.data.employees[0].id)
+    expect(result.data.columnIdentification.confidence).toBe(1)
+  })
+
+  it('should persist source employee IDs instead of generated ones', async () => {
+    const mockAIParser = vi.mocked(AIParserService)
+    mockAIParser.prototype.generateHierarchy = vi.fn().mockReturnValue({
+      employees: [
+        { id: '1001', name: 'Jane Smith', title: 'CEO', customFields: {} },
+        { id: '1002', managerId: '1001', name: 'John Doe', title: 'Developer', manager: 'Jane Smith', customFields: {} }
+      ],
+      hierarchy: {},
+      rootEmployees: ['1001'],
+      orphanedEmployees: [],
+      errors: []
+    })
+    mockAIParser.prototype.validateStructure = vi.fn().mockReturnValue({ isValid: true, issues: [] })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: null, titleColumn: 2, employeeIdColumn: 1 }
+    })
+
+    expect(result.data.employees.map(employee => employee.id)).toEqual(['1001', '1002'])
+    expect(result.data.employees[1].managerId).toBe('1001')
+    expect(result.data.rootEmployees.map(employee => employee.id)).toEqual(['1001'])
+  })
+
+  it('should report manager matches using persisted employee IDs', async () => {
+    const mockAIParser = vi.mocked(AIParserService)
+    mockAIParser.prototype.generateHierarchy = vi.fn().mockReturnValue({
+      employees: [
+        { name: 'Jane Smith', title: 'CEO', customFields: {} },
+        { name: 'John Doe', title: 'Developer', manager: 'Jayne Smyth', customFields: {} }
+      ],
+      hierarchy: {},
+      rootEmployees: ['Jane Smith', 'John Doe'],
+      orphanedEmployees: [],
+      errors: [],
+      reconciliation: {
+        autoApplied: [],
+        needsReview: [{
+          employeeKey: 'John Doe',
+          employeeName: 'John Doe',
+          managerReference: 'Jayne Smyth',
+          candidates: [{ employeeKey: 'Jane Smith', name: 'Jane Smith', score: 0.8 }]
+        }]
+      }
+    })
+    mockAIParser.prototype.validateStructure = vi.fn().mockReturnValue({ isValid: true, issues: [] })
+
+    const caller = appRouter.createCaller(demoContext)
+
+    const result = await caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: 1, titleColumn: 2 }
+    })
+
+    const [jane, john] = result.data.employees
+    expect(result.data.reconciliation.needsReview).toEqual([{
+      employeeId: john.id,
+      employeeName: 'John Doe',
+      managerReference: 'Jayne Smyth',
+      candidates: [{ employeeId: jane.id, name: 'Jane Smith', score: 0.8 }]
+    }])
+    expect(result.data.reconciliation.autoApplied).toEqual([])
+  })
+
+  it('should reject mappings that reuse a column', async () => {
+    const caller = appRouter.createCaller(demoContext)
+
+    await expect(caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: 0, titleColumn: null }
+    })).rejects.toThrow('Each column can only be mapped to one field')
+  })
+
+  it('should reject mappings to columns outside the file', async () => {
+    const caller = appRouter.createCaller(demoContext)
+
+    await expect(caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: 1, titleColumn: 9 }
+    })).rejects.toThrow('Column mapping refers to a column that does not exist')
+  })
+
+  describe('import target', () => {
+    // The database outlives each test, so every test imports its own source IDs
+    const mockRoster = (prefix: string, ceoTitle = 'CEO') => {
+      vi.mocked(AIParserService).prototype.generateHierarchy = vi.fn().mockReturnValue({
+        employees: [
+          { id: `${prefix}-1`, name: 'Jane Smith', title: ceoTitle, customFields: {} },
+          { id: `${prefix}-2`, managerId: `${prefix}-1`, name: 'John Doe', title: 'Developer', customFields: {} }
+        ],
+        hierarchy: {},
+        rootEmployees: [`${prefix}-1`],
+        orphanedEmployees: [],
+        errors: []
+      })
+    }
+
+    beforeEach(() => {
+      vi.mocked(AIParserService).prototype.validateStructure = vi.fn().mockReturnValue({ isValid: true, issues: [] })
+    })
+
+    const upload = {
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: null, titleColumn: 2, employeeIdColumn: 1 }
+    }
+
+    it('should store the upload in a newly named organization', async () => {
+      mockRoster('A')
+      const caller = appRouter.createCaller(demoContext)
+
+      const result = await caller.confirmUpload({ ...upload, newOrganizationName: 'Scenario A' })
+
+      const organization = await databaseService.getOrganization(result.data.organizationId)
+      expect(organization?.name).toBe('Scenario A')
+      expect((await databaseService.getEmployeesByOrganization(result.data.organizationId)).map(employee => employee.id))
+        .toEqual(['A-1', 'A-2'])
+    })
+
+    it('should replace the chart of the chosen organization on re-import', async () => {
+      mockRoster('B')
+      const caller = appRouter.createCaller(demoContext)
+      const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Subsidiary' })
+
+      mockRoster('B', 'Chair')
+      await caller.confirmUpload({ ...upload, organizationId: first.organizationId })
+
+      const employees = await databaseService.getEmployeesByOrganization(first.organizationId)
+      expect(employees.map(employee => [employee.id, employee.title])).toEqual([['B-1', 'Chair'], ['B-2', 'Developer']])
+    })
+
+    it('should keep charts with the same source IDs apart', async () => {
+      mockRoster('C')
+      const caller = appRouter.createCaller(demoContext)
+
+      const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Plan A' })
+      const { data: second } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Plan B' })
+
+      expect(first.employees.map(employee => employee.id)).toEqual(['C-1', 'C-2'])
+      expect(second.employees.map(employee => employee.id)).toEqual([
+        `${second.organizationId}:C-1`,
+        `${second.organizationId}:C-2`
+      ])
+      expect(second.employees[1].managerId).toBe(`${second.organizationId}:C-1`)
+      expect(await databaseService.getEmployeesByOrganization(first.organizationId)).toHaveLength(2)
+    })
+
+    it('should log each import in the organization\'s change log', async () => {
+      mockRoster('E')
+      const caller = appRouter.createCaller(demoContext)
+
+      const { data } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Audited' })
+
+      expect(await databaseService.getAuditLog(data.organizationId)).toEqual([expect.objectContaining({
+        actorId: 'demo-user',
+        operation: 'import',
+        employeeId: null,
+        details: { fileName: 'roster.csv', employeeCount: 2 }
+      })])
+    })
+
+    it('should keep every import as a version', async () => {
+      mockRoster('F')
+      const caller = appRouter.createCaller(demoContext)
+
+      const { data } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Versioned' })
+
+      const [version] = await databaseService.getOrganizationSnapshots(data.organizationId)
+      expect(version).toMatchObject({ name: 'Import of roster.csv', source: 'import', createdBy: 'demo-user', employeeCount: 2 })
+      expect((await databaseService.getSnapshot(version.id))?.employees.map(employee => employee.id)).toEqual(['F-1', 'F-2'])
+    })
+
+    it('should restore a version without taking over IDs another organization has since imported', async () => {
+      const caller = appRouter.createCaller(demoContext)
+      mockRoster('R')
+      const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Restored' })
+      const [version] = await databaseService.getOrganizationSnapshots(first.organizationId)
+      mockRoster('S')
+      await caller.confirmUpload({ ...upload, organizationId: first.organizationId })
+      // The R IDs are free again, so the other organization keeps them as they are
+      mockRoster('R', 'Chair')
+      const { data: other } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Other' })
+
+      const { data: restored } = await caller.organization.restoreSnapshot({ organizationId: first.organizationId, snapshotId: version.id })
+
+      expect(restored.employees.map(employee => [employee.id, employee.managerId || null])).toEqual([
+        [`${first.organizationId}:R-1`, null],
+        [`${first.organizationId}:R-2`, `${first.organizationId}:R-1`]
+      ])
+      expect((await databaseService.getEmployeesByOrganization(other.organizationId)).map(employee => [employee.id, employee.title]))
+        .toEqual([['R-1', 'Chair'], ['R-2', 'Developer']])
+    })
+
+    describe('sync', () => {
+      // Later exports of the same roster: John is promoted, Sam joins and Jane has left
+      const mockNextRoster = (prefix: string) => {
+        vi.mocked(AIParserService).prototype.generateHierarchy = vi.fn().mockReturnValue({
+          employees: [
+            { id: `${prefix}-2`, name: 'John Doe', title: 'CTO', customFields: {} },
+            { id: `${prefix}-3`, managerId: `${prefix}-2`, name: 'Sam Lee', title: 'Developer', customFields: {} }
+          ],
+          hierarchy: {},
+          rootEmployees: [`${prefix}-2`],
+          orphanedEmployees: [],
+          errors: []
+        })
+      }
+
+      it('should preview the merge without changing the chart', async () => {
+        mockRoster('G')
+        const caller = appRouter.createCaller(demoContext)
+        const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Synced' })
+
+        mockNextRoster('G')
+        const { data: preview } = await caller.previewSync({ ...upload, organizationId: first.organizationId })
+
+        expect(preview.entries.map(entry => [entry.employeeId, entry.changes])).toEqual([
+          ['G-3', ['added']],
+          ['G-2', ['moved', 'retitled']]
+        ])
+        expect(preview.missing.map(employee => employee.id)).toEqual(['G-1'])
+        expect(preview.summary).toEqual({ added: 1, updated: 1, unchanged: 0, missing: 1, removed: 0 })
+        expect((await databaseService.getEmployeesByOrganization(first.organizationId)).map(employee => employee.id))
+          .toEqual(['G-1', 'G-2'])
+      })
+
+      it('should keep manual edits and missing people when merging', async () => {
+        mockRoster('H')
+        const caller = appRouter.createCaller(demoContext)
+        const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Merged' })
+        await databaseService.updateEmployee({ ...first.employees[1], customFields: { Desk: '4B' } })
+
+        mockNextRoster('H')
+        await caller.confirmUpload({ ...upload, organizationId: first.organizationId, mode: 'sync' })
+
+        const employees = await databaseService.getEmployeesByOrganization(first.organizationId)
+        expect(employees.map(employee => [employee.id, employee.title, employee.managerId])).toEqual([
+          ['H-2', 'CTO', null],
+          ['H-3', 'Developer', 'H-2'],
+          ['H-1', 'CEO', null]
+        ])
+        expect(employees[0].customFields).toEqual({ Desk: '4B' })
+      })
+
+      it('should remove missing people and log each change', async () => {
+        mockRoster('I')
+        const caller = appRouter.createCaller(demoContext)
+        const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Trimmed' })
+
+        mockNextRoster('I')
+        const { data } = await caller.confirmUpload({ ...upload, organizationId: first.organizationId, mode: 'sync', removeMissing: true })
+
+        expect(data.employees.map(employee => employee.id)).toEqual(['I-2', 'I-3'])
+        const log = await databaseService.getAuditLog(first.organizationId)
+        expect(log.filter(entry => entry.details?.mode === 'sync')).toEqual([expect.objectContaining({
+          details: { fileName: 'roster.csv', employeeCount: 2, mode: 'sync', added: 1, updated: 1, unchanged: 0, missing: 1, removed: 1 }
+        })])
+        expect(log.filter(entry => entry.employeeId).map(entry => [entry.operation, entry.employeeId])).toEqual(
+          expect.arrayContaining([['delete', 'I-1'], ['create', 'I-3'], ['move', 'I-2']])
+        )
+      })
+
+      it('should need an existing organization to sync into', async () => {
+        mockRoster('J')
+        const caller = appRouter.createCaller(demoContext)
+        const { data: first } = await caller.confirmUpload({ ...upload, newOrganizationName: 'Synced into' })
+        const organizationCount = (await databaseService.getUserOrganizations('demo-user')).length
+
+        mockNextRoster('J')
+        await expect(caller.confirmUpload({ ...upload, mode: 'sync' }))
+          .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Choose an organization to sync into' })
+        await expect(caller.confirmUpload({ ...upload, newOrganizationName: 'Nowhere', mode: 'sync' }))
+          .rejects.toMatchObject({ code: 'BAD_REQUEST' })
+        await expect(caller.confirmUpload({ ...upload, organizationId: first.organizationId, newOrganizationName: 'Nowhere', mode: 'sync' }))
+          .rejects.toMatchObject({ code: 'BAD_REQUEST' })
+
+        expect(await databaseService.getUserOrganizations('demo-user')).toHaveLength(organizationCount)
+        expect((await databaseService.getEmployeesByOrganization(first.organizationId)).map(employee => employee.id))
+          .toEqual(['J-1', 'J-2'])
+      })
+    })
+
+    it('should not leave a new organization behind when the chart cannot be built', async () => {
+      vi.mocked(AIParserService).prototype.generateHierarchy = vi.fn().mockImplementation(() => {
+        throw new Error('Unreadable roster')
+      })
+      const caller = appRouter.createCaller(demoContext)
+      const organizationCount = (await databaseService.getUserOrganizations('demo-user')).length
+
+      await expect(caller.confirmUpload({ ...upload, newOrganizationName: 'Never built' }))
+        .rejects.toThrow('Unreadable roster')
+
+      expect(await databaseService.getUserOrganizations('demo-user')).toHaveLength(organizationCount)
+    })
+
+    it('should reject uploads into an unknown organization', async () => {
+      mockRoster('D')
+      const caller = appRouter.createCaller(demoContext)
+
+      await expect(caller.confirmUpload({ ...upload, organizationId: 'missing-org' }))
+        .rejects.toThrow('Organization not found')
+    })
+
+    it('should refuse uploads from viewers with FORBIDDEN', async () => {
+      mockRoster('V')
+      const { data } = await appRouter.createCaller(demoContext).confirmUpload({ ...upload, newOrganizationName: 'Read only' })
+      await databaseService.setOrganizationMember({ organizationId: data.organizationId, userId: 'viewer-user', role: 'viewer', addedAt: new Date() })
+      const viewer = appRouter.createCaller({
+        session: { user: { id: 'viewer-user', email: 'viewer@example.com', name: 'Viewer' }, expiresAt: demoContext.session.expiresAt }
+      })
+
+      await expect(viewer.confirmUpload({ ...upload, organizationId: data.organizationId }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' })
+      await expect(viewer.confirmUpload({ ...upload, organizationId: 'missing-org' }))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  it('should reject uploads from callers who are not signed in', async () => {
+    const caller = appRouter.createCaller({ session: null })
+
+    await expect(caller.confirmUpload({
+      fileUrl: 'https://example.com/roster.csv',
+      fileName: 'roster.csv',
+      mapping: { nameColumn: 0, managerColumn: null, titleColumn: null }
+    })).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+  })
+})
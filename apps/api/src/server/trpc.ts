@@ -1,16 +1,353 @@
-import { initTRPC } from '@trpc/server'
 import { z } from 'zod'
-import { AIParserService } from '../services/ai-parser'
+import { TRPCError } from '@trpc/server'
+import { AIParserService, ColumnMapping, FileParsingOptions, ManagerMatchProposal } from '../services/ai-parser'
+import { SUPPORTED_ENCODINGS } from '../services/encoding-detector'
 import { databaseService } from '../services/database'
-import { organizationRouter } from '../routers/organization'
+import { AuditLogService } from '../services/audit-log'
+import { SnapshotService } from '../services/snapshots'
+import { ImportSyncService, ImportSyncPlan } from '../services/import-sync'
+import { ChartBuilderService } from '../services/chart-builder'
+import { organizationRouter, getAuthorizedOrganization } from '../routers/organization'
+import { authRouter } from '../routers/auth'
+import { AuditOperation, Organization } from '../../../../packages/shared'
+import { router, publicProcedure, protectedProcedure } from './context'
 
-const t = initTRPC.create()
+const auditLog = new AuditLogService(databaseService)
+const snapshots = new SnapshotService(databaseService)
+const importSync = new ImportSyncService()
+const chartBuilder = new ChartBuilderService()
 
-export const router = t.router
-export const publicProcedure = t.procedure
-export const protectedProcedure = t.procedure
+// Resolves an uploaded file reference to its raw bytes
+const loadFileBuffer = async (fileUrl: string): Promise<Buffer> => {
+  // Check if it's a data URL (for local development)
+  if (fileUrl.startsWith('data:')) {
+    const base64Data = fileUrl.split(',')[1]
+    return Buffer.from(base64Data, 'base64')
+  }
+
+  // Fetch the file from Vercel Blob storage
+  const response = await fetch(fileUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file: ${response.statusText}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+// Loads and parses an uploaded file, failing when it holds no rows
+const parseUploadedRows = async (aiParser: AIParserService, fileUrl: string, fileName: string, options: FileParsingOptions) => {
+  const fileBuffer = await loadFileBuffer(fileUrl)
+
+  const parseResult = await aiParser.parseFile(fileBuffer, fileName, options)
+  if (!parseResult.success) {
+    throw new Error(parseResult.error || 'Failed to parse file')
+  }
+
+  if (!parseResult.data || parseResult.data.length === 0) {
+    throw new Error('No data found in file')
+  }
+
+  return { ...parseResult, data: parseResult.data }
+}
+
+// Access errors keep their code, so viewers and outsiders see FORBIDDEN or NOT_FOUND; anything else
+// is reported with what the upload step was doing
+const toUploadError = (error: unknown, action: string): Error => {
+  if (error instanceof TRPCError) {
+    return error
+  }
+
+  return new Error(`${action}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+}
+
+// Where an upload is stored; a newly named organization is only created once its chart is ready
+interface ImportTarget {
+  organizationId: string
+  newOrganization?: Organization
+}
+
+// Picks the organization an upload is stored in
+const resolveImportTarget = async (
+  userId: string,
+  target: { organizationId?: string; newOrganizationName?: string }
+): Promise<ImportTarget> => {
+  if (target.newOrganizationName) {
+    const newOrganization: Organization = {
+      id: `org_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: target.newOrganizationName,
+      userId,
+      createdAt: new Date()
+    }
+    return { organizationId: newOrganization.id, newOrganization }
+  }
+
+  // Importing replaces the chart, so viewers cannot upload
+  if (target.organizationId) {
+    const { organization } = await getAuthorizedOrganization(target.organizationId, userId, 'editor')
+    return { organizationId: organization.id }
+  }
+
+  // Without a target, uploads go to the first organization the user owns
+  const organizations = await databaseService.getUserOrganizations(userId)
+  const firstOrganization = organizations.find(organization => organization.userId === userId)
+  if (!firstOrganization) {
+    throw new Error('No organization to import into')
+  }
+  return { organizationId: firstOrganization.id }
+}
+
+// Creates a newly named organization just before its chart is stored, and removes it again if storing fails
+const storeInTarget = async <T>(target: ImportTarget, store: () => Promise<T>): Promise<T> => {
+  if (!target.newOrganization) {
+    return store()
+  }
+
+  await databaseService.createOrganization(target.newOrganization)
+  try {
+    return await store()
+  } catch (error) {
+    await databaseService.deleteOrganization(target.newOrganization.id)
+    throw error
+  }
+}
+
+// Builds the org hierarchy from parsed rows using a column mapping, without storing it
+const buildImportedChart = async (
+  aiParser: AIParserService,
+  data: any[][],
+  mapping: ColumnMapping,
+  organizationId: string
+) => {
+  // Generate hierarchical structure
+  const hierarchy = aiParser.generateHierarchy(
+    data,
+    mapping.nameColumn,
+    mapping.managerColumn ?? -1,
+    mapping.titleColumn,
+    {
+      employeeId: mapping.employeeIdColumn,
+      managerId: mapping.managerIdColumn,
+      email: mapping.emailColumn,
+      department: mapping.departmentColumn
+    }
+  )
+
+  // Transform employees to include required Employee interface properties
+  const importedAt = Date.now()
+  const persistedIds = await Promise.all(hierarchy.employees.map(async (emp, index) => {
+    if (!emp.id) {
+      return `emp-${importedAt}-${index}`
+    }
+
+    // Keep source IDs, unless another organization (e.g. a scenario copy of the same file) already uses them
+    const existing = await databaseService.getEmployee(emp.id)
+    return existing && existing.organizationId !== organizationId ? `${organizationId}:${emp.id}` : emp.id
+  }))
+  const employeesWithIds = hierarchy.employees.map((emp, index) => ({
+    id: persistedIds[index],
+    name: emp.name,
+    title: emp.title || 'Unknown Title',
+    organizationId,
+    managerId: null as string | null, // Will be set after we build the key-to-ID mapping
+    customFields: emp.customFields || {}
+  }))
+
+  // Hierarchy keys are source IDs when the file has them, names otherwise
+  const keyToIdMap = new Map<string, string>()
+  const employeesByKey = new Map<string, typeof employeesWithIds[number]>()
+  hierarchy.employees.forEach((emp, index) => {
+    const key = emp.id || emp.name
+    keyToIdMap.set(key, employeesWithIds[index].id)
+    employeesByKey.set(key, employeesWithIds[index])
+  })
+
+  // Now update managerId fields with actual IDs
+  employeesWithIds.forEach((emp, index) => {
+    const originalEmp = hierarchy.employees[index]
+    const managerKey = originalEmp.id ? originalEmp.managerId : originalEmp.manager
+    if (managerKey) {
+      emp.managerId = keyToIdMap.get(managerKey) || null
+    }
+  })
+
+  // Update hierarchy and related arrays to use the new employee IDs
+  const updatedHierarchy: Record<string, any> = {}
+  const updatedRootEmployees = []
+  const updatedOrphanedEmployees = []
+
+  // Update hierarchy structure with new IDs
+  for (const [key, value] of Object.entries(hierarchy.hierarchy)) {
+    const newKey = keyToIdMap.get(key) || key
+    updatedHierarchy[newKey] = {
+      ...value,
+      managerId: value.managerId ? keyToIdMap.get(value.managerId) || value.managerId : null,
+      directReports: value.directReports.map((reportKey: string) => 
+        keyToIdMap.get(reportKey) || reportKey
+      )
+    }
+  }
+
+  // Update root employees
+  for (const rootEmpKey of hierarchy.rootEmployees) {
+    const empWithId = employeesByKey.get(rootEmpKey)
+    if (empWithId) {
+      updatedRootEmployees.push(empWithId)
+    }
+  }
+
+  // Update orphaned employees
+  for (const orphanEmpKey of hierarchy.orphanedEmployees) {
+    const empWithId = employeesByKey.get(orphanEmpKey)
+    if (empWithId) {
+      updatedOrphanedEmployees.push(empWithId)
+    }
+  }
+
+  // Report fuzzy manager matches against persisted IDs so the client can accept or reject them
+  const toMatchReport = (proposal: ManagerMatchProposal) => ({
+    employeeId: keyToIdMap.get(proposal.employeeKey) || proposal.employeeKey,
+    employeeName: proposal.employeeName,
+    managerReference: proposal.managerReference,
+    candidates: proposal.candidates.map(candidate => ({
+      employeeId: keyToIdMap.get(candidate.employeeKey) || candidate.employeeKey,
+      name: candidate.name,
+      score: candidate.score
+    }))
+  })
+
+  // Validate structure
+  const validation = aiParser.validateStructure(hierarchy)
+
+  return {
+    organizationId,
+    employees: employeesWithIds,
+    hierarchy: updatedHierarchy,
+    rootEmployees: updatedRootEmployees,
+    orphanedEmployees: updatedOrphanedEmployees,
+    validation: {
+      isValid: validation.isValid,
+      issues: validation.issues
+    },
+    statistics: {
+      totalEmployees: hierarchy.employees.length,
+      rootEmployees: hierarchy.rootEmployees.length,
+      orphanedEmployees: hierarchy.orphanedEmployees.length,
+      totalErrors: hierarchy.errors.length
+    },
+    reconciliation: {
+      autoApplied: (hierarchy.reconciliation?.autoApplied || []).map(toMatchReport),
+      needsReview: (hierarchy.reconciliation?.needsReview || []).map(toMatchReport)
+    }
+  }
+}
+
+type ImportedChart = Awaited<ReturnType<typeof buildImportedChart>>
+
+// An upload is the organization's whole chart, so it replaces whatever was imported before
+const replaceChart = async (chart: ImportedChart, importedBy: { actorId: string; fileName: string }) => {
+  await databaseService.replaceOrganizationEmployees(chart.organizationId, chart.employees)
+  // Every import becomes a version the organization can go back to
+  await snapshots.capture(chart.organizationId, `Import of ${importedBy.fileName}`, 'import', importedBy.actorId, chart.employees)
+  await auditLog.record(importedBy.actorId, chart.organizationId, [{
+    operation: 'import',
+    before: null,
+    after: null,
+    details: { fileName: importedBy.fileName, employeeCount: chart.employees.length }
+  }])
+
+  return chart
+}
+
+// Works out how an upload merges into the organization's current chart
+const planChartSync = async (chart: ImportedChart, mapping: ColumnMapping, removeMissing: boolean) => {
+  const existing = await databaseService.getEmployeesByOrganization(chart.organizationId)
+  return importSync.plan(existing, chart.employees, { removeMissing, updateTitles: mapping.titleColumn !== null })
+}
+
+// Merges an upload into the organization's chart, keeping the IDs and manual edits of everyone it matches
+const syncChart = async (chart: ImportedChart, plan: ImportSyncPlan, importedBy: { actorId: string; fileName: string }) => {
+  await databaseService.replaceOrganizationEmployees(chart.organizationId, plan.employees)
+  await snapshots.capture(chart.organizationId, `Sync of ${importedBy.fileName}`, 'import', importedBy.actorId, plan.employees)
+  // Everyone keeps their ID, so each change can be logged against the person it affects
+  await auditLog.record(importedBy.actorId, chart.organizationId, [
+    {
+      operation: 'import',
+      before: null,
+      after: null,
+      details: { fileName: importedBy.fileName, employeeCount: plan.employees.length, mode: 'sync', ...plan.summary }
+    },
+    ...plan.entries.map(entry => ({
+      operation: (!entry.before ? 'create' : !entry.after ? 'delete' : entry.changes.includes('moved') ? 'move' : 'edit') as AuditOperation,
+      before: entry.before,
+      after: entry.after
+    }))
+  ])
+
+  const toStoredId = (employeeId: string) => plan.storedIds.get(employeeId) || employeeId
+  const toStoredMatch = (match: ImportedChart['reconciliation']['needsReview'][number]) => ({
+    ...match,
+    employeeId: toStoredId(match.employeeId),
+    candidates: match.candidates.map(candidate => ({ ...candidate, employeeId: toStoredId(candidate.employeeId) }))
+  })
+
+  return {
+    organizationId: chart.organizationId,
+    ...chartBuilder.buildChart(plan.employees),
+    reconciliation: {
+      autoApplied: chart.reconciliation.autoApplied.map(toStoredMatch),
+      needsReview: chart.reconciliation.needsReview.map(toStoredMatch)
+    }
+  }
+}
+
+const uploadedFileInput = z.object({
+  fileUrl: z.string().url(),
+  fileName: z.string().min(1).max(255),
+  encoding: z.enum(SUPPORTED_ENCODINGS).optional(),
+  sheetName: z.string().min(1).optional(),
+  mergeSheets: z.boolean().optional()
+})
+
+// Uploads go to an existing organization, a newly named one, or the first organization the user owns
+const importTargetInput = z.object({
+  organizationId: z.string().min(1).optional(),
+  newOrganizationName: z.string().trim().min(1).max(100).optional()
+})
+
+// A sync merges the upload into the organization's chart instead of replacing it
+const importModeInput = z.object({
+  mode: z.enum(['replace', 'sync']).default('replace'),
+  removeMissing: z.boolean().default(false)
+})
+
+const optionalColumn = z.number().int().min(0).nullable().optional()
+
+const columnMappingInput = z.object({
+  nameColumn: z.number().int().min(0),
+  managerColumn: z.number().int().min(0).nullable(),
+  titleColumn: z.number().int().min(0).nullable(),
+  employeeIdColumn: optionalColumn,
+  managerIdColumn: optionalColumn,
+  emailColumn: optionalColumn,
+  departmentColumn: optionalColumn
+})
+
+// Each mapped column must exist and may only be used for one field
+const validateColumnMapping = (data: any[][], mapping: ColumnMapping) => {
+  const columnCount = data[0]?.length || 0
+  const mappedColumns = Object.values(mapping).filter((column): column is number => typeof column === 'number')
+  if (mappedColumns.some(column => column >= columnCount)) {
+    throw new Error('Column mapping refers to a column that does not exist')
+  }
+  if (new Set(mappedColumns).size !== mappedColumns.length) {
+    throw new Error('Each column can only be mapped to one field')
+  }
+}
+
+// Number of data rows returned for the mapping review table
+const PREVIEW_SAMPLE_ROWS = 5
 
 export const appRouter = router({
+  auth: authRouter,
   organization: organizationRouter,
   hello: publicProcedure
     .input(z.object({ name: z.string().optional() }))
@@ -21,7 +358,7 @@ export const appRouter = router({
       }
     }),
   
-  parseUploadedFile: protectedProcedure
+  listWorksheets: protectedProcedure
     .input(z.object({
       fileUrl: z.string().url(),
       fileName: z.string().min(1).max(255)
@@ -31,30 +368,40 @@ export const appRouter = router({
       const aiParser = new AIParserService()
 
       try {
-        let fileBuffer: Buffer
-        
-        // Check if it's a data URL (for local development)
-        if (fileUrl.startsWith('data:')) {
-          const base64Data = fileUrl.split(',')[1]
-          fileBuffer = Buffer.from(base64Data, 'base64')
-        } else {
-          // Fetch the file from Vercel Blob storage
-          const response = await fetch(fileUrl)
-          if (!response.ok) {
-            throw new Error(`Failed to fetch file: ${response.statusText}`)
+        // CSV files have no worksheets to choose from
+        const extension = fileName.split('.').pop()?.toLowerCase()
+        if (extension !== 'xlsx' && extension !== 'xls') {
+          return {
+            success: true,
+            data: { sheets: [] }
           }
-          fileBuffer = Buffer.from(await response.arrayBuffer())
         }
 
-        // Parse the file content
-        const parseResult = await aiParser.parseFile(fileBuffer, fileName)
-        if (!parseResult.success) {
-          throw new Error(parseResult.error || 'Failed to parse file')
+        const fileBuffer = await loadFileBuffer(fileUrl)
+        const result = aiParser.listWorksheets(fileBuffer)
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to read workbook')
         }
 
-        if (!parseResult.data || parseResult.data.length === 0) {
-          throw new Error('No data found in file')
+        return {
+          success: true,
+          data: { sheets: result.sheets || [] }
         }
+      } catch (error) {
+        console.error('Error listing worksheets:', error)
+        throw toUploadError(error, 'Failed to list worksheets')
+      }
+    }),
+
+  parseUploadedFile: protectedProcedure
+    .input(uploadedFileInput.merge(importTargetInput))
+    .mutation(async ({ ctx, input }) => {
+      const { fileUrl, fileName, encoding, sheetName, mergeSheets } = input
+      const aiParser = new AIParserService()
+
+      try {
+        // Parse the file content
+        const parseResult = await parseUploadedRows(aiParser, fileUrl, fileName, { encoding, sheetName, mergeSheets })
 
         // Identify columns using AI logic
         const columnResult = aiParser.identifyColumns(parseResult.data)
@@ -66,105 +413,140 @@ export const appRouter = router({
           throw new Error('Could not identify employee name column')
         }
 
-        // Generate hierarchical structure
-        const hierarchy = aiParser.generateHierarchy(
-          parseResult.data,
-          columnResult.nameColumn,
-          columnResult.managerColumn || -1,
-          columnResult.titleColumn
-        )
-
-        // Transform employees to include required Employee interface properties
-        const employeesWithIds = hierarchy.employees.map((emp, index) => ({
-          id: `emp-${Date.now()}-${index}`, // Generate unique ID
-          name: emp.name,
-          title: emp.title || 'Unknown Title',
-          organizationId: 'default-org', // Use default organization ID
-          managerId: null, // Will be set after we build the name-to-ID mapping
-          customFields: emp.customFields || {}
-        }))
-
-        // Build ID mapping from old employee references to new IDs
-        const nameToIdMap = new Map()
-        employeesWithIds.forEach(emp => {
-          nameToIdMap.set(emp.name, emp.id)
-        })
-
-        // Now update managerId fields with actual IDs
-        employeesWithIds.forEach(emp => {
-          const originalEmp = hierarchy.employees.find(e => e.name === emp.name)
-          if (originalEmp && originalEmp.manager) {
-            emp.managerId = nameToIdMap.get(originalEmp.manager) || null
-          }
-        })
-
-        // Update hierarchy and related arrays to use the new employee IDs
-        const updatedHierarchy: Record<string, any> = {}
-        const updatedRootEmployees = []
-        const updatedOrphanedEmployees = []
-
-        // Update hierarchy structure with new IDs
-        for (const [key, value] of Object.entries(hierarchy.hierarchy)) {
-          const newKey = nameToIdMap.get(key) || key
-          updatedHierarchy[newKey] = {
-            ...value,
-            managerId: value.managerId ? nameToIdMap.get(value.managerId) || value.managerId : null,
-            directReports: value.directReports.map((reportName: string) => 
-              nameToIdMap.get(reportName) || reportName
-            )
+        const target = await resolveImportTarget(ctx.session.user.id, input)
+        const importedChart = await buildImportedChart(aiParser, parseResult.data, {
+          nameColumn: columnResult.nameColumn,
+          managerColumn: columnResult.managerColumn,
+          titleColumn: columnResult.titleColumn,
+          employeeIdColumn: columnResult.employeeIdColumn,
+          managerIdColumn: columnResult.managerIdColumn
+        }, target.organizationId)
+        const chart = await storeInTarget(target, () => replaceChart(importedChart, { actorId: ctx.session.user.id, fileName }))
+
+        return {
+          success: true,
+          data: {
+            ...chart,
+            columnIdentification: {
+              nameColumn: columnResult.nameColumn,
+              managerColumn: columnResult.managerColumn,
+              confidence: columnResult.confidence,
+              analysis: columnResult.analysis
+            },
+            // Only CSV files carry a detected encoding; users can re-parse with an override
+            encoding: parseResult.encoding || null,
+            worksheets: parseResult.worksheets || null
           }
         }
+      } catch (error) {
+        console.error('Error parsing uploaded file:', error)
+        throw toUploadError(error, 'Failed to parse uploaded file')
+      }
+    }),
 
-        // Update root employees
-        for (const rootEmpName of hierarchy.rootEmployees) {
-          const empWithId = employeesWithIds.find(e => e.name === rootEmpName)
-          if (empWithId) {
-            updatedRootEmployees.push(empWithId)
+  previewUpload: protectedProcedure
+    .input(uploadedFileInput)
+    .mutation(async ({ input }) => {
+      const { fileUrl, fileName, encoding, sheetName, mergeSheets } = input
+      const aiParser = new AIParserService()
+
+      try {
+        const parseResult = await parseUploadedRows(aiParser, fileUrl, fileName, { encoding, sheetName, mergeSheets })
+        const [headerRow, ...rows] = parseResult.data
+
+        return {
+          success: true,
+          data: {
+            headers: (headerRow || []).map((header: any) => String(header ?? '').trim()),
+            sampleRows: rows.slice(0, PREVIEW_SAMPLE_ROWS),
+            totalRows: rows.length,
+            columnIdentification: aiParser.identifyColumns(parseResult.data),
+            candidates: aiParser.scoreColumns(parseResult.data),
+            encoding: parseResult.encoding || null,
+            worksheets: parseResult.worksheets || null
           }
         }
+      } catch (error) {
+        console.error('Error previewing uploaded file:', error)
+        throw toUploadError(error, 'Failed to preview uploaded file')
+      }
+    }),
 
-        // Update orphaned employees
-        for (const orphanEmpName of hierarchy.orphanedEmployees) {
-          const empWithId = employeesWithIds.find(e => e.name === orphanEmpName)
-          if (empWithId) {
-            updatedOrphanedEmployees.push(empWithId)
+  previewSync: protectedProcedure
+    .input(uploadedFileInput.extend({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      mapping: columnMappingInput
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { fileUrl, fileName, encoding, sheetName, mergeSheets, mapping } = input
+      const aiParser = new AIParserService()
+
+      try {
+        const parseResult = await parseUploadedRows(aiParser, fileUrl, fileName, { encoding, sheetName, mergeSheets })
+        validateColumnMapping(parseResult.data, mapping)
+
+        const { organizationId } = await resolveImportTarget(ctx.session.user.id, input)
+        const chart = await buildImportedChart(aiParser, parseResult.data, mapping, organizationId)
+        // Missing people are listed separately, so the user can decide whether to remove them
+        const plan = await planChartSync(chart, mapping, false)
+
+        return {
+          success: true,
+          data: {
+            organizationId,
+            entries: plan.entries,
+            missing: plan.missing,
+            summary: plan.summary
           }
         }
+      } catch (error) {
+        console.error('Error previewing sync:', error)
+        throw toUploadError(error, 'Failed to preview sync')
+      }
+    }),
+
+  confirmUpload: protectedProcedure
+    .input(uploadedFileInput.merge(importTargetInput).merge(importModeInput).extend({ mapping: columnMappingInput }))
+    .mutation(async ({ ctx, input }) => {
+      const { fileUrl, fileName, encoding, sheetName, mergeSheets, mapping, mode, removeMissing } = input
+      const aiParser = new AIParserService()
 
-        // Validate structure
-        const validation = aiParser.validateStructure(hierarchy)
+      try {
+        const parseResult = await parseUploadedRows(aiParser, fileUrl, fileName, { encoding, sheetName, mergeSheets })
+        validateColumnMapping(parseResult.data, mapping)
+
+        // Only an existing chart has anyone to match the upload against
+        if (mode === 'sync' && (!input.organizationId || input.newOrganizationName)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: input.newOrganizationName ? 'A new organization has no chart to sync into' : 'Choose an organization to sync into'
+          })
+        }
 
-        // Persist employees to database in bulk for better performance
-        await databaseService.bulkCreateEmployees(employeesWithIds)
+        const target = await resolveImportTarget(ctx.session.user.id, input)
+        const importedBy = { actorId: ctx.session.user.id, fileName }
+        const importedChart = await buildImportedChart(aiParser, parseResult.data, mapping, target.organizationId)
+        const chart = mode === 'sync'
+          ? await syncChart(importedChart, await planChartSync(importedChart, mapping, removeMissing), importedBy)
+          : await storeInTarget(target, () => replaceChart(importedChart, importedBy))
 
         return {
           success: true,
           data: {
-            employees: employeesWithIds,
-            hierarchy: updatedHierarchy,
-            rootEmployees: updatedRootEmployees,
-            orphanedEmployees: updatedOrphanedEmployees,
+            ...chart,
             columnIdentification: {
-              nameColumn: columnResult.nameColumn,
-              managerColumn: columnResult.managerColumn,
-              confidence: columnResult.confidence,
-              analysis: columnResult.analysis
-            },
-            validation: {
-              isValid: validation.isValid,
-              issues: validation.issues
+              nameColumn: mapping.nameColumn,
+              managerColumn: mapping.managerColumn,
+              confidence: 1,
+              analysis: 'Columns mapped manually'
             },
-            statistics: {
-              totalEmployees: hierarchy.employees.length,
-              rootEmployees: hierarchy.rootEmployees.length,
-              orphanedEmployees: hierarchy.orphanedEmployees.length,
-              totalErrors: hierarchy.errors.length
-            }
+            encoding: parseResult.encoding || null,
+            worksheets: parseResult.worksheets || null
           }
         }
       } catch (error) {
-        console.error('Error parsing uploaded file:', error)
-        throw new Error(`Failed to parse uploaded file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        console.error('Error confirming uploaded file:', error)
+        throw toUploadError(error, 'Failed to import uploaded file')
       }
     }),
 })
@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
 import { AIParserService } from './ai-parser'
 
+const buildWorkbook = (sheets: Record<string, any[][]>): Buffer => {
+  const workbook = XLSX.utils.book_new()
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name)
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
 describe('AIParserService', () => {
   let parser: AIParserService
 
@@ -23,6 +32,28 @@ describe('AIParserService', () => {
       ])
     })
 
+    it('should decode Latin-1 CSV files and report the detected encoding', async () => {
+      const csvContent = 'Name,Manager\nAndrés Daniel Gutiérrez Herrera,\nJohn Doe,Andrés Daniel Gutiérrez Herrera'
+      const buffer = Buffer.from(csvContent, 'latin1')
+
+      const result = await parser.parseFile(buffer, 'report.csv')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.[1][0]).toBe('Andrés Daniel Gutiérrez Herrera')
+      expect(result.data?.[2][1]).toBe(result.data?.[1][0])
+      expect(result.encoding?.encoding).toBe('iso-8859-1')
+      expect(result.encoding?.source).toBe('heuristic')
+    })
+
+    it('should use the encoding override when provided', async () => {
+      const buffer = Buffer.from('Name,Title\nRenée,Engineer', 'utf-8')
+
+      const result = await parser.parseFile(buffer, 'test.csv', { encoding: 'utf-8' })
+
+      expect(result.data?.[1][0]).toBe('Renée')
+      expect(result.encoding?.source).toBe('override')
+    })
+
     it('should parse XLSX files successfully', async () => {
       // Mock XLSX data - the XLSX library will parse any buffer content
       const mockXlsxBuffer = Buffer.from('mock-xlsx-content')
@@ -40,7 +71,7 @@ describe('AIParserService', () => {
       const result = await parser.parseFile(buffer, 'test.txt')
       
       expect(result.success).toBe(false)
-      expect(result.error).toBe('Unsupported file format. Please use one of: csv, xlsx, xls')
+      expect(result.error).toBe('Unsupported file format. Please use one of: csv, xlsx, xls, json, jsonld')
     })
 
     it('should handle files without extensions', async () => {
@@ -53,6 +84,66 @@ describe('AIParserService', () => {
     })
   })
 
+  describe('worksheets', () => {
+    const workbook = buildWorkbook({
+      Instructions: [['Fill in the roster on the next tabs']],
+      'Team A': [
+        ['Name', 'Manager', 'Title'],
+        ['Jane Smith', '', 'CEO'],
+        ['John Doe', 'Jane Smith', 'Developer']
+      ],
+      'Team B': [
+        ['Title', 'Name', 'Manager'],
+        ['Designer', 'Alice Brown', 'Jane Smith']
+      ]
+    })
+
+    it('should list worksheets with row counts and headers', () => {
+      const result = parser.listWorksheets(workbook)
+
+      expect(result.success).toBe(true)
+      expect(result.sheets).toEqual([
+        { name: 'Instructions', rowCount: 0, headers: ['Fill in the roster on the next tabs'] },
+        { name: 'Team A', rowCount: 2, headers: ['Name', 'Manager', 'Title'] },
+        { name: 'Team B', rowCount: 1, headers: ['Title', 'Name', 'Manager'] }
+      ])
+    })
+
+    it('should read the first sheet by default', async () => {
+      const result = await parser.parseFile(workbook, 'roster.xlsx')
+
+      expect(result.data).toEqual([['Fill in the roster on the next tabs']])
+      expect(result.worksheets).toEqual({ used: ['Instructions'], skipped: ['Team A', 'Team B'] })
+    })
+
+    it('should read the requested sheet', async () => {
+      const result = await parser.parseFile(workbook, 'roster.xlsx', { sheetName: 'Team A' })
+
+      expect(result.data?.[0]).toEqual(['Name', 'Manager', 'Title'])
+      expect(result.data).toHaveLength(3)
+    })
+
+    it('should fail when the requested sheet does not exist', async () => {
+      const result = await parser.parseFile(workbook, 'roster.xlsx', { sheetName: 'Missing' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Sheet "Missing" not found in Excel file')
+    })
+
+    it('should merge sheets with compatible headers, aligning columns by name', async () => {
+      const result = await parser.parseFile(workbook, 'roster.xlsx', { mergeSheets: true })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual([
+        ['Name', 'Manager', 'Title'],
+        ['Jane Smith', '', 'CEO'],
+        ['John Doe', 'Jane Smith', 'Developer'],
+        ['Alice Brown', 'Jane Smith', 'Designer']
+      ])
+      expect(result.worksheets).toEqual({ used: ['Team A', 'Team B'], skipped: ['Instructions'] })
+    })
+  })
+
   describe('identifyColumns', () => {
     it('should identify columns with exact name matches', () => {
       const data = [
@@ -98,6 +189,22 @@ describe('AIParserService', () => {
       expect(result.analysis).toBeDefined()
     })
 
+    it('should identify employee ID and manager ID columns', () => {
+      const data = [
+        ['Worker ID', 'Name', 'Supervisor Employee Number', 'Title'],
+        ['1001', 'Jane Smith', '', 'CEO'],
+        ['1002', 'John Smith', '1001', 'Engineer']
+      ]
+
+      const result = parser.identifyColumns(data)
+
+      expect(result.employeeIdColumn).toBe(0)
+      expect(result.nameColumn).toBe(1)
+      expect(result.managerIdColumn).toBe(2)
+      expect(result.managerColumn).toBe(null)
+      expect(result.analysis).toContain('Found manager ID column')
+    })
+
     it('should handle empty data', () => {
       const result = parser.identifyColumns([])
       
@@ -119,6 +226,44 @@ describe('AIParserService', () => {
     })
   })
 
+  describe('scoreColumns', () => {
+    const data = [
+      ['Full Name', 'Work Email', 'Emp ID', 'Reports To', 'Job Title', 'Dept'],
+      ['Jane Smith', 'jane@acme.com', 'E100', '', 'Chief Executive Officer', 'Executive'],
+      ['John Doe', 'john@acme.com', 'E101', 'Jane Smith', 'Software Engineer', 'Engineering'],
+      ['Alice Brown', 'alice@acme.com', 'E102', 'Jane Smith', 'Product Designer', 'Engineering'],
+      ['Bob Lee', 'bob@acme.com', 'E103', 'John Doe', 'Software Engineer', 'Engineering']
+    ]
+
+    it('should return a candidate entry for every column', () => {
+      const candidates = parser.scoreColumns(data)
+
+      expect(candidates).toHaveLength(6)
+      expect(candidates.map(candidate => candidate.header)).toEqual(data[0])
+    })
+
+    it('should score each column highest for its matching role', () => {
+      const candidates = parser.scoreColumns(data)
+      const bestRole = (index: number) => {
+        const scores = candidates[index].scores
+        return (Object.keys(scores) as Array<keyof typeof scores>).reduce((best, role) =>
+          scores[role] > scores[best] ? role : best
+        )
+      }
+
+      expect(bestRole(0)).toBe('name')
+      expect(bestRole(1)).toBe('email')
+      expect(bestRole(2)).toBe('employeeId')
+      expect(bestRole(3)).toBe('manager')
+      expect(bestRole(4)).toBe('title')
+      expect(bestRole(5)).toBe('department')
+    })
+
+    it('should return no candidates for empty data', () => {
+      expect(parser.scoreColumns([])).toEqual([])
+    })
+  })
+
   describe('generateHierarchy', () => {
     it('should generate proper hierarchical structure', () => {
       const data = [
@@ -189,6 +334,104 @@ describe('AIParserService', () => {
       expect(result.errors.some(error => error.includes('External Manager'))).toBe(true)
     })
 
+    it('should store mapped standard fields under their canonical labels', () => {
+      const data = [
+        ['Name', 'Manager', 'Staff No', 'Mail', 'Team'],
+        ['John Doe', '', 'E1', 'john@acme.com', 'Platform']
+      ]
+
+      const result = parser.generateHierarchy(data, 0, 1, null, { employeeId: 2, email: 3, department: 4 })
+
+      expect(result.employees[0].customFields).toEqual({
+        'Employee ID': 'E1',
+        Email: 'john@acme.com',
+        Department: 'Platform'
+      })
+    })
+
+    it('should build the hierarchy on employee IDs when an ID column is mapped', () => {
+      const data = [
+        ['Employee ID', 'Name', 'Manager ID'],
+        ['E1', 'Jane Smith', ''],
+        ['E2', 'John Smith', 'E1'],
+        ['E3', 'John Smith', 'E2']
+      ]
+
+      const result = parser.generateHierarchy(data, 1, -1, null, { employeeId: 0, managerId: 2 })
+
+      expect(result.errors).toEqual([])
+      expect(result.employees.map(employee => employee.id)).toEqual(['E1', 'E2', 'E3'])
+      expect(result.rootEmployees).toEqual(['E1'])
+      expect(result.hierarchy['E2'].managerId).toBe('E1')
+      expect(result.hierarchy['E2'].directReports).toEqual(['E3'])
+    })
+
+    it('should reject duplicate employee IDs', () => {
+      const data = [
+        ['Employee ID', 'Name'],
+        ['E1', 'Jane Smith'],
+        ['E1', 'John Doe']
+      ]
+
+      const result = parser.generateHierarchy(data, 1, -1, null, { employeeId: 0 })
+
+      expect(result.errors).toContain('Row 3: Duplicate employee ID "E1"')
+      expect(result.employees).toHaveLength(1)
+    })
+
+    it('should resolve manager names to IDs and flag ambiguous names', () => {
+      const data = [
+        ['Employee ID', 'Name', 'Manager'],
+        ['E1', 'Jane Smith', ''],
+        ['E2', 'John Smith', 'Jane Smith'],
+        ['E3', 'John Smith', 'Jane Smith'],
+        ['E4', 'Alice Brown', 'John Smith']
+      ]
+
+      const result = parser.generateHierarchy(data, 1, 2, null, { employeeId: 0 })
+
+      expect(result.hierarchy['E2'].managerId).toBe('E1')
+      expect(result.hierarchy['E1'].directReports).toEqual(['E2', 'E3'])
+      expect(result.rootEmployees).toEqual(['E1', 'E4'])
+      expect(result.errors.some(error => error.includes('matches 2 employees'))).toBe(true)
+    })
+
+    it('should auto-apply confident fuzzy manager matches', () => {
+      const data = [
+        ['Name', 'Manager'],
+        ['Robert Smith', ''],
+        ['John Doe', 'Bob Smith'],
+        ['Alice Brown', 'smith, robert ']
+      ]
+
+      const result = parser.generateHierarchy(data, 0, 1)
+
+      expect(result.errors).toEqual([])
+      expect(result.rootEmployees).toEqual(['Robert Smith'])
+      expect(result.hierarchy['Robert Smith'].directReports).toEqual(['John Doe', 'Alice Brown'])
+      expect(result.reconciliation?.autoApplied.map(match => match.managerReference)).toEqual(['Bob Smith', 'smith, robert'])
+    })
+
+    it('should report uncertain manager matches for review without applying them', () => {
+      const data = [
+        ['Name', 'Manager'],
+        ['John Paul Smith', ''],
+        ['Jane Doe', 'John Smith']
+      ]
+
+      const result = parser.generateHierarchy(data, 0, 1)
+
+      expect(result.rootEmployees).toContain('Jane Doe')
+      expect(result.reconciliation?.needsReview).toEqual([
+        {
+          employeeKey: 'Jane Doe',
+          employeeName: 'Jane Doe',
+          managerReference: 'John Smith',
+          candidates: [{ employeeKey: 'John Paul Smith', name: 'John Paul Smith', score: 0.9 }]
+        }
+      ])
+    })
+
     it('should extract custom fields from additional columns', () => {
       const data = [
         ['Name', 'Title', 'Manager', 'Department', 'Salary'],
@@ -1,9 +1,12 @@
 import { Readable } from 'stream';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { EncodingDetectorService, EncodingDetectionResult, SupportedEncoding } from './encoding-detector';
+import { NameMatcherService } from './name-matcher';
+import { ChartDataService, unguardFormula } from './chart-data';
 
 // Constants for better maintainability
-const SUPPORTED_EXTENSIONS = ['csv', 'xlsx', 'xls'] as const;
+const SUPPORTED_EXTENSIONS = ['csv', 'xlsx', 'xls', 'json', 'jsonld'] as const;
 const CONFIDENCE_THRESHOLDS = {
   PATTERN_MATCH: 0.4,
   FALLBACK_BOOST: 0.2,
@@ -12,31 +15,119 @@ const CONFIDENCE_THRESHOLDS = {
   MANAGER_CONFIDENCE: 0.5
 } as const;
 
+// Weights used when scoring every column as a candidate for each role
+const CANDIDATE_WEIGHTS = {
+  HEADER_MATCH: 0.6,
+  CONTENT: 0.4
+} as const;
+
+const CANDIDATE_SAMPLE_ROWS = 20;
+
 export interface FileProcessingResult {
   success: boolean;
   data?: any[][];
   error?: string;
+  encoding?: EncodingDetectionResult;
+  worksheets?: WorksheetSelection;
+}
+
+export interface FileParsingOptions {
+  encoding?: SupportedEncoding;
+  sheetName?: string;
+  mergeSheets?: boolean;
+}
+
+export interface WorksheetSummary {
+  name: string;
+  rowCount: number;
+  headers: string[];
+}
+
+export interface WorksheetListResult {
+  success: boolean;
+  sheets?: WorksheetSummary[];
+  error?: string;
+}
+
+export interface WorksheetSelection {
+  used: string[];
+  skipped: string[];
 }
 
 export interface ColumnIdentificationResult {
   nameColumn: number | null;
   managerColumn: number | null;
   titleColumn: number | null;
+  employeeIdColumn: number | null;
+  managerIdColumn: number | null;
   confidence: number;
   analysis: string;
 }
 
+export type ColumnRole = 'name' | 'manager' | 'title' | 'employeeId' | 'managerId' | 'email' | 'department';
+
+export interface ColumnCandidate {
+  columnIndex: number;
+  header: string;
+  scores: Record<ColumnRole, number>;
+}
+
+export interface ColumnMapping {
+  nameColumn: number;
+  managerColumn: number | null;
+  titleColumn: number | null;
+  employeeIdColumn?: number | null;
+  managerIdColumn?: number | null;
+  emailColumn?: number | null;
+  departmentColumn?: number | null;
+}
+
+// Custom field keys used for mapped columns that are not part of the hierarchy itself.
+// When an employee ID column is mapped the hierarchy is keyed on IDs instead of names.
+export const STANDARD_FIELD_LABELS = {
+  employeeId: 'Employee ID',
+  managerId: 'Manager ID',
+  email: 'Email',
+  department: 'Department'
+} as const;
+
+export type StandardFieldColumns = Partial<Record<keyof typeof STANDARD_FIELD_LABELS, number | null>>;
+
 export interface ParsedEmployee {
+  // Source system identifiers, only present when the file has an employee ID column
+  id?: string;
+  managerId?: string;
   name: string;
   title?: string;
   manager?: string;
   customFields: Record<string, any>;
 }
 
+export interface ManagerMatchCandidate {
+  employeeKey: string;
+  name: string;
+  score: number;
+}
+
+export interface ManagerMatchProposal {
+  employeeKey: string;
+  employeeName: string;
+  // Manager cell as written in the file
+  managerReference: string;
+  candidates: ManagerMatchCandidate[];
+}
+
+export interface ManagerReconciliation {
+  // The first candidate of each proposal was applied
+  autoApplied: ManagerMatchProposal[];
+  needsReview: ManagerMatchProposal[];
+}
+
 export interface HierarchicalStructure {
   employees: ParsedEmployee[];
+  // Keyed by employee ID when IDs are available, otherwise by name
   hierarchy: {
-    [employeeName: string]: {
+    [employeeKey: string]: {
       employee: ParsedEmployee;
       directReports: string[];
       managerId: string | null;
@@ -45,6 +136,7 @@ export interface HierarchicalStructure {
   rootEmployees: string[];
   orphanedEmployees: string[];
   errors: string[];
+  reconciliation?: ManagerReconciliation;
 }
 
 // Pattern matching constants
@@ -83,11 +175,54 @@ const TITLE_PATTERNS = [
   /role/i,  // Match any column containing "role"
 ] as const;
 
+const EMPLOYEE_ID_PATTERNS = [
+  /^id$/i,
+  /^(employee|emp|worker|staff|person|personnel)[\s_-]*(id|number|num|no\.?|#)$/i
+] as const;
+
+const MANAGER_ID_PATTERNS = [
+  /^(manager|supervisor|boss|reports[\s_-]*to|line[\s_-]*manager|direct[\s_-]*manager)[\s_-]*((employee|emp|worker|staff)[\s_-]*)?(id|number|num|no\.?|#)$/i,
+  /^parent[\s_-]*id$/i
+] as const;
+
+const EMAIL_PATTERNS = [
+  /^e-?mail$/i,
+  /^(work|business|employee).*e-?mail$/i,
+  /^e-?mail.*address$/i
+] as const;
+
+const DEPARTMENT_PATTERNS = [
+  /^department$/i,
+  /^dept\.?$/i,
+  /^division$/i,
+  /^team$/i,
+  /^business.*unit$/i,
+  /^cost.*cent(er|re)$/i
+] as const;
+
+const ROLE_PATTERNS: Record<ColumnRole, readonly RegExp[]> = {
+  name: NAME_PATTERNS,
+  manager: MANAGER_PATTERNS,
+  title: TITLE_PATTERNS,
+  employeeId: EMPLOYEE_ID_PATTERNS,
+  managerId: MANAGER_ID_PATTERNS,
+  email: EMAIL_PATTERNS,
+  department: DEPARTMENT_PATTERNS
+};
+
+const ID_VALUE_PATTERN = /^[A-Za-z]{0,4}[-_]?\d+$/;
+
+const TITLE_KEYWORDS = /\b(manager|director|engineer|analyst|officer|lead|head|vp|president|specialist|assistant|coordinator|developer|designer|chief|executive|associate|consultant|administrator|intern|supervisor)\b/i;
+
 export class AIParserService {
+  private encodingDetector = new EncodingDetectorService();
+  private nameMatcher = new NameMatcherService();
+  private chartData = new ChartDataService();
+
   /**
-   * Reads and parses CSV/XLSX files into a 2D array
+   * Reads and parses CSV/XLSX files, and the app's own JSON exports, into a 2D array
    */
-  async parseFile(fileBuffer: Buffer, fileName: string): Promise<FileProcessingResult> {
+  async parseFile(fileBuffer: Buffer, fileName: string, options: FileParsingOptions = {}): Promise<FileProcessingResult> {
     try {
       const parts = fileName.split('.');
       
@@ -116,9 +251,12 @@ export class AIParserService {
       }
 
       if (fileExtension === 'csv') {
-        return this.parseCSV(fileBuffer);
+        return this.withoutFormulaGuards(await this.parseCSV(fileBuffer, options.encoding));
+      } else if (fileExtension === 'json' || fileExtension === 'jsonld') {
+        // JSON exports become the same rows their spreadsheet export would have
+        return { success: true, data: this.chartData.parseJson(fileBuffer.toString('utf8')) };
       } else {
-        return this.parseExcel(fileBuffer);
+        return this.withoutFormulaGuards(this.parseExcel(fileBuffer, options));
       }
     } catch (error) {
       return {
@@ -129,26 +267,39 @@ export class AIParserService {
   }
 
   /**
-   * Parses CSV files using Papa Parse
+   * Drops the quote spreadsheet exports put in front of text that would otherwise run as a formula
+   */
+  private withoutFormulaGuards(result: FileProcessingResult): FileProcessingResult {
+    if (!result.data) return result;
+    return {
+      ...result,
+      data: result.data.map(row => row.map(cell => typeof cell === 'string' ? unguardFormula(cell) : cell))
+    };
+  }
+
+  /**
+   * Parses CSV files using Papa Parse, detecting the character encoding unless one is given
    */
-  private parseCSV(fileBuffer: Buffer): Promise<FileProcessingResult> {
+  private parseCSV(fileBuffer: Buffer, encodingOverride?: SupportedEncoding): Promise<FileProcessingResult> {
     return new Promise((resolve) => {
       try {
-        const csvContent = fileBuffer.toString('utf-8');
+        const { text: csvContent, detection } = this.encodingDetector.decode(fileBuffer, encodingOverride);
         
         Papa.parse(csvContent, {
           complete: (results) => {
             if (results.errors.length > 0) {
               resolve({
                 success: false,
-                error: `CSV parsing errors: ${results.errors.map(e => e.message).join(', ')}`
+                error: `CSV parsing errors: ${results.errors.map(e => e.message).join(', ')}`,
+                encoding: detection
               });
               return;
             }
             
             resolve({
               success: true,
-              data: results.data as any[][]
+              data: results.data as any[][],
+              encoding: detection
             });
           },
           error: (error: any) => {
@@ -168,26 +319,66 @@ export class AIParserService {
   }
 
   /**
-   * Parses Excel files using XLSX library
+   * Lists the worksheets of an Excel workbook with their data row counts and header rows
    */
-  private parseExcel(fileBuffer: Buffer): FileProcessingResult {
+  listWorksheets(fileBuffer: Buffer): WorksheetListResult {
     try {
       const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-      const firstSheetName = workbook.SheetNames[0];
-      
-      if (!firstSheetName) {
+
+      const sheets = workbook.SheetNames.map(name => {
+        const rows = this.readSheetRows(workbook, name);
+        return {
+          name,
+          rowCount: Math.max(0, rows.length - 1),
+          headers: rows.length > 0 ? this.getHeaders(rows[0]) : []
+        };
+      });
+
+      return {
+        success: true,
+        sheets
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Excel parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Parses Excel files using XLSX library, reading the requested sheet or merging compatible sheets
+   */
+  private parseExcel(fileBuffer: Buffer, options: FileParsingOptions = {}): FileProcessingResult {
+    try {
+      const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+
+      if (workbook.SheetNames.length === 0) {
         return {
           success: false,
           error: 'No sheets found in Excel file'
         };
       }
 
-      const worksheet = workbook.Sheets[firstSheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+      if (options.mergeSheets) {
+        return this.mergeWorksheets(workbook);
+      }
+
+      const sheetName = options.sheetName ?? workbook.SheetNames[0];
+      if (!workbook.Sheets[sheetName]) {
+        return {
+          success: false,
+          error: `Sheet "${sheetName}" not found in Excel file`
+        };
+      }
 
       return {
         success: true,
-        data: jsonData as any[][]
+        data: this.readSheetRows(workbook, sheetName),
+        worksheets: {
+          used: [sheetName],
+          skipped: workbook.SheetNames.filter(name => name !== sheetName)
+        }
       };
     } catch (error) {
       return {
@@ -197,6 +388,87 @@ export class AIParserService {
     }
   }
 
+  /**
+   * Merges every sheet sharing the most common header set into one table.
+   * Columns are aligned by header name so sheets may order their columns differently.
+   */
+  private mergeWorksheets(workbook: XLSX.WorkBook): FileProcessingResult {
+    const groups = new Map<string, { sheets: string[]; rows: any[][][]; dataRowCount: number }>();
+
+    for (const name of workbook.SheetNames) {
+      const rows = this.readSheetRows(workbook, name);
+      if (rows.length < 2) continue;
+
+      const key = this.getHeaders(rows[0]).map(header => header.toLowerCase()).sort().join('|');
+      if (!key) continue;
+
+      const group = groups.get(key) || { sheets: [], rows: [], dataRowCount: 0 };
+      group.sheets.push(name);
+      group.rows.push(rows);
+      group.dataRowCount += rows.length - 1;
+      groups.set(key, group);
+    }
+
+    const selected = Array.from(groups.values())
+      .sort((a, b) => b.dataRowCount - a.dataRowCount)[0];
+
+    if (!selected) {
+      return {
+        success: false,
+        error: 'No sheets with data found in Excel file'
+      };
+    }
+
+    const { sheets, rows: sheetRows } = selected;
+    const headerRow = sheetRows[0][0];
+    const columnIndex = new Map<string, number>();
+    headerRow.forEach((header: any, index: number) => {
+      const key = String(header ?? '').trim().toLowerCase();
+      if (key && !columnIndex.has(key)) {
+        columnIndex.set(key, index);
+      }
+    });
+
+    const data: any[][] = [headerRow];
+    sheetRows.forEach((rows, sheetIndex) => {
+      if (sheetIndex === 0) {
+        data.push(...rows.slice(1));
+        return;
+      }
+
+      // Map this sheet's columns onto the first sheet's column order
+      const mapping = rows[0].map((header: any) => columnIndex.get(String(header ?? '').trim().toLowerCase()));
+      for (const row of rows.slice(1)) {
+        const aligned: any[] = new Array(headerRow.length).fill('');
+        row.forEach((value, index) => {
+          const target = mapping[index];
+          if (target !== undefined) {
+            aligned[target] = value;
+          }
+        });
+        data.push(aligned);
+      }
+    });
+
+    return {
+      success: true,
+      data,
+      worksheets: {
+        used: sheets,
+        skipped: workbook.SheetNames.filter(name => !sheets.includes(name))
+      }
+    };
+  }
+
+  private readSheetRows(workbook: XLSX.WorkBook, sheetName: string): any[][] {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, blankrows: false }) as any[][];
+    return rows.filter(row => row.some(cell => String(cell ?? '').trim() !== ''));
+  }
+
+  private getHeaders(row: any[]): string[] {
+    return row.map(cell => String(cell ?? '').trim()).filter(header => header.length > 0);
+  }
+
   /**
    * Identifies employee name and manager columns using AI logic and fallback patterns
    */
@@ -206,6 +478,8 @@ export class AIParserService {
         nameColumn: null,
         managerColumn: null,
         titleColumn: null,
+        employeeIdColumn: null,
+        managerIdColumn: null,
         confidence: 0,
         analysis: 'No data provided'
       };
@@ -217,6 +491,8 @@ export class AIParserService {
         nameColumn: null,
         managerColumn: null,
         titleColumn: null,
+        employeeIdColumn: null,
+        managerIdColumn: null,
         confidence: 0,
         analysis: 'No headers found'
       };
@@ -278,6 +554,18 @@ export class AIParserService {
       if (titleColumn !== null) break;
     }
 
+    // HRIS exports reference managers by ID, which makes a manager name column optional
+    const employeeIdColumn = this.findColumnByPatterns(headers, EMPLOYEE_ID_PATTERNS);
+    if (employeeIdColumn !== null) {
+      analysis += `Found employee ID column "${String(headers[employeeIdColumn]).trim()}" at index ${employeeIdColumn}. `;
+    }
+
+    const managerIdColumn = this.findColumnByPatterns(headers, MANAGER_ID_PATTERNS);
+    if (managerIdColumn !== null) {
+      confidence += CONFIDENCE_THRESHOLDS.PATTERN_MATCH;
+      analysis += `Found manager ID column "${String(headers[managerIdColumn]).trim()}" at index ${managerIdColumn}. `;
+    }
+
     // Fallback: use heuristics based on content
     if (nameColumn === null || managerColumn === null || titleColumn === null) {
       const fallbackResult = this.applyFallbackLogic(data);
@@ -288,7 +576,7 @@ export class AIParserService {
           analysis += `Fallback identified name column at index ${nameColumn}. `;
         }
       }
-      if (managerColumn === null) {
+      if (managerColumn === null && managerIdColumn === null) {
         managerColumn = fallbackResult.managerColumn;
         if (managerColumn !== null) {
           confidence += CONFIDENCE_THRESHOLDS.FALLBACK_BOOST;
@@ -305,7 +593,7 @@ export class AIParserService {
     }
 
     // Additional confidence boost if both columns found
-    if (nameColumn !== null && managerColumn !== null) {
+    if (nameColumn !== null && (managerColumn !== null || managerIdColumn !== null)) {
       confidence += CONFIDENCE_THRESHOLDS.BOTH_COLUMNS_BONUS;
     }
 
@@ -313,11 +601,99 @@ export class AIParserService {
       nameColumn,
       managerColumn,
       titleColumn,
+      employeeIdColumn,
+      managerIdColumn,
       confidence: Math.min(confidence, 1.0),
       analysis
     };
   }
 
+  /**
+   * Returns the index of the first header matching any of the patterns
+   */
+  private findColumnByPatterns(headers: any[], patterns: readonly RegExp[]): number | null {
+    for (let i = 0; i < headers.length; i++) {
+      const header = String(headers[i] ?? '').trim();
+      if (patterns.some(pattern => pattern.test(header))) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Scores every column as a candidate for each role so users can review the guessed mapping
+   */
+  scoreColumns(data: any[][]): ColumnCandidate[] {
+    if (!data || data.length === 0 || !data[0]) {
+      return [];
+    }
+
+    const headers = data[0];
+    const sampleRows = data.slice(1, CANDIDATE_SAMPLE_ROWS + 1);
+    const candidates: ColumnCandidate[] = [];
+
+    for (let colIndex = 0; colIndex < headers.length; colIndex++) {
+      const header = String(headers[colIndex] ?? '').trim();
+      const values = sampleRows.map(row => String(row[colIndex] ?? '').trim());
+
+      const contentScores: Record<ColumnRole, number> = {
+        name: this.calculateNameScore(values),
+        manager: this.calculateManagerScore(values),
+        title: this.calculateMatchRatio(values, value => TITLE_KEYWORDS.test(value)),
+        employeeId: this.calculateIdScore(values),
+        // Manager IDs repeat across reports, so uniqueness is not required
+        managerId: this.calculateMatchRatio(values, value => ID_VALUE_PATTERN.test(value)),
+        email: this.calculateMatchRatio(values, value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)),
+        department: this.calculateDepartmentScore(values)
+      };
+
+      const scores = {} as Record<ColumnRole, number>;
+      (Object.keys(ROLE_PATTERNS) as ColumnRole[]).forEach(role => {
+        const headerMatch = ROLE_PATTERNS[role].some(pattern => pattern.test(header));
+        const score = (headerMatch ? CANDIDATE_WEIGHTS.HEADER_MATCH : 0) + CANDIDATE_WEIGHTS.CONTENT * contentScores[role];
+        scores[role] = Math.round(Math.min(1, score) * 100) / 100;
+      });
+
+      candidates.push({ columnIndex: colIndex, header, scores });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Returns the share of non-empty values satisfying a predicate
+   */
+  private calculateMatchRatio(values: string[], predicate: (value: string) => boolean): number {
+    const validValues = values.filter(v => v.length > 0);
+    if (validValues.length === 0) return 0;
+    return validValues.filter(predicate).length / validValues.length;
+  }
+
+  /**
+   * IDs are short alphanumeric codes containing digits and are unique per row
+   */
+  private calculateIdScore(values: string[]): number {
+    const validValues = values.filter(v => v.length > 0);
+    if (validValues.length === 0) return 0;
+
+    const idLikeRatio = this.calculateMatchRatio(validValues, value => ID_VALUE_PATTERN.test(value));
+    const uniqueRatio = new Set(validValues).size / validValues.length;
+    return idLikeRatio * uniqueRatio;
+  }
+
+  /**
+   * Departments are text values shared by many employees
+   */
+  private calculateDepartmentScore(values: string[]): number {
+    const validValues = values.filter(v => v.length > 0);
+    if (validValues.length < 2) return 0;
+
+    const textRatio = this.calculateMatchRatio(validValues, value => /^[a-zA-Z][a-zA-Z\s&/,.'-]*$/.test(value));
+    const uniqueRatio = new Set(validValues).size / validValues.length;
+    return uniqueRatio < 0.8 ? textRatio * (1 - uniqueRatio) : 0;
+  }
+
   /**
    * Fallback logic for column identification based on content analysis
    */
@@ -401,30 +777,62 @@ export class AIParserService {
   /**
    * Generates hierarchical organizational structure from parsed data
    */
-  generateHierarchy(data: any[][], nameColumn: number, managerColumn: number, titleColumn: number | null = null): HierarchicalStructure {
+  generateHierarchy(
+    data: any[][],
+    nameColumn: number,
+    managerColumn: number,
+    titleColumn: number | null = null,
+    fieldColumns: StandardFieldColumns = {}
+  ): HierarchicalStructure {
     const employees: ParsedEmployee[] = [];
     const hierarchy: HierarchicalStructure['hierarchy'] = {};
     const managerToEmployees: Record<string, string[]> = {};
-    const allEmployeeNames = new Set<string>();
-    const allManagerNames = new Set<string>();
+    const allEmployeeKeys = new Set<string>();
     const errors: string[] = [];
 
+    // Names are not unique in larger companies, so source IDs take precedence when available
+    const employeeIdColumn = fieldColumns.employeeId ?? null;
+    const managerIdColumn = fieldColumns.managerId ?? null;
+    const useIds = employeeIdColumn !== null;
+    const getKey = (employee: ParsedEmployee): string => (useIds ? employee.id as string : employee.name);
+
     // Skip header row
     const dataRows = data.slice(1);
 
+    // Columns mapped to a standard field are stored under that field's label instead of their header
+    const standardFieldLabels = new Map<number, string>();
+    (Object.keys(fieldColumns) as Array<keyof typeof STANDARD_FIELD_LABELS>).forEach(field => {
+      const column = fieldColumns[field];
+      if (column !== null && column !== undefined) {
+        standardFieldLabels.set(column, STANDARD_FIELD_LABELS[field]);
+      }
+    });
+
     // First pass: create employee objects
     for (let i = 0; i < dataRows.length; i++) {
       const row = dataRows[i];
       const employeeName = String(row[nameColumn] || '').trim();
       const managerName = String(row[managerColumn] || '').trim();
       const title = titleColumn !== null ? String(row[titleColumn] || '').trim() : undefined;
+      const employeeId = employeeIdColumn !== null ? String(row[employeeIdColumn] ?? '').trim() : '';
+      const managerId = managerIdColumn !== null ? String(row[managerIdColumn] ?? '').trim() : '';
 
       if (!employeeName) {
         errors.push(`Row ${i + 2}: Empty employee name`);
         continue;
       }
 
-      if (allEmployeeNames.has(employeeName)) {
+      if (useIds) {
+        if (!employeeId) {
+          errors.push(`Row ${i + 2}: Empty employee ID for "${employeeName}"`);
+          continue;
+        }
+
+        if (allEmployeeKeys.has(employeeId)) {
+          errors.push(`Row ${i + 2}: Duplicate employee ID "${employeeId}"`);
+          continue;
+        }
+      } else if (allEmployeeKeys.has(employeeName)) {
         errors.push(`Row ${i + 2}: Duplicate employee name "${employeeName}"`);
         continue;
       }
@@ -432,8 +840,8 @@ export class AIParserService {
       // Extract custom fields from other columns
       const customFields: Record<string, any> = {};
       for (let j = 0; j < row.length; j++) {
-        if (j !== nameColumn && j !== managerColumn && j !== titleColumn && data[0][j]) {
-          const fieldName = String(data[0][j]).trim();
+        if (j !== nameColumn && j !== managerColumn && j !== titleColumn && (data[0][j] || standardFieldLabels.has(j))) {
+          const fieldName = standardFieldLabels.get(j) || String(data[0][j]).trim();
           const fieldValue = row[j] ? String(row[j]).trim() : '';
           if (fieldName && fieldValue) {
             customFields[fieldName] = fieldValue;
@@ -448,27 +856,41 @@ export class AIParserService {
         customFields
       };
 
+      if (useIds) {
+        employee.id = employeeId;
+        if (managerId) {
+          employee.managerId = managerId;
+        }
+      }
+
       employees.push(employee);
-      allEmployeeNames.add(employeeName);
-      
-      if (managerName) {
-        allManagerNames.add(managerName);
-        if (!managerToEmployees[managerName]) {
-          managerToEmployees[managerName] = [];
+      allEmployeeKeys.add(getKey(employee));
+    }
+
+    // Manager names that do not exactly match an employee are resolved with fuzzy matching
+    const reconciliation = this.reconcileManagerNames(employees, useIds, errors);
+
+    const getManagerKey = (employee: ParsedEmployee): string | null =>
+      (useIds ? employee.managerId : employee.manager) || null;
+
+    for (const employee of employees) {
+      const managerKey = getManagerKey(employee);
+      if (managerKey) {
+        if (!managerToEmployees[managerKey]) {
+          managerToEmployees[managerKey] = [];
         }
-        managerToEmployees[managerName].push(employeeName);
+        managerToEmployees[managerKey].push(getKey(employee));
       }
     }
 
     // Second pass: build hierarchy
     for (const employee of employees) {
-      const directReports = managerToEmployees[employee.name] || [];
-      const managerId = employee.manager || null;
+      const key = getKey(employee);
 
-      hierarchy[employee.name] = {
+      hierarchy[key] = {
         employee,
-        directReports,
-        managerId
+        directReports: managerToEmployees[key] || [],
+        managerId: getManagerKey(employee)
       };
     }
 
@@ -477,12 +899,13 @@ export class AIParserService {
     const orphanedEmployees: string[] = [];
 
     for (const employee of employees) {
-      if (!employee.manager) {
-        rootEmployees.push(employee.name);
-      } else if (!allEmployeeNames.has(employee.manager)) {
+      const managerKey = getManagerKey(employee);
+      if (!managerKey) {
+        rootEmployees.push(getKey(employee));
+      } else if (!allEmployeeKeys.has(managerKey)) {
         // Manager not in employee list - treat as root or orphaned
-        rootEmployees.push(employee.name);
-        errors.push(`Employee "${employee.name}" has manager "${employee.manager}" who is not in the employee list`);
+        rootEmployees.push(getKey(employee));
+        errors.push(`Employee "${employee.name}" has manager "${managerKey}" who is not in the employee list`);
       }
     }
 
@@ -494,10 +917,81 @@ export class AIParserService {
       hierarchy,
       rootEmployees,
       orphanedEmployees,
-      errors
+      errors,
+      reconciliation
     };
   }
 
+  /**
+   * Resolves manager names that do not exactly match an employee, applying confident fuzzy matches
+   * and collecting the rest for review. For ID-keyed data this also fills in manager IDs from names.
+   */
+  private reconcileManagerNames(employees: ParsedEmployee[], useIds: boolean, errors: string[]): ManagerReconciliation {
+    const reconciliation: ManagerReconciliation = { autoApplied: [], needsReview: [] };
+    const keysByName = new Map<string, string[]>();
+    for (const employee of employees) {
+      const keys = keysByName.get(employee.name) || [];
+      keys.push(useIds ? employee.id as string : employee.name);
+      keysByName.set(employee.name, keys);
+    }
+
+    const names = Array.from(keysByName.keys());
+    const matchCache = new Map<string, ManagerMatchCandidate[]>();
+
+    for (const employee of employees) {
+      const reference = employee.manager;
+      if (!reference || (useIds && employee.managerId)) continue;
+
+      const exactKeys = keysByName.get(reference) || [];
+      if (!useIds && exactKeys.length > 0) continue;
+      if (useIds && exactKeys.length === 1) {
+        employee.managerId = exactKeys[0];
+        continue;
+      }
+
+      let matches = matchCache.get(reference);
+      if (!matches) {
+        matches = exactKeys.length > 1
+          ? exactKeys.map(key => ({ employeeKey: key, name: reference, score: 1 }))
+          : this.nameMatcher.findMatches(reference, names).reduce<ManagerMatchCandidate[]>((all, match) =>
+              all.concat((keysByName.get(match.name) || []).map(key => ({ employeeKey: key, name: match.name, score: match.score }))), []);
+        matchCache.set(reference, matches);
+      }
+
+      const ownKey = useIds ? employee.id as string : employee.name;
+      const candidates = matches.filter(candidate => candidate.employeeKey !== ownKey);
+      const proposal: ManagerMatchProposal = {
+        employeeKey: ownKey,
+        employeeName: employee.name,
+        managerReference: reference,
+        candidates
+      };
+
+      if (this.nameMatcher.isConfidentMatch(candidates)) {
+        if (useIds) {
+          employee.managerId = candidates[0].employeeKey;
+        } else {
+          employee.manager = candidates[0].name;
+        }
+        reconciliation.autoApplied.push(proposal);
+        continue;
+      }
+
+      if (candidates.length > 0) {
+        reconciliation.needsReview.push(proposal);
+      }
+
+      // Name-keyed data reports unknown managers when identifying root employees
+      if (exactKeys.length > 1) {
+        errors.push(`Employee "${employee.name}" has manager "${reference}" who matches ${exactKeys.length} employees; use a manager ID column to disambiguate`);
+      } else if (useIds) {
+        errors.push(`Employee "${employee.name}" has manager "${reference}" who is not in the employee list`);
+      }
+    }
+
+    return reconciliation;
+  }
+
   /**
    * Detects circular reporting structures in the hierarchy
    */
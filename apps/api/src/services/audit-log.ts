@@ -0,0 +1,35 @@
+import { AuditLogEntry, AuditOperation, Employee } from '../../../../packages/shared'
+import { DatabaseService } from './database'
+
+export interface EmployeeChange {
+  operation: AuditOperation
+  before: Employee | null
+  after: Employee | null
+  details?: Record<string, any>
+}
+
+/**
+ * Writes chart changes to the organization's change log with who made them and when
+ */
+export class AuditLogService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async record(actorId: string, organizationId: string, changes: EmployeeChange[], timestamp = new Date()): Promise<AuditLogEntry[]> {
+    const entries = changes.map((change): AuditLogEntry => ({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      organizationId,
+      actorId,
+      timestamp,
+      operation: change.operation,
+      employeeId: change.after?.id || change.before?.id || null,
+      before: change.before,
+      after: change.after,
+      ...(change.details ? { details: change.details } : {})
+    }))
+
+    if (entries.length > 0) {
+      await this.databaseService.appendAuditLog(entries)
+    }
+    return entries
+  }
+}
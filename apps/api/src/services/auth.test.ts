@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthService, parseCookies } from './auth'
+import { KeyValueDatabaseService } from './database'
+import { MemoryKeyValueStore } from './storage'
+import { runMigrations } from './migrations'
+
+const options = {
+  secret: 'test-secret',
+  cookieName: 'session',
+  sessionMaxAgeSeconds: 60,
+  secureCookies: false
+}
+
+describe('AuthService', () => {
+  let database: KeyValueDatabaseService
+  let service: AuthService
+
+  beforeEach(() => {
+    const store = new MemoryKeyValueStore()
+    runMigrations(store)
+    database = new KeyValueDatabaseService(store)
+    service = new AuthService(database, options)
+  })
+
+  describe('passwords', () => {
+    it('should verify a password against its salted hash', async () => {
+      const hash = await service.hashPassword('correct horse')
+
+      expect(hash).not.toContain('correct horse')
+      expect(await service.hashPassword('correct horse')).not.toBe(hash)
+      expect(await service.verifyPassword('correct horse', hash)).toBe(true)
+      expect(await service.verifyPassword('wrong horse', hash)).toBe(false)
+    })
+
+    it('should reject malformed hashes', async () => {
+      expect(await service.verifyPassword('anything', 'plain-text')).toBe(false)
+    })
+  })
+
+  describe('register and authenticate', () => {
+    it('should sign in with the registered email and password', async () => {
+      const user = await service.register({ email: 'Jane@Example.com', name: 'Jane Smith', password: 'password123' })
+
+      expect(await service.authenticate('jane@example.com', 'password123')).toEqual(user)
+      expect(await service.authenticate('jane@example.com', 'password124')).toBeNull()
+      expect(await service.authenticate('john@example.com', 'password123')).toBeNull()
+    })
+
+    it('should hand organizations created before sign-in to the first account only', async () => {
+      const first = await service.register({ email: 'first@example.com', name: 'First', password: 'password123' })
+      const second = await service.register({ email: 'second@example.com', name: 'Second', password: 'password123' })
+
+      expect((await database.getUserOrganizations(first.id)).map(organization => organization.id)).toEqual(['default-org'])
+      expect((await database.getOrganization('default-org'))?.userId).toBe(first.id)
+      expect(await database.getUserOrganizations(second.id)).toEqual([])
+      expect(await database.getUserOrganizations('demo-user')).toEqual([])
+    })
+
+    it('should give no access to someone who registers an invited email without the invitation link', async () => {
+      await service.register({ email: 'first@example.com', name: 'First', password: 'password123' })
+      await database.createInvitation({
+        id: 'inv1',
+        organizationId: 'default-org',
+        email: 'sam@example.com',
+        role: 'viewer',
+        invitedBy: 'demo-user',
+        createdAt: new Date()
+      })
+
+      const stranger = await service.register({ email: 'Sam@example.com', name: 'Not Sam', password: 'password123' })
+
+      expect(await database.getOrganizationMember('default-org', stranger.id)).toBeNull()
+      expect(await database.getUserOrganizations(stranger.id)).toEqual([])
+      expect(await database.getOrganizationInvitations('default-org')).toHaveLength(1)
+    })
+
+    it('should refuse a second account for the same email', async () => {
+      await service.register({ email: 'jane@example.com', name: 'Jane', password: 'password123' })
+
+      await expect(service.register({ email: 'JANE@example.com', name: 'Jane', password: 'password456' }))
+        .rejects.toThrow('Failed to create user in database')
+    })
+  })
+
+  describe('invitation tokens', () => {
+    it('should resolve a token to the invitation it was signed for', () => {
+      expect(service.verifyInvitationToken(service.createInvitationToken('inv_1_abc'))).toBe('inv_1_abc')
+    })
+
+    it('should reject tampered tokens and tokens signed with another secret', () => {
+      const token = service.createInvitationToken('inv_1_abc')
+      const [, signature] = token.split('.')
+
+      expect(service.verifyInvitationToken(`inv_2_abc.${signature}`)).toBeNull()
+      expect(service.verifyInvitationToken('inv_1_abc')).toBeNull()
+      expect(new AuthService(database, { ...options, secret: 'other-secret' }).verifyInvitationToken(token)).toBeNull()
+      // Session tokens are signed with the same secret but cannot stand in for an invitation
+      expect(service.verifyInvitationToken(service.createSessionToken('inv_1_abc'))).toBeNull()
+    })
+  })
+
+  describe('session tokens', () => {
+    it('should resolve a token to its user until it expires', async () => {
+      const user = await service.register({ email: 'jane@example.com', name: 'Jane', password: 'password123' })
+      const issuedAt = new Date('2024-01-01T00:00:00.000Z')
+      const token = service.createSessionToken(user.id, issuedAt)
+
+      const session = await service.verifySessionToken(token, new Date('2024-01-01T00:00:59.000Z'))
+      expect(session?.user).toEqual(user)
+      expect(session?.expiresAt).toEqual(new Date('2024-01-01T00:01:00.000Z'))
+
+      expect(await service.verifySessionToken(token, new Date('2024-01-01T00:01:00.000Z'))).toBeNull()
+    })
+
+    it('should reject tampered tokens and tokens signed with another secret', async () => {
+      const user = await service.register({ email: 'jane@example.com', name: 'Jane', password: 'password123' })
+      const token = service.createSessionToken(user.id)
+      const [, signature] = token.split('.')
+      const forgedPayload = Buffer.from(JSON.stringify({ userId: 'someone-else', expiresAt: Date.now() + 60000 })).toString('base64url')
+
+      expect(await service.verifySessionToken(`${forgedPayload}.${signature}`)).toBeNull()
+      expect(await service.verifySessionToken('not-a-token')).toBeNull()
+
+      const otherService = new AuthService(database, { ...options, secret: 'other-secret' })
+      expect(await otherService.verifySessionToken(token)).toBeNull()
+    })
+
+    it('should read the session from the cookie it sets', async () => {
+      const user = await service.register({ email: 'jane@example.com', name: 'Jane', password: 'password123' })
+      const cookie = service.createSessionCookie(service.createSessionToken(user.id))
+
+      expect(cookie).toContain('HttpOnly')
+      expect(cookie).toContain('Max-Age=60')
+
+      const session = await service.localSessionProvider.getSession(parseCookies(cookie.split(';')[0]))
+      expect(session?.user.id).toBe(user.id)
+      expect(service.clearSessionCookie()).toContain('Max-Age=0')
+    })
+  })
+})
+
+describe('parseCookies', () => {
+  it('should split a cookie header into decoded values', () => {
+    expect(parseCookies('a=1; b=hello%20world; broken; a=2')).toEqual({ a: '1', b: 'hello world' })
+    expect(parseCookies(undefined)).toEqual({})
+  })
+})
+
+describe('session secret', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.resetModules()
+  })
+
+  const loadConfig = async () => {
+    vi.resetModules()
+    return (await import('../../../../packages/config')).config
+  }
+
+  it('should refuse to start in production without NEXTAUTH_SECRET', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('NEXTAUTH_SECRET', '')
+
+    await expect(loadConfig()).rejects.toThrow('NEXTAUTH_SECRET must be set in production')
+  })
+
+  it('should use the configured secret, or a development one outside production', async () => {
+    vi.stubEnv('NEXTAUTH_SECRET', '')
+    expect((await loadConfig()).auth.secret).toBe('development-secret')
+
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('NEXTAUTH_SECRET', 's3cret')
+    expect((await loadConfig()).auth.secret).toBe('s3cret')
+  })
+})
@@ -0,0 +1,233 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { User } from '../../../../packages/shared'
+import { config } from '../../../../packages/config'
+import { DatabaseService, databaseService } from './database'
+
+export interface Session {
+  user: User
+  expiresAt: Date
+}
+
+/**
+ * Resolves the session behind a request. The local provider reads the signed session cookie;
+ * other sign-in methods (e.g. OIDC) can be added alongside it.
+ */
+export interface SessionProvider {
+  name: string
+  getSession(cookies: Record<string, string>): Promise<Session | null>
+}
+
+export interface AuthOptions {
+  secret: string
+  cookieName: string
+  sessionMaxAgeSeconds: number
+  secureCookies: boolean
+}
+
+export interface RegisterInput {
+  email: string
+  name: string
+  password: string
+}
+
+// Owner of everything created before sign-in existed; the first account to register takes it over
+export const LEGACY_DEMO_USER_ID = 'demo-user'
+
+const SCRYPT_KEY_LENGTH = 64
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url')
+
+/**
+ * Splits a Cookie header into name/value pairs
+ */
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {}
+  if (!header) return cookies
+
+  header.split(';').forEach(part => {
+    const separator = part.indexOf('=')
+    if (separator === -1) return
+    const name = part.slice(0, separator).trim()
+    const value = part.slice(separator + 1).trim()
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value)
+      } catch {
+        cookies[name] = value
+      }
+    }
+  })
+
+  return cookies
+}
+
+/**
+ * Local username/password accounts with scrypt-hashed credentials and HMAC-signed session cookies
+ */
+export class AuthService {
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly options: AuthOptions
+  ) {}
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex')
+    const key = await deriveKey(password, salt)
+    return `scrypt:${salt}:${key.toString('hex')}`
+  }
+
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, expected] = passwordHash.split(':')
+    if (algorithm !== 'scrypt' || !salt || !expected) {
+      return false
+    }
+
+    const expectedKey = Buffer.from(expected, 'hex')
+    const key = await deriveKey(password, salt)
+    return key.length === expectedKey.length && timingSafeEqual(key, expectedKey)
+  }
+
+  async register(input: RegisterInput): Promise<User> {
+    const isFirstUser = (await this.database.countUsers()) === 0
+
+    const user: User = {
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      email: input.email.trim(),
+      name: input.name.trim()
+    }
+    await this.database.createUser(user, await this.hashPassword(input.password))
+
+    // Charts uploaded before accounts existed belong to the demo user; keep them reachable
+    if (isFirstUser) {
+      await this.database.transferOrganizations(LEGACY_DEMO_USER_ID, user.id)
+    }
+
+    return user
+  }
+
+  /**
+   * Returns the user when the email and password match, null otherwise
+   */
+  async authenticate(email: string, password: string): Promise<User | null> {
+    const user = await this.database.getUserByEmail(email)
+    if (!user) {
+      // Hash anyway so unknown emails take as long as wrong passwords
+      await deriveKey(password, 'unknown-user')
+      return null
+    }
+
+    const passwordHash = await this.database.getUserPasswordHash(user.id)
+    if (!passwordHash || !(await this.verifyPassword(password, passwordHash))) {
+      return null
+    }
+
+    return user
+  }
+
+  createSessionToken(userId: string, now: Date = new Date()): string {
+    const expiresAt = now.getTime() + this.options.sessionMaxAgeSeconds * 1000
+    const payload = Buffer.from(JSON.stringify({ userId, expiresAt })).toString('base64url')
+    return `${payload}.${sign(payload, this.options.secret)}`
+  }
+
+  /**
+   * Returns the session a token stands for, or null when it is forged, expired or its user is gone
+   */
+  async verifySessionToken(token: string, now: Date = new Date()): Promise<Session | null> {
+    const [payload, signature] = token.split('.')
+    if (!payload || !signature) {
+      return null
+    }
+
+    const expectedSignature = Buffer.from(sign(payload, this.options.secret))
+    const actualSignature = Buffer.from(signature)
+    if (actualSignature.length !== expectedSignature.length || !timingSafeEqual(actualSignature, expectedSignature)) {
+      return null
+    }
+
+    let claims: { userId?: unknown; expiresAt?: unknown }
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    } catch {
+      return null
+    }
+
+    if (typeof claims.userId !== 'string' || typeof claims.expiresAt !== 'number' || claims.expiresAt <= now.getTime()) {
+      return null
+    }
+
+    const user = await this.database.getUser(claims.userId)
+    return user ? { user, expiresAt: new Date(claims.expiresAt) } : null
+  }
+
+  /**
+   * Signs an invitation ID into the token sent with an invitation link. Only someone holding the link
+   * can accept the invitation, so registering the invited email is not enough to join.
+   */
+  createInvitationToken(invitationId: string): string {
+    return `${invitationId}.${sign(`invitation:${invitationId}`, this.options.secret)}`
+  }
+
+  /**
+   * Returns the invitation ID a token was signed for, or null when it is forged
+   */
+  verifyInvitationToken(token: string): string | null {
+    const separator = token.lastIndexOf('.')
+    if (separator <= 0) {
+      return null
+    }
+
+    const invitationId = token.slice(0, separator)
+    const expectedSignature = Buffer.from(sign(`invitation:${invitationId}`, this.options.secret))
+    const actualSignature = Buffer.from(token.slice(separator + 1))
+    if (actualSignature.length !== expectedSignature.length || !timingSafeEqual(actualSignature, expectedSignature)) {
+      return null
+    }
+
+    return invitationId
+  }
+
+  createSessionCookie(token: string): string {
+    return this.serializeCookie(token, this.options.sessionMaxAgeSeconds)
+  }
+
+  clearSessionCookie(): string {
+    return this.serializeCookie('', 0)
+  }
+
+  // Reads the session cookie set by createSessionCookie
+  readonly localSessionProvider: SessionProvider = {
+    name: 'local',
+    getSession: async (cookies) => {
+      const token = cookies[this.options.cookieName]
+      return token ? this.verifySessionToken(token) : null
+    }
+  }
+
+  private serializeCookie(value: string, maxAgeSeconds: number): string {
+    const attributes = [
+      `${this.options.cookieName}=${encodeURIComponent(value)}`,
+      'Path=/',
+      'HttpOnly',
+      'SameSite=Lax',
+      `Max-Age=${maxAgeSeconds}`
+    ]
+    if (this.options.secureCookies) {
+      attributes.push('Secure')
+    }
+    return attributes.join('; ')
+  }
+}
+
+export const authService = new AuthService(databaseService, {
+  secret: config.auth.secret,
+  cookieName: config.auth.cookieName,
+  sessionMaxAgeSeconds: config.auth.sessionMaxAgeSeconds,
+  secureCookies: process.env.NODE_ENV === 'production'
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { ChartBuilderService } from './chart-builder'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+describe('ChartBuilderService', () => {
+  const service = new ChartBuilderService()
+
+  it('should rebuild roots, direct reports and statistics from stored employees', () => {
+    const employees = [employee('1', 'Jane Smith'), employee('2', 'John Doe', '1'), employee('3', 'Sam Lee', '1')]
+
+    const chart = service.buildChart(employees)
+
+    expect(chart.rootEmployees.map(emp => emp.id)).toEqual(['1'])
+    expect(chart.hierarchy['1'].directReports).toEqual(['2', '3'])
+    expect(chart.hierarchy['2'].managerId).toBe('1')
+    expect(chart.validation).toEqual({ isValid: true, issues: [] })
+    expect(chart.statistics).toEqual({ totalEmployees: 3, rootEmployees: 1, orphanedEmployees: 0, totalErrors: 0 })
+  })
+
+  it('should report employees whose manager is missing as orphans', () => {
+    const chart = service.buildChart([employee('1', 'Jane Smith'), employee('2', 'John Doe', 'gone')])
+
+    expect(chart.orphanedEmployees.map(emp => emp.id)).toEqual(['2'])
+    expect(chart.validation.isValid).toBe(false)
+    expect(chart.validation.issues[0]).toContain('John Doe')
+    expect(chart.statistics.totalErrors).toBe(1)
+  })
+
+  it('should report each circular reporting line once', () => {
+    const chart = service.buildChart([
+      employee('1', 'Jane Smith', '2'),
+      employee('2', 'John Doe', '1'),
+      employee('3', 'Sam Lee', '1')
+    ])
+
+    expect(chart.rootEmployees).toEqual([])
+    expect(chart.validation.issues).toEqual(['Circular reporting line: Jane Smith → John Doe → Jane Smith'])
+  })
+
+  it('should return an empty chart for an organization without employees', () => {
+    const chart = service.buildChart([])
+
+    expect(chart.employees).toEqual([])
+    expect(chart.statistics.totalEmployees).toBe(0)
+    expect(chart.validation.isValid).toBe(true)
+  })
+})
@@ -0,0 +1,116 @@
+import { Employee } from '../../../../packages/shared'
+
+export interface ChartHierarchyNode {
+  employee: Employee
+  directReports: string[]
+  managerId: string | null
+}
+
+export interface StoredChart {
+  employees: Employee[]
+  hierarchy: Record<string, ChartHierarchyNode>
+  rootEmployees: Employee[]
+  orphanedEmployees: Employee[]
+  validation: {
+    isValid: boolean
+    issues: string[]
+  }
+  statistics: {
+    totalEmployees: number
+    rootEmployees: number
+    orphanedEmployees: number
+    totalErrors: number
+  }
+}
+
+/**
+ * Rebuilds the chart structure that an import returns from employees that are already stored,
+ * so a saved organization can be shown without re-uploading its file
+ */
+export class ChartBuilderService {
+  buildChart(employees: Employee[]): StoredChart {
+    const employeesById = new Map<string, Employee>()
+    employees.forEach(employee => employeesById.set(employee.id, employee))
+
+    const hierarchy: Record<string, ChartHierarchyNode> = {}
+    employees.forEach(employee => {
+      hierarchy[employee.id] = {
+        employee,
+        directReports: [],
+        managerId: employee.managerId || null
+      }
+    })
+
+    const rootEmployees: Employee[] = []
+    const orphanedEmployees: Employee[] = []
+    const issues: string[] = []
+
+    employees.forEach(employee => {
+      if (!employee.name || employee.name.trim() === '') {
+        issues.push(`Employee "${employee.id}" has an empty name`)
+      }
+
+      if (!employee.managerId) {
+        rootEmployees.push(employee)
+        return
+      }
+
+      const manager = hierarchy[employee.managerId]
+      if (!manager) {
+        orphanedEmployees.push(employee)
+        issues.push(`Employee "${employee.name}" reports to "${employee.managerId}" who doesn't exist in this organization`)
+        return
+      }
+
+      manager.directReports.push(employee.id)
+    })
+
+    issues.push(...this.findCircularReportingLines(employees, employeesById))
+
+    return {
+      employees,
+      hierarchy,
+      rootEmployees,
+      orphanedEmployees,
+      validation: {
+        isValid: issues.length === 0,
+        issues
+      },
+      statistics: {
+        totalEmployees: employees.length,
+        rootEmployees: rootEmployees.length,
+        orphanedEmployees: orphanedEmployees.length,
+        totalErrors: issues.length
+      }
+    }
+  }
+
+  // Employees in a reporting cycle never reach a root, so they would silently vanish from the chart
+  private findCircularReportingLines(employees: Employee[], employeesById: Map<string, Employee>): string[] {
+    const issues: string[] = []
+    const reported = new Set<string>()
+
+    employees.forEach(employee => {
+      const chain: string[] = []
+      const positions = new Map<string, number>()
+      let current: Employee | undefined = employee
+
+      while (current && !positions.has(current.id)) {
+        positions.set(current.id, chain.length)
+        chain.push(current.id)
+        current = current.managerId ? employeesById.get(current.managerId) : undefined
+      }
+
+      if (!current) return
+
+      const cycle = chain.slice(positions.get(current.id))
+      if (cycle.some(id => reported.has(id))) return
+
+      cycle.forEach(id => reported.add(id))
+      const names = cycle.map(id => employeesById.get(id)!.name)
+      issues.push(`Circular reporting line: ${[...names, names[0]].join(' → ')}`)
+    })
+
+    return issues
+  }
+}
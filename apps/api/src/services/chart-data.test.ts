@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { ChartDataService } from './chart-data'
+import { AIParserService } from './ai-parser'
+import { Employee, Organization } from '../../../../packages/shared'
+
+const organization: Organization = {
+  id: 'org1',
+  name: 'Acme',
+  userId: 'user1',
+  createdAt: new Date('2026-01-01T00:00:00Z')
+}
+
+// Two people share a name, which only an ID-keyed file can tell apart
+const employees: Employee[] = [
+  { id: 'e1', name: 'Alex Morgan', title: 'CEO', organizationId: 'org1', managerId: null, customFields: { Location: 'London' } },
+  { id: 'e2', name: 'Sam Lee', title: 'Engineer, Platform', organizationId: 'org1', managerId: 'e1', customFields: { Location: 'Berlin', Team: 'Core' } },
+  { id: 'e3', name: 'Sam Lee', title: 'Unknown Title', organizationId: 'org1', managerId: 'e2', customFields: { Notes: 'Says "hi"' } }
+]
+
+// Runs a file through the same steps an upload takes: parsing, column detection and the hierarchy
+const reimport = async (content: string | Buffer, fileName: string) => {
+  const parser = new AIParserService()
+  const parsed = await parser.parseFile(typeof content === 'string' ? Buffer.from(content, 'utf8') : content, fileName)
+  expect(parsed.error).toBeUndefined()
+
+  const data = parsed.data!
+  const columns = parser.identifyColumns(data)
+  const hierarchy = parser.generateHierarchy(data, columns.nameColumn!, columns.managerColumn ?? -1, columns.titleColumn, {
+    employeeId: columns.employeeIdColumn,
+    managerId: columns.managerIdColumn
+  })
+  expect(hierarchy.errors).toEqual([])
+  return hierarchy.employees
+}
+
+describe('ChartDataService', () => {
+  const service = new ChartDataService()
+  const exportedAt = new Date('2026-03-01T12:00:00Z')
+
+  it('should write rows with the columns the importer detects, then each custom field', () => {
+    const rows = service.toRows(employees)
+
+    expect(rows[0]).toEqual(['Employee ID', 'Name', 'Title', 'Manager ID', 'Manager', 'Location', 'Team', 'Notes'])
+    expect(rows[2]).toEqual(['e2', 'Sam Lee', 'Engineer, Platform', 'e1', 'Alex Morgan', 'Berlin', 'Core', ''])
+    // The import's placeholder title is left blank
+    expect(rows[3][2]).toBe('')
+  })
+
+  it.each([
+    ['CSV', 'acme.csv', () => service.toCsv(employees)],
+    ['XLSX', 'acme.xlsx', () => service.toXlsx(employees)],
+    ['JSON', 'acme.json', () => service.toJson(organization, employees, exportedAt)],
+    ['JSON-LD', 'acme.jsonld', () => service.toJsonLd(organization, employees, exportedAt)]
+  ])('should import a %s export back into the same chart', async (_, fileName, write) => {
+    const imported = await reimport(write(), fileName)
+
+    expect(imported.map(employee => [employee.id, employee.name, employee.title, employee.managerId])).toEqual([
+      ['e1', 'Alex Morgan', 'CEO', undefined],
+      ['e2', 'Sam Lee', 'Engineer, Platform', 'e1'],
+      ['e3', 'Sam Lee', undefined, 'e2']
+    ])
+    expect(imported[1].customFields).toMatchObject({ Location: 'Berlin', Team: 'Core' })
+    expect(imported[2].customFields).toMatchObject({ Notes: 'Says "hi"' })
+  })
+
+  it.each([
+    ['CSV', 'acme.csv', (people: Employee[]) => service.toCsv(people)],
+    ['XLSX', 'acme.xlsx', (people: Employee[]) => service.toXlsx(people)]
+  ])('should keep %s cells that look like formulas as text', async (_, fileName, write) => {
+    const risky: Employee[] = [
+      { id: 'e1', name: '=HYPERLINK("http://evil.test","Alex")', title: '+CEO', organizationId: 'org1', managerId: null, customFields: { Handle: '@alex', Budget: '-5' } }
+    ]
+    const file = write(risky)
+    const cells = typeof file === 'string'
+      ? file.split('\r\n')[1]
+      : XLSX.utils.sheet_to_csv(XLSX.read(file).Sheets.Employees).split('\n')[1]
+
+    expect(cells).toContain(`'=HYPERLINK`)
+    expect(cells).toContain(`'+CEO`)
+    expect(cells).toContain(`'@alex`)
+    expect(cells).not.toContain(`'-5`)
+
+    const [imported] = await reimport(file, fileName)
+    expect(imported.name).toBe('=HYPERLINK("http://evil.test","Alex")')
+    expect(imported.title).toBe('+CEO')
+    expect(imported.customFields).toMatchObject({ Handle: '@alex' })
+  })
+
+  it('should keep numbers and booleans typed in XLSX cells', () => {
+    const typed: Employee[] = [
+      { id: 'e1', name: 'Alex Morgan', title: 'CEO', organizationId: 'org1', managerId: null, customFields: { Level: 7, Remote: true, Tags: ['a', 'b'] } }
+    ]
+    const sheet = XLSX.read(service.toXlsx(typed)).Sheets.Employees
+
+    expect(sheet.F2).toMatchObject({ t: 'n', v: 7 })
+    expect(sheet.G2).toMatchObject({ t: 'b', v: true })
+    expect(sheet.H2).toMatchObject({ t: 's', v: '["a","b"]' })
+    // CSV has no types to keep
+    expect(service.toRows(typed)[1].slice(5)).toEqual(['7', 'true', '["a","b"]'])
+  })
+
+  it('should write a versioned JSON document', () => {
+    const document = JSON.parse(service.toJson(organization, employees, exportedAt))
+
+    expect(document).toMatchObject({
+      format: 'org-chart',
+      version: 1,
+      exportedAt: '2026-03-01T12:00:00.000Z',
+      organization: { name: 'Acme' }
+    })
+    expect(document.employees[2]).toEqual({ id: 'e3', name: 'Sam Lee', title: 'Unknown Title', managerId: 'e2', customFields: { Notes: 'Says "hi"' } })
+  })
+
+  it('should describe people with schema.org terms in JSON-LD', () => {
+    const graph = JSON.parse(service.toJsonLd(organization, employees, exportedAt))['@graph']
+
+    expect(graph[0]).toMatchObject({ '@type': 'Organization', name: 'Acme' })
+    expect(graph[2]).toMatchObject({
+      '@id': '#employee-e2',
+      '@type': 'Person',
+      jobTitle: 'Engineer, Platform',
+      reportsTo: '#employee-e1',
+      additionalProperty: [
+        { '@type': 'PropertyValue', name: 'Location', value: 'Berlin' },
+        { '@type': 'PropertyValue', name: 'Team', value: 'Core' }
+      ]
+    })
+  })
+
+  it('should reject JSON it does not understand', () => {
+    expect(() => service.parseJson('{ "name": ')).toThrow('File is not valid JSON')
+    expect(() => service.parseJson('{ "employees": [] }')).toThrow('JSON file is not an org chart export')
+    expect(() => service.parseJson(JSON.stringify({ format: 'org-chart', version: 2, employees: [] })))
+      .toThrow('Unsupported org chart file version 2')
+  })
+})
@@ -0,0 +1,231 @@
+import Papa from 'papaparse'
+import * as XLSX from 'xlsx'
+import { ChartDocument, Employee, Organization } from '../../../../packages/shared'
+
+export const CHART_DOCUMENT_VERSION = 1
+
+// Headers the import's column detection recognizes; the employee ID column keys the hierarchy
+// on IDs, so names do not have to be unique for a file to round-trip
+export const DATA_COLUMNS = {
+  employeeId: 'Employee ID',
+  name: 'Name',
+  title: 'Title',
+  managerId: 'Manager ID',
+  manager: 'Manager'
+} as const
+
+// Placeholder the import stores for people without a title
+const UNKNOWN_TITLE = 'Unknown Title'
+
+type EmployeeRecord = ChartDocument['employees'][number]
+
+const JSON_LD_CONTEXT = {
+  '@vocab': 'https://schema.org/',
+  org: 'http://www.w3.org/ns/org#',
+  reportsTo: { '@id': 'org:reportsTo', '@type': '@id' }
+}
+
+const toRecord = (employee: Employee): EmployeeRecord => ({
+  id: employee.id,
+  name: employee.name,
+  title: employee.title,
+  managerId: employee.managerId || null,
+  customFields: employee.customFields || {}
+})
+
+const cellValue = (value: any): string => {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// A leading quote keeps such a cell as text; plain numbers like -5 are left as they are
+const guardFormula = (value: string): string =>
+  FORMULA_PREFIX.test(value) && isNaN(Number(value)) ? `'${value}` : value
+
+// Undoes guardFormula, so exported cells import back as they were
+export const unguardFormula = (value: string): string =>
+  /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value
+
+// Numbers and booleans stay typed in workbooks; everything else is written as guarded text
+const spreadsheetCell = (value: any): string | number | boolean => {
+  if (typeof value === 'boolean' || (typeof value === 'number' && isFinite(value))) return value
+  return guardFormula(cellValue(value))
+}
+
+const personId = (id: string) => `#employee-${encodeURIComponent(id)}`
+
+/**
+ * Writes an organization's employees out as data files that import again without losing
+ * anything: spreadsheets with the columns the importer detects, a versioned JSON backup and
+ * a schema.org JSON-LD graph. Reading a JSON file back turns it into the same rows a
+ * spreadsheet gives, so every import path treats them alike.
+ */
+export class ChartDataService {
+  toRows(employees: Array<Pick<Employee, 'id' | 'name' | 'title' | 'managerId' | 'customFields'>>): string[][] {
+    return this.toTable(employees).map(row => row.map(cellValue))
+  }
+
+  // CSV has no types, so custom fields that were numbers, booleans or objects import back as text
+  toCsv(employees: Employee[]): string {
+    // The byte order mark makes Excel read the file as UTF-8
+    return `\ufeff${Papa.unparse(this.toRows(employees).map(row => row.map(guardFormula)))}`
+  }
+
+  toXlsx(employees: Employee[]): Buffer {
+    const rows = this.toTable(employees).map(row => row.map(spreadsheetCell))
+    const sheet = XLSX.utils.aoa_to_sheet(rows)
+    sheet['!cols'] = rows[0].map(header => ({ wch: Math.max(12, String(header).length + 2) }))
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Employees')
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+  }
+
+  toJson(organization: Organization, employees: Employee[], exportedAt = new Date()): string {
+    const document: ChartDocument = {
+      format: 'org-chart',
+      version: CHART_DOCUMENT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      organization: { name: organization.name },
+      employees: employees.map(toRecord)
+    }
+    return `${JSON.stringify(document, null, 2)}\n`
+  }
+
+  toJsonLd(organization: Organization, employees: Employee[], exportedAt = new Date()): string {
+    const graph = [
+      {
+        '@id': '#organization',
+        '@type': 'Organization',
+        name: organization.name,
+        dateModified: exportedAt.toISOString()
+      },
+      ...employees.map(employee => {
+        const customFields = employee.customFields || {}
+        const fields = Object.keys(customFields)
+        return {
+          '@id': personId(employee.id),
+          '@type': 'Person',
+          identifier: employee.id,
+          name: employee.name,
+          jobTitle: employee.title,
+          worksFor: { '@id': '#organization' },
+          ...(employee.managerId ? { reportsTo: personId(employee.managerId) } : {}),
+          ...(fields.length > 0
+            ? { additionalProperty: fields.map(field => ({ '@type': 'PropertyValue', name: field, value: customFields[field] })) }
+            : {})
+        }
+      })
+    ]
+    return `${JSON.stringify({ '@context': JSON_LD_CONTEXT, '@graph': graph }, null, 2)}\n`
+  }
+
+  /**
+   * Reads a JSON backup or JSON-LD graph into spreadsheet rows, header row first. Throws when
+   * the file is neither, or was written by a newer version of the format.
+   */
+  parseJson(text: string): string[][] {
+    let document: any
+    try {
+      document = JSON.parse(text.replace(/^\ufeff/, ''))
+    } catch {
+      throw new Error('File is not valid JSON')
+    }
+
+    if (document && document.format === 'org-chart') {
+      return this.toRows(this.readDocument(document))
+    }
+    if (document && Array.isArray(document['@graph'])) {
+      return this.toRows(this.readGraph(document['@graph']))
+    }
+    throw new Error('JSON file is not an org chart export')
+  }
+
+  private readDocument(document: any): EmployeeRecord[] {
+    if (typeof document.version !== 'number' || document.version > CHART_DOCUMENT_VERSION) {
+      throw new Error(`Unsupported org chart file version ${document.version}`)
+    }
+    if (!Array.isArray(document.employees)) {
+      throw new Error('Org chart file has no employees list')
+    }
+
+    return document.employees.map((employee: any, index: number) => {
+      if (!employee || typeof employee.id !== 'string' || typeof employee.name !== 'string') {
+        throw new Error(`Employee ${index + 1} needs an id and a name`)
+      }
+      return {
+        id: employee.id,
+        name: employee.name,
+        title: typeof employee.title === 'string' ? employee.title : '',
+        managerId: typeof employee.managerId === 'string' ? employee.managerId : null,
+        customFields: employee.customFields && typeof employee.customFields === 'object' ? employee.customFields : {}
+      }
+    })
+  }
+
+  private readGraph(graph: any[]): EmployeeRecord[] {
+    const people = graph.filter(node => node && (node['@type'] === 'Person' || (Array.isArray(node['@type']) && node['@type'].includes('Person'))))
+
+    // Reporting lines point at node IDs; employees are keyed on their identifier
+    const employeeIds = new Map<string, string>()
+    people.forEach(person => {
+      const id = String(person.identifier ?? person['@id'] ?? '')
+      if (person['@id']) employeeIds.set(String(person['@id']), id)
+    })
+
+    return people.map((person, index) => {
+      const id = String(person.identifier ?? person['@id'] ?? '')
+      if (!id || typeof person.name !== 'string') {
+        throw new Error(`Person ${index + 1} needs an identifier and a name`)
+      }
+
+      const reportsTo = person.reportsTo && typeof person.reportsTo === 'object' ? person.reportsTo['@id'] : person.reportsTo
+      const customFields: Record<string, any> = {}
+      const properties = Array.isArray(person.additionalProperty) ? person.additionalProperty : []
+      properties.forEach((property: any) => {
+        if (property && typeof property.name === 'string') {
+          customFields[property.name] = property.value
+        }
+      })
+
+      return {
+        id,
+        name: person.name,
+        title: typeof person.jobTitle === 'string' ? person.jobTitle : '',
+        managerId: reportsTo ? employeeIds.get(String(reportsTo)) || String(reportsTo) : null,
+        customFields
+      }
+    })
+  }
+
+  // The header row and a row per person, with custom field values as they are stored
+  private toTable(employees: Array<Pick<Employee, 'id' | 'name' | 'title' | 'managerId' | 'customFields'>>): any[][] {
+    const fixedHeaders = Object.keys(DATA_COLUMNS).map(key => DATA_COLUMNS[key as keyof typeof DATA_COLUMNS])
+    const reserved = new Set(fixedHeaders.map(header => header.toLowerCase()))
+
+    // Custom fields in the order they first appear; ones named like a fixed column are carried by it
+    const fields: string[] = []
+    employees.forEach(employee => {
+      Object.keys(employee.customFields || {}).forEach(field => {
+        if (!reserved.has(field.toLowerCase()) && !fields.includes(field)) {
+          fields.push(field)
+        }
+      })
+    })
+
+    const namesById = new Map(employees.map(employee => [employee.id, employee.name] as [string, string]))
+    const rows = employees.map(employee => [
+      employee.id,
+      employee.name,
+      employee.title === UNKNOWN_TITLE ? '' : employee.title || '',
+      employee.managerId || '',
+      (employee.managerId && namesById.get(employee.managerId)) || '',
+      ...fields.map(field => (employee.customFields || {})[field])
+    ])
+
+    return [[...fixedHeaders, ...fields], ...rows]
+  }
+}
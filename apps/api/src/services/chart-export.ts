@@ -0,0 +1,137 @@
+import {
+  ChartExportFile,
+  ChartExportFormat,
+  ChartExportOptions,
+  Employee,
+  Organization,
+  renderChartDot,
+  renderChartGraphml,
+  renderChartMermaid,
+  renderChartSvg
+} from '../../../../packages/shared'
+import { ChartDataService } from './chart-data'
+import { ChartPdfService } from './chart-pdf'
+import { ChartPptxService } from './chart-pptx'
+
+/**
+ * Renders an organization's chart into downloadable files. Rendering happens on the server
+ * from the stored employees, so an export always covers the whole chart.
+ */
+export class ChartExportService {
+  constructor(
+    private readonly chartPdf = new ChartPdfService(),
+    private readonly chartPptx = new ChartPptxService(),
+    private readonly chartData = new ChartDataService()
+  ) {}
+
+  export(
+    organization: Organization,
+    employees: Employee[],
+    format: ChartExportFormat,
+    options: ChartExportOptions = {},
+    exportedAt = new Date()
+  ): ChartExportFile {
+    const baseName = this.fileBaseName(organization.name, exportedAt)
+
+    switch (format) {
+      case 'svg':
+        return {
+          fileName: `${baseName}.svg`,
+          mimeType: 'image/svg+xml',
+          encoding: 'utf-8',
+          content: renderChartSvg(employees, { title: organization.name, layout: options.layout })
+        }
+      case 'pdf': {
+        const document = this.chartPdf.draw(organization.name, employees, options, exportedAt)
+        const unsupported = document.unsupportedCharacters
+        return {
+          fileName: `${baseName}.pdf`,
+          mimeType: 'application/pdf',
+          encoding: 'base64',
+          content: document.toBuffer().toString('base64'),
+          ...(unsupported.length > 0 ? { warnings: [this.unsupportedCharactersWarning(unsupported)] } : {})
+        }
+      }
+      case 'pptx':
+        return {
+          fileName: `${baseName}.pptx`,
+          mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+          encoding: 'base64',
+          content: this.chartPptx.render(organization.name, employees, options, exportedAt).toString('base64')
+        }
+      case 'csv':
+        return {
+          fileName: `${baseName}.csv`,
+          mimeType: 'text/csv',
+          encoding: 'utf-8',
+          content: this.chartData.toCsv(employees)
+        }
+      case 'xlsx':
+        return {
+          fileName: `${baseName}.xlsx`,
+          mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          encoding: 'base64',
+          content: this.chartData.toXlsx(employees).toString('base64')
+        }
+      case 'json':
+        return {
+          fileName: `${baseName}.json`,
+          mimeType: 'application/json',
+          encoding: 'utf-8',
+          content: this.chartData.toJson(organization, employees, exportedAt)
+        }
+      case 'jsonld':
+        return {
+          fileName: `${baseName}.jsonld`,
+          mimeType: 'application/ld+json',
+          encoding: 'utf-8',
+          content: this.chartData.toJsonLd(organization, employees, exportedAt)
+        }
+      case 'mermaid':
+        return {
+          fileName: `${baseName}.mmd`,
+          mimeType: 'text/vnd.mermaid',
+          encoding: 'utf-8',
+          content: renderChartMermaid(employees, this.graphOptions(organization, options))
+        }
+      case 'dot':
+        return {
+          fileName: `${baseName}.dot`,
+          mimeType: 'text/vnd.graphviz',
+          encoding: 'utf-8',
+          content: renderChartDot(employees, this.graphOptions(organization, options))
+        }
+      case 'graphml':
+        return {
+          fileName: `${baseName}.graphml`,
+          mimeType: 'application/graphml+xml',
+          encoding: 'utf-8',
+          content: renderChartGraphml(employees, this.graphOptions(organization, options))
+        }
+    }
+  }
+
+  private graphOptions(organization: Organization, options: ChartExportOptions) {
+    return {
+      title: organization.name,
+      rootId: options.rootId,
+      depth: options.depth,
+      leftToRight: options.layout === 'left-right'
+    }
+  }
+
+  // "Acme Corp" exported on 1 March 2025 becomes acme-corp-org-chart-2025-03-01
+  private fileBaseName(organizationName: string, exportedAt: Date): string {
+    const slug = organizationName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+    return `${slug || 'org'}-org-chart-${exportedAt.toISOString().split('T')[0]}`
+  }
+
+  // PDFs use the standard fonts, which have no glyphs outside Western European scripts
+  private unsupportedCharactersWarning(characters: string[]): string {
+    const shown = characters.slice(0, 10).join(' ')
+    return `Some characters cannot be shown in PDF exports and print as "?": ${shown}${characters.length > 10 ? ' ...' : ''}`
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { ChartPdfService } from './chart-pdf'
+import { Employee } from '../../../../packages/shared'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+// A CEO over six departments, each with five teams of five
+const largeOrganization = (): Employee[] => {
+  const employees = [employee('ceo', 'Alex Morgan', null, 'CEO')]
+  for (let d = 0; d < 6; d++) {
+    employees.push(employee(`vp${d}`, `Vice President ${d}`, 'ceo', 'VP'))
+    for (let t = 0; t < 5; t++) {
+      employees.push(employee(`lead${d}-${t}`, `Lead ${d}-${t}`, `vp${d}`, 'Team Lead'))
+      for (let i = 0; i < 5; i++) {
+        employees.push(employee(`ic${d}-${t}-${i}`, `Engineer ${d}-${t}-${i}`, `lead${d}-${t}`))
+      }
+    }
+  }
+  return employees
+}
+
+const pageCount = (pdf: string) => Number(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1])
+
+describe('ChartPdfService', () => {
+  const service = new ChartPdfService()
+  const exportedAt = new Date('2026-03-01T12:00:00Z')
+
+  it('should write a cover page and one chart page for a small organization', () => {
+    const pdf = service.render('Acme', [
+      employee('1', 'Alex Morgan', null, 'CEO'),
+      employee('2', 'Marcus Reed', '1', 'CTO')
+    ], {}, exportedAt).toString('latin1')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pageCount(pdf)).toBe(2)
+    expect(pdf).toContain('(Exported March 1, 2026) Tj')
+    expect(pdf).toContain('(Marcus Reed) Tj')
+    expect(pdf).not.toContain('continued on page')
+
+    // The cross-reference table is where the trailer says it is
+    const startXref = Number(pdf.match(/startxref\n(\d+)/)![1])
+    expect(pdf.slice(startXref, startXref + 4)).toBe('xref')
+  })
+
+  it('should give every department its own page with continuation notes', () => {
+    const pdf = service.render('Acme', largeOrganization(), { layout: 'compact' }, exportedAt).toString('latin1')
+
+    // Cover, overview and six departments, each with its teams stacked under their leads
+    expect(pageCount(pdf)).toBe(8)
+    for (let page = 3; page <= 8; page++) {
+      expect(pdf).toContain(`(continued on page ${page}) Tj`)
+    }
+    expect(pdf).toContain('(Continued from page 2) Tj')
+    expect(pdf).toContain('(VP \u00b7 31 people) Tj')
+    expect(pdf).toContain('(Page 8 of 8) Tj')
+  })
+
+  it('should draw pages in the chosen layout', () => {
+    const employees = [
+      employee('1', 'Alex Morgan', null, 'CEO'),
+      employee('2', 'Marcus Reed', '1', 'CTO'),
+      employee('3', 'Dana Cole', '1', 'CFO')
+    ]
+    // Where each name is printed, as the x and y of its text position
+    const namePosition = (pdf: string, name: string) =>
+      pdf.match(new RegExp(`([\\d.]+) ([\\d.]+) Td\\n\\(${name}\\) Tj`))!.slice(1).map(Number)
+
+    const topDown = service.render('Acme', employees, {}, exportedAt).toString('latin1')
+    const [marcusX, marcusY] = namePosition(topDown, 'Marcus Reed')
+    const [danaX, danaY] = namePosition(topDown, 'Dana Cole')
+    expect(danaY).toBe(marcusY)
+    expect(danaX).toBeGreaterThan(marcusX)
+    expect(namePosition(topDown, 'Alex Morgan')[1]).toBeGreaterThan(marcusY)
+
+    const leftRight = service.render('Acme', employees, { layout: 'left-right' }, exportedAt).toString('latin1')
+    const [alexX] = namePosition(leftRight, 'Alex Morgan')
+    const [reportX, reportY] = namePosition(leftRight, 'Marcus Reed')
+    expect(reportX).toBeGreaterThan(alexX)
+    expect(namePosition(leftRight, 'Dana Cole')[1]).toBeLessThan(reportY)
+  })
+
+  it('should size pages for the chosen paper and orientation', () => {
+    const employees = [employee('1', 'Alex Morgan', null, 'CEO')]
+
+    expect(service.render('Acme', employees, { pageSize: 'letter', orientation: 'portrait' }).toString('latin1'))
+      .toContain('/MediaBox [0 0 612 792]')
+    expect(service.render('Acme', employees, { pageSize: 'a4', orientation: 'landscape' }).toString('latin1'))
+      .toContain('/MediaBox [0 0 841.89 595.28]')
+  })
+
+  it('should list the chart statistics on the cover', () => {
+    const pdf = service.render('Acme', largeOrganization(), {}, exportedAt).toString('latin1')
+
+    expect(pdf).toContain('(Employees) Tj')
+    expect(pdf).toContain('(187) Tj')
+    expect(pdf).toContain('(Reporting levels) Tj')
+  })
+
+  it('should print Western European names and report the characters it cannot show', () => {
+    const document = service.draw('Acme', [
+      employee('1', 'Zoë Šimková', null, 'CEO \u2013 Prague'),
+      employee('2', '李雷', '1', 'CTO'),
+      employee('3', 'Ελένη Παππά', '1', 'CFO')
+    ], {}, exportedAt)
+    const pdf = document.toBuffer().toString('latin1')
+
+    // Š and the en dash are in WinAnsi but not Latin-1
+    expect(pdf).toContain('(Zo\xeb \x8aimkov\xe1) Tj')
+    expect(pdf).toContain('(CEO \x96 Prague) Tj')
+    expect(pdf).toContain('(??) Tj')
+    expect(pdf).toContain('(????? ?????) Tj')
+    expect(document.unsupportedCharacters).toEqual(['李', '雷', 'Ε', 'λ', 'έ', 'ν', 'η', 'Π', 'α', 'π', 'ά'])
+  })
+})
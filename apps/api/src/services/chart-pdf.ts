@@ -0,0 +1,272 @@
+import { ChartExportOptions, ChartLayout, Employee } from '../../../../packages/shared'
+import {
+  ChartNode,
+  CHART_NODE_WIDTH,
+  CHART_NODE_HEIGHT,
+  buildChartTree,
+  calculateChartSection,
+  flattenChartNodes,
+  getChartConnectionPoints,
+  getChartConnections
+} from '../../../../packages/shared/chart-layout'
+import { ChartBuilderService } from './chart-builder'
+import { PdfDocument, PdfPage } from './pdf-document'
+
+// Portrait width and height in points
+const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+}
+const MARGIN = 36
+const HEADER_HEIGHT = 44
+const FOOTER_HEIGHT = 20
+// The cover is page 1
+const FIRST_CHART_PAGE = 2
+// Smallest zoom a page is drawn at before its deeper levels move to pages of their own
+const MIN_SCALE = 0.45
+
+// Print colors: pale fills with the viewer's level accents as borders
+const LEVEL_COLORS = [
+  { fill: '#eff6ff', stroke: '#3b82f6' },
+  { fill: '#faf5ff', stroke: '#a855f7' },
+  { fill: '#f0fdf4', stroke: '#22c55e' },
+  { fill: '#fffbeb', stroke: '#f59e0b' }
+]
+const EMPLOYEE_COLORS = { fill: '#f8fafc', stroke: '#94a3b8' }
+const TEXT_COLOR = '#0f172a'
+const MUTED_COLOR = '#64748b'
+
+interface PlannedPage {
+  // Full subtrees; the page shows them down to `depth` levels below the roots
+  roots: ChartNode[]
+  depth: number
+  heading: string
+  subheading?: string
+  continuedFrom?: number
+  // Where each cut-off node's reports continue, by employee ID
+  continuations: Map<string, number>
+}
+
+interface PageLayout {
+  // Positioned in the viewer's units, where nodes are 200 by 80
+  nodes: ChartNode[]
+  // Connector lines as points, colored by the manager's level
+  lines: Array<{ level: number; points: Array<[number, number]> }>
+  width: number
+  height: number
+}
+
+interface Area {
+  width: number
+  height: number
+}
+
+/**
+ * Lays an organization's chart out for print, in the same layout as the viewer. The top of the
+ * chart goes on an overview page and every department below it gets a page of its own; when a
+ * department is still too big to read, its deeper teams continue on later pages, with a note on
+ * each cut-off node pointing there.
+ */
+export class ChartPdfService {
+  constructor(private readonly chartBuilder = new ChartBuilderService()) {}
+
+  render(title: string, employees: Employee[], options: ChartExportOptions = {}, exportedAt = new Date()): Buffer {
+    return this.draw(title, employees, options, exportedAt).toBuffer()
+  }
+
+  // The drawn document, before it is written out; it knows which characters it could not print
+  draw(title: string, employees: Employee[], options: ChartExportOptions = {}, exportedAt = new Date()): PdfDocument {
+    const portrait = PAGE_SIZES[options.pageSize || 'a4']
+    const { width, height } = (options.orientation || 'landscape') === 'landscape'
+      ? { width: portrait.height, height: portrait.width }
+      : portrait
+    const area: Area = {
+      width: width - MARGIN * 2,
+      height: height - MARGIN * 2 - HEADER_HEIGHT - FOOTER_HEIGHT
+    }
+
+    const tree = buildChartTree(employees)
+    const layout = options.layout || 'top-down'
+    const pages = this.planPages(title, tree, area, layout)
+    const totalPages = pages.length + 1
+
+    const document = new PdfDocument({ title: `${title} organization chart`, createdAt: exportedAt })
+    this.drawCover(document.addPage(width, height), title, employees, tree, exportedAt, totalPages)
+    pages.forEach((planned, index) => {
+      const page = document.addPage(width, height)
+      this.drawChartPage(page, planned, area, layout)
+      this.drawFooter(page, title, FIRST_CHART_PAGE + index, totalPages)
+    })
+
+    return document
+  }
+
+  private planPages(title: string, tree: ChartNode[], area: Area, layout: ChartLayout): PlannedPage[] {
+    // A chart that fits on one page stays whole; otherwise the overview stops at the departments
+    const fitsWhole = this.scaleFor(this.layout(tree, Infinity, layout), area) >= MIN_SCALE
+    const pages: PlannedPage[] = [{
+      roots: tree,
+      depth: fitsWhole ? Infinity : 1,
+      heading: title,
+      subheading: fitsWhole ? undefined : 'Leadership overview',
+      continuations: new Map()
+    }]
+
+    // Pages are numbered in the order they are planned, so every continuation knows its target
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i]
+      this.cutOffNodes(page.roots, page.depth).forEach(node => {
+        page.continuations.set(node.id, FIRST_CHART_PAGE + pages.length)
+        pages.push({
+          roots: [node],
+          depth: this.fitDepth(node, area, layout),
+          heading: node.name,
+          subheading: [node.title, `${flattenChartNodes([node]).length} people`].filter(Boolean).join(' · '),
+          continuedFrom: FIRST_CHART_PAGE + i,
+          continuations: new Map()
+        })
+      })
+    }
+
+    return pages
+  }
+
+  // The most levels of a department that fit legibly, and always at least its direct reports
+  private fitDepth(root: ChartNode, area: Area, layout: ChartLayout): number {
+    for (let depth = this.depthOf(root); depth > 1; depth--) {
+      if (this.scaleFor(this.layout([root], depth, layout), area) >= MIN_SCALE) return depth
+    }
+    return 1
+  }
+
+  private depthOf(node: ChartNode): number {
+    return node.children.length === 0 ? 0 : 1 + Math.max(...node.children.map(child => this.depthOf(child)))
+  }
+
+  // Nodes shown on a page whose reports are left for later pages
+  private cutOffNodes(roots: ChartNode[], depth: number): ChartNode[] {
+    const cut: ChartNode[] = []
+    const visit = (node: ChartNode, remaining: number) => {
+      if (node.children.length === 0) return
+      if (remaining === 0) {
+        cut.push(node)
+        return
+      }
+      node.children.forEach(child => visit(child, remaining - 1))
+    }
+    roots.forEach(root => visit(root, depth))
+    return cut
+  }
+
+  // The page's part of the chart in the chosen layout, with its reporting lines colored by the manager's level
+  private layout(roots: ChartNode[], depth: number, chartLayout: ChartLayout): PageLayout {
+    const section = calculateChartSection(roots, chartLayout, depth)
+    return {
+      nodes: flattenChartNodes(section.roots),
+      lines: getChartConnections(section.roots).map(connection => ({
+        level: connection.from.level,
+        points: getChartConnectionPoints(connection, chartLayout)
+      })),
+      width: section.width,
+      height: section.height
+    }
+  }
+
+  private scaleFor(layout: PageLayout, area: Area): number {
+    if (layout.nodes.length === 0) return 1
+    return Math.min(area.width / layout.width, area.height / layout.height, 1)
+  }
+
+  private drawCover(page: PdfPage, title: string, employees: Employee[], tree: ChartNode[], exportedAt: Date, totalPages: number): void {
+    const { statistics } = this.chartBuilder.buildChart(employees)
+    const shown = flattenChartNodes(tree)
+    const rows: Array<[string, string]> = [
+      ['Employees', String(statistics.totalEmployees)],
+      ['Top-level employees', String(statistics.rootEmployees)],
+      ['Managers', String(shown.filter(node => node.children.length > 0).length)],
+      ['Reporting levels', String(tree.length > 0 ? 1 + Math.max(...tree.map(root => this.depthOf(root))) : 0)],
+      ['Largest team', String(Math.max(0, ...shown.map(node => node.children.length)))],
+      ['Pages', String(totalPages)]
+    ]
+    if (statistics.orphanedEmployees > 0) {
+      rows.push(['Employees with a missing manager', String(statistics.orphanedEmployees)])
+    }
+
+    const top = page.height * 0.28
+    page.rect(MARGIN, top - 60, 6, 84, { fill: LEVEL_COLORS[0].stroke })
+    page.text(title, MARGIN + 20, top - 24, { size: 30, font: 'bold', color: TEXT_COLOR, maxWidth: page.width - MARGIN * 2 - 20 })
+    page.text('Organization chart', MARGIN + 20, top + 2, { size: 14, color: MUTED_COLOR })
+    page.text(
+      `Exported ${exportedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })}`,
+      MARGIN + 20,
+      top + 20,
+      { size: 11, color: MUTED_COLOR }
+    )
+
+    rows.forEach(([label, value], index) => {
+      const y = top + 72 + index * 24
+      page.text(label, MARGIN + 20, y, { size: 12, color: MUTED_COLOR })
+      page.text(value, MARGIN + 260, y, { size: 12, font: 'bold', color: TEXT_COLOR, align: 'right' })
+      page.polyline([[MARGIN + 20, y + 8], [MARGIN + 260, y + 8]], { stroke: '#e2e8f0', lineWidth: 0.5 })
+    })
+  }
+
+  private drawChartPage(page: PdfPage, planned: PlannedPage, area: Area, chartLayout: ChartLayout): void {
+    page.text(planned.heading, MARGIN, MARGIN + 16, { size: 16, font: 'bold', color: TEXT_COLOR, maxWidth: area.width * 0.7 })
+    if (planned.subheading) {
+      page.text(planned.subheading, MARGIN, MARGIN + 32, { size: 10, color: MUTED_COLOR, maxWidth: area.width * 0.7 })
+    }
+    if (planned.continuedFrom) {
+      page.text(`Continued from page ${planned.continuedFrom}`, page.width - MARGIN, MARGIN + 16, { size: 10, color: MUTED_COLOR, align: 'right' })
+    }
+
+    if (planned.roots.length === 0) {
+      page.text('This chart has no employees yet', page.width / 2, MARGIN + HEADER_HEIGHT + area.height / 2, { size: 12, color: MUTED_COLOR, align: 'center' })
+      return
+    }
+
+    const layout = this.layout(planned.roots, planned.depth, chartLayout)
+    const scale = this.scaleFor(layout, area)
+    const offsetX = MARGIN + (area.width - layout.width * scale) / 2
+    const offsetY = MARGIN + HEADER_HEIGHT
+    const toPage = (x: number, y: number): [number, number] => [offsetX + x * scale, offsetY + y * scale]
+
+    layout.lines.forEach(line => {
+      page.polyline(line.points.map(([x, y]) => toPage(x, y)), { stroke: this.colorsFor(line.level).stroke, lineWidth: 1 })
+    })
+
+    layout.nodes.forEach(node => {
+      const colors = this.colorsFor(node.level)
+      const [x, y] = toPage(node.x, node.y)
+      const centerX = x + CHART_NODE_WIDTH * scale / 2
+      const textWidth = (CHART_NODE_WIDTH - 16) * scale
+      // Other layouts pack cards closer than the space a note under the card needs, so it goes inside
+      const continuesOn = planned.continuations.get(node.id)
+      const textTop = continuesOn ? y - 6 * scale : y
+
+      page.rect(x, y, CHART_NODE_WIDTH * scale, CHART_NODE_HEIGHT * scale, {
+        fill: colors.fill,
+        stroke: colors.stroke,
+        lineWidth: 1,
+        radius: 12 * scale
+      })
+      page.text(node.name, centerX, textTop + 32 * scale, { size: 14 * scale, font: 'bold', color: TEXT_COLOR, align: 'center', maxWidth: textWidth })
+      if (node.title && node.title !== 'Unknown Title') {
+        page.text(node.title, centerX, textTop + 52 * scale, { size: 11 * scale, color: MUTED_COLOR, align: 'center', maxWidth: textWidth })
+      }
+      if (continuesOn) {
+        page.text(`continued on page ${continuesOn}`, centerX, y + 70 * scale, { size: 9 * scale, color: colors.stroke, align: 'center', maxWidth: textWidth })
+      }
+    })
+  }
+
+  private drawFooter(page: PdfPage, title: string, pageNumber: number, totalPages: number): void {
+    const y = page.height - MARGIN + 8
+    page.text(title, MARGIN, y, { size: 8, color: MUTED_COLOR, maxWidth: page.width / 2 })
+    page.text(`Page ${pageNumber} of ${totalPages}`, page.width - MARGIN, y, { size: 8, color: MUTED_COLOR, align: 'right' })
+  }
+
+  private colorsFor(level: number) {
+    return LEVEL_COLORS[level] || EMPLOYEE_COLORS
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { strFromU8, unzipSync } from 'fflate'
+import { ChartPptxService } from './chart-pptx'
+import { Employee } from '../../../../packages/shared'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+// Reads every entry back out of the archive
+const unzip = (archive: Buffer): Map<string, string> => {
+  const entries = unzipSync(archive)
+  return new Map(Object.keys(entries).map(name => [name, strFromU8(entries[name])] as [string, string]))
+}
+
+const slides = (files: Map<string, string>): string[] => {
+  const result: string[] = []
+  for (let n = 1; files.has(`ppt/slides/slide${n}.xml`); n++) {
+    result.push(files.get(`ppt/slides/slide${n}.xml`)!)
+  }
+  return result
+}
+
+// A CEO over two VPs, one of whom leads a team of ten
+const organization = (): Employee[] => {
+  const employees = [
+    employee('ceo', 'Alex Morgan', null, 'CEO', { Location: 'London' }),
+    employee('vp1', 'Marcus Reed', 'ceo', 'VP Engineering', { Location: 'Berlin', Team: 'Platform' }),
+    employee('vp2', 'Dana Cole', 'ceo', 'VP Sales')
+  ]
+  for (let i = 0; i < 10; i++) {
+    employees.push(employee(`ic${i}`, `Engineer ${i}`, 'vp1'))
+  }
+  return employees
+}
+
+describe('ChartPptxService', () => {
+  const service = new ChartPptxService()
+
+  it('should write a presentation package with one slide part per slide', () => {
+    const files = unzip(service.render('Acme', organization()))
+
+    expect(files.get('[Content_Types].xml')).toContain('/ppt/presentation.xml')
+    expect(files.get('_rels/.rels')).toContain('Target="ppt/presentation.xml"')
+    // The overview shows the CEO's team; the ten engineers split over two slides
+    expect(slides(files)).toHaveLength(3)
+    expect(files.get('ppt/presentation.xml')).toContain('<p:sldId id="258" r:id="rId8"/>')
+    expect(files.get('ppt/_rels/presentation.xml.rels')).toContain('Id="rId8" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide3.xml"')
+  })
+
+  it('should put the content types part first and keep non-Latin names intact', () => {
+    const deck = service.render('Åkesson & 王', [employee('1', '王芳', null, 'CEO')])
+    const files = unzip(deck)
+
+    expect(Array.from(files.keys())[0]).toBe('[Content_Types].xml')
+    expect(slides(files)[0]).toContain('<a:t>王芳</a:t>')
+    expect(files.get('docProps/core.xml')).toContain('Åkesson &amp; 王')
+  })
+
+  it('should draw cards as shapes joined by glued connectors', () => {
+    const [overview, firstTeamSlide, secondTeamSlide] = slides(unzip(service.render('Acme', organization())))
+
+    expect(overview).toContain('<a:t>Acme</a:t>')
+    expect(overview).toContain('<a:t>Alex Morgan</a:t>')
+    expect(overview).toContain('<a:t>10 reports · slide 2</a:t>')
+    expect(overview.match(/<p:cxnSp>/g)).toHaveLength(2)
+    expect(overview).toContain('<a:stCxn id="4" idx="2"/><a:endCxn id="5" idx="0"/>')
+
+    expect(firstTeamSlide).toContain("<a:t>Marcus Reed's team (1 of 2)</a:t>")
+    expect(firstTeamSlide.match(/<p:cxnSp>/g)).toHaveLength(8)
+    expect(secondTeamSlide).toContain('<a:t>Engineer 9</a:t>')
+    expect(secondTeamSlide.match(/<p:cxnSp>/g)).toHaveLength(2)
+  })
+
+  it('should print the chosen custom fields on the cards', () => {
+    const [overview] = slides(unzip(service.render('Acme', organization(), { fields: ['Location'] })))
+
+    expect(overview).toContain('<a:t>Location: London</a:t>')
+    expect(overview).toContain('<a:t>Location: Berlin</a:t>')
+    expect(overview).not.toContain('Platform')
+  })
+
+  it('should honour the depth and overview options', () => {
+    const topOnly = slides(unzip(service.render('Acme', organization(), { depth: 1 })))
+    expect(topOnly).toHaveLength(1)
+    expect(topOnly[0]).toContain('<a:t>10 reports</a:t>')
+
+    const withoutOverview = slides(unzip(service.render('Acme', organization(), { includeOverview: false })))
+    expect(withoutOverview).toHaveLength(3)
+    expect(withoutOverview[0]).toContain("<a:t>Alex Morgan's team</a:t>")
+  })
+  it('should lay the slides out in the chosen layout', () => {
+    const [overview] = slides(unzip(service.render('Acme', organization(), { layout: 'left-right' })))
+    // Reports sit to the right of their manager, joined side to side
+    expect(overview).toContain('<a:stCxn id="4" idx="3"/><a:endCxn id="5" idx="1"/>')
+
+    const [, teamSlide] = slides(unzip(service.render('Acme', organization(), { layout: 'compact' })))
+    // A team with no managers in it is stacked under the manager
+    expect(teamSlide).toContain('<a:stCxn id="4" idx="1"/><a:endCxn id="5" idx="1"/>')
+  })
+})
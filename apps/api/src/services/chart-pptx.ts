@@ -0,0 +1,478 @@
+import { Zippable, strToU8, zipSync } from 'fflate'
+import { ChartExportOptions, ChartLayout, Employee } from '../../../../packages/shared'
+import {
+  CHART_NODE_HEIGHT,
+  CHART_NODE_WIDTH,
+  ChartNode,
+  buildChartTree,
+  calculateChartSection,
+  flattenChartNodes,
+  getChartConnectionPoints,
+  getChartConnections
+} from '../../../../packages/shared/chart-layout'
+
+// Sizes are in EMUs: 914400 to the inch
+const INCH = 914400
+const SLIDE_WIDTH = 12192000
+const SLIDE_HEIGHT = 6858000
+const MARGIN = INCH / 2
+const MAX_CARD_WIDTH = INCH * 2.25
+// More reports than this would make the cards too small to read
+const MAX_REPORTS_PER_SLIDE = 8
+const CARD_HEIGHT = INCH * 0.65
+const LINE_HEIGHT = INCH * 0.2
+const CONTENT_TOP = INCH * 1.4
+
+// Same accents as the chart viewer, one per level for the first four levels
+const LEVEL_COLORS = [
+  { fill: 'EFF6FF', line: '3B82F6' },
+  { fill: 'FAF5FF', line: 'A855F7' },
+  { fill: 'F0FDF4', line: '22C55E' },
+  { fill: 'FFFBEB', line: 'F59E0B' }
+]
+const EMPLOYEE_COLORS = { fill: 'F8FAFC', line: '94A3B8' }
+const TEXT_COLOR = '0F172A'
+const MUTED_COLOR = '64748B'
+
+const NAMESPACES = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+interface PlannedSlide {
+  heading: string
+  subheading: string
+  // null on an overview of several top-level people
+  manager: ChartNode | null
+  reports: ChartNode[]
+}
+
+interface Card {
+  id: number
+  node: ChartNode
+  x: number
+  y: number
+  width: number
+  height: number
+  isStacked: boolean
+}
+
+type Point = [number, number]
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML at all
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+
+const round = (value: number): number => Math.round(value)
+
+// Where connectors can be glued on a rounded rectangle: 0 top, 1 left, 2 bottom and 3 right
+const connectionSite = (card: Card, site: number): Point => {
+  switch (site) {
+    case 0: return [card.x + card.width / 2, card.y]
+    case 1: return [card.x, card.y + card.height / 2]
+    case 2: return [card.x + card.width / 2, card.y + card.height]
+    default: return [card.x + card.width, card.y + card.height / 2]
+  }
+}
+
+/**
+ * Builds PowerPoint decks from a chart: an optional overview of the top of the organization,
+ * then a slide for each manager's team, laid out the same way as the viewer. Cards are native
+ * rounded rectangles and the reporting lines are connectors glued to them, so both stay editable
+ * in PowerPoint.
+ */
+export class ChartPptxService {
+  render(title: string, employees: Employee[], options: ChartExportOptions = {}, exportedAt = new Date()): Buffer {
+    const employeesById = new Map(employees.map(employee => [employee.id, employee] as [string, Employee]))
+    const slides = this.planSlides(title, buildChartTree(employees), options)
+
+    // Team slides are listed on their manager's card wherever that card appears
+    const teamSlides = new Map<string, number>()
+    slides.forEach((slide, index) => {
+      if (slide.manager && !teamSlides.has(slide.manager.id)) {
+        teamSlides.set(slide.manager.id, index + 1)
+      }
+    })
+
+    // Entries are written in the order they are added, with the content types part first
+    const files: Zippable = {}
+    const addFile = (path: string, content: string) => {
+      files[path] = strToU8(content)
+    }
+    addFile('[Content_Types].xml', this.contentTypes(slides.length))
+    addFile('_rels/.rels', this.relationships([
+      ['officeDocument', 'ppt/presentation.xml'],
+      ['metadata/core-properties', 'docProps/core.xml', 'http://schemas.openxmlformats.org/package/2006/relationships'],
+      ['extended-properties', 'docProps/app.xml']
+    ]))
+    addFile('docProps/core.xml', this.coreProperties(title, exportedAt))
+    addFile('docProps/app.xml', this.appProperties(slides.length))
+    addFile('ppt/presentation.xml', this.presentation(slides.length))
+    addFile('ppt/_rels/presentation.xml.rels', this.relationships([
+      ['slideMaster', 'slideMasters/slideMaster1.xml'],
+      ['theme', 'theme/theme1.xml'],
+      ['presProps', 'presProps.xml'],
+      ['viewProps', 'viewProps.xml'],
+      ['tableStyles', 'tableStyles.xml'],
+      ...slides.map((_, index): [string, string] => ['slide', `slides/slide${index + 1}.xml`])
+    ]))
+    addFile('ppt/presProps.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<p:presentationPr ${NAMESPACES}/>`)
+    addFile('ppt/viewProps.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<p:viewPr ${NAMESPACES}/>`)
+    addFile('ppt/tableStyles.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>')
+    addFile('ppt/theme/theme1.xml', this.theme())
+    addFile('ppt/slideMasters/slideMaster1.xml', this.slideMaster())
+    addFile('ppt/slideMasters/_rels/slideMaster1.xml.rels', this.relationships([
+      ['slideLayout', '../slideLayouts/slideLayout1.xml'],
+      ['theme', '../theme/theme1.xml']
+    ]))
+    addFile('ppt/slideLayouts/slideLayout1.xml', this.slideLayout())
+    addFile('ppt/slideLayouts/_rels/slideLayout1.xml.rels', this.relationships([
+      ['slideMaster', '../slideMasters/slideMaster1.xml']
+    ]))
+
+    const layout = options.layout || 'top-down'
+    slides.forEach((slide, index) => {
+      addFile(`ppt/slides/slide${index + 1}.xml`, this.slide(slide, employeesById, options.fields || [], teamSlides, layout))
+      addFile(`ppt/slides/_rels/slide${index + 1}.xml.rels`, this.relationships([
+        ['slideLayout', '../slideLayouts/slideLayout1.xml']
+      ]))
+    })
+
+    return Buffer.from(zipSync(files, { mtime: exportedAt }))
+  }
+
+  private planSlides(title: string, tree: ChartNode[], options: ChartExportOptions): PlannedSlide[] {
+    const slides: PlannedSlide[] = []
+    const includeOverview = options.includeOverview !== false
+    const total = flattenChartNodes(tree).length
+
+    // With a single person at the top, their team is the overview
+    const overviewManager = tree.length === 1 ? tree[0] : null
+    if (includeOverview && tree.length > 0) {
+      slides.push(...this.teamSlides(
+        overviewManager,
+        overviewManager ? overviewManager.children : tree,
+        title,
+        `Organization overview · ${total} ${total === 1 ? 'person' : 'people'}`
+      ))
+    }
+
+    // Managers in chart order, limited to the requested number of management levels
+    const depth = options.depth ?? Infinity
+    flattenChartNodes(tree)
+      .filter(node => node.children.length > 0 && node.level < depth)
+      .filter(node => !(includeOverview && node === overviewManager))
+      .forEach(manager => {
+        slides.push(...this.teamSlides(
+          manager,
+          manager.children,
+          `${manager.name}'s team`,
+          [manager.title, `${manager.children.length} direct ${manager.children.length === 1 ? 'report' : 'reports'}`].filter(Boolean).join(' · ')
+        ))
+      })
+
+    return slides
+  }
+
+  // Large teams continue over several slides
+  private teamSlides(manager: ChartNode | null, reports: ChartNode[], heading: string, subheading: string): PlannedSlide[] {
+    const parts = Math.max(1, Math.ceil(reports.length / MAX_REPORTS_PER_SLIDE))
+    const slides: PlannedSlide[] = []
+    for (let part = 0; part < parts; part++) {
+      slides.push({
+        heading: parts > 1 ? `${heading} (${part + 1} of ${parts})` : heading,
+        subheading,
+        manager,
+        reports: reports.slice(part * MAX_REPORTS_PER_SLIDE, (part + 1) * MAX_REPORTS_PER_SLIDE)
+      })
+    }
+    return slides
+  }
+
+  private cardLines(node: ChartNode, employeesById: Map<string, Employee>, fields: string[], teamSlides: Map<string, number>, isManagerCard: boolean): string[] {
+    const customFields = employeesById.get(node.id)?.customFields || {}
+    const lines = fields
+      .filter(field => customFields[field] !== undefined && customFields[field] !== null && String(customFields[field]).trim() !== '')
+      .map(field => `${field}: ${customFields[field]}`)
+
+    if (!isManagerCard && node.children.length > 0) {
+      const slide = teamSlides.get(node.id)
+      const reports = `${node.children.length} ${node.children.length === 1 ? 'report' : 'reports'}`
+      lines.push(slide ? `${reports} · slide ${slide}` : reports)
+    }
+    return lines
+  }
+
+  private slide(slide: PlannedSlide, employeesById: Map<string, Employee>, fields: string[], teamSlides: Map<string, number>, layout: ChartLayout): string {
+    const contentWidth = SLIDE_WIDTH - MARGIN * 2
+    const contentHeight = SLIDE_HEIGHT - CONTENT_TOP - MARGIN
+    let nextId = 2
+    const shapes: string[] = []
+
+    shapes.push(this.textBox(nextId++, 'Title', MARGIN, INCH * 0.35, contentWidth, INCH * 0.5, slide.heading, 2400, TEXT_COLOR, true))
+    shapes.push(this.textBox(nextId++, 'Subtitle', MARGIN, INCH * 0.85, contentWidth, INCH * 0.35, slide.subheading, 1200, MUTED_COLOR, false))
+
+    // The reports' own teams are left for their slides
+    const section = slide.manager
+      ? calculateChartSection([{ ...slide.manager, children: slide.reports }], layout, 1)
+      : calculateChartSection(slide.reports, layout, 0)
+    const nodes = flattenChartNodes(section.roots)
+    const chartNodes = new Map([...(slide.manager ? [slide.manager] : []), ...slide.reports].map(node => [node.id, node] as [string, ChartNode]))
+    const lines = nodes.map(node => this.cardLines(chartNodes.get(node.id)!, employeesById, fields, teamSlides, node.id === slide.manager?.id))
+
+    // Every card gets the same height, and the layout is stretched downwards to make room for it
+    const stretch = 1 + Math.max(0, ...lines.map(cardLines => cardLines.length)) * LINE_HEIGHT / CARD_HEIGHT
+    const scale = Math.min(contentWidth / section.width, contentHeight / (section.height * stretch), MAX_CARD_WIDTH / CHART_NODE_WIDTH)
+    const left = MARGIN + (contentWidth - section.width * scale) / 2
+    const toSlide = ([x, y]: Point): Point => [left + x * scale, CONTENT_TOP + y * stretch * scale]
+
+    const cards = new Map(nodes.map(node => {
+      const [x, y] = toSlide([node.x, node.y])
+      const card: Card = {
+        id: nextId++,
+        node: chartNodes.get(node.id)!,
+        x,
+        y,
+        width: CHART_NODE_WIDTH * scale,
+        height: CHART_NODE_HEIGHT * stretch * scale,
+        isStacked: Boolean(node.isStacked)
+      }
+      return [node.id, card] as [string, Card]
+    }))
+
+    // Cards are drawn over the ends of the connectors, as in the viewer
+    getChartConnections(section.roots).forEach(connection => {
+      const points = getChartConnectionPoints(connection, layout).map(toSlide)
+      shapes.push(this.connector(nextId++, cards.get(connection.from.id)!, cards.get(connection.to.id)!, points, layout))
+    })
+    nodes.forEach((node, index) => {
+      shapes.push(this.card(cards.get(node.id)!, lines[index]))
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<p:sld ${NAMESPACES}><p:cSld><p:spTree>`,
+      '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>',
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>',
+      ...shapes,
+      '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>'
+    ].join('')
+  }
+
+  private run(text: string, size: number, color: string, bold: boolean): string {
+    return `<a:r><a:rPr lang="en-US" sz="${size}"${bold ? ' b="1"' : ''} dirty="0"><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`
+  }
+
+  private textBox(id: number, name: string, x: number, y: number, width: number, height: number, text: string, size: number, color: string, bold: boolean): string {
+    return [
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>`,
+      `<p:spPr><a:xfrm><a:off x="${round(x)}" y="${round(y)}"/><a:ext cx="${round(width)}" cy="${round(height)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>`,
+      `<p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="t"><a:normAutofit/></a:bodyPr><a:lstStyle/><a:p>${this.run(text, size, color, bold)}</a:p></p:txBody></p:sp>`
+    ].join('')
+  }
+
+  private card(card: Card, extraLines: string[]): string {
+    const colors = LEVEL_COLORS[card.node.level] || EMPLOYEE_COLORS
+    // Cards shrunk to fit a large team get smaller type
+    const nameSize = card.width >= INCH * 1.6 ? 1200 : 1000
+    const detailSize = nameSize - 200
+    const paragraphs = [
+      this.run(card.node.name, nameSize, TEXT_COLOR, true),
+      ...(card.node.title && card.node.title !== 'Unknown Title' ? [this.run(card.node.title, detailSize, MUTED_COLOR, false)] : []),
+      ...extraLines.map(line => this.run(line, detailSize - 100, MUTED_COLOR, false))
+    ].map(run => `<a:p><a:pPr algn="ctr"/>${run}</a:p>`)
+
+    return [
+      `<p:sp><p:nvSpPr><p:cNvPr id="${card.id}" name="${escapeXml(card.node.name)}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>`,
+      `<p:spPr><a:xfrm><a:off x="${round(card.x)}" y="${round(card.y)}"/><a:ext cx="${round(card.width)}" cy="${round(card.height)}"/></a:xfrm>`,
+      '<a:prstGeom prst="roundRect"><a:avLst><a:gd name="adj" fmla="val 12000"/></a:avLst></a:prstGeom>',
+      `<a:solidFill><a:srgbClr val="${colors.fill}"/></a:solidFill><a:ln w="12700"><a:solidFill><a:srgbClr val="${colors.line}"/></a:solidFill></a:ln></p:spPr>`,
+      `<p:txBody><a:bodyPr wrap="square" lIns="45720" tIns="45720" rIns="45720" bIns="45720" anchor="ctr"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.join('')}</p:txBody></p:sp>`
+    ].join('')
+  }
+
+  /**
+   * A connector glued to the sides of the two cards that face each other in the layout, bending
+   * where the viewer's line does. Elbow connectors bend horizontally, so top-down ones are turned
+   * a quarter and mirrored for reports to the right to run down, across and down again.
+   */
+  private connector(id: number, from: Card, to: Card, points: Point[], layout: ChartLayout): string {
+    // Stacked reports hang off a line just left of their manager: out of the manager's side,
+    // down and back into the report's
+    if (to.isStacked) {
+      const [startX, startY] = connectionSite(from, 1)
+      const [endX, endY] = connectionSite(to, 1)
+      return this.connectorShape(id, from, 1, to, 1, [
+        `<a:xfrm><a:off x="${round(startX)}" y="${round(startY)}"/><a:ext cx="${round(endX - startX)}" cy="${round(endY - startY)}"/></a:xfrm>`,
+        '<a:prstGeom prst="bentConnector3"><a:avLst><a:gd name="adj1" fmla="val -50000"/></a:avLst></a:prstGeom>'
+      ].join(''))
+    }
+
+    if (layout === 'left-right') {
+      const [startX, startY] = connectionSite(from, 3)
+      const [endX, endY] = connectionSite(to, 1)
+      const bend = endX > startX ? (points[1][0] - startX) / (endX - startX) : 0.5
+      const flip = endY < startY ? ' flipV="1"' : ''
+      return this.connectorShape(id, from, 3, to, 1, [
+        `<a:xfrm${flip}><a:off x="${round(startX)}" y="${round(Math.min(startY, endY))}"/><a:ext cx="${round(endX - startX)}" cy="${round(Math.abs(endY - startY))}"/></a:xfrm>`,
+        `<a:prstGeom prst="bentConnector3"><a:avLst><a:gd name="adj1" fmla="val ${round(bend * 100000)}"/></a:avLst></a:prstGeom>`
+      ].join(''))
+    }
+
+    if (layout === 'radial') {
+      // Straight out of whichever side faces the report
+      const dx = (to.x + to.width / 2) - (from.x + from.width / 2)
+      const dy = (to.y + to.height / 2) - (from.y + from.height / 2)
+      const [fromSite, toSite] = Math.abs(dx) * from.height > Math.abs(dy) * from.width
+        ? (dx > 0 ? [3, 1] : [1, 3])
+        : (dy > 0 ? [2, 0] : [0, 2])
+      const [startX, startY] = connectionSite(from, fromSite)
+      const [endX, endY] = connectionSite(to, toSite)
+      const flip = `${endX < startX ? ' flipH="1"' : ''}${endY < startY ? ' flipV="1"' : ''}`
+      return this.connectorShape(id, from, fromSite, to, toSite, [
+        `<a:xfrm${flip}><a:off x="${round(Math.min(startX, endX))}" y="${round(Math.min(startY, endY))}"/><a:ext cx="${round(Math.abs(endX - startX))}" cy="${round(Math.abs(endY - startY))}"/></a:xfrm>`,
+        '<a:prstGeom prst="straightConnector1"><a:avLst/></a:prstGeom>'
+      ].join(''))
+    }
+
+    const [startX, startY] = connectionSite(from, 2)
+    const [endX, endY] = connectionSite(to, 0)
+    const height = endY - startY
+    const width = Math.abs(endX - startX)
+    const bend = height > 0 ? (points[1][1] - startY) / height : 0.5
+
+    // The unrotated box has the height and width swapped and shares the path's center
+    const centerX = (startX + endX) / 2
+    const centerY = (startY + endY) / 2
+    const flip = endX > startX ? ' flipV="1"' : ''
+
+    return this.connectorShape(id, from, 2, to, 0, [
+      `<a:xfrm rot="5400000"${flip}><a:off x="${round(centerX - height / 2)}" y="${round(centerY - width / 2)}"/><a:ext cx="${round(height)}" cy="${round(width)}"/></a:xfrm>`,
+      `<a:prstGeom prst="bentConnector3"><a:avLst><a:gd name="adj1" fmla="val ${round(bend * 100000)}"/></a:avLst></a:prstGeom>`
+    ].join(''))
+  }
+
+  private connectorShape(id: number, from: Card, fromSite: number, to: Card, toSite: number, geometry: string): string {
+    const colors = LEVEL_COLORS[from.node.level] || EMPLOYEE_COLORS
+    return [
+      `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="Connector ${id}"/>`,
+      `<p:cNvCxnSpPr><a:stCxn id="${from.id}" idx="${fromSite}"/><a:endCxn id="${to.id}" idx="${toSite}"/></p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr>`,
+      `<p:spPr>${geometry}`,
+      `<a:ln w="12700"><a:solidFill><a:srgbClr val="${colors.line}"/></a:solidFill></a:ln></p:spPr></p:cxnSp>`
+    ].join('')
+  }
+
+  private relationships(relations: Array<[string, string] | [string, string, string]>): string {
+    const items = relations.map(([type, target, base], index) =>
+      `<Relationship Id="rId${index + 1}" Type="${base || RELATIONSHIP_TYPE}/${type}" Target="${target}"/>`
+    )
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items.join('')}</Relationships>`
+  }
+
+  private contentTypes(slideCount: number): string {
+    const part = (name: string, type: string) => `<Override PartName="${name}" ContentType="application/vnd.openxmlformats-officedocument.${type}"/>`
+    const slides = Array.from({ length: slideCount }, (_, index) => part(`/ppt/slides/slide${index + 1}.xml`, 'presentationml.slide+xml'))
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      part('/ppt/presentation.xml', 'presentationml.presentation.main+xml'),
+      part('/ppt/presProps.xml', 'presentationml.presProps+xml'),
+      part('/ppt/viewProps.xml', 'presentationml.viewProps+xml'),
+      part('/ppt/tableStyles.xml', 'presentationml.tableStyles+xml'),
+      part('/ppt/theme/theme1.xml', 'theme+xml'),
+      part('/ppt/slideMasters/slideMaster1.xml', 'presentationml.slideMaster+xml'),
+      part('/ppt/slideLayouts/slideLayout1.xml', 'presentationml.slideLayout+xml'),
+      ...slides,
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+      part('/docProps/app.xml', 'extended-properties+xml'),
+      '</Types>'
+    ].join('')
+  }
+
+  private coreProperties(title: string, exportedAt: Date): string {
+    const timestamp = `${exportedAt.toISOString().split('.')[0]}Z`
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+      `<dc:title>${escapeXml(`${title} organization chart`)}</dc:title>`,
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>`,
+      `<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>`,
+      '</cp:coreProperties>'
+    ].join('')
+  }
+
+  private appProperties(slideCount: number): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Org Chart Generator</Application><Slides>${slideCount}</Slides></Properties>`
+  }
+
+  private presentation(slideCount: number): string {
+    // Slide relationships come after the five fixed parts in presentation.xml.rels
+    const slideIds = Array.from({ length: slideCount }, (_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 6}"/>`)
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<p:presentation ${NAMESPACES} saveSubsetFonts="1">`,
+      '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>',
+      `<p:sldIdLst>${slideIds.join('')}</p:sldIdLst>`,
+      `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>`,
+      '</p:presentation>'
+    ].join('')
+  }
+
+  private emptyShapeTree(): string {
+    return '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree>'
+  }
+
+  private slideMaster(): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<p:sldMaster ${NAMESPACES}>`,
+      `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${this.emptyShapeTree()}</p:cSld>`,
+      '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>',
+      '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>',
+      '</p:sldMaster>'
+    ].join('')
+  }
+
+  private slideLayout(): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<p:sldLayout ${NAMESPACES} type="blank" preserve="1">`,
+      `<p:cSld name="Blank">${this.emptyShapeTree()}</p:cSld>`,
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>',
+      '</p:sldLayout>'
+    ].join('')
+  }
+
+  private theme(): string {
+    const color = (name: string, value: string) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`
+    const solid = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+    const line = (width: number) => `<a:ln w="${width}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Org Chart"><a:themeElements>',
+      '<a:clrScheme name="Org Chart">',
+      '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>',
+      color('dk2', '0F172A'), color('lt2', 'F1F5F9'),
+      color('accent1', '3B82F6'), color('accent2', 'A855F7'), color('accent3', '22C55E'),
+      color('accent4', 'F59E0B'), color('accent5', '6366F1'), color('accent6', 'EF4444'),
+      color('hlink', '4F46E5'), color('folHlink', '7C3AED'),
+      '</a:clrScheme>',
+      '<a:fontScheme name="Org Chart">',
+      '<a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>',
+      '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>',
+      '</a:fontScheme>',
+      '<a:fmtScheme name="Org Chart">',
+      `<a:fillStyleLst>${solid}${solid}${solid}</a:fillStyleLst>`,
+      `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>`,
+      '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>',
+      `<a:bgFillStyleLst>${solid}${solid}${solid}</a:bgFillStyleLst>`,
+      '</a:fmtScheme>',
+      '</a:themeElements></a:theme>'
+    ].join('')
+  }
+}
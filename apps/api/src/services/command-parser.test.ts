@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { CommandParserService } from './command-parser'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+describe('CommandParserService', () => {
+  const parser = new CommandParserService()
+
+  const employees = [
+    employee('1', 'Alex Morgan', null, 'CEO'),
+    employee('2', 'Marcus Reed', '1', 'CTO'),
+    employee('3', 'Priya Patel', '1'),
+    employee('4', 'Omar Haddad', '2', 'Account Executive'),
+    employee('5', 'Sam Lee', '2'),
+    employee('6', 'Sam Ortiz', '2')
+  ]
+
+  it.each([
+    ['move Priya under Marcus'],
+    ['Move Priya Patel to Marcus Reed\'s team.'],
+    ['transfer priya patel to report to marcus'],
+    ['Priya now reports to Marcus'],
+    ['make Priya report to Marcus Reed']
+  ])('should read "%s" as a manager change', (text) => {
+    expect(parser.parse(text, employees)).toEqual({
+      success: true,
+      command: { intent: 'move', employeeId: '3', newManagerId: '2' },
+      description: 'Move Priya Patel under Marcus Reed'
+    })
+  })
+
+  it('should read a new hire with a title and manager', () => {
+    expect(parser.parse('add Jane Doe as Senior Engineer reporting to Alex', employees)).toEqual({
+      success: true,
+      command: { intent: 'add', name: 'Jane Doe', title: 'Senior Engineer', managerId: '1' },
+      description: 'Add Jane Doe as Senior Engineer reporting to Alex Morgan'
+    })
+    expect(parser.parse('hire Li Wei as a Designer', employees).command)
+      .toEqual({ intent: 'add', name: 'Li Wei', title: 'Designer', managerId: null })
+  })
+
+  it.each([
+    ['rename the title of Omar to VP Sales'],
+    ['change Omar\'s title to VP Sales'],
+    ['promote Omar Haddad to VP Sales']
+  ])('should read "%s" as a title change', (text) => {
+    expect(parser.parse(text, employees)).toMatchObject({
+      success: true,
+      command: { intent: 'edit', employeeId: '4', name: 'Omar Haddad', title: 'VP Sales' },
+      description: 'Change Omar Haddad\'s title from Account Executive to VP Sales'
+    })
+  })
+
+  it('should read renames and removals', () => {
+    expect(parser.parse('rename Priya Patel to Priya Shah', employees).command)
+      .toEqual({ intent: 'edit', employeeId: '3', name: 'Priya Shah', title: 'Engineer' })
+    expect(parser.parse('remove Omar', employees).command).toEqual({ intent: 'remove', employeeId: '4' })
+  })
+
+  it('should resolve misspelled names when the match is clear and suggest the rest', () => {
+    expect(parser.parse('move Priya Patell under Marcus', employees).command)
+      .toEqual({ intent: 'move', employeeId: '3', newManagerId: '2' })
+    expect(parser.parse('move Priya under Marcus Reid', employees)).toEqual({
+      success: false,
+      error: '"Marcus Reid" could be Marcus Reed'
+    })
+  })
+
+  it('should ask which person an ambiguous name means', () => {
+    expect(parser.parse('move Sam under Priya', employees)).toEqual({
+      success: false,
+      error: '"Sam" could be Sam Lee or Sam Ortiz'
+    })
+  })
+
+  it('should report names that are not on the chart', () => {
+    expect(parser.parse('move Zoe under Marcus', employees)).toEqual({
+      success: false,
+      error: 'No one named Zoe is on this chart'
+    })
+  })
+
+  it('should suggest example commands when it cannot read one', () => {
+    const result = parser.parse('what is the weather', employees)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('move Priya under Marcus')
+  })
+})
@@ -0,0 +1,187 @@
+import { ChartCommand, Employee } from '../../../../packages/shared'
+import { NameMatcherService } from './name-matcher'
+
+export interface ChartCommandParseResult {
+  success: boolean
+  command?: ChartCommand
+  // What the command will do, in words, for the user to confirm
+  description?: string
+  error?: string
+}
+
+type PatternGroups = Record<string, string>
+
+interface CommandPattern {
+  pattern: RegExp
+  // Names of the pattern's capture groups, in order
+  fields: string[]
+  build: (groups: PatternGroups, resolve: (reference: string) => Employee) => { command: ChartCommand; description: string }
+}
+
+const EXAMPLES = [
+  'move Priya under Marcus',
+  'add Jane Doe as Senior Engineer reporting to Alex',
+  'rename the title of Omar to VP Sales'
+]
+
+// Thrown while resolving names; turned into a failed parse result
+class CommandEntityError extends Error {}
+
+/**
+ * Reads chart changes from short English commands. Phrases are matched against a fixed set of
+ * patterns and names are resolved against the organization's employees, so the same command
+ * always gives the same result without calling out to a language model.
+ */
+export class CommandParserService {
+  private readonly patterns: CommandPattern[] = [
+    {
+      pattern: /^(?:add|hire|create)\s+(.+?)\s+as\s+(?:an?\s+)?(.+?)(?:\s+(?:reporting\s+to|who\s+reports\s+to|under)\s+(.+))?$/i,
+      fields: ['name', 'title', 'manager'],
+      build: ({ name, title, manager }, resolve) => {
+        const managerEmployee = manager ? resolve(manager) : null
+        return {
+          command: { intent: 'add', name, title, managerId: managerEmployee?.id || null },
+          description: `Add ${name} as ${title}${managerEmployee ? ` reporting to ${managerEmployee.name}` : ' at the top level'}`
+        }
+      }
+    },
+    {
+      pattern: /^(?:rename|change|set|update)\s+(?:the\s+)?(?:job\s+)?title\s+(?:of|for)\s+(.+?)\s+to\s+(.+)$/i,
+      fields: ['employee', 'title'],
+      build: ({ employee, title }, resolve) => this.retitle(resolve(employee), title)
+    },
+    {
+      pattern: /^(?:change|set|update)\s+(.+?)['’]s?\s+(?:job\s+)?title\s+to\s+(.+)$/i,
+      fields: ['employee', 'title'],
+      build: ({ employee, title }, resolve) => this.retitle(resolve(employee), title)
+    },
+    {
+      pattern: /^promote\s+(.+?)\s+to\s+(.+)$/i,
+      fields: ['employee', 'title'],
+      build: ({ employee, title }, resolve) => this.retitle(resolve(employee), title)
+    },
+    {
+      pattern: /^rename\s+(.+?)\s+to\s+(.+)$/i,
+      fields: ['employee', 'name'],
+      build: ({ employee, name }, resolve) => {
+        const target = resolve(employee)
+        return {
+          command: { intent: 'edit', employeeId: target.id, name, title: target.title },
+          description: `Rename ${target.name} to ${name}`
+        }
+      }
+    },
+    {
+      pattern: /^(?:move|transfer|reassign|put)\s+(.+?)\s+(?:under|to\s+report\s+to|reporting\s+to|to|into)\s+(.+)$/i,
+      fields: ['employee', 'manager'],
+      build: ({ employee, manager }, resolve) => this.move(resolve(employee), resolve(manager))
+    },
+    {
+      pattern: /^(?:make|have|let)\s+(.+?)\s+report\s+to\s+(.+)$/i,
+      fields: ['employee', 'manager'],
+      build: ({ employee, manager }, resolve) => this.move(resolve(employee), resolve(manager))
+    },
+    {
+      pattern: /^(.+?)\s+(?:now\s+|should\s+)?reports?\s+to\s+(.+)$/i,
+      fields: ['employee', 'manager'],
+      build: ({ employee, manager }, resolve) => this.move(resolve(employee), resolve(manager))
+    },
+    {
+      pattern: /^(?:remove|delete|terminate|offboard)\s+(.+)$/i,
+      fields: ['employee'],
+      build: ({ employee }, resolve) => {
+        const target = resolve(employee)
+        return {
+          command: { intent: 'remove', employeeId: target.id },
+          description: `Remove ${target.name}`
+        }
+      }
+    }
+  ]
+
+  constructor(private readonly nameMatcher = new NameMatcherService()) {}
+
+  parse(text: string, employees: Employee[]): ChartCommandParseResult {
+    const input = text.trim().replace(/\s+/g, ' ').replace(/[.!]+$/, '')
+    const resolve = (reference: string) => this.resolveEmployee(reference, employees)
+
+    for (const { pattern, fields, build } of this.patterns) {
+      const match = input.match(pattern)
+      if (!match) continue
+
+      const groups: PatternGroups = {}
+      fields.forEach((field, index) => {
+        const value = match[index + 1]
+        if (value !== undefined) groups[field] = this.clean(value)
+      })
+
+      try {
+        return { success: true, ...build(groups, resolve) }
+      } catch (error) {
+        if (error instanceof CommandEntityError) {
+          return { success: false, error: error.message }
+        }
+        throw error
+      }
+    }
+
+    return {
+      success: false,
+      error: `Sorry, I didn't understand that. Try something like "${EXAMPLES.join('", "')}".`
+    }
+  }
+
+  private move(employee: Employee, manager: Employee) {
+    const command: ChartCommand = { intent: 'move', employeeId: employee.id, newManagerId: manager.id }
+    return { command, description: `Move ${employee.name} under ${manager.name}` }
+  }
+
+  private retitle(employee: Employee, title: string) {
+    const command: ChartCommand = { intent: 'edit', employeeId: employee.id, name: employee.name, title }
+    return { command, description: `Change ${employee.name}'s title from ${employee.title} to ${title}` }
+  }
+
+  /**
+   * Finds the one employee a name in a command refers to: an exact name first, then a unique
+   * first or last name, then a confident fuzzy match
+   */
+  private resolveEmployee(reference: string, employees: Employee[]): Employee {
+    const name = this.nameMatcher.normalize(reference)
+    const exact = employees.filter(emp => this.nameMatcher.normalize(emp.name) === name)
+    if (exact.length === 1) return exact[0]
+    if (exact.length > 1) {
+      throw new CommandEntityError(`More than one person is named ${reference}`)
+    }
+
+    const [token, ...rest] = this.nameMatcher.tokenize(reference)
+    if (token && rest.length === 0) {
+      const partial = employees.filter(emp => this.nameMatcher.tokenize(emp.name).includes(token))
+      if (partial.length === 1) return partial[0]
+      if (partial.length > 1) {
+        throw new CommandEntityError(`"${reference}" could be ${this.listNames(partial.map(emp => emp.name))}`)
+      }
+    }
+
+    const matches = this.nameMatcher.findMatches(reference, employees.map(emp => emp.name))
+    if (this.nameMatcher.isConfidentMatch(matches)) {
+      return employees.find(emp => emp.name === matches[0].name)!
+    }
+    if (matches.length > 0) {
+      throw new CommandEntityError(`"${reference}" could be ${this.listNames(matches.map(match => match.name))}`)
+    }
+    throw new CommandEntityError(`No one named ${reference} is on this chart`)
+  }
+
+  private listNames(names: string[]): string {
+    return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+  }
+
+  // Drops surrounding quotes, and "'s team" after a manager's name
+  private clean(value: string): string {
+    return value
+      .trim()
+      .replace(/^["'“‘]|["'”’]$/g, '')
+      .replace(/['’]s\s+team$/i, '')
+      .trim()
+  }
+}
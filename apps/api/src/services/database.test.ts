@@ -1,60 +1,86 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { kv } from '@vercel/kv'
-import { VercelKVService } from './database'
-import { Employee, Organization } from '../../../../packages/shared'
-
-// Mock Vercel KV
-vi.mock('@vercel/kv', () => ({
-  kv: {
-    get: vi.fn(),
-    set: vi.fn(),
-  }
-}))
-
-describe('VercelKVService', () => {
-  let service: VercelKVService
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { KeyValueDatabaseService } from './database'
+import {
+  KeyValueStore,
+  MemoryKeyValueStore,
+  JsonFileKeyValueStore,
+  SqliteKeyValueStore,
+  createKeyValueStore
+} from './storage'
+import { runMigrations, SCHEMA_VERSION_KEY, Migration } from './migrations'
+import { AuditLogEntry, Employee, Organization } from '../../../../packages/shared'
+
+interface Backend {
+  name: string
+  open(directory: string): KeyValueStore
+  persistent: boolean
+}
+
+const backends: Backend[] = [
+  { name: 'memory', open: () => new MemoryKeyValueStore(), persistent: false },
+  { name: 'json', open: (directory) => new JsonFileKeyValueStore(path.join(directory, 'org-chart.json')), persistent: true },
+  { name: 'sqlite', open: (directory) => new SqliteKeyValueStore(path.join(directory, 'org-chart.db')), persistent: true }
+]
+
+const mockEmployee: Employee = {
+  id: 'emp1',
+  name: 'John Doe',
+  title: 'Software Engineer',
+  organizationId: 'org1',
+  managerId: 'manager1'
+}
+
+const mockOrganization: Organization = {
+  id: 'org1',
+  name: 'Test Organization',
+  userId: 'user1',
+  createdAt: new Date('2024-01-01T00:00:00.000Z')
+}
+
+describe.each(backends)('KeyValueDatabaseService ($name backend)', (backend) => {
+  let directory: string
+  let store: KeyValueStore
+  let service: KeyValueDatabaseService
 
   beforeEach(() => {
-    vi.clearAllMocks()
-    service = new VercelKVService()
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'org-chart-db-'))
+    store = backend.open(directory)
+    service = new KeyValueDatabaseService(store)
   })
 
-  const mockEmployee: Employee = {
-    id: 'emp1',
-    name: 'John Doe',
-    title: 'Software Engineer',
-    organizationId: 'org1',
-    managerId: 'manager1'
-  }
+  afterEach(() => {
+    vi.restoreAllMocks()
+    store.close()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
 
-  const mockOrganization: Organization = {
-    id: 'org1',
-    name: 'Test Organization',
-    userId: 'user1',
-    createdAt: new Date()
-  }
+  const failReads = () => vi.spyOn(store, 'get').mockImplementation(() => {
+    throw new Error('Database error')
+  })
 
   describe('getEmployee', () => {
     it('should return employee when found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(mockEmployee)
+      await service.createEmployee(mockEmployee)
 
       const result = await service.getEmployee('emp1')
 
       expect(result).toEqual(mockEmployee)
-      expect(kv.get).toHaveBeenCalledWith('employee:emp1')
     })
 
     it('should return null when employee not found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(null)
+      const getSpy = vi.spyOn(store, 'get')
 
       const result = await service.getEmployee('nonexistent')
 
       expect(result).toBeNull()
-      expect(kv.get).toHaveBeenCalledWith('employee:nonexistent')
+      expect(getSpy).toHaveBeenCalledWith('employee:nonexistent')
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.get).mockRejectedValue(new Error('Database error'))
+      failReads()
 
       await expect(service.getEmployee('emp1')).rejects.toThrow('Failed to fetch employee from database')
     })
@@ -62,25 +88,22 @@ describe('VercelKVService', () => {
 
   describe('getOrganization', () => {
     it('should return organization when found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(mockOrganization)
+      store.set('organization:org1', mockOrganization)
 
       const result = await service.getOrganization('org1')
 
       expect(result).toEqual(mockOrganization)
-      expect(kv.get).toHaveBeenCalledWith('organization:org1')
+      expect(result?.createdAt).toBeInstanceOf(Date)
     })
 
     it('should return null when organization not found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(null)
-
       const result = await service.getOrganization('nonexistent')
 
       expect(result).toBeNull()
-      expect(kv.get).toHaveBeenCalledWith('organization:nonexistent')
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.get).mockRejectedValue(new Error('Database error'))
+      failReads()
 
       await expect(service.getOrganization('org1')).rejects.toThrow('Failed to fetch organization from database')
     })
@@ -88,55 +111,97 @@ describe('VercelKVService', () => {
 
   describe('updateEmployee', () => {
     it('should update employee successfully', async () => {
-      vi.mocked(kv.set).mockResolvedValue('OK')
+      await service.createEmployee(mockEmployee)
+      const updated = { ...mockEmployee, title: 'Staff Engineer' }
 
-      const result = await service.updateEmployee(mockEmployee)
+      const result = await service.updateEmployee(updated)
 
-      expect(result).toEqual(mockEmployee)
-      expect(kv.set).toHaveBeenCalledWith('employee:emp1', mockEmployee)
+      expect(result).toEqual(updated)
+      expect(await service.getEmployee('emp1')).toEqual(updated)
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.set).mockRejectedValue(new Error('Database error'))
+      vi.spyOn(store, 'set').mockImplementation(() => {
+        throw new Error('Database error')
+      })
 
       await expect(service.updateEmployee(mockEmployee)).rejects.toThrow('Failed to update employee in database')
     })
   })
 
+  describe('bulkCreateEmployees', () => {
+    it('should store every employee and index them by organization', async () => {
+      const employee2 = { ...mockEmployee, id: 'emp2', name: 'Jane Smith' }
+
+      await service.bulkCreateEmployees([mockEmployee, employee2])
+
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([mockEmployee, employee2])
+    })
+
+    it('should store nothing when a write fails part way through', async () => {
+      const employee2 = { ...mockEmployee, id: 'emp2', name: 'Jane Smith' }
+      const set = store.set.bind(store)
+      vi.spyOn(store, 'set').mockImplementation((key, value) => {
+        if (key === 'employee:emp2') throw new Error('Database error')
+        set(key, value)
+      })
+
+      await expect(service.bulkCreateEmployees([mockEmployee, employee2])).rejects.toThrow('Failed to bulk create employees in database')
+
+      vi.restoreAllMocks()
+      expect(await service.getEmployee('emp1')).toBeNull()
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([])
+    })
+  })
+
+  describe('deleteEmployee', () => {
+    const report = { ...mockEmployee, id: 'emp2', name: 'Jane Smith', managerId: 'emp1' }
+
+    it('should remove the employee and store the reassigned reports', async () => {
+      const vacancy = { ...mockEmployee, id: 'vacancy1', name: 'Vacant' }
+      await service.bulkCreateEmployees([mockEmployee, report])
+
+      await service.deleteEmployee('emp1', [vacancy, { ...report, managerId: 'vacancy1' }])
+
+      expect(await service.getEmployee('emp1')).toBeNull()
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([{ ...report, managerId: 'vacancy1' }, vacancy])
+    })
+
+    it('should keep the employee when a write fails part way through', async () => {
+      await service.bulkCreateEmployees([mockEmployee, report])
+      const set = store.set.bind(store)
+      vi.spyOn(store, 'set').mockImplementation((key, value) => {
+        if (key === 'employee:emp2') throw new Error('Database error')
+        set(key, value)
+      })
+
+      await expect(service.deleteEmployee('emp1', [{ ...report, managerId: null }])).rejects.toThrow('Failed to delete employee from database')
+
+      vi.restoreAllMocks()
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([mockEmployee, report])
+    })
+  })
+
   describe('getEmployeesByOrganization', () => {
     it('should return employees for organization', async () => {
-      const employeeIds = ['emp1', 'emp2']
       const employee2 = { ...mockEmployee, id: 'emp2', name: 'Jane Smith' }
-
-      vi.mocked(kv.get)
-        .mockResolvedValueOnce(employeeIds) // First call for employee IDs
-        .mockResolvedValueOnce(mockEmployee) // Second call for emp1
-        .mockResolvedValueOnce(employee2) // Third call for emp2
+      await service.createEmployee(mockEmployee)
+      await service.createEmployee(employee2)
 
       const result = await service.getEmployeesByOrganization('org1')
 
       expect(result).toEqual([mockEmployee, employee2])
-      expect(kv.get).toHaveBeenCalledWith('org_employees:org1')
-      expect(kv.get).toHaveBeenCalledWith('employee:emp1')
-      expect(kv.get).toHaveBeenCalledWith('employee:emp2')
     })
 
     it('should return empty array when no employees found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(null)
-
       const result = await service.getEmployeesByOrganization('org1')
 
       expect(result).toEqual([])
-      expect(kv.get).toHaveBeenCalledWith('org_employees:org1')
     })
 
     it('should filter out non-existent employees', async () => {
-      const employeeIds = ['emp1', 'emp2']
-
-      vi.mocked(kv.get)
-        .mockResolvedValueOnce(employeeIds) // First call for employee IDs
-        .mockResolvedValueOnce(mockEmployee) // Second call for emp1
-        .mockResolvedValueOnce(null) // Third call for emp2 (not found)
+      await service.createEmployee(mockEmployee)
+      await service.addEmployeeToOrganization('org1', 'emp2')
 
       const result = await service.getEmployeesByOrganization('org1')
 
@@ -144,7 +209,7 @@ describe('VercelKVService', () => {
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.get).mockRejectedValue(new Error('Database error'))
+      failReads()
 
       await expect(service.getEmployeesByOrganization('org1')).rejects.toThrow('Failed to fetch organization employees from database')
     })
@@ -152,33 +217,24 @@ describe('VercelKVService', () => {
 
   describe('getUserOrganizations', () => {
     it('should return organizations for user', async () => {
-      const organizationIds = ['org1', 'org2']
       const organization2 = { ...mockOrganization, id: 'org2', name: 'Test Organization 2' }
-
-      vi.mocked(kv.get)
-        .mockResolvedValueOnce(organizationIds) // First call for organization IDs
-        .mockResolvedValueOnce(mockOrganization) // Second call for org1
-        .mockResolvedValueOnce(organization2) // Third call for org2
+      store.set('organization:org1', mockOrganization)
+      store.set('organization:org2', organization2)
+      store.set('user_orgs:user1', ['org1', 'org2'])
 
       const result = await service.getUserOrganizations('user1')
 
       expect(result).toEqual([mockOrganization, organization2])
-      expect(kv.get).toHaveBeenCalledWith('user_orgs:user1')
-      expect(kv.get).toHaveBeenCalledWith('organization:org1')
-      expect(kv.get).toHaveBeenCalledWith('organization:org2')
     })
 
     it('should return empty array when no organizations found', async () => {
-      vi.mocked(kv.get).mockResolvedValue(null)
-
       const result = await service.getUserOrganizations('user1')
 
       expect(result).toEqual([])
-      expect(kv.get).toHaveBeenCalledWith('user_orgs:user1')
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.get).mockRejectedValue(new Error('Database error'))
+      failReads()
 
       await expect(service.getUserOrganizations('user1')).rejects.toThrow('Failed to fetch user organizations from database')
     })
@@ -186,40 +242,409 @@ describe('VercelKVService', () => {
 
   describe('addEmployeeToOrganization', () => {
     it('should add employee to organization', async () => {
-      const existingEmployees = ['emp1']
-      
-      vi.mocked(kv.get).mockResolvedValue(existingEmployees)
-      vi.mocked(kv.set).mockResolvedValue('OK')
-
+      await service.addEmployeeToOrganization('org1', 'emp1')
       await service.addEmployeeToOrganization('org1', 'emp2')
 
-      expect(kv.set).toHaveBeenCalledWith('org_employees:org1', ['emp1', 'emp2'])
+      expect(store.get('org_employees:org1')).toEqual(['emp1', 'emp2'])
     })
 
     it('should not add duplicate employee', async () => {
-      const existingEmployees = ['emp1', 'emp2']
-      
-      vi.mocked(kv.get).mockResolvedValue(existingEmployees)
-      vi.mocked(kv.set).mockResolvedValue('OK')
+      await service.addEmployeeToOrganization('org1', 'emp1')
+      const setSpy = vi.spyOn(store, 'set')
 
-      await service.addEmployeeToOrganization('org1', 'emp2')
+      await service.addEmployeeToOrganization('org1', 'emp1')
 
-      expect(kv.set).not.toHaveBeenCalled()
+      expect(setSpy).not.toHaveBeenCalled()
+      expect(store.get('org_employees:org1')).toEqual(['emp1'])
     })
 
-    it('should handle empty employee list', async () => {
-      vi.mocked(kv.get).mockResolvedValue(null)
-      vi.mocked(kv.set).mockResolvedValue('OK')
+    it('should throw error when database operation fails', async () => {
+      failReads()
 
-      await service.addEmployeeToOrganization('org1', 'emp1')
+      await expect(service.addEmployeeToOrganization('org1', 'emp1')).rejects.toThrow('Failed to add employee to organization')
+    })
+  })
+
+  describe('createOrganization', () => {
+    it('should store the organization and list it for its owner', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.createOrganization(mockOrganization)
 
-      expect(kv.set).toHaveBeenCalledWith('org_employees:org1', ['emp1'])
+      expect(await service.getOrganization('org1')).toEqual(mockOrganization)
+      expect(store.get('user_orgs:user1')).toEqual(['org1'])
     })
 
     it('should throw error when database operation fails', async () => {
-      vi.mocked(kv.get).mockRejectedValue(new Error('Database error'))
+      vi.spyOn(store, 'set').mockImplementation(() => {
+        throw new Error('Database error')
+      })
 
-      await expect(service.addEmployeeToOrganization('org1', 'emp1')).rejects.toThrow('Failed to add employee to organization')
+      await expect(service.createOrganization(mockOrganization)).rejects.toThrow('Failed to create organization in database')
+    })
+  })
+
+  describe('updateOrganization', () => {
+    it('should rename the organization', async () => {
+      await service.createOrganization(mockOrganization)
+
+      await service.updateOrganization({ ...mockOrganization, name: 'Renamed' })
+
+      expect((await service.getOrganization('org1'))?.name).toBe('Renamed')
+    })
+  })
+
+  describe('deleteOrganization', () => {
+    it('should remove the organization, its employees and index entries', async () => {
+      const organization2 = { ...mockOrganization, id: 'org2' }
+      const otherEmployee = { ...mockEmployee, id: 'emp2', organizationId: 'org2' }
+      await service.createOrganization(mockOrganization)
+      await service.createOrganization(organization2)
+      await service.bulkCreateEmployees([mockEmployee, otherEmployee])
+
+      await service.deleteOrganization('org1')
+
+      expect(await service.getOrganization('org1')).toBeNull()
+      expect(await service.getEmployee('emp1')).toBeNull()
+      expect(store.get('org_employees:org1')).toBeUndefined()
+      expect((await service.getUserOrganizations('user1')).map(org => org.id)).toEqual(['org2'])
+      expect(await service.getEmployee('emp2')).toEqual(otherEmployee)
+    })
+
+    it('should keep everything when a write fails part way through', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.createEmployee(mockEmployee)
+      vi.spyOn(store, 'set').mockImplementation(() => {
+        throw new Error('Database error')
+      })
+
+      await expect(service.deleteOrganization('org1')).rejects.toThrow('Failed to delete organization from database')
+
+      vi.restoreAllMocks()
+      expect(await service.getOrganization('org1')).toEqual(mockOrganization)
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([mockEmployee])
+    })
+  })
+
+  describe('replaceOrganizationEmployees', () => {
+    it('should swap the stored chart for the new employees', async () => {
+      const replacement = { ...mockEmployee, id: 'emp3', name: 'New Hire' }
+      await service.bulkCreateEmployees([mockEmployee, { ...mockEmployee, id: 'emp2' }])
+
+      await service.replaceOrganizationEmployees('org1', [replacement])
+
+      expect(await service.getEmployeesByOrganization('org1')).toEqual([replacement])
+      expect(await service.getEmployee('emp2')).toBeNull()
+    })
+  })
+
+  describe('users', () => {
+    const mockUser = { id: 'user1', email: 'Jane@Example.com', name: 'Jane Smith' }
+
+    it('should store a user with credentials kept apart from the user record', async () => {
+      await service.createUser(mockUser, 'scrypt:salt:hash')
+
+      expect(await service.getUser('user1')).toEqual(mockUser)
+      expect(await service.getUserByEmail(' jane@example.COM ')).toEqual(mockUser)
+      expect(await service.getUserPasswordHash('user1')).toBe('scrypt:salt:hash')
+      expect(await service.countUsers()).toBe(1)
+    })
+
+    it('should refuse an email that is already registered', async () => {
+      await service.createUser(mockUser, 'scrypt:salt:hash')
+
+      await expect(service.createUser({ ...mockUser, id: 'user2', email: 'jane@example.com' }, 'scrypt:salt:other'))
+        .rejects.toThrow('Failed to create user in database')
+      expect(await service.getUser('user2')).toBeNull()
+    })
+
+    it('should move organizations to another user', async () => {
+      await service.createOrganization(mockOrganization)
+
+      await service.transferOrganizations('user1', 'user2')
+
+      expect((await service.getOrganization('org1'))?.userId).toBe('user2')
+      expect(await service.getUserOrganizations('user1')).toEqual([])
+      expect((await service.getUserOrganizations('user2')).map(organization => organization.id)).toEqual(['org1'])
+    })
+  })
+
+  describe('memberships and invitations', () => {
+    const member = { organizationId: 'org1', userId: 'user2', role: 'viewer' as const, addedAt: new Date('2024-02-01T00:00:00.000Z') }
+    const invitation = {
+      id: 'inv1',
+      organizationId: 'org1',
+      email: 'Sam@Example.com',
+      role: 'editor' as const,
+      invitedBy: 'user1',
+      createdAt: new Date('2024-02-01T00:00:00.000Z')
+    }
+
+    it('should add members and list the organization for them', async () => {
+      await service.createOrganization(mockOrganization)
+
+      await service.setOrganizationMember(member)
+      await service.setOrganizationMember({ ...member, role: 'editor' })
+
+      expect(await service.getOrganizationMembers('org1')).toEqual([{ ...member, role: 'editor' }])
+      expect((await service.getUserOrganizations('user2')).map(organization => organization.id)).toEqual(['org1'])
+
+      await service.removeOrganizationMember('org1', 'user2')
+
+      expect(await service.getOrganizationMember('org1', 'user2')).toBeNull()
+      expect(await service.getUserOrganizations('user2')).toEqual([])
     })
+
+    it('should turn an invitation into a membership for the invited email only', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.createInvitation(invitation)
+      expect(await service.getOrganizationInvitations('org1')).toEqual([invitation])
+
+      expect(await service.acceptInvitation(invitation.id, { id: 'user4', email: 'someone@example.com', name: 'Someone' })).toBeNull()
+      expect(await service.getOrganizationInvitations('org1')).toEqual([invitation])
+
+      const member = await service.acceptInvitation(invitation.id, { id: 'user3', email: 'Sam@example.com', name: 'Sam Lee' })
+
+      expect(member).toEqual(expect.objectContaining({ organizationId: 'org1', userId: 'user3', role: 'editor' }))
+      expect(await service.getOrganizationInvitations('org1')).toEqual([])
+      expect((await service.getOrganizationMember('org1', 'user3'))?.role).toBe('editor')
+    })
+
+    it('should drop memberships and invitations with their organization', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.setOrganizationMember(member)
+      await service.createInvitation(invitation)
+
+      await service.deleteOrganization('org1')
+
+      expect(await service.getUserOrganizations('user2')).toEqual([])
+      expect(await service.getOrganizationMembers('org1')).toEqual([])
+      expect(await service.acceptInvitation(invitation.id, { id: 'user3', email: 'sam@example.com', name: 'Sam Lee' })).toBeNull()
+    })
+  })
+
+  describe('audit log', () => {
+    const entry = (id: string, timestamp: string, overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+      id,
+      organizationId: 'org1',
+      actorId: 'user1',
+      timestamp: new Date(timestamp),
+      operation: 'move',
+      employeeId: 'emp1',
+      before: mockEmployee,
+      after: { ...mockEmployee, managerId: 'manager2' },
+      ...overrides
+    })
+
+    it('should return entries newest first', async () => {
+      await service.appendAuditLog([entry('a1', '2024-03-01T09:00:00.000Z')])
+      await service.appendAuditLog([
+        entry('a2', '2024-03-01T10:00:00.000Z', { operation: 'edit' }),
+        entry('a3', '2024-03-01T11:00:00.000Z', { organizationId: 'org2' })
+      ])
+
+      const log = await service.getAuditLog('org1')
+
+      expect(log.map(item => item.id)).toEqual(['a2', 'a1'])
+      expect(log[1]).toEqual(entry('a1', '2024-03-01T09:00:00.000Z'))
+      expect((await service.getAuditLog('org2')).map(item => item.id)).toEqual(['a3'])
+    })
+
+    it('should filter by employee, date range and limit', async () => {
+      await service.appendAuditLog([
+        entry('a1', '2024-03-01T09:00:00.000Z'),
+        entry('a2', '2024-03-02T09:00:00.000Z', { employeeId: 'emp2' }),
+        entry('a3', '2024-03-03T09:00:00.000Z'),
+        entry('a4', '2024-03-04T09:00:00.000Z')
+      ])
+
+      expect((await service.getAuditLog('org1', { employeeId: 'emp2' })).map(item => item.id)).toEqual(['a2'])
+      expect((await service.getAuditLog('org1', {
+        from: new Date('2024-03-02T00:00:00.000Z'),
+        to: new Date('2024-03-03T23:59:59.000Z')
+      })).map(item => item.id)).toEqual(['a3', 'a2'])
+      expect((await service.getAuditLog('org1', { limit: 2 })).map(item => item.id)).toEqual(['a4', 'a3'])
+    })
+
+    it('should drop the log with its organization', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.appendAuditLog([entry('a1', '2024-03-01T09:00:00.000Z')])
+
+      await service.deleteOrganization('org1')
+
+      expect(await service.getAuditLog('org1')).toEqual([])
+    })
+  })
+
+  describe('snapshots', () => {
+    const snapshot = (id: string, name: string, createdAt: string) => ({
+      id,
+      organizationId: 'org1',
+      name,
+      source: 'manual' as const,
+      createdBy: 'user1',
+      createdAt: new Date(createdAt),
+      employees: [mockEmployee, { ...mockEmployee, id: 'emp2', managerId: 'emp1' }]
+    })
+
+    it('should list summaries newest first and load the employees of one version', async () => {
+      await service.createSnapshot(snapshot('s1', 'End of Q1', '2024-03-31T00:00:00.000Z'))
+      const summary = await service.createSnapshot(snapshot('s2', 'End of Q2', '2024-06-30T00:00:00.000Z'))
+
+      expect(summary).not.toHaveProperty('employees')
+      expect(summary.employeeCount).toBe(2)
+      expect((await service.getOrganizationSnapshots('org1')).map(item => item.name)).toEqual(['End of Q2', 'End of Q1'])
+      expect(await service.getSnapshot('s1')).toEqual(snapshot('s1', 'End of Q1', '2024-03-31T00:00:00.000Z'))
+      expect(await service.getSnapshot('missing')).toBeNull()
+    })
+
+    it('should delete a snapshot', async () => {
+      await service.createSnapshot(snapshot('s1', 'End of Q1', '2024-03-31T00:00:00.000Z'))
+
+      await service.deleteSnapshot('s1')
+
+      expect(await service.getSnapshot('s1')).toBeNull()
+      expect(await service.getOrganizationSnapshots('org1')).toEqual([])
+    })
+
+    it('should drop snapshots with their organization', async () => {
+      await service.createOrganization(mockOrganization)
+      await service.createSnapshot(snapshot('s1', 'End of Q1', '2024-03-31T00:00:00.000Z'))
+
+      await service.deleteOrganization('org1')
+
+      expect(await service.getSnapshot('s1')).toBeNull()
+      expect(await service.getOrganizationSnapshots('org1')).toEqual([])
+    })
+  })
+
+  describe('store', () => {
+    it('should list keys by prefix in order', () => {
+      store.set('employee:b', 1)
+      store.set('employee:a', 2)
+      store.set('organization:a', 3)
+
+      expect(store.keys('employee:')).toEqual(['employee:a', 'employee:b'])
+    })
+
+    it('should delete keys', () => {
+      store.set('employee:a', 1)
+
+      store.delete('employee:a')
+
+      expect(store.get('employee:a')).toBeUndefined()
+    })
+
+    it('should return copies that do not alias stored values', () => {
+      store.set('org_employees:org1', ['emp1'])
+
+      store.get<string[]>('org_employees:org1')!.push('emp2')
+
+      expect(store.get('org_employees:org1')).toEqual(['emp1'])
+    })
+
+    it.runIf(backend.persistent)('should keep data after reopening', async () => {
+      await service.createEmployee(mockEmployee)
+      store.close()
+
+      store = backend.open(directory)
+      const reopened = new KeyValueDatabaseService(store)
+
+      expect(await reopened.getEmployee('emp1')).toEqual(mockEmployee)
+      expect(await reopened.getEmployeesByOrganization('org1')).toEqual([mockEmployee])
+    })
+  })
+
+  describe('migrations', () => {
+    it('should seed the default organization and record the schema version', async () => {
+      const version = runMigrations(store)
+
+      expect(version).toBe(1)
+      expect(store.get(SCHEMA_VERSION_KEY)).toBe(1)
+      expect((await service.getUserOrganizations('demo-user')).map(org => org.id)).toEqual(['default-org'])
+    })
+
+    it('should only apply pending migrations', () => {
+      const up = vi.fn()
+      const pending: Migration[] = [
+        { version: 1, name: 'first', up },
+        { version: 2, name: 'second', up }
+      ]
+      store.set(SCHEMA_VERSION_KEY, 1)
+
+      expect(runMigrations(store, pending)).toBe(2)
+      expect(up).toHaveBeenCalledTimes(1)
+      expect(runMigrations(store, pending)).toBe(2)
+      expect(up).toHaveBeenCalledTimes(1)
+    })
+
+    it('should roll back a failing migration', () => {
+      const pending: Migration[] = [{
+        version: 1,
+        name: 'broken',
+        up(target) {
+          target.set('employee:partial', {})
+          throw new Error('Migration failed')
+        }
+      }]
+
+      expect(() => runMigrations(store, pending)).toThrow('Migration failed')
+      expect(store.get('employee:partial')).toBeUndefined()
+      expect(store.get(SCHEMA_VERSION_KEY)).toBeUndefined()
+    })
+  })
+})
+
+describe('createKeyValueStore', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'org-chart-db-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should open the configured backend', () => {
+    const store = createKeyValueStore({ driver: 'sqlite', path: path.join(directory, 'org-chart.db') })
+
+    expect(store).toBeInstanceOf(SqliteKeyValueStore)
+    store.close()
+    expect(createKeyValueStore({ driver: 'memory', path: '' })).toBeInstanceOf(MemoryKeyValueStore)
+  })
+
+  it('should fall back to a JSON file when SQLite cannot open the database', () => {
+    const databasePath = path.join(directory, 'org-chart.db')
+    fs.mkdirSync(databasePath)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const store = createKeyValueStore({ driver: 'sqlite', path: databasePath })
+
+    expect(store).toBeInstanceOf(JsonFileKeyValueStore)
+    store.set('employee:a', 1)
+    expect(fs.existsSync(path.join(directory, 'org-chart.json'))).toBe(true)
+  })
+})
+
+describe('databaseService', () => {
+  afterEach(() => {
+    vi.doUnmock('./storage')
+    vi.resetModules()
+  })
+
+  it('should not open storage until it is first used', async () => {
+    vi.resetModules()
+    const openStore = vi.fn(() => new MemoryKeyValueStore())
+    vi.doMock('./storage', async (importOriginal) => ({
+      ...(await importOriginal<typeof import('./storage')>()),
+      createKeyValueStore: openStore
+    }))
+
+    const { databaseService } = await import('./database')
+    expect(openStore).not.toHaveBeenCalled()
+
+    await databaseService.countUsers()
+    await databaseService.countUsers()
+    expect(openStore).toHaveBeenCalledTimes(1)
   })
-})
\ No newline at end of file
+})
@@ -1,28 +1,88 @@
-import { Employee, Organization, User } from '../../../../packages/shared'
-
-// In-memory storage for local development
-const memoryStore = new Map<string, any>()
+import {
+  AuditLogEntry,
+  Employee,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationSnapshot,
+  OrganizationSnapshotSummary,
+  User,
+  UserSettings
+} from '../../../../packages/shared'
+import { config } from '../../../../packages/config'
+import { KeyValueStore, StorageOptions, createKeyValueStore } from './storage'
+import { runMigrations } from './migrations'
 
 export interface DatabaseService {
   getEmployee(id: string): Promise<Employee | null>
   getOrganization(id: string): Promise<Organization | null>
   updateEmployee(employee: Employee): Promise<Employee>
   createEmployee(employee: Employee): Promise<Employee>
+  deleteEmployee(id: string, updatedEmployees?: Employee[]): Promise<void>
   bulkCreateEmployees(employees: Employee[]): Promise<Employee[]>
   getEmployeesByOrganization(organizationId: string): Promise<Employee[]>
   getUserOrganizations(userId: string): Promise<Organization[]>
+  createOrganization(organization: Organization): Promise<Organization>
+  updateOrganization(organization: Organization): Promise<Organization>
+  deleteOrganization(id: string): Promise<void>
+  replaceOrganizationEmployees(organizationId: string, employees: Employee[]): Promise<Employee[]>
+  getUser(id: string): Promise<User | null>
+  getUserByEmail(email: string): Promise<User | null>
+  getUserPasswordHash(userId: string): Promise<string | null>
+  createUser(user: User, passwordHash: string): Promise<User>
+  getUserSettings(userId: string): Promise<UserSettings>
+  updateUserSettings(userId: string, settings: UserSettings): Promise<UserSettings>
+  countUsers(): Promise<number>
+  transferOrganizations(fromUserId: string, toUserId: string): Promise<void>
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]>
+  getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | null>
+  setOrganizationMember(member: OrganizationMember): Promise<OrganizationMember>
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>
+  getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]>
+  createInvitation(invitation: OrganizationInvitation): Promise<OrganizationInvitation>
+  deleteInvitation(id: string): Promise<void>
+  acceptInvitation(invitationId: string, user: User): Promise<OrganizationMember | null>
+  appendAuditLog(entries: AuditLogEntry[]): Promise<void>
+  getAuditLog(organizationId: string, filter?: AuditLogFilter): Promise<AuditLogEntry[]>
+  createSnapshot(snapshot: OrganizationSnapshot): Promise<OrganizationSnapshotSummary>
+  getOrganizationSnapshots(organizationId: string): Promise<OrganizationSnapshotSummary[]>
+  getSnapshot(id: string): Promise<OrganizationSnapshot | null>
+  deleteSnapshot(id: string): Promise<void>
+}
+
+export interface AuditLogFilter {
+  employeeId?: string
+  from?: Date
+  to?: Date
+  limit?: number
 }
 
-export class VercelKVService implements DatabaseService {
+// Sign-in is case-insensitive on the email address
+const normalizeEmail = (email: string): string => email.trim().toLowerCase()
+
+export class KeyValueDatabaseService implements DatabaseService {
   private readonly EMPLOYEE_KEY_PREFIX = 'employee:'
   private readonly ORGANIZATION_KEY_PREFIX = 'organization:'
   private readonly USER_ORGANIZATIONS_KEY_PREFIX = 'user_orgs:'
   private readonly ORGANIZATION_EMPLOYEES_KEY_PREFIX = 'org_employees:'
+  private readonly USER_KEY_PREFIX = 'user:'
+  private readonly USER_EMAIL_KEY_PREFIX = 'user_email:'
+  private readonly USER_CREDENTIALS_KEY_PREFIX = 'user_credentials:'
+  private readonly USER_SETTINGS_KEY_PREFIX = 'user_settings:'
+  private readonly ORGANIZATION_MEMBERS_KEY_PREFIX = 'org_members:'
+  private readonly INVITATION_KEY_PREFIX = 'invitation:'
+  private readonly ORGANIZATION_INVITATIONS_KEY_PREFIX = 'org_invitations:'
+  private readonly EMAIL_INVITATIONS_KEY_PREFIX = 'email_invitations:'
+  private readonly AUDIT_LOG_KEY_PREFIX = 'audit_log:'
+  private readonly AUDIT_LOG_SEQUENCE_KEY_PREFIX = 'audit_log_seq:'
+  private readonly SNAPSHOT_KEY_PREFIX = 'snapshot:'
+  private readonly ORGANIZATION_SNAPSHOTS_KEY_PREFIX = 'org_snapshots:'
+
+  constructor(private readonly store: KeyValueStore) {}
 
   async getEmployee(id: string): Promise<Employee | null> {
     try {
-      // Use in-memory storage for local development
-      const employee = memoryStore.get(`${this.EMPLOYEE_KEY_PREFIX}${id}`) || null
+      const employee = this.store.get<Employee>(`${this.EMPLOYEE_KEY_PREFIX}${id}`) || null
       return employee
     } catch (error) {
       console.error('Error fetching employee:', error)
@@ -32,8 +92,9 @@ export class VercelKVService implements DatabaseService {
 
   async getOrganization(id: string): Promise<Organization | null> {
     try {
-      const organization = memoryStore.get(`${this.ORGANIZATION_KEY_PREFIX}${id}`) || null
-      return organization
+      const organization = this.store.get(`${this.ORGANIZATION_KEY_PREFIX}${id}`)
+      // Dates are stored as ISO strings
+      return organization ? { ...organization, createdAt: new Date(organization.createdAt) } : null
     } catch (error) {
       console.error('Error fetching organization:', error)
       throw new Error('Failed to fetch organization from database')
@@ -42,7 +103,7 @@ export class VercelKVService implements DatabaseService {
 
   async updateEmployee(employee: Employee): Promise<Employee> {
     try {
-      memoryStore.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
+      this.store.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
       return employee
     } catch (error) {
       console.error('Error updating employee:', error)
@@ -52,8 +113,10 @@ export class VercelKVService implements DatabaseService {
 
   async createEmployee(employee: Employee): Promise<Employee> {
     try {
-      memoryStore.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
-      await this.addEmployeeToOrganization(employee.organizationId, employee.id)
+      this.store.transaction(() => {
+        this.store.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
+        this.appendOrganizationEmployees(employee.organizationId, [employee.id])
+      })
       return employee
     } catch (error) {
       console.error('Error creating employee:', error)
@@ -61,26 +124,49 @@ export class VercelKVService implements DatabaseService {
     }
   }
 
+  async deleteEmployee(id: string, updatedEmployees: Employee[] = []): Promise<void> {
+    try {
+      // Removing someone and re-pointing their reports is one change
+      this.store.transaction(() => {
+        const employee = this.store.get<Employee>(`${this.EMPLOYEE_KEY_PREFIX}${id}`)
+        if (employee) {
+          const key = `${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${employee.organizationId}`
+          const employeeIds: string[] = this.store.get(key) || []
+          this.store.set(key, employeeIds.filter(employeeId => employeeId !== id))
+        }
+        this.store.delete(`${this.EMPLOYEE_KEY_PREFIX}${id}`)
+
+        for (const updatedEmployee of updatedEmployees) {
+          this.store.set(`${this.EMPLOYEE_KEY_PREFIX}${updatedEmployee.id}`, updatedEmployee)
+          this.appendOrganizationEmployees(updatedEmployee.organizationId, [updatedEmployee.id])
+        }
+      })
+    } catch (error) {
+      console.error('Error deleting employee:', error)
+      throw new Error('Failed to delete employee from database')
+    }
+  }
+
   async bulkCreateEmployees(employees: Employee[]): Promise<Employee[]> {
     try {
       // Group employees by organization for efficient batch updates
       const employeesByOrg = new Map<string, string[]>()
 
-      // Store all employees in a single pass
-      for (const employee of employees) {
-        memoryStore.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
+      // Either the whole import is stored or none of it
+      this.store.transaction(() => {
+        for (const employee of employees) {
+          this.store.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
 
-        // Collect employee IDs by organization
-        const orgEmployees = employeesByOrg.get(employee.organizationId) || []
-        orgEmployees.push(employee.id)
-        employeesByOrg.set(employee.organizationId, orgEmployees)
-      }
+          // Collect employee IDs by organization
+          const orgEmployees = employeesByOrg.get(employee.organizationId) || []
+          orgEmployees.push(employee.id)
+          employeesByOrg.set(employee.organizationId, orgEmployees)
+        }
 
-      // Batch update organization employee lists
-      employeesByOrg.forEach((employeeIds, organizationId) => {
-        const existingIds = memoryStore.get(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`) || []
-        const newIds = [...existingIds, ...employeeIds.filter(id => !existingIds.includes(id))]
-        memoryStore.set(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`, newIds)
+        // Batch update organization employee lists
+        employeesByOrg.forEach((employeeIds, organizationId) => {
+          this.appendOrganizationEmployees(organizationId, employeeIds)
+        })
       })
 
       return employees
@@ -92,16 +178,16 @@ export class VercelKVService implements DatabaseService {
 
   async getEmployeesByOrganization(organizationId: string): Promise<Employee[]> {
     try {
-      const employeeIds = memoryStore.get(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`) || []
+      const employeeIds: string[] = this.store.get(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`) || []
       const employees: Employee[] = []
-      
+
       for (const employeeId of employeeIds) {
         const employee = await this.getEmployee(employeeId)
         if (employee) {
           employees.push(employee)
         }
       }
-      
+
       return employees
     } catch (error) {
       console.error('Error fetching organization employees:', error)
@@ -111,16 +197,16 @@ export class VercelKVService implements DatabaseService {
 
   async getUserOrganizations(userId: string): Promise<Organization[]> {
     try {
-      const organizationIds = memoryStore.get(`${this.USER_ORGANIZATIONS_KEY_PREFIX}${userId}`) || []
+      const organizationIds: string[] = this.store.get(`${this.USER_ORGANIZATIONS_KEY_PREFIX}${userId}`) || []
       const organizations: Organization[] = []
-      
+
       for (const organizationId of organizationIds) {
         const organization = await this.getOrganization(organizationId)
         if (organization) {
           organizations.push(organization)
         }
       }
-      
+
       return organizations
     } catch (error) {
       console.error('Error fetching user organizations:', error)
@@ -128,18 +214,514 @@ export class VercelKVService implements DatabaseService {
     }
   }
 
-  async addEmployeeToOrganization(organizationId: string, employeeId: string): Promise<void> {
+  async createOrganization(organization: Organization): Promise<Organization> {
+    try {
+      this.store.transaction(() => {
+        this.store.set(`${this.ORGANIZATION_KEY_PREFIX}${organization.id}`, organization)
+
+        const key = `${this.USER_ORGANIZATIONS_KEY_PREFIX}${organization.userId}`
+        const organizationIds: string[] = this.store.get(key) || []
+        if (!organizationIds.includes(organization.id)) {
+          this.store.set(key, [...organizationIds, organization.id])
+        }
+      })
+      return organization
+    } catch (error) {
+      console.error('Error creating organization:', error)
+      throw new Error('Failed to create organization in database')
+    }
+  }
+
+  async updateOrganization(organization: Organization): Promise<Organization> {
+    try {
+      this.store.set(`${this.ORGANIZATION_KEY_PREFIX}${organization.id}`, organization)
+      return organization
+    } catch (error) {
+      console.error('Error updating organization:', error)
+      throw new Error('Failed to update organization in database')
+    }
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    try {
+      // The organization, its employees and every index entry go together
+      this.store.transaction(() => {
+        const organization = this.store.get<Organization>(`${this.ORGANIZATION_KEY_PREFIX}${id}`)
+        this.removeOrganizationEmployees(id)
+
+        if (organization) {
+          this.removeUserOrganization(organization.userId, id)
+        }
+
+        const members: OrganizationMember[] = this.store.get(`${this.ORGANIZATION_MEMBERS_KEY_PREFIX}${id}`) || []
+        for (const member of members) {
+          this.removeUserOrganization(member.userId, id)
+        }
+        this.store.delete(`${this.ORGANIZATION_MEMBERS_KEY_PREFIX}${id}`)
+
+        const invitationIds: string[] = this.store.get(`${this.ORGANIZATION_INVITATIONS_KEY_PREFIX}${id}`) || []
+        for (const invitationId of invitationIds) {
+          this.removeInvitation(invitationId)
+        }
+
+        for (const key of this.store.keys(this.auditLogPrefix(id))) {
+          this.store.delete(key)
+        }
+        this.store.delete(`${this.AUDIT_LOG_SEQUENCE_KEY_PREFIX}${id}`)
+
+        const snapshots: OrganizationSnapshotSummary[] = this.store.get(`${this.ORGANIZATION_SNAPSHOTS_KEY_PREFIX}${id}`) || []
+        for (const snapshot of snapshots) {
+          this.store.delete(`${this.SNAPSHOT_KEY_PREFIX}${snapshot.id}`)
+        }
+        this.store.delete(`${this.ORGANIZATION_SNAPSHOTS_KEY_PREFIX}${id}`)
+
+        this.store.delete(`${this.ORGANIZATION_KEY_PREFIX}${id}`)
+      })
+    } catch (error) {
+      console.error('Error deleting organization:', error)
+      throw new Error('Failed to delete organization from database')
+    }
+  }
+
+  async replaceOrganizationEmployees(organizationId: string, employees: Employee[]): Promise<Employee[]> {
+    try {
+      // A re-import swaps the whole chart, so a failed write keeps the previous one
+      return this.store.transaction(() => {
+        this.removeOrganizationEmployees(organizationId)
+
+        // IDs another organization has taken since (e.g. when an old version is restored) get this
+        // organization's prefix, the same way imports keep charts with the same source IDs apart
+        const ids = new Map<string, string>()
+        for (const employee of employees) {
+          const existing = this.store.get<Employee>(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`)
+          ids.set(employee.id, existing && existing.organizationId !== organizationId ? `${organizationId}:${employee.id}` : employee.id)
+        }
+        const stored = employees.map(employee => ({
+          ...employee,
+          id: ids.get(employee.id)!,
+          organizationId,
+          managerId: employee.managerId ? ids.get(employee.managerId) || employee.managerId : employee.managerId
+        }))
+
+        for (const employee of stored) {
+          this.store.set(`${this.EMPLOYEE_KEY_PREFIX}${employee.id}`, employee)
+        }
+        this.appendOrganizationEmployees(organizationId, stored.map(employee => employee.id))
+        return stored
+      })
+    } catch (error) {
+      console.error('Error replacing organization employees:', error)
+      throw new Error('Failed to replace organization employees in database')
+    }
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    try {
+      return this.store.get<User>(`${this.USER_KEY_PREFIX}${id}`) || null
+    } catch (error) {
+      console.error('Error fetching user:', error)
+      throw new Error('Failed to fetch user from database')
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const userId = this.store.get<string>(`${this.USER_EMAIL_KEY_PREFIX}${normalizeEmail(email)}`)
+      return userId ? this.store.get<User>(`${this.USER_KEY_PREFIX}${userId}`) || null : null
+    } catch (error) {
+      console.error('Error fetching user by email:', error)
+      throw new Error('Failed to fetch user from database')
+    }
+  }
+
+  async getUserPasswordHash(userId: string): Promise<string | null> {
+    try {
+      const credentials = this.store.get<{ passwordHash: string }>(`${this.USER_CREDENTIALS_KEY_PREFIX}${userId}`)
+      return credentials?.passwordHash || null
+    } catch (error) {
+      console.error('Error fetching user credentials:', error)
+      throw new Error('Failed to fetch user credentials from database')
+    }
+  }
+
+  async createUser(user: User, passwordHash: string): Promise<User> {
+    try {
+      // Credentials live under their own key so user records can be returned to clients as they are
+      this.store.transaction(() => {
+        const emailKey = `${this.USER_EMAIL_KEY_PREFIX}${normalizeEmail(user.email)}`
+        if (this.store.get(emailKey)) {
+          throw new Error(`Email ${user.email} is already registered`)
+        }
+
+        this.store.set(`${this.USER_KEY_PREFIX}${user.id}`, user)
+        this.store.set(emailKey, user.id)
+        this.store.set(`${this.USER_CREDENTIALS_KEY_PREFIX}${user.id}`, { passwordHash })
+      })
+      return user
+    } catch (error) {
+      console.error('Error creating user:', error)
+      throw new Error('Failed to create user in database')
+    }
+  }
+
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    try {
+      return this.store.get<UserSettings>(`${this.USER_SETTINGS_KEY_PREFIX}${userId}`) || {}
+    } catch (error) {
+      console.error('Error fetching user settings:', error)
+      throw new Error('Failed to fetch user settings from database')
+    }
+  }
+
+  // Only the settings given are changed; the rest keep their saved values
+  async updateUserSettings(userId: string, settings: UserSettings): Promise<UserSettings> {
     try {
-      const employeeIds = memoryStore.get(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`) || []
-      if (!employeeIds.includes(employeeId)) {
-        employeeIds.push(employeeId)
-        memoryStore.set(`${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`, employeeIds)
+      return this.store.transaction(() => {
+        const key = `${this.USER_SETTINGS_KEY_PREFIX}${userId}`
+        const updated = { ...(this.store.get<UserSettings>(key) || {}), ...settings }
+        this.store.set(key, updated)
+        return updated
+      })
+    } catch (error) {
+      console.error('Error updating user settings:', error)
+      throw new Error('Failed to update user settings in database')
+    }
+  }
+
+  async countUsers(): Promise<number> {
+    try {
+      return this.store.keys(this.USER_KEY_PREFIX).length
+    } catch (error) {
+      console.error('Error counting users:', error)
+      throw new Error('Failed to count users in database')
+    }
+  }
+
+  async transferOrganizations(fromUserId: string, toUserId: string): Promise<void> {
+    try {
+      this.store.transaction(() => {
+        const fromKey = `${this.USER_ORGANIZATIONS_KEY_PREFIX}${fromUserId}`
+        const toKey = `${this.USER_ORGANIZATIONS_KEY_PREFIX}${toUserId}`
+        const organizationIds: string[] = this.store.get(fromKey) || []
+        const existingIds: string[] = this.store.get(toKey) || []
+
+        for (const organizationId of organizationIds) {
+          const key = `${this.ORGANIZATION_KEY_PREFIX}${organizationId}`
+          const organization = this.store.get<Organization>(key)
+          if (organization) {
+            this.store.set(key, { ...organization, userId: toUserId })
+          }
+        }
+
+        this.store.set(toKey, [...existingIds, ...organizationIds.filter(id => !existingIds.includes(id))])
+        this.store.delete(fromKey)
+      })
+    } catch (error) {
+      console.error('Error transferring organizations:', error)
+      throw new Error('Failed to transfer organizations in database')
+    }
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    try {
+      const members: OrganizationMember[] = this.store.get(`${this.ORGANIZATION_MEMBERS_KEY_PREFIX}${organizationId}`) || []
+      return members.map(member => ({ ...member, addedAt: new Date(member.addedAt) }))
+    } catch (error) {
+      console.error('Error fetching organization members:', error)
+      throw new Error('Failed to fetch organization members from database')
+    }
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    const members = await this.getOrganizationMembers(organizationId)
+    return members.find(member => member.userId === userId) || null
+  }
+
+  async setOrganizationMember(member: OrganizationMember): Promise<OrganizationMember> {
+    try {
+      this.store.transaction(() => {
+        this.upsertMember(member)
+      })
+      return member
+    } catch (error) {
+      console.error('Error saving organization member:', error)
+      throw new Error('Failed to save organization member in database')
+    }
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    try {
+      this.store.transaction(() => {
+        const key = `${this.ORGANIZATION_MEMBERS_KEY_PREFIX}${organizationId}`
+        const members: OrganizationMember[] = this.store.get(key) || []
+        this.store.set(key, members.filter(member => member.userId !== userId))
+        this.removeUserOrganization(userId, organizationId)
+      })
+    } catch (error) {
+      console.error('Error removing organization member:', error)
+      throw new Error('Failed to remove organization member from database')
+    }
+  }
+
+  async getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    try {
+      const invitationIds: string[] = this.store.get(`${this.ORGANIZATION_INVITATIONS_KEY_PREFIX}${organizationId}`) || []
+      return invitationIds
+        .map(id => this.store.get<OrganizationInvitation>(`${this.INVITATION_KEY_PREFIX}${id}`))
+        .filter((invitation): invitation is OrganizationInvitation => Boolean(invitation))
+        .map(invitation => ({ ...invitation, createdAt: new Date(invitation.createdAt) }))
+    } catch (error) {
+      console.error('Error fetching invitations:', error)
+      throw new Error('Failed to fetch invitations from database')
+    }
+  }
+
+  async createInvitation(invitation: OrganizationInvitation): Promise<OrganizationInvitation> {
+    try {
+      this.store.transaction(() => {
+        this.store.set(`${this.INVITATION_KEY_PREFIX}${invitation.id}`, invitation)
+        this.appendToIndex(`${this.ORGANIZATION_INVITATIONS_KEY_PREFIX}${invitation.organizationId}`, invitation.id)
+        this.appendToIndex(`${this.EMAIL_INVITATIONS_KEY_PREFIX}${normalizeEmail(invitation.email)}`, invitation.id)
+      })
+      return invitation
+    } catch (error) {
+      console.error('Error creating invitation:', error)
+      throw new Error('Failed to create invitation in database')
+    }
+  }
+
+  async deleteInvitation(id: string): Promise<void> {
+    try {
+      this.store.transaction(() => {
+        this.removeInvitation(id)
+      })
+    } catch (error) {
+      console.error('Error deleting invitation:', error)
+      throw new Error('Failed to delete invitation from database')
+    }
+  }
+
+  async acceptInvitation(invitationId: string, user: User): Promise<OrganizationMember | null> {
+    try {
+      return this.store.transaction(() => {
+        // An invitation only ever turns into a membership for the email it was sent to
+        const invitation = this.store.get<OrganizationInvitation>(`${this.INVITATION_KEY_PREFIX}${invitationId}`)
+        if (!invitation || normalizeEmail(invitation.email) !== normalizeEmail(user.email)
+          || !this.store.get(`${this.ORGANIZATION_KEY_PREFIX}${invitation.organizationId}`)) {
+          return null
+        }
+
+        const member: OrganizationMember = {
+          organizationId: invitation.organizationId,
+          userId: user.id,
+          role: invitation.role,
+          addedAt: new Date()
+        }
+        this.upsertMember(member)
+        this.removeInvitation(invitationId)
+
+        return member
+      })
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      throw new Error('Failed to accept invitation in database')
+    }
+  }
+
+  async appendAuditLog(entries: AuditLogEntry[]): Promise<void> {
+    try {
+      // Entries are only ever added; a per-organization sequence keeps their keys in order
+      this.store.transaction(() => {
+        for (const entry of entries) {
+          const sequenceKey = `${this.AUDIT_LOG_SEQUENCE_KEY_PREFIX}${entry.organizationId}`
+          const sequence = (this.store.get<number>(sequenceKey) || 0) + 1
+          this.store.set(sequenceKey, sequence)
+          this.store.set(`${this.auditLogPrefix(entry.organizationId)}${String(sequence).padStart(12, '0')}`, entry)
+        }
+      })
+    } catch (error) {
+      console.error('Error appending audit log:', error)
+      throw new Error('Failed to append audit log in database')
+    }
+  }
+
+  async getAuditLog(organizationId: string, filter: AuditLogFilter = {}): Promise<AuditLogEntry[]> {
+    try {
+      const entries: AuditLogEntry[] = []
+
+      // Newest first, stopping once the limit is reached
+      const keys = this.store.keys(this.auditLogPrefix(organizationId)).reverse()
+      for (const key of keys) {
+        const stored = this.store.get<AuditLogEntry>(key)
+        if (!stored) continue
+
+        const entry = { ...stored, timestamp: new Date(stored.timestamp) }
+        if (filter.employeeId && entry.employeeId !== filter.employeeId) continue
+        if (filter.from && entry.timestamp < filter.from) continue
+        if (filter.to && entry.timestamp > filter.to) continue
+
+        entries.push(entry)
+        if (filter.limit && entries.length >= filter.limit) break
       }
+
+      return entries
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+      throw new Error('Failed to fetch audit log from database')
+    }
+  }
+
+  async createSnapshot(snapshot: OrganizationSnapshot): Promise<OrganizationSnapshotSummary> {
+    try {
+      const { employees, ...details } = snapshot
+      const summary: OrganizationSnapshotSummary = { ...details, employeeCount: employees.length }
+
+      // Listing versions reads only the summaries; the employees are loaded when a version is opened
+      this.store.transaction(() => {
+        const key = `${this.ORGANIZATION_SNAPSHOTS_KEY_PREFIX}${snapshot.organizationId}`
+        const summaries: OrganizationSnapshotSummary[] = this.store.get(key) || []
+        this.store.set(`${this.SNAPSHOT_KEY_PREFIX}${snapshot.id}`, snapshot)
+        this.store.set(key, [...summaries, summary])
+      })
+      return summary
+    } catch (error) {
+      console.error('Error creating snapshot:', error)
+      throw new Error('Failed to create snapshot in database')
+    }
+  }
+
+  async getOrganizationSnapshots(organizationId: string): Promise<OrganizationSnapshotSummary[]> {
+    try {
+      const summaries: OrganizationSnapshotSummary[] = this.store.get(`${this.ORGANIZATION_SNAPSHOTS_KEY_PREFIX}${organizationId}`) || []
+      return summaries
+        .map(summary => ({ ...summary, createdAt: new Date(summary.createdAt) }))
+        .reverse()
+    } catch (error) {
+      console.error('Error fetching snapshots:', error)
+      throw new Error('Failed to fetch snapshots from database')
+    }
+  }
+
+  async getSnapshot(id: string): Promise<OrganizationSnapshot | null> {
+    try {
+      const snapshot = this.store.get<OrganizationSnapshot>(`${this.SNAPSHOT_KEY_PREFIX}${id}`)
+      return snapshot ? { ...snapshot, createdAt: new Date(snapshot.createdAt) } : null
+    } catch (error) {
+      console.error('Error fetching snapshot:', error)
+      throw new Error('Failed to fetch snapshot from database')
+    }
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    try {
+      this.store.transaction(() => {
+        const snapshot = this.store.get<OrganizationSnapshot>(`${this.SNAPSHOT_KEY_PREFIX}${id}`)
+        if (!snapshot) return
+
+        const key = `${this.ORGANIZATION_SNAPSHOTS_KEY_PREFIX}${snapshot.organizationId}`
+        const summaries: OrganizationSnapshotSummary[] = this.store.get(key) || []
+        this.store.set(key, summaries.filter(summary => summary.id !== id))
+        this.store.delete(`${this.SNAPSHOT_KEY_PREFIX}${id}`)
+      })
+    } catch (error) {
+      console.error('Error deleting snapshot:', error)
+      throw new Error('Failed to delete snapshot from database')
+    }
+  }
+
+  async addEmployeeToOrganization(organizationId: string, employeeId: string): Promise<void> {
+    try {
+      this.appendOrganizationEmployees(organizationId, [employeeId])
     } catch (error) {
       console.error('Error adding employee to organization:', error)
       throw new Error('Failed to add employee to organization')
     }
   }
+
+  private auditLogPrefix(organizationId: string): string {
+    return `${this.AUDIT_LOG_KEY_PREFIX}${organizationId}:`
+  }
+
+  private upsertMember(member: OrganizationMember): void {
+    const key = `${this.ORGANIZATION_MEMBERS_KEY_PREFIX}${member.organizationId}`
+    const members: OrganizationMember[] = this.store.get(key) || []
+    this.store.set(key, [...members.filter(existing => existing.userId !== member.userId), member])
+    this.appendToIndex(`${this.USER_ORGANIZATIONS_KEY_PREFIX}${member.userId}`, member.organizationId)
+  }
+
+  private removeInvitation(id: string): void {
+    const invitation = this.store.get<OrganizationInvitation>(`${this.INVITATION_KEY_PREFIX}${id}`)
+    if (!invitation) return
+
+    this.removeFromIndex(`${this.ORGANIZATION_INVITATIONS_KEY_PREFIX}${invitation.organizationId}`, id)
+    this.removeFromIndex(`${this.EMAIL_INVITATIONS_KEY_PREFIX}${normalizeEmail(invitation.email)}`, id)
+    this.store.delete(`${this.INVITATION_KEY_PREFIX}${id}`)
+  }
+
+  private removeUserOrganization(userId: string, organizationId: string): void {
+    this.removeFromIndex(`${this.USER_ORGANIZATIONS_KEY_PREFIX}${userId}`, organizationId)
+  }
+
+  private appendToIndex(key: string, id: string): void {
+    const ids: string[] = this.store.get(key) || []
+    if (!ids.includes(id)) {
+      this.store.set(key, [...ids, id])
+    }
+  }
+
+  private removeFromIndex(key: string, id: string): void {
+    const ids: string[] = this.store.get(key) || []
+    if (ids.includes(id)) {
+      this.store.set(key, ids.filter(existing => existing !== id))
+    }
+  }
+
+  private removeOrganizationEmployees(organizationId: string): void {
+    const key = `${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`
+    const employeeIds: string[] = this.store.get(key) || []
+    for (const employeeId of employeeIds) {
+      // Leave records that have since moved to another organization alone
+      const employee = this.store.get<Employee>(`${this.EMPLOYEE_KEY_PREFIX}${employeeId}`)
+      if (employee && employee.organizationId === organizationId) {
+        this.store.delete(`${this.EMPLOYEE_KEY_PREFIX}${employeeId}`)
+      }
+    }
+    this.store.delete(key)
+  }
+
+  private appendOrganizationEmployees(organizationId: string, employeeIds: string[]): void {
+    const key = `${this.ORGANIZATION_EMPLOYEES_KEY_PREFIX}${organizationId}`
+    const existingIds: string[] = this.store.get(key) || []
+    const newIds = employeeIds.filter((id, index) => !existingIds.includes(id) && employeeIds.indexOf(id) === index)
+    if (newIds.length > 0) {
+      this.store.set(key, [...existingIds, ...newIds])
+    }
+  }
 }
 
-export const databaseService = new VercelKVService()
\ No newline at end of file
+/**
+ * Opens the configured storage backend and brings its schema up to date
+ */
+export const createDatabaseService = (options: StorageOptions = config.database): KeyValueDatabaseService => {
+  const store = createKeyValueStore(options)
+  runMigrations(store)
+  return new KeyValueDatabaseService(store)
+}
+
+let openedService: KeyValueDatabaseService | null = null
+
+// Storage is opened on first use, so importing this module never touches the filesystem
+export const getDatabaseService = (): KeyValueDatabaseService => {
+  if (!openedService) {
+    openedService = createDatabaseService()
+  }
+  return openedService
+}
+
+export const databaseService: DatabaseService = new Proxy({} as DatabaseService, {
+  get: (_target, property) => {
+    const service = getDatabaseService()
+    const value = (service as any)[property]
+    return typeof value === 'function' ? value.bind(service) : value
+  }
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { EncodingDetectorService } from './encoding-detector'
+
+describe('EncodingDetectorService', () => {
+  let detector: EncodingDetectorService
+
+  beforeEach(() => {
+    detector = new EncodingDetectorService()
+  })
+
+  const sample = 'Name,Manager\nAndrés Daniel Gutiérrez Herrera,José Núñez'
+
+  describe('detect', () => {
+    it('should detect UTF-8 byte order mark', () => {
+      const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(sample, 'utf-8')])
+
+      const result = detector.detect(buffer)
+
+      expect(result).toEqual({ encoding: 'utf-8', confidence: 1, source: 'bom', hasBom: true })
+    })
+
+    it('should detect UTF-16LE and UTF-16BE byte order marks', () => {
+      expect(detector.detect(Buffer.from([0xff, 0xfe, 0x41, 0x00])).encoding).toBe('utf-16le')
+      expect(detector.detect(Buffer.from([0xfe, 0xff, 0x00, 0x41])).encoding).toBe('utf-16be')
+    })
+
+    it('should detect UTF-16LE without a byte order mark', () => {
+      const result = detector.detect(Buffer.from(sample, 'utf16le'))
+
+      expect(result.encoding).toBe('utf-16le')
+      expect(result.source).toBe('heuristic')
+    })
+
+    it('should detect UTF-16BE without a byte order mark', () => {
+      const buffer = Buffer.from(sample, 'utf16le').swap16()
+
+      expect(detector.detect(buffer).encoding).toBe('utf-16be')
+    })
+
+    it('should detect valid multi-byte UTF-8 with high confidence', () => {
+      const result = detector.detect(Buffer.from(sample, 'utf-8'))
+
+      expect(result.encoding).toBe('utf-8')
+      expect(result.confidence).toBeGreaterThan(0.9)
+    })
+
+    it('should treat plain ASCII as UTF-8', () => {
+      const result = detector.detect(Buffer.from('Name,Manager\nJohn Doe,Jane Smith'))
+
+      expect(result.encoding).toBe('utf-8')
+      expect(result.confidence).toBeLessThan(0.9)
+    })
+
+    it('should fall back to ISO-8859-1 for invalid UTF-8 without Windows-only bytes', () => {
+      const result = detector.detect(Buffer.from(sample, 'latin1'))
+
+      expect(result.encoding).toBe('iso-8859-1')
+    })
+
+    it('should detect Windows-1252 when bytes in the 0x80-0x9F range are present', () => {
+      // 0x93/0x94 are curly quotes in Windows-1252
+      const buffer = Buffer.concat([Buffer.from(sample, 'latin1'), Buffer.from([0x93, 0x41, 0x94])])
+
+      expect(detector.detect(buffer).encoding).toBe('windows-1252')
+    })
+
+    it('should reject truncated UTF-8 sequences', () => {
+      const buffer = Buffer.from([0x41, 0x42, 0xc3])
+
+      expect(detector.detect(buffer).encoding).not.toBe('utf-8')
+    })
+  })
+
+  describe('decode', () => {
+    it('should decode Latin-1 content without mojibake', () => {
+      const result = detector.decode(Buffer.from(sample, 'latin1'))
+
+      expect(result.text).toBe(sample)
+    })
+
+    it('should map Windows-1252 specific characters', () => {
+      const buffer = Buffer.from([0x93, 0x48, 0x69, 0x94, 0x20, 0x80])
+
+      expect(detector.decode(buffer, 'windows-1252').text).toBe('“Hi” €')
+    })
+
+    it('should strip the byte order mark from decoded text', () => {
+      const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(sample, 'utf-8')])
+
+      expect(detector.decode(buffer).text).toBe(sample)
+    })
+
+    it('should decode UTF-16BE content', () => {
+      const buffer = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(sample, 'utf16le').swap16()])
+
+      expect(detector.decode(buffer).text).toBe(sample)
+    })
+
+    it('should honour an explicit encoding override', () => {
+      const result = detector.decode(Buffer.from(sample, 'utf-8'), 'iso-8859-1')
+
+      expect(result.detection).toEqual({ encoding: 'iso-8859-1', confidence: 1, source: 'override', hasBom: false })
+      expect(result.text).not.toBe(sample)
+    })
+  })
+})
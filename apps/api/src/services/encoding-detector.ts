@@ -0,0 +1,205 @@
+// Encodings we can detect and decode without relying on ICU being available
+export const SUPPORTED_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'] as const;
+
+export type SupportedEncoding = typeof SUPPORTED_ENCODINGS[number];
+
+export interface EncodingDetectionResult {
+  encoding: SupportedEncoding;
+  confidence: number;
+  source: 'bom' | 'heuristic' | 'override';
+  hasBom: boolean;
+}
+
+export interface DecodedBuffer {
+  text: string;
+  detection: EncodingDetectionResult;
+}
+
+// Number of bytes inspected by the UTF-16 null-byte heuristic
+const SAMPLE_SIZE = 4096;
+
+const UTF16_NULL_RATIO = 0.3;
+
+// Windows-1252 differs from ISO-8859-1 only in the 0x80-0x9F range
+const WINDOWS_1252_HIGH_RANGE: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026,
+  0x86: 0x2020, 0x87: 0x2021, 0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160,
+  0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018, 0x92: 0x2019,
+  0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014,
+  0x98: 0x02dc, 0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153,
+  0x9e: 0x017e, 0x9f: 0x0178
+};
+
+export class EncodingDetectorService {
+  /**
+   * Detects the character encoding of a text buffer using BOM sniffing and byte heuristics
+   */
+  detect(buffer: Buffer): EncodingDetectionResult {
+    const bomEncoding = this.detectBom(buffer);
+    if (bomEncoding) {
+      return { encoding: bomEncoding, confidence: 1, source: 'bom', hasBom: true };
+    }
+
+    if (buffer.length === 0) {
+      return { encoding: 'utf-8', confidence: 1, source: 'heuristic', hasBom: false };
+    }
+
+    const utf16Encoding = this.detectUtf16(buffer);
+    if (utf16Encoding) {
+      return { encoding: utf16Encoding, confidence: 0.9, source: 'heuristic', hasBom: false };
+    }
+
+    const utf8Check = this.checkUtf8(buffer);
+    if (utf8Check.valid) {
+      // Pure ASCII is valid in every supported single-byte encoding, so UTF-8 is a safe default
+      return {
+        encoding: 'utf-8',
+        confidence: utf8Check.multiByteSequences > 0 ? 0.95 : 0.8,
+        source: 'heuristic',
+        hasBom: false
+      };
+    }
+
+    const hasWindowsOnlyBytes = buffer.some(byte => byte >= 0x80 && byte <= 0x9f);
+    return {
+      encoding: hasWindowsOnlyBytes ? 'windows-1252' : 'iso-8859-1',
+      confidence: hasWindowsOnlyBytes ? 0.8 : 0.7,
+      source: 'heuristic',
+      hasBom: false
+    };
+  }
+
+  /**
+   * Decodes a buffer to a string, detecting the encoding unless an override is provided
+   */
+  decode(buffer: Buffer, encodingOverride?: SupportedEncoding): DecodedBuffer {
+    let detection: EncodingDetectionResult;
+
+    if (encodingOverride) {
+      const bomEncoding = this.detectBom(buffer);
+      detection = {
+        encoding: encodingOverride,
+        confidence: 1,
+        source: 'override',
+        hasBom: bomEncoding === encodingOverride
+      };
+    } else {
+      detection = this.detect(buffer);
+    }
+
+    const content = detection.hasBom ? buffer.subarray(this.bomLength(detection.encoding)) : buffer;
+
+    return {
+      text: this.decodeWith(content, detection.encoding),
+      detection
+    };
+  }
+
+  private detectBom(buffer: Buffer): SupportedEncoding | null {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+      return 'utf-8';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return 'utf-16le';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+      return 'utf-16be';
+    }
+    return null;
+  }
+
+  private bomLength(encoding: SupportedEncoding): number {
+    return encoding === 'utf-8' ? 3 : 2;
+  }
+
+  /**
+   * Text in UTF-16 without a BOM shows up as ASCII characters interleaved with null bytes
+   */
+  private detectUtf16(buffer: Buffer): SupportedEncoding | null {
+    const sampleLength = Math.min(buffer.length, SAMPLE_SIZE) & ~1;
+    if (sampleLength < 2) return null;
+
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i < sampleLength; i += 2) {
+      if (buffer[i] === 0) evenNulls++;
+      if (buffer[i + 1] === 0) oddNulls++;
+    }
+
+    const pairs = sampleLength / 2;
+    if (oddNulls / pairs > UTF16_NULL_RATIO && evenNulls / pairs < UTF16_NULL_RATIO / 3) {
+      return 'utf-16le';
+    }
+    if (evenNulls / pairs > UTF16_NULL_RATIO && oddNulls / pairs < UTF16_NULL_RATIO / 3) {
+      return 'utf-16be';
+    }
+    return null;
+  }
+
+  /**
+   * Walks the buffer validating UTF-8 sequences and counts the multi-byte characters found
+   */
+  private checkUtf8(buffer: Buffer): { valid: boolean; multiByteSequences: number } {
+    let multiByteSequences = 0;
+    let i = 0;
+
+    while (i < buffer.length) {
+      const byte = buffer[i];
+
+      if (byte < 0x80) {
+        i++;
+        continue;
+      }
+
+      let continuationBytes: number;
+      if (byte >= 0xc2 && byte <= 0xdf) {
+        continuationBytes = 1;
+      } else if (byte >= 0xe0 && byte <= 0xef) {
+        continuationBytes = 2;
+      } else if (byte >= 0xf0 && byte <= 0xf4) {
+        continuationBytes = 3;
+      } else {
+        return { valid: false, multiByteSequences };
+      }
+
+      if (i + continuationBytes >= buffer.length) {
+        return { valid: false, multiByteSequences };
+      }
+
+      for (let j = 1; j <= continuationBytes; j++) {
+        if ((buffer[i + j] & 0xc0) !== 0x80) {
+          return { valid: false, multiByteSequences };
+        }
+      }
+
+      multiByteSequences++;
+      i += continuationBytes + 1;
+    }
+
+    return { valid: true, multiByteSequences };
+  }
+
+  private decodeWith(buffer: Buffer, encoding: SupportedEncoding): string {
+    switch (encoding) {
+      case 'utf-16le':
+        return buffer.toString('utf16le');
+      case 'utf-16be': {
+        // Node has no native UTF-16BE decoder, so swap byte order and decode as LE
+        const swapped = Buffer.from(buffer.subarray(0, buffer.length & ~1));
+        swapped.swap16();
+        return swapped.toString('utf16le');
+      }
+      case 'windows-1252': {
+        let result = '';
+        for (let i = 0; i < buffer.length; i++) {
+          result += String.fromCharCode(WINDOWS_1252_HIGH_RANGE[buffer[i]] ?? buffer[i]);
+        }
+        return result;
+      }
+      case 'iso-8859-1':
+        return buffer.toString('latin1');
+      default:
+        return buffer.toString('utf-8');
+    }
+  }
+}
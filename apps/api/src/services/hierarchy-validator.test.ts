@@ -10,6 +10,7 @@ const mockDatabaseService: DatabaseService = {
   updateEmployee: vi.fn(),
   getEmployeesByOrganization: vi.fn(),
   getUserOrganizations: vi.fn(),
+  getOrganizationMember: vi.fn(),
 }
 
 describe('HierarchyValidatorService', () => {
@@ -111,6 +112,41 @@ describe('HierarchyValidatorService', () => {
       })
     })
 
+    it('should allow editors of an organization they do not own', async () => {
+      vi.mocked(mockDatabaseService.getEmployee)
+        .mockResolvedValueOnce(mockEmployee)
+        .mockResolvedValueOnce(mockNewManager)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'otherUser' })
+      vi.mocked(mockDatabaseService.getOrganizationMember).mockResolvedValue({
+        organizationId: 'org1',
+        userId: 'user1',
+        role: 'editor',
+        addedAt: new Date()
+      })
+      vi.mocked(mockDatabaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee, mockNewManager])
+
+      const result = await service.validateHierarchyUpdate('emp1', 'manager2', 'user1')
+
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should return invalid for viewers', async () => {
+      vi.mocked(mockDatabaseService.getEmployee)
+        .mockResolvedValueOnce(mockEmployee)
+        .mockResolvedValueOnce(mockNewManager)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'otherUser' })
+      vi.mocked(mockDatabaseService.getOrganizationMember).mockResolvedValue({
+        organizationId: 'org1',
+        userId: 'user1',
+        role: 'viewer',
+        addedAt: new Date()
+      })
+
+      const result = await service.validateHierarchyUpdate('emp1', 'manager2', 'user1')
+
+      expect(result.errorCode).toBe('UNAUTHORIZED_ACCESS')
+    })
+
     it('should return invalid when organization does not exist', async () => {
       vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
       vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockNewManager)
@@ -169,6 +205,59 @@ describe('HierarchyValidatorService', () => {
     })
   })
 
+  describe('validateEmployeeRemoval', () => {
+    const directReport: Employee = { ...mockNewManager, id: 'emp3', name: 'Sam Lee', managerId: 'emp1' }
+
+    it('should allow removal when reports have no new manager to validate', async () => {
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue(mockOrganization)
+
+      const result = await service.validateEmployeeRemoval('emp1', null, 'user1')
+
+      expect(result).toEqual({ isValid: true })
+    })
+
+    it('should allow moving reports to a manager outside the subtree', async () => {
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockNewManager)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(mockDatabaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee, mockNewManager, directReport])
+
+      const result = await service.validateEmployeeRemoval('emp1', 'manager2', 'user1')
+
+      expect(result).toEqual({ isValid: true })
+    })
+
+    it('should reject moving reports to someone in the departing subtree', async () => {
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(directReport)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue(mockOrganization)
+      vi.mocked(mockDatabaseService.getEmployeesByOrganization).mockResolvedValue([mockEmployee, mockNewManager, directReport])
+
+      const result = await service.validateEmployeeRemoval('emp1', 'emp3', 'user1')
+
+      expect(result.errorCode).toBe('CIRCULAR_RELATIONSHIP')
+    })
+
+    it('should reject moving reports to the departing employee', async () => {
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValue(mockEmployee)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue(mockOrganization)
+
+      const result = await service.validateEmployeeRemoval('emp1', 'emp1', 'user1')
+
+      expect(result.errorCode).toBe('SELF_MANAGEMENT')
+    })
+
+    it('should reject removal from an organization the user does not own', async () => {
+      vi.mocked(mockDatabaseService.getEmployee).mockResolvedValueOnce(mockEmployee)
+      vi.mocked(mockDatabaseService.getOrganization).mockResolvedValue({ ...mockOrganization, userId: 'user2' })
+
+      const result = await service.validateEmployeeRemoval('emp1', null, 'user1')
+
+      expect(result.errorCode).toBe('UNAUTHORIZED_ACCESS')
+    })
+  })
+
   describe('checkCircularRelationship', () => {
     it('should detect direct circular relationship', async () => {
       const employee1 = { id: 'emp1', name: 'John', title: 'Engineer', organizationId: 'org1', managerId: 'emp2' }
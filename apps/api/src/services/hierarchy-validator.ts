@@ -1,5 +1,6 @@
 import { Employee } from '../../../../packages/shared'
 import { DatabaseService } from './database'
+import { OrganizationAccessService } from './organization-access'
 
 export interface HierarchyValidationResult {
   isValid: boolean
@@ -8,7 +9,11 @@ export interface HierarchyValidationResult {
 }
 
 export class HierarchyValidatorService {
-  constructor(private databaseService: DatabaseService) {}
+  private access: OrganizationAccessService
+
+  constructor(private databaseService: DatabaseService) {
+    this.access = new OrganizationAccessService(databaseService)
+  }
 
   async validateHierarchyUpdate(
     employeeId: string,
@@ -45,9 +50,9 @@ export class HierarchyValidatorService {
         }
       }
 
-      // 4. Validate that the organization belongs to the authenticated user
+      // 4. Validate that the authenticated user may edit the organization
       const organization = await this.databaseService.getOrganization(employee.organizationId)
-      if (!organization || organization.userId !== userId) {
+      if (!organization || !(await this.access.canEdit(organization, userId))) {
         return {
           isValid: false,
           error: 'Unauthorized access to organization',
@@ -90,6 +95,87 @@ export class HierarchyValidatorService {
     }
   }
 
+  /**
+   * Checks that an employee can be removed and, when their direct reports move to
+   * newManagerId, that the move keeps the reporting lines acyclic
+   */
+  async validateEmployeeRemoval(
+    employeeId: string,
+    newManagerId: string | null,
+    userId: string
+  ): Promise<HierarchyValidationResult> {
+    try {
+      const employee = await this.databaseService.getEmployee(employeeId)
+      if (!employee) {
+        return {
+          isValid: false,
+          error: 'Employee not found',
+          errorCode: 'EMPLOYEE_NOT_FOUND'
+        }
+      }
+
+      const organization = await this.databaseService.getOrganization(employee.organizationId)
+      if (!organization || !(await this.access.canEdit(organization, userId))) {
+        return {
+          isValid: false,
+          error: 'Unauthorized access to organization',
+          errorCode: 'UNAUTHORIZED_ACCESS'
+        }
+      }
+
+      if (!newManagerId) {
+        return { isValid: true }
+      }
+
+      const newManager = await this.databaseService.getEmployee(newManagerId)
+      if (!newManager) {
+        return {
+          isValid: false,
+          error: 'New manager not found',
+          errorCode: 'MANAGER_NOT_FOUND'
+        }
+      }
+
+      if (newManager.organizationId !== employee.organizationId) {
+        return {
+          isValid: false,
+          error: 'Employee and manager must belong to the same organization',
+          errorCode: 'DIFFERENT_ORGANIZATIONS'
+        }
+      }
+
+      if (newManagerId === employeeId) {
+        return {
+          isValid: false,
+          error: 'Direct reports cannot be moved to the employee being removed',
+          errorCode: 'SELF_MANAGEMENT'
+        }
+      }
+
+      // Someone inside the departing employee's subtree would end up managing their own manager
+      const allEmployees = await this.databaseService.getEmployeesByOrganization(employee.organizationId)
+      const employeeMap = new Map<string, Employee>()
+      allEmployees.forEach(emp => employeeMap.set(emp.id, emp))
+
+      if (this.isSubordinate(employeeId, newManagerId, employeeMap)) {
+        return {
+          isValid: false,
+          error: 'Direct reports cannot be moved to someone who reports to the employee being removed',
+          errorCode: 'CIRCULAR_RELATIONSHIP'
+        }
+      }
+
+      return { isValid: true }
+    } catch (error) {
+      console.error('Error validating employee removal:', error)
+      return {
+        isValid: false,
+        error: 'Internal validation error',
+        errorCode: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
   private async checkCircularRelationship(
     employeeId: string,
     newManagerId: string,
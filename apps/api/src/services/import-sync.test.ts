@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { ImportSyncService } from './import-sync'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+describe('ImportSyncService', () => {
+  const service = new ImportSyncService()
+
+  const existing = [
+    employee('emp_1', 'Jane Smith', null, 'CEO'),
+    employee('emp_2', 'John Doe', 'emp_1', 'CTO', { Desk: '4B' }),
+    employee('emp_3', 'Sam Lee', 'emp_2'),
+    employee('emp_4', 'Alex Kim', 'emp_2')
+  ]
+
+  // A monthly export without stable IDs: rows get fresh IDs on every import
+  const incoming = [
+    employee('row-0', 'Jane Smith', null, 'CEO'),
+    employee('row-1', 'John Doe', 'row-0', 'CTO', { Email: 'john@acme.com' }),
+    employee('row-2', 'Sam Lee', 'row-0', 'Staff Engineer'),
+    employee('row-3', 'Priya Patel', 'row-1')
+  ]
+
+  it('should keep the IDs and custom fields of matched people', () => {
+    const plan = service.plan(existing, incoming, { removeMissing: false, updateTitles: true })
+
+    expect(plan.employees.map(emp => [emp.id, emp.managerId, emp.title])).toEqual([
+      ['emp_1', null, 'CEO'],
+      ['emp_2', 'emp_1', 'CTO'],
+      ['emp_3', 'emp_1', 'Staff Engineer'],
+      ['row-3', 'emp_2', 'Engineer'],
+      ['emp_4', 'emp_2', 'Engineer']
+    ])
+    expect(plan.employees[1].customFields).toEqual({ Desk: '4B', Email: 'john@acme.com' })
+    expect(plan.storedIds.get('row-1')).toBe('emp_2')
+  })
+
+  it('should report new hires, updates and missing people', () => {
+    const plan = service.plan(existing, incoming, { removeMissing: false, updateTitles: true })
+
+    expect(plan.entries.map(entry => [entry.employeeId, entry.changes])).toEqual([
+      ['row-3', ['added']],
+      ['emp_3', ['moved', 'retitled']]
+    ])
+    expect(plan.missing.map(emp => emp.id)).toEqual(['emp_4'])
+    expect(plan.summary).toEqual({ added: 1, updated: 1, unchanged: 2, missing: 1, removed: 0 })
+  })
+
+  it('should take missing people off the chart when asked to', () => {
+    const plan = service.plan(existing, incoming, { removeMissing: true, updateTitles: true })
+
+    expect(plan.employees.map(emp => emp.id)).toEqual(['emp_1', 'emp_2', 'emp_3', 'row-3'])
+    expect(plan.entries[0]).toMatchObject({ employeeId: 'emp_4', changes: ['removed'] })
+    expect(plan.summary).toEqual({ added: 1, updated: 1, unchanged: 2, missing: 1, removed: 1 })
+  })
+
+  it('should keep existing titles when the file has none', () => {
+    const untitled = incoming.map(emp => ({ ...emp, title: 'Unknown Title' }))
+
+    const plan = service.plan(existing, untitled, { removeMissing: false, updateTitles: false })
+
+    expect(plan.employees.slice(0, 3).map(emp => emp.title)).toEqual(['CEO', 'CTO', 'Engineer'])
+    expect(plan.entries.map(entry => entry.changes)).toEqual([['added'], ['moved']])
+  })
+})
@@ -0,0 +1,77 @@
+import { Employee, ImportSyncSummary, OrgDiffEntry } from '../../../../packages/shared'
+import { OrgDiffService } from './org-diff'
+
+export interface ImportSyncOptions {
+  // Take people the file no longer lists off the chart instead of keeping them
+  removeMissing: boolean
+  // Files without a title column would otherwise overwrite every title with a placeholder
+  updateTitles: boolean
+}
+
+export interface ImportSyncPlan {
+  // The chart after the merge
+  employees: Employee[]
+  // Who is added, updated or removed, leavers first
+  entries: OrgDiffEntry[]
+  missing: Employee[]
+  summary: ImportSyncSummary
+  // IDs of the imported rows mapped to the IDs they are stored under
+  storedIds: Map<string, string>
+}
+
+/**
+ * Merges a re-imported HR export into an organization's chart: matched people keep their IDs and
+ * any custom fields the file does not carry, new hires are added and missing people are reported
+ */
+export class ImportSyncService {
+  constructor(private readonly orgDiff = new OrgDiffService()) {}
+
+  plan(existing: Employee[], incoming: Employee[], options: ImportSyncOptions): ImportSyncPlan {
+    const existingById = new Map(existing.map(emp => [emp.id, emp]))
+    const matches = this.orgDiff.matchEmployees(existing, incoming)
+
+    const storedIds = new Map(incoming.map(emp => [emp.id, emp.id]))
+    const currentByIncomingId = new Map<string, Employee>()
+    matches.forEach((incomingId, existingId) => {
+      storedIds.set(incomingId, existingId)
+      currentByIncomingId.set(incomingId, existingById.get(existingId)!)
+    })
+
+    const merged = incoming.map((row): Employee => {
+      const managerId = row.managerId ? storedIds.get(row.managerId) ?? null : null
+      const current = currentByIncomingId.get(row.id)
+      if (!current) {
+        return { ...row, managerId }
+      }
+
+      return {
+        ...current,
+        name: row.name,
+        title: options.updateTitles ? row.title : current.title,
+        managerId,
+        customFields: { ...(current.customFields || {}), ...(row.customFields || {}) }
+      }
+    })
+
+    const missing = existing.filter(emp => !matches.has(emp.id))
+    const employees = options.removeMissing ? merged : [...merged, ...missing]
+
+    const { entries, summary } = this.orgDiff.diff(existing, employees)
+    const updated = entries.filter(entry => entry.before && entry.after).length
+
+    return {
+      employees,
+      entries,
+      missing,
+      summary: {
+        added: summary.added,
+        updated,
+        // Missing people that stay on the chart are not changes
+        unchanged: summary.unchanged - (options.removeMissing ? 0 : missing.length),
+        missing: missing.length,
+        removed: summary.removed
+      },
+      storedIds
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { KeyValueStore } from './storage'
+
+export const SCHEMA_VERSION_KEY = 'meta:schema_version'
+
+export interface Migration {
+  version: number
+  name: string
+  up(store: KeyValueStore): void
+}
+
+// Migrations spell out their keys instead of sharing the service's prefixes,
+// so they keep describing the layout that existed when they were written.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create-default-organization',
+    up(store) {
+      // Charts uploaded before there were organizations to choose from were stored in "default-org"
+      if (!store.get('organization:default-org')) {
+        store.set('organization:default-org', {
+          id: 'default-org',
+          name: 'Default Organization',
+          userId: 'demo-user',
+          createdAt: new Date().toISOString()
+        })
+      }
+
+      const organizationIds: string[] = store.get('user_orgs:demo-user') || []
+      if (!organizationIds.includes('default-org')) {
+        store.set('user_orgs:demo-user', [...organizationIds, 'default-org'])
+      }
+    }
+  }
+]
+
+/**
+ * Applies pending migrations in version order, each in its own transaction.
+ * Returns the schema version the store ends up at.
+ */
+export const runMigrations = (store: KeyValueStore, pending: Migration[] = migrations): number => {
+  let currentVersion: number = store.get(SCHEMA_VERSION_KEY) || 0
+
+  const ordered = pending.slice().sort((a, b) => a.version - b.version)
+  for (const migration of ordered) {
+    if (migration.version <= currentVersion) continue
+
+    store.transaction(() => {
+      migration.up(store)
+      store.set(SCHEMA_VERSION_KEY, migration.version)
+    })
+    currentVersion = migration.version
+  }
+
+  return currentVersion
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NameMatcherService, NAME_MATCH_THRESHOLDS } from './name-matcher'
+
+describe('NameMatcherService', () => {
+  let matcher: NameMatcherService
+
+  beforeEach(() => {
+    matcher = new NameMatcherService()
+  })
+
+  describe('normalize', () => {
+    it('should fold diacritics, casing and whitespace', () => {
+      expect(matcher.normalize('  José  NÚÑEZ ')).toBe('jose nunez')
+    })
+
+    it('should reorder "Last, First" names', () => {
+      expect(matcher.normalize('Smith, Robert')).toBe('robert smith')
+    })
+
+    it('should drop middle initials and suffixes', () => {
+      expect(matcher.normalize('Robert J. Smith Jr.')).toBe('robert smith')
+    })
+
+    it('should expand common nicknames', () => {
+      expect(matcher.normalize('Bob Smith')).toBe('robert smith')
+    })
+  })
+
+  describe('similarity', () => {
+    it('should treat nickname, accent and ordering variants as the same name', () => {
+      expect(matcher.similarity('Bob Smith', 'Robert Smith')).toBe(1)
+      expect(matcher.similarity('Andrés Gutiérrez', 'andres gutierrez')).toBe(1)
+      expect(matcher.similarity('Smith, Robert', 'Robert Smith')).toBe(1)
+    })
+
+    it('should score small typos close to but below an exact match', () => {
+      const score = matcher.similarity('Jonh Smith', 'John Smith')
+
+      expect(score).toBeLessThan(1)
+      expect(score).toBeGreaterThanOrEqual(NAME_MATCH_THRESHOLDS.SUGGEST)
+    })
+
+    it('should give names with an extra middle name a suggestion-level score', () => {
+      const score = matcher.similarity('John Smith', 'John Paul Smith')
+
+      expect(score).toBeGreaterThanOrEqual(NAME_MATCH_THRESHOLDS.SUGGEST)
+      expect(score).toBeLessThan(NAME_MATCH_THRESHOLDS.AUTO_APPLY)
+    })
+
+    it('should score unrelated names low', () => {
+      expect(matcher.similarity('Jane Doe', 'Robert Smith')).toBeLessThan(NAME_MATCH_THRESHOLDS.SUGGEST)
+    })
+  })
+
+  describe('findMatches', () => {
+    it('should return candidates above the suggestion threshold, best first', () => {
+      const matches = matcher.findMatches('Bob Smith', ['Alice Brown', 'Robert Smyth', 'Robert Smith'])
+
+      expect(matches.map(match => match.name)).toEqual(['Robert Smith', 'Robert Smyth'])
+    })
+  })
+
+  describe('isConfidentMatch', () => {
+    it('should require a strong match that is clearly ahead of the runner-up', () => {
+      expect(matcher.isConfidentMatch([{ score: 1 }])).toBe(true)
+      expect(matcher.isConfidentMatch([{ score: 1 }, { score: 1 }])).toBe(false)
+      expect(matcher.isConfidentMatch([{ score: 0.8 }])).toBe(false)
+      expect(matcher.isConfidentMatch([])).toBe(false)
+    })
+  })
+})
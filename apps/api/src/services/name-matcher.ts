@@ -0,0 +1,155 @@
+export const NAME_MATCH_THRESHOLDS = {
+  // Matches at or above this score are applied without asking the user
+  AUTO_APPLY: 0.92,
+  // Matches below this score are not proposed at all
+  SUGGEST: 0.75,
+  // An auto-apply candidate must beat the runner-up by at least this much
+  AMBIGUITY_MARGIN: 0.05
+} as const;
+
+// Scores assigned when names only differ by reordering or by an extra token such as a middle name
+const TOKEN_REORDER_SCORE = 1;
+const TOKEN_SUBSET_SCORE = 0.9;
+
+const MAX_MATCHES = 3;
+
+// Common English nicknames mapped to the formal first name they abbreviate
+const NICKNAMES: Record<string, string> = {
+  abby: 'abigail', al: 'albert', alex: 'alexander', andy: 'andrew', ben: 'benjamin',
+  beth: 'elizabeth', betty: 'elizabeth', bill: 'william', billy: 'william', bob: 'robert',
+  bobby: 'robert', cathy: 'catherine', chris: 'christopher', chuck: 'charles', dan: 'daniel',
+  danny: 'daniel', dave: 'david', deb: 'deborah', debbie: 'deborah', dick: 'richard',
+  don: 'donald', ed: 'edward', eddie: 'edward', frank: 'francis', fred: 'frederick',
+  greg: 'gregory', harry: 'henry', jack: 'john', jake: 'jacob', jim: 'james',
+  jimmy: 'james', jeff: 'jeffrey', jen: 'jennifer', jenny: 'jennifer', joe: 'joseph',
+  joey: 'joseph', johnny: 'john', jon: 'jonathan', josh: 'joshua', kate: 'katherine',
+  kathy: 'katherine', katie: 'katherine', ken: 'kenneth', kim: 'kimberly', larry: 'lawrence',
+  liz: 'elizabeth', maggie: 'margaret', matt: 'matthew', meg: 'margaret', mike: 'michael',
+  mikey: 'michael', nate: 'nathan', nick: 'nicholas', pam: 'pamela', pat: 'patricia',
+  peggy: 'margaret', pete: 'peter', phil: 'philip', rich: 'richard', rick: 'richard',
+  rob: 'robert', ron: 'ronald', sam: 'samuel', steve: 'steven', sue: 'susan',
+  ted: 'edward', tom: 'thomas', tommy: 'thomas', tony: 'anthony', vicky: 'victoria',
+  will: 'william', zach: 'zachary'
+};
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md']);
+
+export interface NameMatch {
+  name: string;
+  score: number;
+}
+
+export class NameMatcherService {
+  private tokenCache = new Map<string, string[]>();
+
+  /**
+   * Reduces a name to comparable tokens: folded diacritics, lowercase, "Last, First" reordered,
+   * initials and suffixes dropped and nicknames expanded
+   */
+  tokenize(name: string): string[] {
+    const cached = this.tokenCache.get(name);
+    if (cached) return cached;
+
+    let value = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+    const commaIndex = value.indexOf(',');
+    if (commaIndex !== -1) {
+      value = `${value.slice(commaIndex + 1)} ${value.slice(0, commaIndex)}`;
+    }
+
+    let tokens = value
+      .replace(/['’.]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(' ')
+      .filter(token => token.length > 0 && !NAME_SUFFIXES.has(token));
+
+    // Middle initials are dropped as long as a first and last name remain
+    const fullTokens = tokens.filter(token => token.length > 1);
+    if (fullTokens.length >= 2) {
+      tokens = fullTokens;
+    }
+
+    tokens = tokens.map(token => NICKNAMES[token] || token);
+
+    this.tokenCache.set(name, tokens);
+    return tokens;
+  }
+
+  /**
+   * Normalized form of a name, used to compare names for equality
+   */
+  normalize(name: string): string {
+    return this.tokenize(name).join(' ');
+  }
+
+  /**
+   * Scores how likely two names refer to the same person, from 0 (unrelated) to 1 (same name)
+   */
+  similarity(a: string, b: string): number {
+    const tokensA = this.tokenize(a);
+    const tokensB = this.tokenize(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+    const joinedA = tokensA.join(' ');
+    const joinedB = tokensB.join(' ');
+    if (joinedA === joinedB) return 1;
+
+    const sortedA = tokensA.slice().sort().join(' ');
+    const sortedB = tokensB.slice().sort().join(' ');
+    if (sortedA === sortedB) return TOKEN_REORDER_SCORE;
+
+    const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+    const isSubset = shorter.length >= 2 && shorter.every(token => longer.indexOf(token) !== -1);
+
+    const editScore = Math.max(this.editSimilarity(joinedA, joinedB), this.editSimilarity(sortedA, sortedB));
+    return Math.round(Math.max(editScore, isSubset ? TOKEN_SUBSET_SCORE : 0) * 100) / 100;
+  }
+
+  /**
+   * Returns the best matching candidates for a name, best first, above the suggestion threshold
+   */
+  findMatches(reference: string, candidates: string[], limit = MAX_MATCHES): NameMatch[] {
+    const matches: NameMatch[] = [];
+
+    for (const candidate of candidates) {
+      const score = this.similarity(reference, candidate);
+      if (score >= NAME_MATCH_THRESHOLDS.SUGGEST) {
+        matches.push({ name: candidate, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * A best match is applied automatically only when it is strong and clearly ahead of the runner-up
+   */
+  isConfidentMatch(matches: Array<{ score: number }>): boolean {
+    if (matches.length === 0 || matches[0].score < NAME_MATCH_THRESHOLDS.AUTO_APPLY) return false;
+    return matches.length === 1 || matches[0].score - matches[1].score >= NAME_MATCH_THRESHOLDS.AMBIGUITY_MARGIN;
+  }
+
+  /**
+   * Levenshtein distance scaled to a 0-1 similarity
+   */
+  private editSimilarity(a: string, b: string): number {
+    const maxLength = Math.max(a.length, b.length);
+    if (maxLength === 0) return 1;
+
+    let previous = new Array<number>(b.length + 1);
+    let current = new Array<number>(b.length + 1);
+    for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+      current[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      [previous, current] = [current, previous];
+    }
+
+    return 1 - previous[b.length] / maxLength;
+  }
+}
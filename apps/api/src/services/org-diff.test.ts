@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { OrgDiffService } from './org-diff'
+import { employee } from '../../../../packages/shared/__tests__/fixtures'
+
+describe('OrgDiffService', () => {
+  const service = new OrgDiffService()
+
+  const base = [
+    employee('1', 'Jane Smith', null, 'CEO'),
+    employee('2', 'John Doe', '1', 'CTO'),
+    employee('3', 'Sam Lee', '2'),
+    employee('4', 'Alex Kim', '2')
+  ]
+
+  it('should report nothing for identical charts', () => {
+    const diff = service.diff(base, base)
+
+    expect(diff.entries).toEqual([])
+    expect(diff.summary).toEqual({ added: 0, removed: 0, moved: 0, retitled: 0, renamed: 0, unchanged: 4 })
+    expect(diff.combinedEmployees).toEqual(base)
+  })
+
+  it('should classify new hires, leavers, manager changes and title changes', () => {
+    const target = [
+      employee('1', 'Jane Smith', null, 'CEO'),
+      employee('2', 'John Doe', '1', 'CTO'),
+      employee('3', 'Sam Lee', '1', 'Staff Engineer'),
+      employee('5', 'Priya Patel', '2')
+    ]
+
+    const diff = service.diff(base, target)
+
+    expect(diff.entries.map(entry => [entry.employeeId, entry.changes])).toEqual([
+      ['4', ['removed']],
+      ['5', ['added']],
+      ['3', ['moved', 'retitled']]
+    ])
+    expect(diff.entries[2]).toMatchObject({ previousManagerName: 'John Doe', newManagerName: 'Jane Smith' })
+    expect(diff.summary).toEqual({ added: 1, removed: 1, moved: 1, retitled: 1, renamed: 0, unchanged: 2 })
+  })
+
+  it('should match people by normalized name when an export assigns new IDs', () => {
+    const target = [
+      employee('a', 'Smith, Jane', null, 'CEO'),
+      employee('b', 'John Doe', 'a', 'CTO'),
+      employee('c', 'Sam Lee', 'b'),
+      employee('d', 'Alex Kim', 'b')
+    ]
+
+    const diff = service.diff(base, target)
+
+    expect(diff.entries).toEqual([
+      expect.objectContaining({ employeeId: 'a', changes: ['renamed'], previousManagerName: null, newManagerName: null })
+    ])
+    expect(diff.summary.unchanged).toBe(3)
+  })
+
+  it('should not match by name when several people share it', () => {
+    const diff = service.diff(
+      [employee('1', 'Sam Lee'), employee('2', 'Sam Lee')],
+      [employee('a', 'Sam Lee')]
+    )
+
+    expect(diff.summary).toMatchObject({ added: 1, removed: 2 })
+  })
+
+  it('should place leavers under their former manager in the combined chart', () => {
+    const target = [employee('1', 'Jane Smith', null, 'CEO'), employee('5', 'Priya Patel', '1')]
+
+    const diff = service.diff(base, target)
+
+    expect(diff.combinedEmployees.map(emp => [emp.id, emp.managerId])).toEqual([
+      ['1', null],
+      ['5', '1'],
+      ['2', '1'],
+      ['3', '2'],
+      ['4', '2']
+    ])
+    expect(diff.summary).toMatchObject({ added: 1, removed: 3, unchanged: 1 })
+  })
+
+  it('should not report a move when the manager was only renumbered', () => {
+    const target = [
+      employee('1', 'Jane Smith', null, 'CEO'),
+      employee('9', 'John Doe', '1', 'CTO'),
+      employee('3', 'Sam Lee', '9'),
+      employee('4', 'Alex Kim', '9')
+    ]
+
+    const diff = service.diff(base, target)
+
+    expect(diff.entries).toEqual([])
+  })
+})
@@ -0,0 +1,132 @@
+import { Employee, OrgChangeType, OrgDiff, OrgDiffEntry } from '../../../../packages/shared'
+import { NameMatcherService } from './name-matcher'
+
+/**
+ * Compares two versions of a chart, such as consecutive monthly HR exports, and classifies
+ * who joined, who left, who changed managers and whose title or name changed
+ */
+export class OrgDiffService {
+  constructor(private readonly nameMatcher = new NameMatcherService()) {}
+
+  diff(before: Employee[], after: Employee[]): OrgDiff {
+    const beforeById = new Map(before.map(emp => [emp.id, emp]))
+    const afterById = new Map(after.map(emp => [emp.id, emp]))
+    const matches = this.matchEmployees(before, after)
+
+    const summary: OrgDiff['summary'] = { added: 0, removed: 0, moved: 0, retitled: 0, renamed: 0, unchanged: 0 }
+    const removed: OrgDiffEntry[] = []
+    const added: OrgDiffEntry[] = []
+    const changed: OrgDiffEntry[] = []
+
+    const managerName = (employeesById: Map<string, Employee>, managerId?: string | null) =>
+      (managerId && employeesById.get(managerId)?.name) || null
+
+    before.forEach(previous => {
+      if (matches.has(previous.id)) return
+      removed.push({
+        employeeId: previous.id,
+        name: previous.name,
+        changes: ['removed'],
+        before: previous,
+        after: null,
+        previousManagerName: managerName(beforeById, previous.managerId),
+        newManagerName: null
+      })
+    })
+
+    const previousByAfterId = new Map<string, Employee>()
+    matches.forEach((afterId, beforeId) => previousByAfterId.set(afterId, beforeById.get(beforeId)!))
+
+    after.forEach(current => {
+      const previous = previousByAfterId.get(current.id)
+      if (!previous) {
+        added.push({
+          employeeId: current.id,
+          name: current.name,
+          changes: ['added'],
+          before: null,
+          after: current,
+          previousManagerName: null,
+          newManagerName: managerName(afterById, current.managerId)
+        })
+        return
+      }
+
+      const changes: OrgChangeType[] = []
+      // Compare managers by who they are, since a re-export may have given them new IDs
+      const previousManagerId = previous.managerId ? matches.get(previous.managerId) ?? `left:${previous.managerId}` : null
+      if (previousManagerId !== (current.managerId || null)) changes.push('moved')
+      if (previous.title.trim() !== current.title.trim()) changes.push('retitled')
+      if (previous.name.trim() !== current.name.trim()) changes.push('renamed')
+
+      if (changes.length === 0) {
+        summary.unchanged++
+        return
+      }
+      changed.push({
+        employeeId: current.id,
+        name: current.name,
+        changes,
+        before: previous,
+        after: current,
+        previousManagerName: managerName(beforeById, previous.managerId),
+        newManagerName: managerName(afterById, current.managerId)
+      })
+    })
+
+    const entries = [...removed, ...added, ...changed]
+    entries.forEach(entry => entry.changes.forEach(change => summary[change]++))
+
+    // Leavers keep their old IDs, which cannot clash: an ID present in both versions is always a match.
+    // A leaver whose manager also left stays under them.
+    const leavers = removed.map(entry => {
+      const managerId = entry.before!.managerId
+      const placedUnder = !managerId
+        ? null
+        : matches.get(managerId) ?? (beforeById.has(managerId) ? managerId : null)
+      return { ...entry.before!, managerId: placedUnder }
+    })
+
+    return { entries, summary, combinedEmployees: [...after, ...leavers] }
+  }
+
+  /**
+   * Pairs employees of the older version with the newer one: by ID first, then by normalized
+   * name for exports that do not keep stable IDs. Names shared by several people stay unmatched.
+   * Maps IDs of the older version to IDs of the newer one.
+   */
+  matchEmployees(before: Employee[], after: Employee[]): Map<string, string> {
+    const afterIds = new Set(after.map(emp => emp.id))
+    const matches = new Map<string, string>()
+
+    before.forEach(emp => {
+      if (afterIds.has(emp.id)) matches.set(emp.id, emp.id)
+    })
+
+    const matchedAfterIds = new Set(matches.values())
+    const unmatchedBefore = this.uniqueByName(before.filter(emp => !matches.has(emp.id)))
+    const unmatchedAfter = this.uniqueByName(after.filter(emp => !matchedAfterIds.has(emp.id)))
+
+    unmatchedBefore.forEach((emp, name) => {
+      const counterpart = unmatchedAfter.get(name)
+      if (counterpart) matches.set(emp.id, counterpart.id)
+    })
+
+    return matches
+  }
+
+  private uniqueByName(employees: Employee[]): Map<string, Employee> {
+    const groups = new Map<string, Employee[]>()
+    employees.forEach(emp => {
+      const name = this.nameMatcher.normalize(emp.name)
+      if (!name) return
+      groups.set(name, [...(groups.get(name) || []), emp])
+    })
+
+    const unique = new Map<string, Employee>()
+    groups.forEach((group, name) => {
+      if (group.length === 1) unique.set(name, group[0])
+    })
+    return unique
+  }
+}
@@ -0,0 +1,34 @@
+import { Organization, OrganizationRole } from '../../../../packages/shared'
+import { DatabaseService } from './database'
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2
+}
+
+/**
+ * True when a role grants at least the access of the required role
+ */
+export const hasRole = (role: OrganizationRole | null, required: OrganizationRole): boolean =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[required]
+
+/**
+ * Resolves what a user may do in an organization: its creator owns it, everyone else needs a membership
+ */
+export class OrganizationAccessService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async getRole(organization: Organization, userId: string): Promise<OrganizationRole | null> {
+    if (organization.userId === userId) {
+      return 'owner'
+    }
+
+    const member = await this.databaseService.getOrganizationMember(organization.id, userId)
+    return member ? member.role : null
+  }
+
+  async canEdit(organization: Organization, userId: string): Promise<boolean> {
+    return hasRole(await this.getRole(organization, userId), 'editor')
+  }
+}
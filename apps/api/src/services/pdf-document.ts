@@ -0,0 +1,250 @@
+export type PdfFont = 'regular' | 'bold'
+
+export interface PdfTextOptions {
+  size: number
+  font?: PdfFont
+  color?: string
+  align?: 'left' | 'center' | 'right'
+  /** Longer text is cut short with an ellipsis */
+  maxWidth?: number
+}
+
+export interface PdfShapeOptions {
+  fill?: string
+  stroke?: string
+  lineWidth?: number
+  /** Dash and gap lengths, for dashed outlines */
+  dash?: [number, number]
+}
+
+// Glyph widths of the standard Helvetica fonts for printable ASCII, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+const DEFAULT_GLYPH_WIDTH = 556
+
+// Control point distance for drawing a quarter circle with one Bézier curve
+const ARC_KAPPA = 0.5523
+
+const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+const toRgb = (hex: string): string => {
+  const value = hex.replace('#', '')
+  const channels = [0, 2, 4].map(offset => parseInt(value.substr(offset, 2), 16) / 255)
+  return channels.map(formatNumber).join(' ')
+}
+
+// WinAnsiEncoding puts these characters where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '\u20ac': 0x80, '\u201a': 0x82, '\u0192': 0x83, '\u201e': 0x84, '\u2026': 0x85, '\u2020': 0x86,
+  '\u2021': 0x87, '\u02c6': 0x88, '\u2030': 0x89, '\u0160': 0x8a, '\u2039': 0x8b, '\u0152': 0x8c,
+  '\u017d': 0x8e, '\u2018': 0x91, '\u2019': 0x92, '\u201c': 0x93, '\u201d': 0x94, '\u2022': 0x95,
+  '\u2013': 0x96, '\u2014': 0x97, '\u02dc': 0x98, '\u2122': 0x99, '\u0161': 0x9a, '\u203a': 0x9b,
+  '\u0153': 0x9c, '\u017e': 0x9e, '\u0178': 0x9f
+}
+
+const isWinAnsi = (character: string): boolean =>
+  /[\x20-\x7e\xa0-\xff]/.test(character) || WIN_ANSI_EXTRAS[character] !== undefined
+
+// The standard fonts only cover WinAnsi; anything else prints as a question mark
+const toWinAnsi = (text: string): string => Array.from(text)
+  .map(character => WIN_ANSI_EXTRAS[character] !== undefined
+    ? String.fromCharCode(WIN_ANSI_EXTRAS[character])
+    : isWinAnsi(character) ? character : '?')
+  .join('')
+
+// Characters in the text the standard fonts cannot draw, each listed once
+const unsupportedCharacters = (text: string): string[] =>
+  Array.from(new Set(Array.from(text).filter(character => !isWinAnsi(character))))
+
+const escapeText = (text: string): string => text.replace(/[\\()]/g, match => `\\${match}`)
+
+/**
+ * A page being drawn. Coordinates are in points from the top-left corner, and are flipped to
+ * PDF's bottom-left origin as they are written.
+ */
+export class PdfPage {
+  private readonly operations: string[] = []
+  // Characters drawn on this page that came out as question marks
+  readonly unsupportedCharacters = new Set<string>()
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions & { radius?: number } = {}): void {
+    const radius = Math.min(options.radius || 0, width / 2, height / 2)
+    const bottom = this.height - y - height
+
+    if (radius <= 0) {
+      this.paint(`${formatNumber(x)} ${formatNumber(bottom)} ${formatNumber(width)} ${formatNumber(height)} re`, options)
+      return
+    }
+
+    const k = radius * ARC_KAPPA
+    const left = x
+    const right = x + width
+    const top = this.height - y
+    const path = [
+      `${formatNumber(left + radius)} ${formatNumber(bottom)} m`,
+      `${formatNumber(right - radius)} ${formatNumber(bottom)} l`,
+      `${formatNumber(right - radius + k)} ${formatNumber(bottom)} ${formatNumber(right)} ${formatNumber(bottom + radius - k)} ${formatNumber(right)} ${formatNumber(bottom + radius)} c`,
+      `${formatNumber(right)} ${formatNumber(top - radius)} l`,
+      `${formatNumber(right)} ${formatNumber(top - radius + k)} ${formatNumber(right - radius + k)} ${formatNumber(top)} ${formatNumber(right - radius)} ${formatNumber(top)} c`,
+      `${formatNumber(left + radius)} ${formatNumber(top)} l`,
+      `${formatNumber(left + radius - k)} ${formatNumber(top)} ${formatNumber(left)} ${formatNumber(top - radius + k)} ${formatNumber(left)} ${formatNumber(top - radius)} c`,
+      `${formatNumber(left)} ${formatNumber(bottom + radius)} l`,
+      `${formatNumber(left)} ${formatNumber(bottom + radius - k)} ${formatNumber(left + radius - k)} ${formatNumber(bottom)} ${formatNumber(left + radius)} ${formatNumber(bottom)} c`,
+      'h'
+    ]
+    this.paint(path.join(' '), options)
+  }
+
+  // Draws a line through the points, given as [x, y] pairs
+  polyline(points: Array<[number, number]>, options: PdfShapeOptions = {}): void {
+    if (points.length < 2) return
+    const path = points.map(([x, y], index) => `${formatNumber(x)} ${formatNumber(this.height - y)} ${index === 0 ? 'm' : 'l'}`)
+    this.paint(path.join(' '), { ...options, fill: undefined, stroke: options.stroke || '#000000' })
+  }
+
+  // Draws one line of text with its baseline at y
+  text(text: string, x: number, y: number, options: PdfTextOptions): void {
+    const font = options.font || 'regular'
+    unsupportedCharacters(text).forEach(character => this.unsupportedCharacters.add(character))
+    let content = toWinAnsi(text)
+    if (options.maxWidth !== undefined) {
+      content = PdfPage.fitText(content, options.size, font, options.maxWidth)
+    }
+    if (!content) return
+
+    const width = PdfPage.measureText(content, options.size, font)
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x
+
+    this.operations.push(
+      'BT',
+      `/${font === 'bold' ? 'F2' : 'F1'} ${formatNumber(options.size)} Tf`,
+      `${toRgb(options.color || '#000000')} rg`,
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td`,
+      `(${escapeText(content)}) Tj`,
+      'ET'
+    )
+  }
+
+  static measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    let total = 0
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i)
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH
+    }
+    return total * size / 1000
+  }
+
+  static fitText(text: string, size: number, font: PdfFont, maxWidth: number): string {
+    if (PdfPage.measureText(text, size, font) <= maxWidth) return text
+
+    let end = text.length
+    while (end > 0 && PdfPage.measureText(`${text.slice(0, end).replace(/\s+$/, '')}...`, size, font) > maxWidth) {
+      end--
+    }
+    return end > 0 ? `${text.slice(0, end).replace(/\s+$/, '')}...` : ''
+  }
+
+  get content(): string {
+    return this.operations.join('\n')
+  }
+
+  private paint(path: string, options: PdfShapeOptions): void {
+    const { fill, stroke } = options
+    if (!fill && !stroke) return
+
+    this.operations.push('q')
+    if (fill) this.operations.push(`${toRgb(fill)} rg`)
+    if (stroke) {
+      this.operations.push(`${toRgb(stroke)} RG`, `${formatNumber(options.lineWidth ?? 1)} w`)
+      if (options.dash) this.operations.push(`[${options.dash.map(formatNumber).join(' ')}] 0 d`)
+    }
+    this.operations.push(path, fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q')
+  }
+}
+
+/**
+ * Writes PDF files from pages of vector shapes and text. Only the standard Helvetica fonts are
+ * used, so nothing has to be embedded and the output stays small; text outside WinAnsi is
+ * reported through unsupportedCharacters.
+ */
+export class PdfDocument {
+  private readonly pages: PdfPage[] = []
+
+  constructor(private readonly info: { title: string; createdAt: Date }) {}
+
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height)
+    this.pages.push(page)
+    return page
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  // Characters the standard fonts could not draw, so callers can warn that they print as "?"
+  get unsupportedCharacters(): string[] {
+    const characters = new Set(unsupportedCharacters(this.info.title))
+    this.pages.forEach(page => page.unsupportedCharacters.forEach(character => characters.add(character)))
+    return Array.from(characters)
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1-5 are the catalog, page tree, fonts and document info; each page then takes a page and a content object
+    const objects: string[] = []
+    const pageIds = this.pages.map((_, index) => 6 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    objects[5] = `<< /Title (${escapeText(toWinAnsi(this.info.title))}) /CreationDate (D:${this.formatDate(this.info.createdAt)}) >>`
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index]
+      const content = page.content
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    })
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1')
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${`0000000000${offsets[id]}`.slice(-10)} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z'
+  }
+}
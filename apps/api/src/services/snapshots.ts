@@ -0,0 +1,28 @@
+import { Employee, OrganizationSnapshotSummary, SnapshotSource } from '../../../../packages/shared'
+import { DatabaseService } from './database'
+
+/**
+ * Freezes an organization's chart as a named version
+ */
+export class SnapshotService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async capture(
+    organizationId: string,
+    name: string,
+    source: SnapshotSource,
+    createdBy: string,
+    employees?: Employee[]
+  ): Promise<OrganizationSnapshotSummary> {
+    return this.databaseService.createSnapshot({
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      organizationId,
+      name,
+      source,
+      createdBy,
+      createdAt: new Date(),
+      // Without a list, the chart as it is stored right now
+      employees: employees || await this.databaseService.getEmployeesByOrganization(organizationId)
+    })
+  }
+}
@@ -0,0 +1,169 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+
+export type StorageDriver = 'sqlite' | 'json' | 'memory'
+
+export interface StorageOptions {
+  driver: StorageDriver
+  path: string
+}
+
+/**
+ * Synchronous key-value storage underneath the database service.
+ * Values are stored as JSON, so every backend hands out independent copies.
+ */
+export interface KeyValueStore {
+  get<T = any>(key: string): T | undefined
+  set(key: string, value: unknown): void
+  delete(key: string): void
+  keys(prefix: string): string[]
+  /** Runs fn atomically: either all of its writes are kept or none are */
+  transaction<T>(fn: () => T): T
+  close(): void
+}
+
+export class MemoryKeyValueStore implements KeyValueStore {
+  protected data = new Map<string, string>()
+  private transactionDepth = 0
+
+  get<T = any>(key: string): T | undefined {
+    const value = this.data.get(key)
+    return value === undefined ? undefined : JSON.parse(value)
+  }
+
+  set(key: string, value: unknown): void {
+    this.data.set(key, JSON.stringify(value))
+    this.commitIfIdle()
+  }
+
+  delete(key: string): void {
+    this.data.delete(key)
+    this.commitIfIdle()
+  }
+
+  keys(prefix: string): string[] {
+    return Array.from(this.data.keys()).filter(key => key.startsWith(prefix)).sort()
+  }
+
+  transaction<T>(fn: () => T): T {
+    const snapshot = this.transactionDepth === 0 ? new Map(this.data) : null
+    this.transactionDepth++
+
+    try {
+      const result = fn()
+      this.transactionDepth--
+      this.commitIfIdle()
+      return result
+    } catch (error) {
+      this.transactionDepth--
+      if (snapshot) {
+        this.data = snapshot
+      }
+      throw error
+    }
+  }
+
+  close(): void {}
+
+  /** Called after every write that is not part of an open transaction */
+  protected commit(): void {}
+
+  private commitIfIdle(): void {
+    if (this.transactionDepth === 0) {
+      this.commit()
+    }
+  }
+}
+
+export class JsonFileKeyValueStore extends MemoryKeyValueStore {
+  constructor(private readonly filePath: string) {
+    super()
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+
+    if (fs.existsSync(filePath)) {
+      const contents: Record<string, unknown> = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      Object.keys(contents).forEach(key => this.data.set(key, JSON.stringify(contents[key])))
+    }
+  }
+
+  // Write to a temporary file and rename it so a crash never leaves a half-written file behind
+  protected commit(): void {
+    const contents: Record<string, unknown> = {}
+    this.data.forEach((value, key) => {
+      contents[key] = JSON.parse(value)
+    })
+
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(contents, null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
+
+export class SqliteKeyValueStore implements KeyValueStore {
+  private db: Database.Database
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    }
+
+    this.db = new Database(filePath)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec('CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+  }
+
+  get<T = any>(key: string): T | undefined {
+    const row = this.db.prepare('SELECT value FROM kv WHERE key = ?').get(key) as { value: string } | undefined
+    return row ? JSON.parse(row.value) : undefined
+  }
+
+  set(key: string, value: unknown): void {
+    this.db
+      .prepare('INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+      .run(key, JSON.stringify(value))
+  }
+
+  delete(key: string): void {
+    this.db.prepare('DELETE FROM kv WHERE key = ?').run(key)
+  }
+
+  keys(prefix: string): string[] {
+    const rows = this.db
+      .prepare('SELECT key FROM kv WHERE substr(key, 1, ?) = ? ORDER BY key')
+      .all(prefix.length, prefix) as Array<{ key: string }>
+    return rows.map(row => row.key)
+  }
+
+  transaction<T>(fn: () => T): T {
+    // better-sqlite3 turns nested transactions into savepoints
+    return this.db.transaction(fn)()
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+/**
+ * Opens the configured store. SQLite falls back to a JSON file next to the database path
+ * when the native driver cannot be loaded or the file cannot be opened.
+ */
+export const createKeyValueStore = (options: StorageOptions): KeyValueStore => {
+  switch (options.driver) {
+    case 'memory':
+      return new MemoryKeyValueStore()
+    case 'json':
+      return new JsonFileKeyValueStore(options.path)
+    case 'sqlite':
+      try {
+        return new SqliteKeyValueStore(options.path)
+      } catch (error) {
+        const fallbackPath = options.path.replace(/\.[^./\\]*$/, '') + '.json'
+        console.warn(`SQLite storage unavailable, falling back to ${fallbackPath}:`, error)
+        return new JsonFileKeyValueStore(fallbackPath)
+      }
+    default:
+      throw new Error(`Unknown storage driver "${options.driver}"`)
+  }
+}
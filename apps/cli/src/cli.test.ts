@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { runCli, CliIO, EXIT_OK, EXIT_INVALID, EXIT_FAILED } from './cli'
+
+// Keeps files and output in memory so each run can be inspected
+const memoryIO = (files: Record<string, string>) => {
+  const output = { stdout: '', stderr: '', written: {} as Record<string, string> }
+  const io: CliIO = {
+    stdout: text => { output.stdout += text },
+    stderr: text => { output.stderr += text },
+    readFile: async path => {
+      if (!(path in files)) throw new Error('ENOENT: no such file or directory')
+      return Buffer.from(files[path], 'utf8')
+    },
+    writeFile: async (path, content) => { output.written[path] = content }
+  }
+  return { io, output }
+}
+
+const ROSTER = [
+  'Name,Job Title,Reports To,Location',
+  'Alex Morgan,CEO,,London',
+  'Marcus Reed,CTO,Alex Morgan,Berlin',
+  'Priya Patel,Engineer,Marcus Reed,Berlin'
+].join('\n')
+
+describe('runCli', () => {
+  it('should report statistics and write each output in the format of its extension', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+
+    const code = await runCli(['roster.csv', '-o', 'chart.svg', '--output', 'chart.mmd'], io)
+
+    expect(code).toBe(EXIT_OK)
+    expect(output.stderr).toContain('Read 3 employees from roster.csv')
+    expect(output.stderr).toContain('Columns: name "Name", manager "Reports To", title "Job Title"')
+    expect(output.stderr).toContain('Statistics: 3 employees, 1 top-level, 0 orphaned, 0 errors')
+    expect(output.stderr).toContain('Validation passed')
+    expect(output.written['chart.svg']).toContain('<svg')
+    expect(output.written['chart.svg']).toContain('>roster</text>')
+    expect(output.written['chart.mmd']).toContain('n1 --> n2')
+  })
+
+  it('should print a chart to stdout for piping', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+
+    const code = await runCli(['roster.csv', '--format', 'json', '--title', 'Acme', '--quiet'], io)
+    const document = JSON.parse(output.stdout)
+
+    expect(code).toBe(EXIT_OK)
+    expect(output.stderr).toBe('')
+    expect(document.organization).toEqual({ name: 'Acme' })
+    expect(document.employees[2]).toMatchObject({ name: 'Priya Patel', managerId: 'emp-2', customFields: { Location: 'Berlin' } })
+  })
+
+  it('should let flags override the detected columns', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+
+    await runCli(['roster.csv', '--title-column', 'location', '-f', 'dot', '-q'], io)
+
+    expect(output.stdout).toContain('"emp-2" [label="Marcus Reed\\nBerlin"];')
+  })
+
+  it('should draw the chosen layout', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+
+    expect(await runCli(['roster.csv', '--layout', 'left-right', '-f', 'mermaid', '-q'], io)).toBe(EXIT_OK)
+    expect(output.stdout).toContain('flowchart LR')
+
+    expect(await runCli(['roster.csv', '-l', 'sideways', '-o', 'chart.svg'], io)).toBe(EXIT_FAILED)
+    expect(output.stderr).toContain('org-chart: Unknown layout "sideways"; use one of top-down, left-right, compact, radial, outline')
+  })
+
+  it('should exit with the validation code when the roster has issues', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': `${ROSTER}\n,Engineer,Alex Morgan,Paris` })
+
+    const code = await runCli(['roster.csv', '-o', 'chart.svg'], io)
+
+    expect(code).toBe(EXIT_INVALID)
+    expect(output.stderr).toContain('Validation found 1 issue:\n  - Row 5: Empty employee name\n')
+    expect(output.written['chart.svg']).toBeDefined()
+  })
+
+  it('should fail without writing anything on bad arguments or unreadable files', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+
+    expect(await runCli([], io)).toBe(EXIT_FAILED)
+    expect(await runCli(['roster.csv', '--unknown'], io)).toBe(EXIT_FAILED)
+    expect(await runCli(['roster.csv', '-o', 'chart.png'], io)).toBe(EXIT_FAILED)
+    expect(await runCli(['roster.csv', '--manager-column', 'Boss'], io)).toBe(EXIT_FAILED)
+    expect(await runCli(['missing.csv'], io)).toBe(EXIT_FAILED)
+
+    expect(output.stderr).toContain('org-chart: Cannot tell the format of chart.png')
+    expect(output.stderr).toContain('org-chart: --manager-column: no column named "Boss". Columns: Name, Job Title, Reports To, Location')
+    expect(output.stderr).toContain('org-chart: Cannot read missing.csv')
+    expect(output.written).toEqual({})
+  })
+
+  it('should name the outputs already written when a later write fails', async () => {
+    const { io, output } = memoryIO({ 'roster.csv': ROSTER })
+    const writeFile = io.writeFile
+    io.writeFile = async (path, content) => {
+      if (path === 'locked.dot') throw new Error('EACCES: permission denied')
+      await writeFile(path, content)
+    }
+
+    const code = await runCli(['roster.csv', '-o', 'chart.svg', '-o', 'locked.dot', '-o', 'chart.mmd', '-q'], io)
+
+    expect(code).toBe(EXIT_FAILED)
+    expect(output.stderr).toBe('org-chart: Cannot write locked.dot: EACCES: permission denied (already wrote chart.svg)\n')
+    expect(Object.keys(output.written)).toEqual(['chart.svg'])
+  })
+
+  it('should print usage with --help', async () => {
+    const { io, output } = memoryIO({})
+
+    expect(await runCli(['--help'], io)).toBe(EXIT_OK)
+    expect(output.stdout).toContain('Usage: org-chart <roster.csv|roster.xlsx> [options]')
+  })
+})
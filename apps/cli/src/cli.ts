@@ -0,0 +1,293 @@
+import { promises as fs } from 'fs'
+import { basename, extname } from 'path'
+import { parseArgs } from 'util'
+import { AIParserService, ColumnIdentificationResult, HierarchicalStructure } from '../../api/src/services/ai-parser'
+import { ChartDataService } from '../../api/src/services/chart-data'
+import { SUPPORTED_ENCODINGS, SupportedEncoding } from '../../api/src/services/encoding-detector'
+import { renderChartSvg } from '../../../packages/shared/chart-svg'
+import { renderChartDot, renderChartMermaid } from '../../../packages/shared/chart-graph'
+import { CHART_LAYOUTS } from '../../../packages/shared/chart-layout'
+import type { ChartLayout, Employee } from '../../../packages/shared'
+
+// The chart was written and is valid; it was written but has validation issues; it could not be
+// written, or only some of its files were
+export const EXIT_OK = 0
+export const EXIT_INVALID = 1
+export const EXIT_FAILED = 2
+
+export type OutputFormat = 'svg' | 'json' | 'dot' | 'mermaid'
+
+const FORMAT_EXTENSIONS: Record<string, OutputFormat> = {
+  '.svg': 'svg',
+  '.json': 'json',
+  '.dot': 'dot',
+  '.gv': 'dot',
+  '.mmd': 'mermaid',
+  '.mermaid': 'mermaid'
+}
+
+// Column flags and the import mapping field each one sets
+const COLUMN_FLAGS = {
+  'name-column': 'nameColumn',
+  'manager-column': 'managerColumn',
+  'title-column': 'titleColumn',
+  'employee-id-column': 'employeeIdColumn',
+  'manager-id-column': 'managerIdColumn',
+  'email-column': 'emailColumn',
+  'department-column': 'departmentColumn'
+} as const
+
+type ColumnFlag = keyof typeof COLUMN_FLAGS
+type ColumnField = typeof COLUMN_FLAGS[ColumnFlag]
+
+export const USAGE = `Usage: org-chart <roster.csv|roster.xlsx> [options]
+
+Reads a roster, prints its validation issues and statistics, and writes the chart.
+
+Output:
+  -o, --output <file>            Write the chart; the format follows the extension
+                                 (.svg, .json, .dot, .gv, .mmd). Repeat for several files
+  -f, --format <format>          Print the chart to stdout as svg, json, dot or mermaid
+  -t, --title <text>             Chart title, the file name by default
+  -l, --layout <layout>          ${CHART_LAYOUTS.join(', ')}; top-down by default.
+                                 SVG uses every layout, DOT and Mermaid only left-right
+  -q, --quiet                    Only print validation issues
+
+Reading the file:
+  --sheet <name>                 Worksheet to read from a workbook
+  --merge-sheets                 Combine every worksheet that shares the largest sheet's columns
+  --encoding <encoding>          CSV encoding: ${SUPPORTED_ENCODINGS.join(', ')}
+
+Columns, each a header name or a 1-based column number; detected when left out:
+  --name-column, --manager-column, --title-column, --employee-id-column,
+  --manager-id-column, --email-column, --department-column
+
+Exit codes:
+  ${EXIT_OK}  the chart is valid
+  ${EXIT_INVALID}  the chart was written but has validation issues
+  ${EXIT_FAILED}  bad arguments, the file could not be read, or an output could not be written;
+     the error names any outputs written before the failure
+`
+
+export interface CliIO {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  readFile: (path: string) => Promise<Buffer>
+  writeFile: (path: string, content: string) => Promise<void>
+}
+
+export const nodeIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  readFile: path => fs.readFile(path),
+  writeFile: (path, content) => fs.writeFile(path, content, 'utf8')
+}
+
+const formatForPath = (path: string): OutputFormat => {
+  const format = FORMAT_EXTENSIONS[extname(path).toLowerCase()]
+  if (!format) {
+    throw new Error(`Cannot tell the format of ${path}; use a .svg, .json, .dot, .gv or .mmd file name`)
+  }
+  return format
+}
+
+// Resolves a header name or 1-based column number against the header row
+const resolveColumn = (flag: string, value: string, headers: string[]): number => {
+  if (/^\d+$/.test(value)) {
+    const index = Number(value) - 1
+    if (index < 0 || index >= headers.length) {
+      throw new Error(`--${flag} ${value} is out of range; the file has ${headers.length} columns`)
+    }
+    return index
+  }
+
+  const index = headers.findIndex(header => header.toLowerCase() === value.trim().toLowerCase())
+  if (index === -1) {
+    throw new Error(`--${flag}: no column named "${value}". Columns: ${headers.join(', ')}`)
+  }
+  return index
+}
+
+// Gives every person an ID and points managers at IDs, the same way an upload stores them
+const toEmployees = (hierarchy: HierarchicalStructure): Employee[] => {
+  const ids = hierarchy.employees.map((employee, index) => employee.id || `emp-${index + 1}`)
+  const keyToId = new Map<string, string>()
+  hierarchy.employees.forEach((employee, index) => keyToId.set(employee.id || employee.name, ids[index]))
+
+  return hierarchy.employees.map((employee, index) => {
+    const managerKey = employee.id ? employee.managerId : employee.manager
+    return {
+      id: ids[index],
+      name: employee.name,
+      title: employee.title || 'Unknown Title',
+      organizationId: 'cli',
+      managerId: (managerKey && keyToId.get(managerKey)) || null,
+      customFields: employee.customFields || {}
+    }
+  })
+}
+
+const describeColumns = (mapping: Record<ColumnField, number | null>, headers: string[]): string =>
+  (Object.keys(COLUMN_FLAGS) as ColumnFlag[])
+    .filter(flag => mapping[COLUMN_FLAGS[flag]] !== null)
+    .map(flag => `${flag.replace(/-column$/, '')} "${headers[mapping[COLUMN_FLAGS[flag]]!]}"`)
+    .join(', ')
+
+const render = (format: OutputFormat, employees: Employee[], title: string, layout: ChartLayout, chartData: ChartDataService): string => {
+  switch (format) {
+    case 'svg':
+      return renderChartSvg(employees, { title, layout })
+    case 'json':
+      return chartData.toJson({ id: 'cli', name: title, userId: 'cli', createdAt: new Date() }, employees)
+    case 'dot':
+      return renderChartDot(employees, { title, leftToRight: layout === 'left-right' })
+    case 'mermaid':
+      return renderChartMermaid(employees, { title, leftToRight: layout === 'left-right' })
+  }
+}
+
+/**
+ * Runs the org-chart command and resolves to its exit code. The report goes to stderr, so a
+ * chart printed with --format can be piped.
+ */
+export const runCli = async (argv: string[], io: CliIO = nodeIO): Promise<number> => {
+  const parser = new AIParserService()
+  const chartData = new ChartDataService()
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o', multiple: true },
+        format: { type: 'string', short: 'f' },
+        title: { type: 'string', short: 't' },
+        layout: { type: 'string', short: 'l' },
+        quiet: { type: 'boolean', short: 'q' },
+        sheet: { type: 'string' },
+        'merge-sheets': { type: 'boolean' },
+        encoding: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+        'name-column': { type: 'string' },
+        'manager-column': { type: 'string' },
+        'title-column': { type: 'string' },
+        'employee-id-column': { type: 'string' },
+        'manager-id-column': { type: 'string' },
+        'email-column': { type: 'string' },
+        'department-column': { type: 'string' }
+      }
+    })
+
+    if (values.help) {
+      io.stdout(USAGE)
+      return EXIT_OK
+    }
+    if (positionals.length !== 1) {
+      throw new Error(`${positionals.length === 0 ? 'Missing the roster file' : 'Only one roster file can be read at a time'}; run org-chart --help for usage`)
+    }
+
+    const filePath = positionals[0]
+    const outputs = (values.output || []).map(path => ({ path, format: formatForPath(path) }))
+    const stdoutFormat = values.format as OutputFormat | undefined
+    if (stdoutFormat && !['svg', 'json', 'dot', 'mermaid'].includes(stdoutFormat)) {
+      throw new Error(`Unknown format "${stdoutFormat}"; use svg, json, dot or mermaid`)
+    }
+    const layout = (values.layout || 'top-down') as ChartLayout
+    if (!CHART_LAYOUTS.includes(layout)) {
+      throw new Error(`Unknown layout "${layout}"; use one of ${CHART_LAYOUTS.join(', ')}`)
+    }
+    const encoding = values.encoding as SupportedEncoding | undefined
+    if (encoding && !SUPPORTED_ENCODINGS.includes(encoding)) {
+      throw new Error(`Unknown encoding "${encoding}"; use one of ${SUPPORTED_ENCODINGS.join(', ')}`)
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await io.readFile(filePath)
+    } catch (error) {
+      throw new Error(`Cannot read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    const parseResult = await parser.parseFile(fileBuffer, basename(filePath), {
+      encoding,
+      sheetName: values.sheet,
+      mergeSheets: values['merge-sheets']
+    })
+    if (!parseResult.success || !parseResult.data || parseResult.data.length === 0) {
+      throw new Error(parseResult.error || 'No data found in file')
+    }
+
+    const data = parseResult.data
+    const headers = (data[0] || []).map((header: unknown) => String(header ?? '').trim())
+    const detected: ColumnIdentificationResult = parser.identifyColumns(data)
+    const mapping: Record<ColumnField, number | null> = {
+      nameColumn: detected.nameColumn,
+      managerColumn: detected.managerColumn,
+      titleColumn: detected.titleColumn,
+      employeeIdColumn: detected.employeeIdColumn,
+      managerIdColumn: detected.managerIdColumn,
+      emailColumn: null,
+      departmentColumn: null
+    }
+    ;(Object.keys(COLUMN_FLAGS) as ColumnFlag[]).forEach(flag => {
+      const value = values[flag]
+      if (value !== undefined) {
+        mapping[COLUMN_FLAGS[flag]] = resolveColumn(flag, value, headers)
+      }
+    })
+    if (mapping.nameColumn === null) {
+      throw new Error('Could not identify the employee name column; pass --name-column')
+    }
+
+    const hierarchy = parser.generateHierarchy(data, mapping.nameColumn, mapping.managerColumn ?? -1, mapping.titleColumn, {
+      employeeId: mapping.employeeIdColumn,
+      managerId: mapping.managerIdColumn,
+      email: mapping.emailColumn,
+      department: mapping.departmentColumn
+    })
+    const validation = parser.validateStructure(hierarchy)
+    const employees = toEmployees(hierarchy)
+    const title = values.title || basename(filePath, extname(filePath))
+
+    if (!values.quiet) {
+      io.stderr([
+        `Read ${employees.length} employees from ${filePath}`,
+        `Columns: ${describeColumns(mapping, headers)}`,
+        `Statistics: ${hierarchy.employees.length} employees, ${hierarchy.rootEmployees.length} top-level, ${hierarchy.orphanedEmployees.length} orphaned, ${hierarchy.errors.length} errors`,
+        ''
+      ].join('\n'))
+    }
+    if (!validation.isValid) {
+      io.stderr(`Validation found ${validation.issues.length} ${validation.issues.length === 1 ? 'issue' : 'issues'}:\n${validation.issues.map(issue => `  - ${issue}\n`).join('')}`)
+    } else if (!values.quiet) {
+      io.stderr('Validation passed\n')
+    }
+
+    // Everything is rendered before the first write, so a rendering error leaves no files behind
+    const rendered = outputs.map(output => ({ path: output.path, content: render(output.format, employees, title, layout, chartData) }))
+    const printed = stdoutFormat ? render(stdoutFormat, employees, title, layout, chartData) : null
+
+    const written: string[] = []
+    for (const output of rendered) {
+      try {
+        await io.writeFile(output.path, output.content)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error'
+        throw new Error(`Cannot write ${output.path}: ${reason}${written.length > 0 ? ` (already wrote ${written.join(', ')})` : ''}`)
+      }
+      written.push(output.path)
+      if (!values.quiet) {
+        io.stderr(`Wrote ${output.path}\n`)
+      }
+    }
+    if (printed !== null) {
+      io.stdout(printed)
+    }
+
+    return validation.isValid ? EXIT_OK : EXIT_INVALID
+  } catch (error) {
+    // Bad arguments and unreadable files are reported without a stack trace
+    io.stderr(`org-chart: ${error instanceof Error ? error.message : 'Unknown error'}\n`)
+    return EXIT_FAILED
+  }
+}
@@ -0,0 +1,105 @@
+import React from 'react'
+import { Users, AlertCircle, GitMerge, Check, X } from 'lucide-react'
+import type { ChartData } from '@shared/index'
+
+export interface ChartStatisticsProps {
+  chartData: ChartData
+  // Accepting a suggested manager saves the move, so suggestions are disabled while a save runs
+  isSaving: boolean
+  onAcceptManagerMatch: (employeeId: string, managerId: string) => void
+  onDismissManagerMatch: (employeeId: string) => void
+}
+
+export const ChartStatistics: React.FC<ChartStatisticsProps> = ({
+  chartData,
+  isSaving,
+  onAcceptManagerMatch,
+  onDismissManagerMatch
+}) => (
+  <div className="mt-6 rounded-2xl border border-border-default bg-surface/50 p-5">
+    <div className="flex items-center gap-2 mb-4">
+      <Users className="w-4 h-4 text-indigo-400" />
+      <h3 className="text-sm font-semibold text-text-primary">Statistics</h3>
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
+        <div className="text-2xl font-bold text-text-primary mb-1">{chartData.statistics.totalEmployees}</div>
+        <div className="text-xs text-text-secondary font-medium">Total Employees</div>
+      </div>
+      <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
+        <div className="text-2xl font-bold text-emerald-400 mb-1">{chartData.statistics.rootEmployees}</div>
+        <div className="text-xs text-text-secondary font-medium">Root Employees</div>
+      </div>
+      <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
+        <div className="text-2xl font-bold text-amber-400 mb-1">{chartData.statistics.orphanedEmployees}</div>
+        <div className="text-xs text-text-secondary font-medium">Orphaned</div>
+      </div>
+      <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
+        <div className="text-2xl font-bold text-rose-400 mb-1">{chartData.statistics.totalErrors}</div>
+        <div className="text-xs text-text-secondary font-medium">Errors</div>
+      </div>
+    </div>
+    {chartData.validation.issues.length > 0 && (
+      <div className="mt-4 pt-4 border-t border-border-default">
+        <div className="flex items-center gap-2 mb-3">
+          <AlertCircle className="w-4 h-4 text-rose-400" />
+          <h4 className="text-sm font-medium text-rose-400">Validation Issues</h4>
+        </div>
+        <ul className="space-y-2">
+          {chartData.validation.issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm text-text-secondary">
+              <span className="mt-1.5 h-1.5 w-1.5 rounded-full bg-rose-400 flex-shrink-0" />
+              <span>{issue}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+    {chartData.reconciliation && chartData.reconciliation.needsReview.length > 0 && (
+      <div className="mt-4 pt-4 border-t border-border-default">
+        <div className="flex items-center gap-2 mb-3">
+          <GitMerge className="w-4 h-4 text-amber-400" />
+          <h4 className="text-sm font-medium text-amber-400">Unmatched Managers</h4>
+          {chartData.reconciliation.autoApplied.length > 0 && (
+            <span className="text-xs text-text-muted">
+              ({chartData.reconciliation.autoApplied.length} similar name{chartData.reconciliation.autoApplied.length !== 1 ? 's' : ''} matched automatically)
+            </span>
+          )}
+        </div>
+        <ul className="space-y-3">
+          {chartData.reconciliation.needsReview.map(match => (
+            <li key={match.employeeId} className="text-sm text-text-secondary">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  <span className="font-medium text-text-primary">{match.employeeName}</span> reports to &ldquo;{match.managerReference}&rdquo;, did you mean:
+                </span>
+                <button
+                  onClick={() => onDismissManagerMatch(match.employeeId)}
+                  className="p-1 text-text-muted hover:text-text-primary rounded transition-colors"
+                  title="Keep without a manager"
+                  aria-label={`Reject suggestions for ${match.employeeName}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="mt-1.5 flex flex-wrap gap-2">
+                {match.candidates.map(candidate => (
+                  <button
+                    key={candidate.employeeId}
+                    onClick={() => onAcceptManagerMatch(match.employeeId, candidate.employeeId)}
+                    disabled={isSaving}
+                    className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-lg border border-border-default bg-elevated hover:bg-overlay text-text-primary disabled:opacity-50 transition-colors"
+                  >
+                    <Check className="w-3 h-3 text-emerald-400" />
+                    {candidate.name}
+                    <span className="text-text-muted">{Math.round(candidate.score * 100)}%</span>
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+)
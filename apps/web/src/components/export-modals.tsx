@@ -0,0 +1,45 @@
+import React from 'react'
+import { PdfExportModal, PptxExportModal, GraphExportModal } from '@ui/index'
+import { useChartExport, EXPORT_OPTIONS } from '../hooks/useChartExport'
+
+export interface ExportModalsProps {
+  chartExport: ReturnType<typeof useChartExport>
+}
+
+// Settings asked for before a PDF, PowerPoint or graph file is downloaded
+export const ExportModals: React.FC<ExportModalsProps> = ({ chartExport }) => {
+  const { isExporting, pptxExport, graphExport } = chartExport
+
+  return (
+    <>
+      {/* PDF Export Settings Modal */}
+      <PdfExportModal
+        isOpen={chartExport.isPdfExportOpen}
+        onClose={chartExport.closePdfExport}
+        onSubmit={chartExport.handlePdfExport}
+        isLoading={isExporting}
+      />
+
+      {/* PowerPoint Export Settings Modal */}
+      <PptxExportModal
+        isOpen={pptxExport !== null}
+        onClose={chartExport.closePptxExport}
+        onSubmit={chartExport.handlePptxExport}
+        availableFields={pptxExport?.fields || []}
+        maxDepth={pptxExport?.maxDepth || 0}
+        isLoading={isExporting}
+      />
+
+      {/* Graph Export Settings Modal */}
+      <GraphExportModal
+        isOpen={graphExport !== null}
+        formatLabel={EXPORT_OPTIONS.find(option => option.id === graphExport?.format)?.label || ''}
+        onClose={chartExport.closeGraphExport}
+        onSubmit={chartExport.handleGraphExport}
+        roots={graphExport?.roots || []}
+        maxDepth={graphExport?.maxDepth || 0}
+        isLoading={isExporting}
+      />
+    </>
+  )
+}
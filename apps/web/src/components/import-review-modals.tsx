@@ -0,0 +1,58 @@
+import React from 'react'
+import { WorksheetPickerModal, ColumnMappingModal, ImportSyncModal } from '@ui/index'
+import { useChartImport } from '../hooks/useChartImport'
+
+export interface ImportReviewModalsProps {
+  chartImport: ReturnType<typeof useChartImport>
+  isLoading: boolean
+}
+
+// The steps an uploaded file goes through before it replaces or updates the chart
+export const ImportReviewModals: React.FC<ImportReviewModalsProps> = ({ chartImport, isLoading }) => {
+  const { pendingWorkbook, pendingMapping, pendingSync } = chartImport
+
+  return (
+    <>
+      {/* Worksheet Picker Modal */}
+      <WorksheetPickerModal
+        isOpen={pendingWorkbook !== null}
+        fileName={pendingWorkbook?.fileName || ''}
+        sheets={pendingWorkbook?.sheets || []}
+        onClose={chartImport.cancelWorkbook}
+        onSubmit={chartImport.handleWorksheetSelect}
+        isLoading={isLoading}
+      />
+
+      {/* Column Mapping Review Modal */}
+      {pendingMapping && (
+        <ColumnMappingModal
+          isOpen
+          fileName={pendingMapping.fileName}
+          headers={pendingMapping.preview.headers}
+          sampleRows={pendingMapping.preview.sampleRows}
+          totalRows={pendingMapping.preview.totalRows}
+          candidates={pendingMapping.preview.candidates}
+          guessedMapping={pendingMapping.preview.columnIdentification}
+          confidence={pendingMapping.preview.columnIdentification.confidence}
+          onClose={chartImport.cancelMapping}
+          onSubmit={chartImport.handleMappingConfirm}
+          isLoading={isLoading}
+        />
+      )}
+
+      {/* Re-import Sync Review Modal */}
+      {pendingSync && (
+        <ImportSyncModal
+          isOpen
+          fileName={pendingSync.fileName}
+          entries={pendingSync.preview.entries}
+          missing={pendingSync.preview.missing}
+          summary={pendingSync.preview.summary}
+          onClose={chartImport.cancelSync}
+          onSubmit={chartImport.handleSyncConfirm}
+          isLoading={isLoading}
+        />
+      )}
+    </>
+  )
+}
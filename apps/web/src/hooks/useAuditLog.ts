@@ -0,0 +1,32 @@
+import { useEffect, useMemo } from 'react'
+import { trpc } from '../utils/trpc'
+import { useChartStore } from '@shared/chart-store'
+import type { AuditTimelineFilter } from '@ui/index'
+
+// Date inputs give calendar days; the range covers both of them in local time
+const toRange = (filter: AuditTimelineFilter) => ({
+  employeeId: filter.employeeId,
+  from: filter.from ? new Date(`${filter.from}T00:00:00`) : undefined,
+  to: filter.to ? new Date(`${filter.to}T23:59:59.999`) : undefined
+})
+
+export const useAuditLog = (organizationId: string, filter: AuditTimelineFilter, enabled: boolean) => {
+  const utils = trpc.useUtils()
+  const input = useMemo(() => ({ organizationId, ...toRange(filter) }), [organizationId, filter])
+
+  const auditLogQuery = trpc.organization.getAuditLog.useQuery(input, { enabled: enabled && Boolean(organizationId) })
+
+  // Every saved edit, undo, redo and import replaces the history stacks, so refresh alongside them
+  const undoStack = useChartStore(state => state.undoStack)
+  const redoStack = useChartStore(state => state.redoStack)
+  useEffect(() => {
+    if (enabled) {
+      utils.organization.getAuditLog.invalidate({ organizationId })
+    }
+  }, [undoStack, redoStack])
+
+  return {
+    entries: auditLogQuery.data?.data || [],
+    isLoading: auditLogQuery.isLoading
+  }
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react'
+import { trpc } from '../utils/trpc'
+import type { ChartCommand } from '@shared/index'
+
+export interface ChartCommandPreview {
+  command: ChartCommand
+  description: string
+}
+
+export const useChartCommand = (organizationId: string) => {
+  const commandMutation = trpc.organization.command.useMutation()
+  const [text, setText] = useState('')
+  const [preview, setPreview] = useState<ChartCommandPreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const clear = useCallback(() => {
+    setText('')
+    setPreview(null)
+    setError(null)
+  }, [])
+
+  // A previewed command refers to people in the organization it was typed in
+  useEffect(() => {
+    clear()
+  }, [organizationId, clear])
+
+  // Checks the command against the chart; applying it is left to the caller
+  const interpret = useCallback(async (command: string) => {
+    setPreview(null)
+    setError(null)
+    try {
+      const result = await commandMutation.mutateAsync({ organizationId, command })
+      setPreview({ command: result.data.command, description: result.data.description })
+    } catch (err: any) {
+      setError(err?.message || 'Failed to interpret command')
+    }
+  }, [organizationId, commandMutation])
+
+  const changeText = useCallback((value: string) => {
+    setText(value)
+    setPreview(null)
+    setError(null)
+  }, [])
+
+  return {
+    text,
+    setText: changeText,
+    preview,
+    error,
+    isLoading: commandMutation.isPending,
+    interpret,
+    clear
+  }
+}
@@ -6,12 +6,40 @@ import { useChartStore } from '@shared/index'
 // Mock the tRPC client
 vi.mock('../utils/trpc', () => ({
   trpc: {
+    useUtils: vi.fn(() => ({
+      organization: {
+        getChart: {
+          fetch: vi.fn(() => Promise.resolve({ success: true, data: { employees: [] } }))
+        }
+      }
+    })),
     parseUploadedFile: {
       useMutation: vi.fn(() => ({
         mutateAsync: vi.fn(),
         isLoading: false,
         error: null
       }))
+    },
+    listWorksheets: {
+      useMutation: vi.fn(() => ({
+        mutateAsync: vi.fn(),
+        isLoading: false,
+        error: null
+      }))
+    },
+    previewUpload: {
+      useMutation: vi.fn(() => ({
+        mutateAsync: vi.fn(),
+        isLoading: false,
+        error: null
+      }))
+    },
+    confirmUpload: {
+      useMutation: vi.fn(() => ({
+        mutateAsync: vi.fn(),
+        isLoading: false,
+        error: null
+      }))
     }
   }
 }))
@@ -1,6 +1,24 @@
-import { useCallback } from 'react'
+import { useCallback, useEffect } from 'react'
 import { trpc } from '../utils/trpc'
 import { useChartStore } from '@shared/index'
+import type { SupportedEncoding } from '../../../api/src/services/encoding-detector'
+import type { ColumnMapping } from '../../../api/src/services/ai-parser'
+import type { inferRouterOutputs } from '@trpc/server'
+import type { AppRouter } from '../../../api/src/server/trpc'
+
+export interface ParseFileOptions {
+  encoding?: SupportedEncoding
+  sheetName?: string
+  mergeSheets?: boolean
+}
+
+export type UploadPreview = inferRouterOutputs<AppRouter>['previewUpload']['data']
+export type SyncPreview = inferRouterOutputs<AppRouter>['previewSync']['data']
+
+// Merges the upload into the organization's chart instead of replacing it
+export interface SyncImportOptions {
+  removeMissing: boolean
+}
 
 export const useChartData = () => {
   const { 
@@ -9,6 +27,7 @@ export const useChartData = () => {
     error, 
     fileUrl, 
     fileName,
+    organizationId,
     setChartData, 
     setLoading, 
     setError, 
@@ -16,12 +35,12 @@ export const useChartData = () => {
     clearChart 
   } = useChartStore()
 
-  const parseUploadedFile = trpc.parseUploadedFile.useMutation({
+  const chartMutationHandlers = {
     onMutate: () => {
       setLoading(true)
       setError(null)
     },
-    onSuccess: (data) => {
+    onSuccess: (data: { success: boolean; data?: any }) => {
       if (data.success && data.data) {
         setChartData(data.data)
       } else {
@@ -29,16 +48,92 @@ export const useChartData = () => {
       }
       setLoading(false)
     },
-    onError: (error) => {
+    onError: (error: { message?: string }) => {
       setError(error.message || 'Failed to parse uploaded file')
       setLoading(false)
     }
-  })
+  }
+
+  const utils = trpc.useUtils()
+
+  // Show the organization's saved chart on mount and whenever another organization is selected
+  useEffect(() => {
+    if (!organizationId) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    utils.organization.getChart.fetch({ organizationId })
+      .then(result => {
+        if (cancelled) return
+        // An organization nothing has been imported into yet keeps the empty-state placeholder
+        if (result.success && result.data.employees.length > 0) {
+          setChartData(result.data)
+        }
+        setLoading(false)
+      })
+      .catch((error: { message?: string }) => {
+        if (cancelled) return
+        setError(error.message || 'Failed to load chart')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [organizationId])
+
+  const parseUploadedFile = trpc.parseUploadedFile.useMutation(chartMutationHandlers)
+  const confirmUpload = trpc.confirmUpload.useMutation(chartMutationHandlers)
+  const previewUpload = trpc.previewUpload.useMutation()
+  const previewSyncUpload = trpc.previewSync.useMutation()
+
+  const listWorksheets = trpc.listWorksheets.useMutation()
+
+  const parseFile = useCallback(async (fileUrl: string, fileName: string, options: ParseFileOptions = {}) => {
+    setFileInfo(fileUrl, fileName)
+    await parseUploadedFile.mutateAsync({ fileUrl, fileName, organizationId: organizationId || undefined, ...options })
+  }, [parseUploadedFile, setFileInfo, organizationId])
+
+  const getWorksheets = useCallback(async (fileUrl: string, fileName: string) => {
+    const result = await listWorksheets.mutateAsync({ fileUrl, fileName })
+    return result.data.sheets
+  }, [listWorksheets])
+
+  const previewFile = useCallback(async (fileUrl: string, fileName: string, options: ParseFileOptions = {}) => {
+    const result = await previewUpload.mutateAsync({ fileUrl, fileName, ...options })
+    return result.data
+  }, [previewUpload])
+
+  // Dry run of merging the upload into the current organization's chart
+  const previewSync = useCallback(async (
+    fileUrl: string,
+    fileName: string,
+    mapping: ColumnMapping,
+    options: ParseFileOptions = {}
+  ) => {
+    const result = await previewSyncUpload.mutateAsync({ fileUrl, fileName, mapping, organizationId, ...options })
+    return result.data
+  }, [previewSyncUpload, organizationId])
 
-  const parseFile = useCallback(async (fileUrl: string, fileName: string) => {
+  const confirmFile = useCallback(async (
+    fileUrl: string,
+    fileName: string,
+    mapping: ColumnMapping,
+    options: ParseFileOptions = {},
+    sync?: SyncImportOptions
+  ) => {
     setFileInfo(fileUrl, fileName)
-    await parseUploadedFile.mutateAsync({ fileUrl, fileName })
-  }, [parseUploadedFile, setFileInfo])
+    await confirmUpload.mutateAsync({
+      fileUrl,
+      fileName,
+      mapping,
+      // Before an organization is selected the server picks the first one the user owns
+      organizationId: organizationId || undefined,
+      ...options,
+      ...(sync ? { mode: 'sync' as const, removeMissing: sync.removeMissing } : {})
+    })
+  }, [confirmUpload, setFileInfo, organizationId])
 
   const clear = useCallback(() => {
     clearChart()
@@ -50,7 +145,12 @@ export const useChartData = () => {
     error,
     fileUrl,
     fileName,
+    organizationId,
     parseFile,
+    getWorksheets,
+    previewFile,
+    previewSync,
+    confirmFile,
     clear,
     employees: chartData?.employees || [],
     rootEmployees: chartData?.rootEmployees || [],
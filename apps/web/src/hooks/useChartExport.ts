@@ -0,0 +1,259 @@
+import { useState } from 'react'
+import { useToast } from '@ui/index'
+import type { ExportOption, PdfPageSize, PdfOrientation, PptxExportSettings, GraphExportSettings } from '@ui/index'
+import { Employee, ChartLayout, renderChartSvg } from '@shared/index'
+import { buildChartTree, flattenChartNodes } from '@shared/chart-layout'
+import html2canvas from 'html2canvas'
+
+export const EXPORT_OPTIONS: ExportOption[] = [
+  { id: 'svg', label: 'SVG vector', description: 'The whole chart, sharp at any size' },
+  { id: 'png', label: 'PNG image', description: 'The chart as it looks on screen' },
+  { id: 'pdf', label: 'PDF document', description: 'Printable pages, one per department' },
+  { id: 'pptx', label: 'PowerPoint', description: 'Editable slides, one per team' },
+  { id: 'csv', label: 'CSV', description: 'Employee data that imports back as is' },
+  { id: 'xlsx', label: 'Excel workbook', description: 'Employee data that imports back as is' },
+  { id: 'json', label: 'JSON backup', description: 'Versioned backup of the whole chart' },
+  { id: 'jsonld', label: 'JSON-LD', description: 'Linked data using schema.org terms' },
+  { id: 'mermaid', label: 'Mermaid', description: 'Flowchart to embed in wikis and Markdown' },
+  { id: 'dot', label: 'Graphviz DOT', description: 'Graph source for Graphviz tools' },
+  { id: 'graphml', label: 'GraphML', description: 'Graph with custom fields for analysis tools' },
+]
+
+// Graph formats can be limited to part of the chart before downloading
+const GRAPH_FORMATS = ['mermaid', 'dot', 'graphml']
+
+// Graph formats that cannot follow every viewer layout, and the layouts they can
+const LAYOUT_SUPPORT: Record<string, ChartLayout[]> = {
+  mermaid: ['top-down', 'left-right'],
+  dot: ['top-down', 'left-right']
+}
+
+// The menu says up front when a format will not look like the layout on screen
+const exportOptionsFor = (layout: ChartLayout): ExportOption[] => EXPORT_OPTIONS.map(option => {
+  const supported = LAYOUT_SUPPORT[option.id]
+  return supported && !supported.includes(layout)
+    ? { ...option, description: `${option.description}; drawn top-down, not ${layout}` }
+    : option
+})
+
+export interface PptxExportRequest {
+  fields: string[]
+  maxDepth: number
+}
+
+export interface GraphExportRequest {
+  format: string
+  roots: Array<{ id: string; name: string; title: string }>
+  maxDepth: number
+}
+
+export interface ChartExportSource {
+  organizationId: string
+  title?: string
+  employees: Employee[]
+  layout: ChartLayout
+}
+
+const downloadFile = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export const useChartExport = ({ organizationId, title, employees, layout }: ChartExportSource) => {
+  const [isExporting, setIsExporting] = useState(false)
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false)
+  const [pptxExport, setPptxExport] = useState<PptxExportRequest | null>(null)
+  const [graphExport, setGraphExport] = useState<GraphExportRequest | null>(null)
+  const { showToast } = useToast()
+
+  // Vector export of every employee in the current layout, independent of zoom, panning and
+  // collapsed nodes
+  const exportChartSvg = () => {
+    const svg = renderChartSvg(employees, { title, layout })
+    downloadFile(new Blob([svg], { type: 'image/svg+xml' }), `hps-org-chart-${new Date().toISOString().split('T')[0]}.svg`)
+    showToast('success', 'Chart exported successfully')
+  }
+
+  // Raster screenshot of the chart as it currently appears on screen
+  const exportChartPng = async () => {
+    const chartElement = document.querySelector('[data-chart-container]') as HTMLElement
+    if (!chartElement) {
+      showToast('error', 'Chart container not found')
+      return
+    }
+
+    // Hide overlay controls (search, zoom buttons) during capture
+    const overlays = chartElement.querySelectorAll<HTMLElement>('[data-chart-overlay]')
+    overlays.forEach(el => el.style.display = 'none')
+
+    const canvas = await html2canvas(chartElement, {
+      backgroundColor: '#ffffff',
+      scale: 2,
+      useCORS: true,
+      allowTaint: true,
+      height: chartElement.scrollHeight,
+      width: chartElement.scrollWidth,
+      scrollX: 0,
+      scrollY: 0,
+    } as Parameters<typeof html2canvas>[1])
+
+    // Restore overlay controls
+    overlays.forEach(el => el.style.display = '')
+
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        showToast('error', 'Failed to generate image')
+        return
+      }
+
+      downloadFile(blob, `hps-org-chart-${new Date().toISOString().split('T')[0]}.png`)
+      showToast('success', 'Chart exported successfully')
+    }, 'image/png', 0.95)
+  }
+
+  // Server-rendered exports of the saved chart, downloaded through the export route
+  const downloadServerExport = async (params: Record<string, string | string[]>) => {
+    const query = new URLSearchParams({ organizationId })
+    Object.keys(params).forEach(key => {
+      ([] as string[]).concat(params[key]).forEach(value => query.append(key, value))
+    })
+    const response = await fetch(`/api/export?${query}`)
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      throw new Error(errorData?.error || `Export failed (${response.status})`)
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const name = disposition.match(/filename="([^"]+)"/)?.[1] || `org-chart.${params.format}`
+    downloadFile(await response.blob(), name)
+
+    // The file is still downloaded, but the person should know it is not quite what they have on screen
+    const warning = response.headers.get('X-Export-Warning')
+    if (warning) {
+      showToast('info', decodeURIComponent(warning))
+    }
+  }
+
+  // Runs a settings-modal export, closing the modal once the file is downloaded
+  const runExport = async (params: Record<string, string | string[]>, close: () => void) => {
+    setIsExporting(true)
+    try {
+      await downloadServerExport(params)
+      close()
+      showToast('success', 'Chart exported successfully')
+    } catch (err: any) {
+      console.error('Export failed:', err)
+      showToast('error', err?.message || 'Failed to export chart')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handlePdfExport = (settings: { pageSize: PdfPageSize; orientation: PdfOrientation }) =>
+    runExport({ format: 'pdf', layout, ...settings }, () => setIsPdfExportOpen(false))
+
+  const handlePptxExport = (settings: PptxExportSettings) =>
+    runExport({
+      format: 'pptx',
+      layout,
+      fields: settings.fields,
+      includeOverview: String(settings.includeOverview),
+      ...(settings.depth ? { depth: String(settings.depth) } : {})
+    }, () => setPptxExport(null))
+
+  const handleGraphExport = async (settings: GraphExportSettings) => {
+    if (!graphExport) return
+
+    await runExport({
+      format: graphExport.format,
+      layout,
+      ...(settings.rootId ? { rootId: settings.rootId } : {}),
+      ...(settings.depth ? { depth: String(settings.depth) } : {})
+    }, () => setGraphExport(null))
+  }
+
+  // The slide options list the chart's custom fields and how many levels have managers
+  const openPptxExport = () => {
+    const fields: string[] = []
+    employees.forEach(employee => {
+      Object.keys(employee.customFields || {}).forEach(field => {
+        if (!fields.includes(field)) fields.push(field)
+      })
+    })
+    const managerLevels = flattenChartNodes(buildChartTree(employees))
+      .filter(node => node.children.length > 0)
+      .map(node => node.level + 1)
+    setPptxExport({ fields, maxDepth: Math.max(0, ...managerLevels) })
+  }
+
+  // Any manager can be the top of a graph export
+  const openGraphExport = (format: string) => {
+    const nodes = flattenChartNodes(buildChartTree(employees))
+    setGraphExport({
+      format,
+      roots: nodes
+        .filter(node => node.children.length > 0)
+        .map(node => ({ id: node.id, name: node.name, title: node.title })),
+      maxDepth: Math.max(0, ...nodes.map(node => node.level))
+    })
+  }
+
+  const handleExportChart = async (format: string) => {
+    // Paper, slide and graph settings are asked for first
+    if (format === 'pdf') {
+      setIsPdfExportOpen(true)
+      return
+    }
+    if (format === 'pptx') {
+      openPptxExport()
+      return
+    }
+    if (GRAPH_FORMATS.includes(format)) {
+      openGraphExport(format)
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      if (format === 'svg') {
+        exportChartSvg()
+      } else if (format === 'png') {
+        await exportChartPng()
+      } else {
+        // Data files come from the saved chart, the same as the server-rendered documents
+        await downloadServerExport({ format })
+        showToast('success', 'Chart exported successfully')
+      }
+    } catch (err: any) {
+      console.error('Export failed:', err)
+      showToast('error', err?.message || 'Failed to export chart')
+    } finally {
+      // Ensure overlays are always restored
+      const chartEl = document.querySelector('[data-chart-container]')
+      chartEl?.querySelectorAll<HTMLElement>('[data-chart-overlay]').forEach(el => el.style.display = '')
+      setIsExporting(false)
+    }
+  }
+
+  return {
+    exportOptions: exportOptionsFor(layout),
+    isExporting,
+    isPdfExportOpen,
+    pptxExport,
+    graphExport,
+    handleExportChart,
+    handlePdfExport,
+    handlePptxExport,
+    handleGraphExport,
+    closePdfExport: () => setIsPdfExportOpen(false),
+    closePptxExport: () => setPptxExport(null),
+    closeGraphExport: () => setGraphExport(null)
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useChartHistory } from './useChartHistory'
+import { useChartStore } from '@shared/chart-store'
+
+const { updateEmployee, mutation } = vi.hoisted(() => ({
+  updateEmployee: vi.fn(),
+  mutation: (mutateAsync = vi.fn()) => ({ useMutation: vi.fn(() => ({ mutateAsync })) })
+}))
+
+vi.mock('../utils/trpc', () => ({
+  trpc: {
+    organization: {
+      updateManager: mutation(),
+      updateEmployee: mutation(updateEmployee),
+      createEmployee: mutation(),
+      deleteEmployee: mutation()
+    }
+  }
+}))
+
+const before = {
+  id: '2',
+  name: 'Jane Smith',
+  title: 'CTO',
+  organizationId: 'org1',
+  managerId: '1',
+  customFields: { Location: 'London', Team: 'Platform' }
+}
+
+describe('useChartHistory', () => {
+  beforeEach(() => {
+    updateEmployee.mockReset()
+    updateEmployee.mockImplementation(async ({ employeeId, name, title }) => ({ data: { ...before, id: employeeId, name, title } }))
+    useChartStore.setState({ undoStack: [], redoStack: [], isReplayingHistory: false })
+  })
+
+  it('undoes and redoes custom field changes made in an edit', async () => {
+    const { result } = renderHook(() => useChartHistory())
+    const after = { name: 'Jane Smith', title: 'CTO', customFields: { Location: 'Berlin', Desk: '4B' } }
+
+    act(() => result.current.recordEdit(before, after))
+    await act(async () => { await result.current.undo() })
+
+    // Desk was added by the edit, so undoing it clears the field again
+    expect(updateEmployee).toHaveBeenLastCalledWith({
+      employeeId: '2',
+      name: 'Jane Smith',
+      title: 'CTO',
+      customFields: { Location: 'London', Team: 'Platform', Desk: null }
+    })
+
+    await act(async () => { await result.current.redo() })
+
+    expect(updateEmployee).toHaveBeenLastCalledWith({
+      employeeId: '2',
+      name: 'Jane Smith',
+      title: 'CTO',
+      customFields: { Location: 'Berlin', Desk: '4B', Team: null }
+    })
+  })
+})
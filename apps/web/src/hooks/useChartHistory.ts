@@ -0,0 +1,136 @@
+import { useCallback } from 'react'
+import { trpc } from '../utils/trpc'
+import { useChartStore } from '@shared/chart-store'
+import type { Employee } from '@shared/index'
+import type { ReportsStrategy } from '@ui/index'
+
+export interface EmployeeRemoval {
+  reportsStrategy: ReportsStrategy
+  newManagerId?: string
+}
+
+export type EmployeeDetails = Pick<Employee, 'name' | 'title' | 'customFields'>
+
+// The API merges custom fields, so going back to one set of fields also clears any the other added
+const customFieldsPatch = (from: Employee['customFields'], to: Employee['customFields']): Record<string, any> => {
+  const patch: Record<string, any> = { ...(to || {}) }
+  Object.keys(from || {}).forEach(key => {
+    if (!(key in patch)) patch[key] = null
+  })
+  return patch
+}
+
+/**
+ * Records chart edits in the store's history once they are saved, as commands that
+ * replay them through the same API calls in either direction.
+ */
+export const useChartHistory = () => {
+  const updateManager = trpc.organization.updateManager.useMutation()
+  const updateEmployeeDetails = trpc.organization.updateEmployee.useMutation()
+  const createEmployee = trpc.organization.createEmployee.useMutation()
+  const deleteEmployee = trpc.organization.deleteEmployee.useMutation()
+  const { undoStack, redoStack, isReplayingHistory, recordChange, undo, redo } = useChartStore()
+
+  const moveEmployee = useCallback(async (employeeId: string, managerId: string | null) => {
+    await updateManager.mutateAsync({ employeeId, newManagerId: managerId })
+    useChartStore.getState().updateEmployeeManager(employeeId, managerId)
+  }, [updateManager])
+
+  const saveDetails = useCallback(async (employeeId: string, details: { name: string; title: string; customFields: Record<string, any> }) => {
+    const result = await updateEmployeeDetails.mutateAsync({ employeeId, ...details })
+    useChartStore.getState().updateEmployee(employeeId, result.data)
+  }, [updateEmployeeDetails])
+
+  // Brings an employee back under the ID it had, so later history entries still find it
+  const restoreEmployee = useCallback(async (employee: Employee) => {
+    const result = await createEmployee.mutateAsync({
+      employeeId: employee.id,
+      name: employee.name,
+      title: employee.title,
+      organizationId: employee.organizationId,
+      managerId: employee.managerId || null,
+      customFields: employee.customFields
+    })
+    useChartStore.getState().addEmployee(result.data)
+  }, [createEmployee])
+
+  const removeEmployee = useCallback(async (employeeId: string, removal: EmployeeRemoval) => {
+    const result = await deleteEmployee.mutateAsync({ employeeId, ...removal })
+    useChartStore.getState().removeEmployee(employeeId, result.data.updatedEmployees)
+    return result.data
+  }, [deleteEmployee])
+
+  const recordManagerChange = useCallback((employee: Employee, previousManagerId: string | null, newManager: Employee | null) => {
+    recordChange({
+      label: newManager ? `Moved ${employee.name} under ${newManager.name}` : `Moved ${employee.name} to the top level`,
+      undo: () => moveEmployee(employee.id, previousManagerId),
+      redo: () => moveEmployee(employee.id, newManager ? newManager.id : null)
+    })
+  }, [recordChange, moveEmployee])
+
+  const recordEdit = useCallback((before: Employee, after: EmployeeDetails) => {
+    recordChange({
+      label: before.name === after.name ? `Edited ${after.name}` : `Renamed ${before.name} to ${after.name}`,
+      undo: () => saveDetails(before.id, {
+        name: before.name,
+        title: before.title,
+        customFields: customFieldsPatch(after.customFields, before.customFields)
+      }),
+      redo: () => saveDetails(before.id, {
+        name: after.name,
+        title: after.title,
+        customFields: customFieldsPatch(before.customFields, after.customFields)
+      })
+    })
+  }, [recordChange, saveDetails])
+
+  const recordAdd = useCallback((employee: Employee) => {
+    recordChange({
+      label: `Added ${employee.name}`,
+      undo: async () => {
+        await removeEmployee(employee.id, { reportsStrategy: 'manager' })
+      },
+      redo: () => restoreEmployee(employee)
+    })
+  }, [recordChange, removeEmployee, restoreEmployee])
+
+  const recordRemoval = useCallback((employee: Employee, removal: EmployeeRemoval, result: { updatedEmployees: Employee[]; vacancy: Employee | null }) => {
+    // Redoing creates a new vacancy, which the next undo has to clear instead of the first one
+    let lastResult = result
+
+    recordChange({
+      label: `Removed ${employee.name}`,
+      undo: async () => {
+        const { updatedEmployees, vacancy } = lastResult
+        await restoreEmployee(employee)
+
+        for (const report of updatedEmployees) {
+          if (report.id !== vacancy?.id) {
+            await moveEmployee(report.id, employee.id)
+          }
+        }
+
+        if (vacancy) {
+          await removeEmployee(vacancy.id, { reportsStrategy: 'manager' })
+        }
+      },
+      redo: async () => {
+        lastResult = await removeEmployee(employee.id, removal)
+      }
+    })
+  }, [recordChange, restoreEmployee, moveEmployee, removeEmployee])
+
+  return {
+    undoEntries: undoStack,
+    redoEntries: redoStack,
+    canUndo: undoStack.length > 0 && !isReplayingHistory,
+    canRedo: redoStack.length > 0 && !isReplayingHistory,
+    isReplaying: isReplayingHistory,
+    undo,
+    redo,
+    recordManagerChange,
+    recordEdit,
+    recordAdd,
+    recordRemoval
+  }
+}
@@ -0,0 +1,231 @@
+import { useRef, useState } from 'react'
+import { useToast } from '@ui/index'
+import type { WorksheetOption, ColumnMappingSelection, ImportMode } from '@ui/index'
+import { useChartData, ParseFileOptions, UploadPreview, SyncPreview } from './useChartData'
+import type { SupportedEncoding } from '../../../api/src/services/encoding-detector'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+
+export const ENCODING_OPTIONS: Array<{ value: SupportedEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1' },
+]
+
+export type UploadState = 'idle' | 'uploading' | 'processing' | 'complete' | 'error'
+
+export interface PendingWorkbook {
+  url: string
+  fileName: string
+  sheets: WorksheetOption[]
+}
+
+export interface PendingMapping {
+  url: string
+  fileName: string
+  options: ParseFileOptions
+  preview: UploadPreview
+}
+
+export interface PendingSync {
+  url: string
+  fileName: string
+  options: ParseFileOptions
+  mapping: ColumnMappingSelection
+  preview: SyncPreview
+}
+
+const validateFile = (file: File): { isValid: boolean; error?: string } => {
+  const validTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/json', 'application/ld+json']
+  const validExtensions = ['.csv', '.xlsx', '.json', '.jsonld']
+
+  if (!validTypes.includes(file.type) && !validExtensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
+    return { isValid: false, error: 'Please select a valid CSV, XLSX or JSON file.' }
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return { isValid: false, error: `File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB.` }
+  }
+
+  return { isValid: true }
+}
+
+// Upload, worksheet choice, column mapping and sync review; nothing is saved until the last step is confirmed
+export const useChartImport = (chart: ReturnType<typeof useChartData>) => {
+  const { employees, fileUrl, fileName, getWorksheets, previewFile, previewSync, confirmFile } = chart
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploadState, setUploadState] = useState<UploadState>('idle')
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null)
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null)
+  const [pendingSync, setPendingSync] = useState<PendingSync | null>(null)
+  const { showToast } = useToast()
+
+  const isBusy = uploadState === 'uploading' || uploadState === 'processing' || chart.isLoading
+
+  const openFilePicker = () => {
+    if (uploadState === 'idle' || uploadState === 'complete' || uploadState === 'error') {
+      fileInputRef.current?.click()
+    }
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const validation = validateFile(file)
+    if (!validation.isValid) {
+      showToast('error', validation.error || 'Invalid file')
+      event.target.value = ''
+      return
+    }
+
+    setUploadState('uploading')
+
+    try {
+      // Use FormData + fetch so the browser handles file reading natively,
+      // avoiding NotReadableError from JavaScript file reading APIs
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null)
+        throw new Error(errorData?.error || `Upload failed (${response.status})`)
+      }
+
+      const result = await response.json()
+
+      if (result.success) {
+        setUploadState('processing')
+
+        // Workbooks with several tabs need the user to pick which one holds the roster
+        const sheets = await getWorksheets(result.url, result.fileName)
+        if (sheets.length > 1) {
+          setPendingWorkbook({ url: result.url, fileName: result.fileName, sheets })
+          setUploadState('idle')
+          return
+        }
+
+        await reviewFile(result.url, result.fileName)
+      }
+    } catch (err) {
+      handleImportError(err)
+    } finally {
+      event.target.value = ''
+    }
+  }
+
+  // Nothing is persisted until the user has confirmed the column mapping
+  const reviewFile = async (url: string, name: string, options: ParseFileOptions = {}) => {
+    setUploadState('processing')
+    const preview = await previewFile(url, name, options)
+    setPendingMapping({ url, fileName: name, options, preview })
+    setUploadState('idle')
+  }
+
+  const handleImportError = (err: unknown) => {
+    console.error('Upload error:', err)
+    setUploadState('error')
+    showToast('error', err instanceof Error ? err.message : 'Failed to upload file. Please try again.')
+
+    // Reset state after a delay
+    setTimeout(() => setUploadState('idle'), 3000)
+  }
+
+  const handleWorksheetSelect = async (selection: { sheetName?: string; mergeSheets?: boolean }) => {
+    if (!pendingWorkbook) return
+
+    try {
+      await reviewFile(pendingWorkbook.url, pendingWorkbook.fileName, selection)
+      setPendingWorkbook(null)
+    } catch (err) {
+      setPendingWorkbook(null)
+      handleImportError(err)
+    }
+  }
+
+  const handleMappingConfirm = async (mapping: ColumnMappingSelection) => {
+    if (!pendingMapping) return
+
+    const { url, fileName: name, options } = pendingMapping
+    setUploadState('processing')
+
+    try {
+      // A chart that is already there can take the file as an update instead of being replaced
+      if (employees.length > 0) {
+        const preview = await previewSync(url, name, mapping, options)
+        setPendingMapping(null)
+        setPendingSync({ url, fileName: name, options, mapping, preview })
+        setUploadState('idle')
+        return
+      }
+
+      await confirmFile(url, name, mapping, options)
+      setPendingMapping(null)
+      completeImport(`Successfully imported ${name}`)
+    } catch (err) {
+      handleImportError(err)
+    }
+  }
+
+  const handleSyncConfirm = async (choice: { mode: ImportMode; removeMissing: boolean }) => {
+    if (!pendingSync) return
+
+    const { url, fileName: name, options, mapping } = pendingSync
+    setUploadState('processing')
+
+    try {
+      await confirmFile(url, name, mapping, options, choice.mode === 'sync' ? { removeMissing: choice.removeMissing } : undefined)
+      setPendingSync(null)
+      completeImport(choice.mode === 'sync' ? `Merged ${name} into the chart` : `Successfully imported ${name}`)
+    } catch (err) {
+      setPendingSync(null)
+      handleImportError(err)
+    }
+  }
+
+  const completeImport = (message: string) => {
+    setUploadState('complete')
+    showToast('success', message)
+
+    // Reset state after a delay
+    setTimeout(() => setUploadState('idle'), 2000)
+  }
+
+  const handleEncodingChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!fileUrl || !fileName) return
+
+    const encoding = event.target.value as SupportedEncoding
+
+    try {
+      await reviewFile(fileUrl, fileName, { encoding })
+    } catch (err) {
+      handleImportError(err)
+    }
+  }
+
+  return {
+    fileInputRef,
+    uploadState,
+    isBusy,
+    pendingWorkbook,
+    pendingMapping,
+    pendingSync,
+    openFilePicker,
+    handleFileSelect,
+    handleWorksheetSelect,
+    handleMappingConfirm,
+    handleSyncConfirm,
+    handleEncodingChange,
+    cancelWorkbook: () => setPendingWorkbook(null),
+    cancelMapping: () => setPendingMapping(null),
+    cancelSync: () => setPendingSync(null),
+    reset: () => setUploadState('idle')
+  }
+}
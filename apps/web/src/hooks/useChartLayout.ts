@@ -0,0 +1,24 @@
+import { useCallback } from 'react'
+import { trpc } from '../utils/trpc'
+import { CHART_LAYOUTS, ChartLayout } from '@shared/index'
+
+// Saved with the person's account, so the layout follows them to other browsers
+export const useChartLayout = () => {
+  const utils = trpc.useUtils()
+  const settingsQuery = trpc.auth.settings.useQuery()
+  const updateSettings = trpc.auth.updateSettings.useMutation()
+
+  const saved = settingsQuery.data?.data.chartLayout
+  const layout: ChartLayout = saved && CHART_LAYOUTS.includes(saved) ? saved : 'top-down'
+
+  // The chart is redrawn straight away and goes back to the saved layout if saving fails
+  const setLayout = useCallback((next: ChartLayout) => {
+    const previous = utils.auth.settings.getData()
+    utils.auth.settings.setData(undefined, { success: true, data: { ...previous?.data, chartLayout: next } })
+    updateSettings.mutate({ chartLayout: next }, {
+      onError: () => utils.auth.settings.setData(undefined, previous)
+    })
+  }, [utils, updateSettings])
+
+  return { layout, setLayout }
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react'
+import { useRouter } from 'next/router'
+import { trpc } from '../utils/trpc'
+
+// Kept for the tab, so a link opened while signed out still works after signing in
+const PENDING_INVITATION_KEY = 'pendingInvitation'
+
+// Holds on to the token from an invitation link while the person signs in
+export const keepInvitationForSignIn = (token: unknown) => {
+  if (typeof token === 'string' && token) {
+    sessionStorage.setItem(PENDING_INVITATION_KEY, token)
+  }
+}
+
+// Accepts the invitation from a link, or one kept from before signing in
+export const useAcceptInvitation = (onAccepted: (organizationId: string, message: string) => void, onError: (message: string) => void) => {
+  const router = useRouter()
+  const utils = trpc.useUtils()
+  const acceptInvitation = trpc.organization.acceptInvitation.useMutation()
+  const accepted = useRef(false)
+  const linkToken = typeof router.query.invite === 'string' ? router.query.invite : ''
+
+  useEffect(() => {
+    const token = linkToken || sessionStorage.getItem(PENDING_INVITATION_KEY)
+    if (!token || accepted.current) return
+
+    accepted.current = true
+    sessionStorage.removeItem(PENDING_INVITATION_KEY)
+    if (linkToken) {
+      router.replace('/', undefined, { shallow: true })
+    }
+
+    acceptInvitation.mutateAsync({ token })
+      .then(async result => {
+        // The organization has to be in the switcher before it can be selected
+        await utils.organization.list.invalidate()
+        onAccepted(result.data.organizationId, result.message)
+      })
+      .catch((err: any) => onError(err?.message || 'Failed to accept invitation'))
+  }, [linkToken])
+}
@@ -0,0 +1,38 @@
+import { useMemo } from 'react'
+import { trpc } from '../utils/trpc'
+import type { ChartDiffStatus } from '@ui/index'
+
+export interface OrgComparison {
+  baseVersionId: string
+  // null compares against the live chart
+  targetVersionId: string | null
+}
+
+export const useOrgDiff = (organizationId: string, comparison: OrgComparison | null) => {
+  const diffQuery = trpc.organization.diff.useQuery(
+    {
+      organizationId,
+      baseSnapshotId: comparison?.baseVersionId || '',
+      targetSnapshotId: comparison?.targetVersionId ?? null
+    },
+    { enabled: comparison !== null && Boolean(organizationId) }
+  )
+  const diff = diffQuery.data?.data || null
+
+  // Title and name changes share one color in the chart; the sidebar tells them apart
+  const diffStatus = useMemo(() => {
+    const status: Record<string, ChartDiffStatus> = {}
+    diff?.entries.forEach(entry => {
+      const [change] = entry.changes
+      status[entry.employeeId] = change === 'added' || change === 'removed' || change === 'moved' ? change : 'changed'
+    })
+    return status
+  }, [diff])
+
+  return {
+    diff,
+    diffStatus,
+    isLoading: diffQuery.isLoading && comparison !== null,
+    error: diffQuery.error?.message || null
+  }
+}
@@ -0,0 +1,60 @@
+import { useCallback } from 'react'
+import { trpc } from '../utils/trpc'
+
+export const useOrganizationMembers = (organizationId: string, enabled: boolean) => {
+  const utils = trpc.useUtils()
+
+  const membersQuery = trpc.organization.members.useQuery({ organizationId }, { enabled: enabled && Boolean(organizationId) })
+
+  // Leaving an organization also removes it from the switcher
+  const refresh = {
+    onSuccess: () => Promise.all([
+      utils.organization.members.invalidate({ organizationId }),
+      utils.organization.list.invalidate()
+    ])
+  }
+  const inviteMember = trpc.organization.invite.useMutation(refresh)
+  const updateMemberRole = trpc.organization.updateMemberRole.useMutation(refresh)
+  const removeMember = trpc.organization.removeMember.useMutation(refresh)
+  const revokeInvitation = trpc.organization.revokeInvitation.useMutation(refresh)
+
+  const invite = useCallback(async (invite: { email: string; role: 'editor' | 'viewer' }) => {
+    const result = await inviteMember.mutateAsync({ organizationId, ...invite })
+    if (result.data.status !== 'invited') {
+      return result.message
+    }
+
+    // Only someone holding the link can accept, so the owner passes it on to the invited person
+    const link = `${window.location.origin}/?invite=${encodeURIComponent(result.data.token)}`
+    try {
+      await navigator.clipboard.writeText(link)
+      return `Invitation link for ${invite.email} copied; send it to them to join`
+    } catch {
+      return `${result.message}; send them this link to join: ${link}`
+    }
+  }, [inviteMember, organizationId])
+
+  const changeRole = useCallback(async (userId: string, role: 'editor' | 'viewer') => {
+    await updateMemberRole.mutateAsync({ organizationId, userId, role })
+  }, [updateMemberRole, organizationId])
+
+  const remove = useCallback(async (userId: string) => {
+    await removeMember.mutateAsync({ organizationId, userId })
+  }, [removeMember, organizationId])
+
+  const revoke = useCallback(async (invitationId: string) => {
+    await revokeInvitation.mutateAsync({ organizationId, invitationId })
+  }, [revokeInvitation, organizationId])
+
+  return {
+    members: membersQuery.data?.data.members || [],
+    invitations: membersQuery.data?.data.invitations || [],
+    role: membersQuery.data?.data.role || null,
+    isLoading: membersQuery.isLoading,
+    isMutating: inviteMember.isPending || updateMemberRole.isPending || removeMember.isPending || revokeInvitation.isPending,
+    invite,
+    changeRole,
+    remove,
+    revoke
+  }
+}
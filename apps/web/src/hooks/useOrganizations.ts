@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { trpc } from '../utils/trpc'
+import { useChartStore } from '@shared/index'
+
+// Remembers the selected organization so a reload returns to the same chart
+const SELECTED_ORGANIZATION_KEY = 'selectedOrganizationId'
+
+export const useOrganizations = () => {
+  const { organizationId, setOrganizationId } = useChartStore()
+  const utils = trpc.useUtils()
+
+  const listOrganizations = trpc.organization.list.useQuery()
+  const invalidateList = { onSuccess: () => utils.organization.list.invalidate() }
+  const createOrganization = trpc.organization.create.useMutation(invalidateList)
+  const renameOrganization = trpc.organization.rename.useMutation(invalidateList)
+  const deleteOrganization = trpc.organization.delete.useMutation(invalidateList)
+
+  const organizations = listOrganizations.data?.data || []
+  const currentOrganization = organizations.find(organization => organization.id === organizationId) || null
+
+  // Restore the last selection once the list is known, falling back to the first organization
+  const restoredSelection = useRef(false)
+  useEffect(() => {
+    if (!listOrganizations.data) return
+    const available = listOrganizations.data.data
+
+    if (!restoredSelection.current) {
+      restoredSelection.current = true
+      const storedId = localStorage.getItem(SELECTED_ORGANIZATION_KEY)
+      if (storedId && available.some(organization => organization.id === storedId)) {
+        setOrganizationId(storedId)
+        return
+      }
+    }
+
+    if (available.length > 0 && !available.some(organization => organization.id === organizationId)) {
+      setOrganizationId(available[0].id)
+    }
+  }, [listOrganizations.data])
+
+  useEffect(() => {
+    if (restoredSelection.current && organizationId) {
+      localStorage.setItem(SELECTED_ORGANIZATION_KEY, organizationId)
+    }
+  }, [organizationId])
+
+  const create = useCallback(async (name: string) => {
+    const result = await createOrganization.mutateAsync({ name })
+    setOrganizationId(result.data.id)
+    return result.data
+  }, [createOrganization, setOrganizationId])
+
+  const rename = useCallback(async (id: string, name: string) => {
+    const result = await renameOrganization.mutateAsync({ organizationId: id, name })
+    return result.data
+  }, [renameOrganization])
+
+  const remove = useCallback(async (id: string) => {
+    await deleteOrganization.mutateAsync({ organizationId: id })
+
+    // Fall back to another chart when the one on screen is deleted; the API never deletes the last one
+    if (id === organizationId) {
+      const remaining = organizations.filter(organization => organization.id !== id)
+      if (remaining.length > 0) {
+        setOrganizationId(remaining[0].id)
+      }
+    }
+  }, [deleteOrganization, organizationId, organizations, setOrganizationId])
+
+  return {
+    organizations,
+    currentOrganizationId: organizationId,
+    currentOrganization,
+    // Viewers can browse and export but not change the chart
+    currentRole: currentOrganization?.role || null,
+    canEdit: currentOrganization ? currentOrganization.role !== 'viewer' : false,
+    isLoading: listOrganizations.isLoading,
+    isMutating: createOrganization.isPending || renameOrganization.isPending || deleteOrganization.isPending,
+    select: setOrganizationId,
+    create,
+    rename,
+    remove
+  }
+}
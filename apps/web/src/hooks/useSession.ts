@@ -0,0 +1,43 @@
+import { useCallback } from 'react'
+import { trpc } from '../utils/trpc'
+
+export const useSession = () => {
+  const utils = trpc.useUtils()
+
+  const me = trpc.auth.me.useQuery(undefined, { retry: false })
+  const loginMutation = trpc.auth.login.useMutation()
+  const registerMutation = trpc.auth.register.useMutation()
+  const logoutMutation = trpc.auth.logout.useMutation()
+
+  // The session cookie changed, so nothing fetched for the previous user can be reused
+  const resetCache = useCallback(async () => {
+    await utils.invalidate()
+  }, [utils])
+
+  const login = useCallback(async (credentials: { email: string; password: string }) => {
+    const result = await loginMutation.mutateAsync(credentials)
+    await resetCache()
+    return result.data
+  }, [loginMutation, resetCache])
+
+  const register = useCallback(async (account: { email: string; name: string; password: string }) => {
+    const result = await registerMutation.mutateAsync(account)
+    await resetCache()
+    return result.data
+  }, [registerMutation, resetCache])
+
+  const logout = useCallback(async () => {
+    await logoutMutation.mutateAsync()
+    await resetCache()
+  }, [logoutMutation, resetCache])
+
+  return {
+    user: me.data?.data || null,
+    isLoading: me.isLoading,
+    isPending: loginMutation.isPending || registerMutation.isPending || logoutMutation.isPending,
+    error: loginMutation.error?.message || registerMutation.error?.message || null,
+    login,
+    register,
+    logout
+  }
+}
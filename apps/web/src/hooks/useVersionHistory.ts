@@ -0,0 +1,57 @@
+import { useCallback } from 'react'
+import { trpc } from '../utils/trpc'
+import { useChartStore } from '@shared/chart-store'
+import type { inferRouterOutputs } from '@trpc/server'
+import type { AppRouter } from '../../../api/src/server/trpc'
+
+export type VersionView = inferRouterOutputs<AppRouter>['organization']['getSnapshot']['data']
+
+export const useVersionHistory = (organizationId: string, enabled: boolean) => {
+  const utils = trpc.useUtils()
+  const { setChartData } = useChartStore()
+
+  const versionsQuery = trpc.organization.snapshots.useQuery({ organizationId }, { enabled: enabled && Boolean(organizationId) })
+
+  const refresh = {
+    onSuccess: () => utils.organization.snapshots.invalidate({ organizationId })
+  }
+  const createSnapshot = trpc.organization.createSnapshot.useMutation(refresh)
+  const deleteSnapshot = trpc.organization.deleteSnapshot.useMutation(refresh)
+  // Restoring also logs a change and saves the replaced chart as a version
+  const restoreSnapshot = trpc.organization.restoreSnapshot.useMutation({
+    onSuccess: () => Promise.all([
+      utils.organization.snapshots.invalidate({ organizationId }),
+      utils.organization.getAuditLog.invalidate({ organizationId })
+    ])
+  })
+
+  const create = useCallback(async (name: string) => {
+    const result = await createSnapshot.mutateAsync({ organizationId, name })
+    return result.data
+  }, [createSnapshot, organizationId])
+
+  const load = useCallback(async (snapshotId: string) => {
+    const result = await utils.organization.getSnapshot.fetch({ organizationId, snapshotId })
+    return result.data
+  }, [utils, organizationId])
+
+  const restore = useCallback(async (snapshotId: string) => {
+    const result = await restoreSnapshot.mutateAsync({ organizationId, snapshotId })
+    setChartData(result.data)
+    return result.message
+  }, [restoreSnapshot, organizationId, setChartData])
+
+  const remove = useCallback(async (snapshotId: string) => {
+    await deleteSnapshot.mutateAsync({ organizationId, snapshotId })
+  }, [deleteSnapshot, organizationId])
+
+  return {
+    versions: versionsQuery.data?.data || [],
+    isLoading: versionsQuery.isLoading,
+    isMutating: createSnapshot.isPending || restoreSnapshot.isPending || deleteSnapshot.isPending,
+    create,
+    load,
+    restore,
+    remove
+  }
+}
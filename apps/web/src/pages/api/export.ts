@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TRPCError } from '@trpc/server'
+import { getHTTPStatusCodeFromError } from '@trpc/server/http'
+import { appRouter } from '../../../../api/src/server/trpc'
+import { createContext } from '../../../../api/src/server/context'
+import type { ChartExportFormat, ChartExportOptions } from '@shared/index'
+
+// GET /api/export?organizationId=...&format=... downloads the chart as a file in one of the
+// ChartExportFormat formats. PDFs also take pageSize (a4, letter) and orientation (landscape,
+// portrait); PowerPoint takes depth, includeOverview and a repeated fields parameter; the graph
+// formats (mermaid, dot, graphml) take rootId and depth. SVG, PDF, PowerPoint, Mermaid and DOT
+// follow layout.
+// Files that could not show everything come with a URI-encoded X-Export-Warning header
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const organizationId = typeof req.query.organizationId === 'string' ? req.query.organizationId : ''
+  // The procedure's input schema rejects unknown values
+  const format = (typeof req.query.format === 'string' ? req.query.format : 'svg') as ChartExportFormat
+  const pageSize = typeof req.query.pageSize === 'string' ? req.query.pageSize as ChartExportOptions['pageSize'] : undefined
+  const orientation = typeof req.query.orientation === 'string' ? req.query.orientation as ChartExportOptions['orientation'] : undefined
+  const rootId = typeof req.query.rootId === 'string' && req.query.rootId !== '' ? req.query.rootId : undefined
+  const depth = typeof req.query.depth === 'string' && req.query.depth !== '' ? Number(req.query.depth) : undefined
+  const fields = req.query.fields === undefined ? [] : ([] as string[]).concat(req.query.fields)
+  const includeOverview = req.query.includeOverview !== 'false'
+  const layout = typeof req.query.layout === 'string' ? req.query.layout as ChartExportOptions['layout'] : undefined
+
+  try {
+    // Goes through the tRPC procedure so sign-in and role checks stay in one place
+    const caller = appRouter.createCaller(await createContext({ req, res }))
+    const result = await caller.organization.exportChart({
+      organizationId, format, pageSize, orientation, rootId, depth, fields, includeOverview, layout
+    })
+    const file = result.data
+
+    res.setHeader('Content-Type', file.encoding === 'base64' ? file.mimeType : `${file.mimeType}; charset=utf-8`)
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`)
+    if (file.warnings && file.warnings.length > 0) {
+      // Headers only carry ASCII, and the warnings can quote any character
+      res.setHeader('X-Export-Warning', encodeURIComponent(file.warnings.join(' ')))
+    }
+    return res.status(200).send(file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content)
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return res.status(getHTTPStatusCodeFromError(error)).json({ error: error.message })
+    }
+    console.error('Export error:', error)
+    return res.status(500).json({ error: 'Failed to export chart' })
+  }
+}
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { Readable } from 'stream'
+import { getRequestSession } from '../../../../api/src/server/context'
 
 export const config = {
   api: {
@@ -13,6 +14,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  if (!(await getRequestSession(req))) {
+    return res.status(401).json({ error: 'Not signed in' })
+  }
+
   try {
     // Convert Node.js IncomingMessage to a web Request so we can use .formData()
     const headers = new Headers()
@@ -36,13 +41,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Validate file type
-    const validTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
-    const validExtensions = ['.csv', '.xlsx']
+    const validTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/json', 'application/ld+json']
+    const validExtensions = ['.csv', '.xlsx', '.json', '.jsonld']
     const hasValidType = validTypes.includes(file.type)
     const hasValidExtension = validExtensions.some(ext => file.name.toLowerCase().endsWith(ext))
 
     if (!hasValidType && !hasValidExtension) {
-      return res.status(400).json({ error: 'Invalid file type. Only CSV and XLSX files are supported.' })
+      return res.status(400).json({ error: 'Invalid file type. Only CSV, XLSX and JSON files are supported.' })
     }
 
     // Validate file size (10MB)
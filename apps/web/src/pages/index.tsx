@@ -1,30 +1,76 @@
-import { Header, ChartViewerPlaceholder, ChartViewer, ChartTooltip, Button, AddEmployeeModal, ToastProvider, useToast } from '@ui/index'
-import { useRef, useState, useEffect } from 'react'
-import { Upload, UserPlus, Trash2, Users, AlertCircle, Download, Loader2, FileSpreadsheet } from 'lucide-react'
+import { Header, ChartViewerPlaceholder, ChartViewer, ChartTooltip, Button, AddEmployeeModal, RemoveEmployeeModal, OrganizationMembersModal, HistoryPanel, AuditTimelineDrawer, VersionHistoryModal, OrgDiffSidebar, CommandBar, ExportMenu, ToastProvider, useToast } from '@ui/index'
+import type { ReportsStrategy, MemberRole, AuditTimelineFilter } from '@ui/index'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/router'
+import { Upload, UserPlus, Trash2, Share2, History, Clock, Layers, Eye, GitCompare, Loader2, FileSpreadsheet } from 'lucide-react'
 import { trpc } from '../utils/trpc'
 import { useChartData } from '../hooks/useChartData'
-import { Employee } from '@shared/index'
+import { useChartImport, ENCODING_OPTIONS } from '../hooks/useChartImport'
+import { useChartExport } from '../hooks/useChartExport'
+import { useOrganizations } from '../hooks/useOrganizations'
+import { useOrganizationMembers } from '../hooks/useOrganizationMembers'
+import { useChartHistory } from '../hooks/useChartHistory'
+import { useAuditLog } from '../hooks/useAuditLog'
+import { useVersionHistory, VersionView } from '../hooks/useVersionHistory'
+import { useOrgDiff, OrgComparison } from '../hooks/useOrgDiff'
+import { useChartCommand } from '../hooks/useChartCommand'
+import { useChartLayout } from '../hooks/useChartLayout'
+import { useSession } from '../hooks/useSession'
+import { keepInvitationForSignIn, useAcceptInvitation } from '../hooks/useInvitationLink'
+import { ChartStatistics } from '../components/chart-statistics'
+import { ImportReviewModals } from '../components/import-review-modals'
+import { ExportModals } from '../components/export-modals'
+import { Employee, User } from '@shared/index'
 import { useChartStore } from '@shared/chart-store'
-import html2canvas from 'html2canvas'
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
-
-type UploadState = 'idle' | 'uploading' | 'processing' | 'complete' | 'error'
+interface HomeContentProps {
+  user: User
+  onSignOut: () => void
+}
 
-function HomeContent() {
-  const fileInputRef = useRef<HTMLInputElement>(null)
-  const [uploadState, setUploadState] = useState<UploadState>('idle')
+function HomeContent({ user, onSignOut }: HomeContentProps) {
   const [hoveredEmployee, setHoveredEmployee] = useState<Employee | null>(null)
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
   const [lastFailedOperation, setLastFailedOperation] = useState<{employeeId: string, newManagerId: string} | null>(null)
   const [isAddEmployeeModalOpen, setIsAddEmployeeModalOpen] = useState(false)
-  const [isExporting, setIsExporting] = useState(false)
+  const [removingEmployee, setRemovingEmployee] = useState<Employee | null>(null)
+  const [isMembersModalOpen, setIsMembersModalOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isChangeLogOpen, setIsChangeLogOpen] = useState(false)
+  const [auditFilter, setAuditFilter] = useState<AuditTimelineFilter>({})
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false)
+  const [viewingVersion, setViewingVersion] = useState<VersionView | null>(null)
+  const [comparison, setComparison] = useState<OrgComparison | null>(null)
   const updateManager = trpc.organization.updateManager.useMutation()
   const createEmployee = trpc.organization.createEmployee.useMutation()
-  const { chartData, employees, isLoading, error, parseFile, clear } = useChartData()
-  const { isSaving, saveError, setSaving, setSaveError, updateEmployeeManager, addEmployee } = useChartStore()
+  const updateEmployeeDetails = trpc.organization.updateEmployee.useMutation()
+  const deleteEmployee = trpc.organization.deleteEmployee.useMutation()
+  const chart = useChartData()
+  const { chartData, employees, isLoading, error, clear } = chart
+  const { isSaving, saveError, setSaving, setSaveError, updateEmployeeManager, addEmployee, removeEmployee, dismissManagerMatch } = useChartStore()
+  const organizations = useOrganizations()
+  const members = useOrganizationMembers(organizations.currentOrganizationId, isMembersModalOpen)
+  const history = useChartHistory()
+  const auditLog = useAuditLog(organizations.currentOrganizationId, auditFilter, isChangeLogOpen)
+  // The comparison sidebar picks from the same list of versions
+  const versionHistory = useVersionHistory(organizations.currentOrganizationId, isVersionsOpen || comparison !== null)
+  const orgDiff = useOrgDiff(organizations.currentOrganizationId, comparison)
+  const chartCommand = useChartCommand(organizations.currentOrganizationId)
+  const chartLayout = useChartLayout()
+  const chartImport = useChartImport(chart)
+  const chartExport = useChartExport({
+    organizationId: organizations.currentOrganizationId,
+    title: organizations.currentOrganization?.name,
+    employees,
+    layout: chartLayout.layout
+  })
   const { showToast } = useToast()
 
+  useAcceptInvitation((organizationId, message) => {
+    organizations.select(organizationId)
+    showToast('success', message)
+  }, message => showToast('error', message))
+
   // Show error toast when chart loading error occurs
   useEffect(() => {
     if (error) {
@@ -32,6 +78,18 @@ function HomeContent() {
     }
   }, [error, showToast])
 
+  // A version belongs to the organization it was opened from
+  useEffect(() => {
+    setViewingVersion(null)
+    setComparison(null)
+  }, [organizations.currentOrganizationId])
+
+  useEffect(() => {
+    if (orgDiff.error) {
+      showToast('error', orgDiff.error)
+    }
+  }, [orgDiff.error, showToast])
+
   // Show error toast when save error occurs
   useEffect(() => {
     if (saveError) {
@@ -39,79 +97,6 @@ function HomeContent() {
     }
   }, [saveError, showToast])
 
-  const handleImportData = () => {
-    if (uploadState === 'idle' || uploadState === 'complete' || uploadState === 'error') {
-      fileInputRef.current?.click()
-    }
-  }
-
-  const validateFile = (file: File): { isValid: boolean; error?: string } => {
-    const validTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
-    const validExtensions = ['.csv', '.xlsx']
-
-    if (!validTypes.includes(file.type) && !validExtensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
-      return { isValid: false, error: 'Please select a valid CSV or XLSX file.' }
-    }
-
-    if (file.size > MAX_FILE_SIZE) {
-      return { isValid: false, error: `File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB.` }
-    }
-
-    return { isValid: true }
-  }
-
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    const validation = validateFile(file)
-    if (!validation.isValid) {
-      showToast('error', validation.error || 'Invalid file')
-      event.target.value = ''
-      return
-    }
-
-    setUploadState('uploading')
-
-    try {
-      // Use FormData + fetch so the browser handles file reading natively,
-      // avoiding NotReadableError from JavaScript file reading APIs
-      const formData = new FormData()
-      formData.append('file', file)
-
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null)
-        throw new Error(errorData?.error || `Upload failed (${response.status})`)
-      }
-
-      const result = await response.json()
-
-      if (result.success) {
-        setUploadState('processing')
-        await parseFile(result.url, result.fileName)
-        setUploadState('complete')
-        showToast('success', `Successfully imported ${result.fileName}`)
-
-        // Reset state after a delay
-        setTimeout(() => setUploadState('idle'), 2000)
-      }
-    } catch (err) {
-      console.error('Upload error:', err)
-      setUploadState('error')
-      showToast('error', err instanceof Error ? err.message : 'Failed to upload file. Please try again.')
-
-      // Reset state after a delay
-      setTimeout(() => setUploadState('idle'), 3000)
-    } finally {
-      event.target.value = ''
-    }
-  }
-
   const handleNodeClick = (employee: Employee) => {
     // Future: could open employee detail modal or navigate to employee page
   }
@@ -129,7 +114,7 @@ function HomeContent() {
 
   const handleClearChart = () => {
     clear()
-    setUploadState('idle')
+    chartImport.reset()
     showToast('info', 'Chart cleared')
   }
 
@@ -151,6 +136,9 @@ function HomeContent() {
 
       if (result.success) {
         setSaving(false)
+        if (currentEmployee) {
+          history.recordManagerChange(currentEmployee, previousManagerId, employees.find(emp => emp.id === newManagerId) || null)
+        }
         showToast('success', 'Manager updated successfully')
       }
     } catch (err: any) {
@@ -170,6 +158,11 @@ function HomeContent() {
     }
   }
 
+  const handleAcceptManagerMatch = async (employeeId: string, managerId: string) => {
+    dismissManagerMatch(employeeId)
+    await handleManagerChange(employeeId, managerId)
+  }
+
   const handleCircularReferenceError = (employeeId: string, targetId: string) => {
     const employee = employees.find(emp => emp.id === employeeId)
     const target = employees.find(emp => emp.id === targetId)
@@ -196,72 +189,234 @@ function HomeContent() {
 
   const handleNodeEdit = async (employeeId: string, updatedData: { name: string; title: string }) => {
     const { updateEmployee } = useChartStore.getState()
+    const currentEmployee = employees.find(emp => emp.id === employeeId)
+    if (!currentEmployee) return
+
     updateEmployee(employeeId, updatedData)
-    showToast('success', 'Employee updated')
+    setSaving(true)
+    setSaveError(null)
+
+    try {
+      const result = await updateEmployeeDetails.mutateAsync({
+        employeeId,
+        name: updatedData.name,
+        title: updatedData.title
+      })
+
+      if (result.success) {
+        // Keep whatever the server normalised (trimmed names, merged custom fields)
+        updateEmployee(employeeId, result.data)
+        setSaving(false)
+        history.recordEdit(currentEmployee, result.data)
+        showToast('success', 'Employee updated')
+      }
+    } catch (err: any) {
+      console.error('Failed to save employee edit:', err)
+
+      updateEmployee(employeeId, {
+        name: currentEmployee.name,
+        title: currentEmployee.title,
+        customFields: currentEmployee.customFields
+      })
+
+      setSaveError(err?.message || err?.data?.message || 'Failed to save changes. Please try again.')
+    }
   }
 
-  const handleExportChart = async () => {
-    setIsExporting(true)
+  const handleRemoveEmployee = async (removal: { reportsStrategy: ReportsStrategy; newManagerId?: string }) => {
+    if (!removingEmployee) return
+
     try {
-      const chartElement = document.querySelector('[data-chart-container]') as HTMLElement
-      if (!chartElement) {
-        showToast('error', 'Chart container not found')
-        return
+      // Reassignments are computed and stored by the API in one go, so apply its result rather than guessing
+      const result = await deleteEmployee.mutateAsync({
+        employeeId: removingEmployee.id,
+        ...removal
+      })
+
+      if (result.success) {
+        removeEmployee(removingEmployee.id, result.data.updatedEmployees)
+        history.recordRemoval(removingEmployee, removal, result.data)
+        setRemovingEmployee(null)
+        showToast('success', result.data.vacancy
+          ? `Removed ${removingEmployee.name}; the position is now vacant`
+          : `Removed ${removingEmployee.name}`)
       }
+    } catch (err: any) {
+      console.error('Failed to remove employee:', err)
+      showToast('error', err?.message || 'Failed to remove employee')
+    }
+  }
 
-      // Hide overlay controls (search, zoom buttons) during capture
-      const overlays = chartElement.querySelectorAll<HTMLElement>('[data-chart-overlay]')
-      overlays.forEach(el => el.style.display = 'none')
-
-      const canvas = await html2canvas(chartElement, {
-        backgroundColor: '#ffffff',
-        scale: 2,
-        useCORS: true,
-        allowTaint: true,
-        height: chartElement.scrollHeight,
-        width: chartElement.scrollWidth,
-        scrollX: 0,
-        scrollY: 0,
-      } as Parameters<typeof html2canvas>[1])
-
-      // Restore overlay controls
-      overlays.forEach(el => el.style.display = '')
-
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          showToast('error', 'Failed to generate image')
-          return
-        }
+  const handleCreateOrganization = async (name: string) => {
+    try {
+      await organizations.create(name)
+      showToast('success', `Created ${name}`)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to create organization')
+    }
+  }
+
+  const handleRenameOrganization = async (organizationId: string, name: string) => {
+    try {
+      await organizations.rename(organizationId, name)
+      showToast('success', `Renamed to ${name}`)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to rename organization')
+    }
+  }
+
+  const handleDeleteOrganization = async (organizationId: string) => {
+    const organization = organizations.organizations.find(org => org.id === organizationId)
+    if (!window.confirm(`Delete ${organization?.name || 'this organization'} and its chart? This cannot be undone.`)) {
+      return
+    }
 
-        const url = URL.createObjectURL(blob)
-        const link = document.createElement('a')
-        link.href = url
-        link.download = `hps-org-chart-${new Date().toISOString().split('T')[0]}.png`
-        document.body.appendChild(link)
-        link.click()
-        document.body.removeChild(link)
-        URL.revokeObjectURL(url)
-
-        showToast('success', 'Chart exported successfully')
-      }, 'image/png', 0.95)
-
-    } catch (err) {
-      console.error('Export failed:', err)
-      showToast('error', 'Failed to export chart')
-    } finally {
-      // Ensure overlays are always restored
-      const chartEl = document.querySelector('[data-chart-container]')
-      chartEl?.querySelectorAll<HTMLElement>('[data-chart-overlay]').forEach(el => el.style.display = '')
-      setIsExporting(false)
+    try {
+      await organizations.remove(organizationId)
+      showToast('info', `Deleted ${organization?.name || 'organization'}`)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to delete organization')
     }
   }
 
+  // Each members action reports its own outcome so the modal can stay open
+  const runMembersAction = async (action: () => Promise<string | void>, fallbackError: string) => {
+    try {
+      const message = await action()
+      if (message) {
+        showToast('success', message)
+      }
+    } catch (err: any) {
+      showToast('error', err?.message || fallbackError)
+    }
+  }
+
+  const handleInviteMember = (invite: { email: string; role: MemberRole }) =>
+    runMembersAction(() => members.invite(invite), 'Failed to invite member')
+
+  const handleChangeMemberRole = (userId: string, role: MemberRole) =>
+    runMembersAction(() => members.changeRole(userId, role), 'Failed to update role')
+
+  const handleRemoveMember = async (userId: string) => {
+    const leaving = userId === user.id
+    if (leaving && !window.confirm(`Leave ${organizations.currentOrganization?.name || 'this organization'}?`)) {
+      return
+    }
+
+    await runMembersAction(() => members.remove(userId), 'Failed to remove member')
+    if (leaving) {
+      setIsMembersModalOpen(false)
+    }
+  }
+
+  const handleRevokeInvitation = (invitationId: string) =>
+    runMembersAction(() => members.revoke(invitationId), 'Failed to revoke invitation')
+
+  const handleUndo = async () => {
+    try {
+      const entry = await history.undo()
+      if (entry) showToast('info', `Undone: ${entry.label}`)
+    } catch (err: any) {
+      console.error('Failed to undo change:', err)
+      showToast('error', err?.message || 'Failed to undo change')
+    }
+  }
+
+  const handleRedo = async () => {
+    try {
+      const entry = await history.redo()
+      if (entry) showToast('info', `Redone: ${entry.label}`)
+    } catch (err: any) {
+      console.error('Failed to redo change:', err)
+      showToast('error', err?.message || 'Failed to redo change')
+    }
+  }
+
+  const handleCreateVersion = async (name: string) => {
+    try {
+      await versionHistory.create(name)
+      showToast('success', `Saved snapshot "${name}"`)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to save snapshot')
+    }
+  }
+
+  const handleViewVersion = async (snapshotId: string) => {
+    try {
+      setViewingVersion(await versionHistory.load(snapshotId))
+      setIsVersionsOpen(false)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to open snapshot')
+    }
+  }
+
+  const handleCompareVersion = (snapshotId: string) => {
+    setViewingVersion(null)
+    setComparison({ baseVersionId: snapshotId, targetVersionId: null })
+    setIsVersionsOpen(false)
+  }
+
+  const handleRestoreVersion = async (snapshotId: string) => {
+    const version = versionHistory.versions.find(item => item.id === snapshotId) || viewingVersion?.snapshot
+    if (!window.confirm(`Replace the current chart with "${version?.name || 'this version'}"? The current chart is kept as a version.`)) {
+      return
+    }
+
+    try {
+      const message = await versionHistory.restore(snapshotId)
+      setViewingVersion(null)
+      setIsVersionsOpen(false)
+      showToast('success', message)
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to restore snapshot')
+    }
+  }
+
+  const handleDeleteVersion = async (snapshotId: string) => {
+    try {
+      await versionHistory.remove(snapshotId)
+      if (viewingVersion?.snapshot.id === snapshotId) {
+        setViewingVersion(null)
+      }
+      if (comparison?.baseVersionId === snapshotId || comparison?.targetVersionId === snapshotId) {
+        setComparison(null)
+      }
+    } catch (err: any) {
+      showToast('error', err?.message || 'Failed to delete snapshot')
+    }
+  }
+
+  // Confirmed commands go through the same handlers as the chart's own controls, so they can be undone
+  const handleCommandConfirm = () => {
+    const command = chartCommand.preview?.command
+    if (!command) return
+
+    switch (command.intent) {
+      case 'move':
+        handleManagerChange(command.employeeId, command.newManagerId)
+        break
+      case 'add':
+        handleAddEmployee({ name: command.name, title: command.title, managerId: command.managerId })
+        break
+      case 'edit':
+        handleNodeEdit(command.employeeId, { name: command.name, title: command.title })
+        break
+      case 'remove': {
+        // Removing someone with reports still asks what happens to them
+        const employee = employees.find(emp => emp.id === command.employeeId)
+        if (employee) setRemovingEmployee(employee)
+        break
+      }
+    }
+    chartCommand.clear()
+  }
+
   const handleAddEmployee = async (employeeData: {
     name: string
     title: string
     managerId?: string | null
   }) => {
-    const organizationId = 'default-org'
+    const organizationId = organizations.currentOrganizationId
 
     try {
       const result = await createEmployee.mutateAsync({
@@ -300,6 +455,7 @@ function HomeContent() {
           const { setChartData } = useChartStore.getState()
           setChartData(newChartData)
         }
+        history.recordAdd(result.data)
         setIsAddEmployeeModalOpen(false)
         showToast('success', `Added ${employeeData.name} to the organization`)
       }
@@ -310,7 +466,7 @@ function HomeContent() {
   }
 
   const getButtonText = () => {
-    switch (uploadState) {
+    switch (chartImport.uploadState) {
       case 'uploading':
         return 'Uploading...'
       case 'processing':
@@ -320,11 +476,20 @@ function HomeContent() {
     }
   }
 
-  const isButtonDisabled = uploadState === 'uploading' || uploadState === 'processing' || isLoading
-
   return (
     <div className="min-h-screen bg-base">
-      <Header />
+      <Header
+        organizationSwitcher={{
+          organizations: organizations.organizations,
+          currentOrganizationId: organizations.currentOrganizationId,
+          onSelect: organizations.select,
+          onCreate: handleCreateOrganization,
+          onRename: handleRenameOrganization,
+          onDelete: handleDeleteOrganization,
+          isLoading: organizations.isMutating
+        }}
+        account={{ name: user.name, email: user.email, onSignOut }}
+      />
 
       <main className="mx-auto max-w-screen-2xl px-2 py-6">
         {/* Toolbar */}
@@ -336,11 +501,40 @@ function HomeContent() {
                 <span>{chartData.statistics.totalEmployees} employees</span>
               </div>
             )}
+            {chartData?.worksheets && chartData.worksheets.used.length > 0 && (
+              <div
+                className="flex items-center gap-2 text-sm text-text-secondary bg-surface px-3 py-1.5 rounded-lg border border-border-default"
+                title={chartData.worksheets.skipped.length > 0 ? `Skipped: ${chartData.worksheets.skipped.join(', ')}` : undefined}
+              >
+                <span>{chartData.worksheets.used.length > 1 ? 'Sheets' : 'Sheet'}: {chartData.worksheets.used.join(', ')}</span>
+              </div>
+            )}
+            {chartData?.encoding && (
+              <label
+                className="flex items-center gap-2 text-sm text-text-secondary bg-surface px-3 py-1.5 rounded-lg border border-border-default"
+                title={chartData.encoding.source === 'override'
+                  ? 'Encoding chosen manually'
+                  : `Detected ${chartData.encoding.source === 'bom' ? 'from byte order mark' : 'automatically'} (${Math.round(chartData.encoding.confidence * 100)}% confidence)`}
+              >
+                <span>Encoding</span>
+                <select
+                  value={chartData.encoding.encoding}
+                  onChange={chartImport.handleEncodingChange}
+                  disabled={chartImport.isBusy}
+                  className="bg-transparent text-text-primary outline-none disabled:opacity-50"
+                  aria-label="File encoding"
+                >
+                  {ENCODING_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
-            <Button onClick={handleImportData} disabled={isButtonDisabled}>
-              {isButtonDisabled ? (
+            <Button onClick={chartImport.openFilePicker} disabled={chartImport.isBusy || !organizations.canEdit}>
+              {chartImport.isBusy ? (
                 <Loader2 className="w-4 h-4 animate-spin" />
               ) : (
                 <Upload className="w-4 h-4" />
@@ -350,21 +544,36 @@ function HomeContent() {
             <Button
               onClick={() => setIsAddEmployeeModalOpen(true)}
               variant="secondary"
-              disabled={createEmployee.isPending}
+              disabled={createEmployee.isPending || !organizations.canEdit}
             >
               <UserPlus className="w-4 h-4" />
               Add Employee
             </Button>
+            <Button onClick={() => setIsMembersModalOpen(true)} variant="secondary" disabled={!organizations.currentOrganization}>
+              <Share2 className="w-4 h-4" />
+              Share
+            </Button>
+            <Button onClick={() => setIsVersionsOpen(true)} variant="secondary" disabled={!organizations.currentOrganization}>
+              <Layers className="w-4 h-4" />
+              Versions
+            </Button>
+            <Button onClick={() => setIsChangeLogOpen(true)} variant="secondary" disabled={!organizations.currentOrganization}>
+              <Clock className="w-4 h-4" />
+              Change Log
+            </Button>
+            {organizations.canEdit && (
+              <Button onClick={() => setIsHistoryOpen(open => !open)} variant="secondary">
+                <History className="w-4 h-4" />
+                History
+              </Button>
+            )}
             {chartData && (
               <>
-                <Button onClick={handleExportChart} variant="secondary" disabled={isExporting}>
-                  {isExporting ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    <Download className="w-4 h-4" />
-                  )}
-                  Export
-                </Button>
+                <ExportMenu
+                  options={chartExport.exportOptions}
+                  onSelect={chartExport.handleExportChart}
+                  isExporting={chartExport.isExporting}
+                />
                 <Button onClick={handleClearChart} variant="ghost">
                   <Trash2 className="w-4 h-4" />
                 </Button>
@@ -374,9 +583,9 @@ function HomeContent() {
 
           <input
             type="file"
-            ref={fileInputRef}
-            onChange={handleFileSelect}
-            accept=".csv,.xlsx"
+            ref={chartImport.fileInputRef}
+            onChange={chartImport.handleFileSelect}
+            accept=".csv,.xlsx,.json,.jsonld"
             className="hidden"
           />
         </div>
@@ -384,31 +593,113 @@ function HomeContent() {
         {/* Chart Display Area */}
         <div className="relative">
           {/* Export loading overlay */}
-          {isExporting && (
+          {chartExport.isExporting && (
             <div className="absolute inset-0 bg-base/80 backdrop-blur-sm flex items-center justify-center z-50 rounded-2xl">
               <div className="bg-surface border border-border-default px-6 py-4 rounded-xl shadow-2xl flex items-center gap-3">
                 <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
-                <span className="text-text-primary font-medium">Generating chart image...</span>
+                <span className="text-text-primary font-medium">Generating export...</span>
               </div>
             </div>
           )}
 
-          {chartData && employees.length > 0 ? (
+          {comparison ? (
+            <div data-chart-container>
+              <div className="mb-3 flex items-center gap-3 rounded-xl border border-indigo-500/30 bg-indigo-500/10 px-4 py-2.5">
+                <GitCompare className="w-4 h-4 text-indigo-400" />
+                <span className="flex-1 text-sm text-text-primary">
+                  {orgDiff.diff ? (
+                    <>
+                      Changes from <span className="font-semibold">{orgDiff.diff.base.name}</span> to <span className="font-semibold">{orgDiff.diff.target.name}</span>
+                    </>
+                  ) : 'Comparing versions…'}
+                </span>
+                <span className="hidden md:flex items-center gap-3 text-xs text-text-secondary">
+                  <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-green-500" />Added</span>
+                  <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-red-500" />Removed</span>
+                  <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-amber-500" />Moved</span>
+                  <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-sky-400" />Title or name</span>
+                </span>
+                <Button onClick={() => setComparison(null)} variant="ghost">
+                  Back to live chart
+                </Button>
+              </div>
+              {orgDiff.diff && (
+                <ChartViewer
+                  employees={orgDiff.diff.combinedEmployees}
+                  className="min-h-[calc(100vh-220px)]"
+                  onNodeClick={handleNodeClick}
+                  onNodeHover={handleNodeHover}
+                  diffStatus={orgDiff.diffStatus}
+                  layout={chartLayout.layout}
+                  onLayoutChange={chartLayout.setLayout}
+                  readOnly
+                />
+              )}
+            </div>
+          ) : viewingVersion ? (
             <div data-chart-container>
+              <div className="mb-3 flex items-center gap-3 rounded-xl border border-indigo-500/30 bg-indigo-500/10 px-4 py-2.5">
+                <Eye className="w-4 h-4 text-indigo-400" />
+                <span className="flex-1 text-sm text-text-primary">
+                  Viewing <span className="font-semibold">{viewingVersion.snapshot.name}</span> from {new Date(viewingVersion.snapshot.createdAt).toLocaleString()} (read-only)
+                </span>
+                {organizations.canEdit && (
+                  <Button onClick={() => handleRestoreVersion(viewingVersion.snapshot.id)} variant="secondary" disabled={versionHistory.isMutating}>
+                    Restore this version
+                  </Button>
+                )}
+                <Button onClick={() => setViewingVersion(null)} variant="ghost">
+                  Back to live chart
+                </Button>
+              </div>
               <ChartViewer
-                employees={employees}
+                employees={viewingVersion.chart.employees}
                 className="min-h-[calc(100vh-220px)]"
                 onNodeClick={handleNodeClick}
                 onNodeHover={handleNodeHover}
-                onManagerChange={handleManagerChange}
-                onNodeEdit={handleNodeEdit}
-                onCircularReferenceError={handleCircularReferenceError}
-                isSaving={isSaving}
-                saveError={null}
-                onSaveStatusChange={handleSaveStatusChange}
-                onRetry={handleRetry}
+                layout={chartLayout.layout}
+                onLayoutChange={chartLayout.setLayout}
+                readOnly
               />
             </div>
+          ) : chartData && employees.length > 0 ? (
+            <>
+              {organizations.canEdit && (
+                <CommandBar
+                  value={chartCommand.text}
+                  onValueChange={chartCommand.setText}
+                  onSubmit={chartCommand.interpret}
+                  preview={chartCommand.preview}
+                  error={chartCommand.error}
+                  onConfirm={handleCommandConfirm}
+                  onCancel={chartCommand.clear}
+                  isLoading={chartCommand.isLoading}
+                />
+              )}
+              <div data-chart-container>
+                <ChartViewer
+                  employees={employees}
+                  className="min-h-[calc(100vh-220px)]"
+                  onNodeClick={handleNodeClick}
+                  onNodeHover={handleNodeHover}
+                  onManagerChange={handleManagerChange}
+                  onNodeEdit={handleNodeEdit}
+                  onNodeRemove={setRemovingEmployee}
+                  onCircularReferenceError={handleCircularReferenceError}
+                  isSaving={isSaving || history.isReplaying}
+                  saveError={null}
+                  onSaveStatusChange={handleSaveStatusChange}
+                  onRetry={handleRetry}
+                  readOnly={!organizations.canEdit}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  layout={chartLayout.layout}
+                  onLayoutChange={chartLayout.setLayout}
+                />
+              </div>
+            </>
           ) : (
             <ChartViewerPlaceholder className="min-h-[calc(100vh-220px)]" />
           )}
@@ -422,46 +713,12 @@ function HomeContent() {
 
         {/* Chart Statistics */}
         {chartData && (
-          <div className="mt-6 rounded-2xl border border-border-default bg-surface/50 p-5">
-            <div className="flex items-center gap-2 mb-4">
-              <Users className="w-4 h-4 text-indigo-400" />
-              <h3 className="text-sm font-semibold text-text-primary">Statistics</h3>
-            </div>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
-                <div className="text-2xl font-bold text-text-primary mb-1">{chartData.statistics.totalEmployees}</div>
-                <div className="text-xs text-text-secondary font-medium">Total Employees</div>
-              </div>
-              <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
-                <div className="text-2xl font-bold text-emerald-400 mb-1">{chartData.statistics.rootEmployees}</div>
-                <div className="text-xs text-text-secondary font-medium">Root Employees</div>
-              </div>
-              <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
-                <div className="text-2xl font-bold text-amber-400 mb-1">{chartData.statistics.orphanedEmployees}</div>
-                <div className="text-xs text-text-secondary font-medium">Orphaned</div>
-              </div>
-              <div className="rounded-xl bg-elevated/50 border border-border-default p-4">
-                <div className="text-2xl font-bold text-rose-400 mb-1">{chartData.statistics.totalErrors}</div>
-                <div className="text-xs text-text-secondary font-medium">Errors</div>
-              </div>
-            </div>
-            {chartData.validation.issues.length > 0 && (
-              <div className="mt-4 pt-4 border-t border-border-default">
-                <div className="flex items-center gap-2 mb-3">
-                  <AlertCircle className="w-4 h-4 text-rose-400" />
-                  <h4 className="text-sm font-medium text-rose-400">Validation Issues</h4>
-                </div>
-                <ul className="space-y-2">
-                  {chartData.validation.issues.map((issue, index) => (
-                    <li key={index} className="flex items-start gap-2 text-sm text-text-secondary">
-                      <span className="mt-1.5 h-1.5 w-1.5 rounded-full bg-rose-400 flex-shrink-0" />
-                      <span>{issue}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
-          </div>
+          <ChartStatistics
+            chartData={chartData}
+            isSaving={isSaving}
+            onAcceptManagerMatch={handleAcceptManagerMatch}
+            onDismissManagerMatch={dismissManagerMatch}
+          />
         )}
       </main>
 
@@ -471,17 +728,124 @@ function HomeContent() {
         onClose={() => setIsAddEmployeeModalOpen(false)}
         onSubmit={handleAddEmployee}
         availableManagers={employees}
-        organizationId="default-org"
+        organizationId={organizations.currentOrganizationId}
         isLoading={createEmployee.isPending}
       />
+
+      {/* Remove Employee Modal */}
+      <RemoveEmployeeModal
+        isOpen={removingEmployee !== null}
+        employee={removingEmployee}
+        employees={employees}
+        onClose={() => setRemovingEmployee(null)}
+        onSubmit={handleRemoveEmployee}
+        isLoading={deleteEmployee.isPending}
+      />
+
+      {/* Organization Members Modal */}
+      <OrganizationMembersModal
+        isOpen={isMembersModalOpen}
+        organizationName={organizations.currentOrganization?.name || ''}
+        members={members.members}
+        invitations={members.invitations}
+        currentUserId={user.id}
+        canManage={members.role === 'owner'}
+        onClose={() => setIsMembersModalOpen(false)}
+        onInvite={handleInviteMember}
+        onChangeRole={handleChangeMemberRole}
+        onRemove={handleRemoveMember}
+        onRevoke={handleRevokeInvitation}
+        isLoading={members.isMutating}
+      />
+
+      {/* Change History */}
+      <HistoryPanel
+        isOpen={isHistoryOpen && organizations.canEdit}
+        undoEntries={history.undoEntries}
+        redoEntries={history.redoEntries}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onClose={() => setIsHistoryOpen(false)}
+        isBusy={history.isReplaying}
+      />
+
+      {/* Change Log */}
+      <AuditTimelineDrawer
+        isOpen={isChangeLogOpen}
+        entries={auditLog.entries}
+        employees={employees}
+        filter={auditFilter}
+        onFilterChange={setAuditFilter}
+        onClose={() => setIsChangeLogOpen(false)}
+        isLoading={auditLog.isLoading}
+      />
+
+      {/* Version History */}
+      <VersionHistoryModal
+        isOpen={isVersionsOpen}
+        versions={versionHistory.versions}
+        viewingVersionId={viewingVersion?.snapshot.id}
+        canEdit={organizations.canEdit}
+        onClose={() => setIsVersionsOpen(false)}
+        onCreate={handleCreateVersion}
+        onView={handleViewVersion}
+        onCompare={handleCompareVersion}
+        onRestore={handleRestoreVersion}
+        onDelete={handleDeleteVersion}
+        isLoading={versionHistory.isMutating}
+      />
+
+      {/* Version Comparison */}
+      <OrgDiffSidebar
+        isOpen={comparison !== null}
+        entries={orgDiff.diff?.entries || []}
+        summary={orgDiff.diff?.summary || null}
+        versions={versionHistory.versions}
+        baseVersionId={comparison?.baseVersionId || ''}
+        targetVersionId={comparison?.targetVersionId ?? null}
+        onVersionsChange={(baseVersionId, targetVersionId) => setComparison({ baseVersionId, targetVersionId })}
+        onClose={() => setComparison(null)}
+        isLoading={orgDiff.isLoading}
+      />
+
+      <ImportReviewModals chartImport={chartImport} isLoading={isLoading} />
+
+      <ExportModals chartExport={chartExport} />
     </div>
   )
 }
 
 export default function Home() {
+  const router = useRouter()
+  const { user, isLoading, logout } = useSession()
+  const { clearChart, setOrganizationId } = useChartStore()
+
+  useEffect(() => {
+    if (!isLoading && !user && router.isReady) {
+      keepInvitationForSignIn(router.query.invite)
+      router.replace('/login')
+    }
+  }, [isLoading, user, router.isReady])
+
+  const handleSignOut = async () => {
+    await logout()
+    clearChart()
+    // The next account picks from its own organizations
+    setOrganizationId('')
+    router.replace('/login')
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-base flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-text-muted" />
+      </div>
+    )
+  }
+
   return (
     <ToastProvider>
-      <HomeContent />
+      <HomeContent user={user} onSignOut={handleSignOut} />
     </ToastProvider>
   )
 }
@@ -0,0 +1,37 @@
+import { useEffect } from 'react'
+import { useRouter } from 'next/router'
+import { LoginForm } from '@ui/index'
+import { useSession } from '../hooks/useSession'
+
+export default function Login() {
+  const router = useRouter()
+  const { user, isLoading, isPending, error, login, register } = useSession()
+
+  useEffect(() => {
+    if (user) {
+      router.replace('/')
+    }
+  }, [user])
+
+  // Errors are shown by the form from the mutation state
+  const handleLogin = (credentials: { email: string; password: string }) => {
+    login(credentials).catch(() => undefined)
+  }
+
+  const handleRegister = (account: { email: string; name: string; password: string }) => {
+    register(account).catch(() => undefined)
+  }
+
+  return (
+    <div className="min-h-screen bg-base flex items-center justify-center px-4">
+      {!isLoading && !user && (
+        <LoginForm
+          onLogin={handleLogin}
+          onRegister={handleRegister}
+          isLoading={isPending}
+          error={error}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,3 +1,13 @@
+// Signs session cookies. A production server without its own secret would accept forged
+// sessions, so it refuses to start; the build step only loads the modules and is let through
+const authSecret = (): string => {
+  if (process.env.NEXTAUTH_SECRET) return process.env.NEXTAUTH_SECRET
+  if (process.env.NODE_ENV === 'production' && process.env.NEXT_PHASE !== 'phase-production-build') {
+    throw new Error('NEXTAUTH_SECRET must be set in production')
+  }
+  return 'development-secret'
+}
+
 export const config = {
   app: {
     name: 'Organization Chart Generator',
@@ -7,7 +17,14 @@ export const config = {
     baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001',
   },
   auth: {
-    secret: process.env.NEXTAUTH_SECRET || 'development-secret',
+    secret: authSecret(),
     url: process.env.NEXTAUTH_URL || 'http://localhost:3000',
+    cookieName: 'org_chart_session',
+    sessionMaxAgeSeconds: Number(process.env.SESSION_MAX_AGE_SECONDS) || 60 * 60 * 24 * 7,
+  },
+  database: {
+    // 'sqlite', 'json' or 'memory'; tests default to the in-memory store
+    driver: (process.env.DATABASE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'sqlite')) as 'sqlite' | 'json' | 'memory',
+    path: process.env.DATABASE_PATH || '.data/org-chart.db',
   },
 }
\ No newline at end of file
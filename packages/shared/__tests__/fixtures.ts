@@ -0,0 +1,17 @@
+import { Employee } from '../index'
+
+// Builds an employee for tests; everyone belongs to org1 unless a test changes it
+export const employee = (
+  id: string,
+  name: string,
+  managerId: string | null = null,
+  title = 'Engineer',
+  customFields?: Employee['customFields']
+): Employee => ({
+  id,
+  name,
+  title,
+  organizationId: 'org1',
+  managerId,
+  customFields
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { renderChartMermaid, renderChartDot, renderChartGraphml } from './chart-graph'
+import { Employee } from './index'
+import { employee } from './__tests__/fixtures'
+
+const employees = [
+  employee('1', 'Alex Morgan', null, 'CEO', { Location: 'London' }),
+  employee('2', 'Marcus "Mac" Reed', '1', 'CTO', { Location: 'Berlin', Team: 'R&D' }),
+  employee('3', 'Priya Patel', '2'),
+  employee('4', 'Dana Cole', '1', 'Unknown Title')
+]
+
+describe('renderChartMermaid', () => {
+  it('should write a top-down flowchart with escaped labels', () => {
+    const mermaid = renderChartMermaid(employees, { title: 'Acme' })
+
+    expect(mermaid.split('\n').slice(0, 4)).toEqual(['---', 'title: "Acme"', '---', 'flowchart TD'])
+    expect(mermaid).toContain('  n0["Alex Morgan<br/>CEO"]')
+    expect(mermaid).toContain('  n1["Marcus #quot;Mac#quot; Reed<br/>CTO"]')
+    expect(mermaid).toContain('  n3["Dana Cole"]')
+    expect(mermaid).toContain('  n0 --> n1')
+    expect(mermaid).toContain('  n1 --> n2')
+  })
+
+  it('should draw only the chosen subtree, down to the chosen depth', () => {
+    const mermaid = renderChartMermaid(employees, { rootId: '2', depth: 0 })
+
+    expect(mermaid).toBe('flowchart TD\n  n0["Marcus #quot;Mac#quot; Reed<br/>CTO"]\n')
+    expect(() => renderChartMermaid(employees, { rootId: 'missing' })).toThrow('Employee not found')
+  })
+
+  it('should run left to right when asked', () => {
+    expect(renderChartMermaid(employees, { leftToRight: true })).toContain('flowchart LR\n')
+    expect(renderChartDot(employees, { leftToRight: true })).toContain('  rankdir=LR;')
+  })
+})
+
+describe('renderChartDot', () => {
+  it('should write a digraph keyed on employee IDs', () => {
+    const dot = renderChartDot(employees, { title: 'Acme' })
+
+    expect(dot.startsWith('digraph "Acme" {\n')).toBe(true)
+    expect(dot).toContain('  "2" [label="Marcus \\"Mac\\" Reed\\nCTO"];')
+    expect(dot).toContain('  "1" -> "4";')
+    expect(dot.trim().endsWith('}')).toBe(true)
+  })
+
+  it('should cut the chart off below the chosen depth', () => {
+    const dot = renderChartDot(employees, { depth: 1 })
+
+    expect(dot).toContain('"1" -> "2";')
+    expect(dot).not.toContain('Priya Patel')
+  })
+})
+
+describe('renderChartGraphml', () => {
+  it('should carry custom fields as node attributes', () => {
+    const graphml = renderChartGraphml(employees)
+
+    expect(graphml).toContain('<key id="f0" for="node" attr.name="Location" attr.type="string"/>')
+    expect(graphml).toContain('<key id="f1" for="node" attr.name="Team" attr.type="string"/>')
+    expect(graphml).toContain('<data key="f1">R&amp;D</data>')
+    expect(graphml).toContain('<data key="name">Marcus &quot;Mac&quot; Reed</data>')
+    expect(graphml).toContain('<edge id="r1" source="2" target="3"/>')
+    expect(graphml.match(/<node /g)).toHaveLength(4)
+  })
+
+  it('should make the chosen root a top-level node', () => {
+    const graphml = renderChartGraphml(employees, { rootId: '2' })
+
+    expect(graphml.match(/<node /g)).toHaveLength(2)
+    expect(graphml.match(/<edge /g)).toHaveLength(1)
+    expect(graphml).toContain('<node id="3">\n      <data key="name">Priya Patel</data>\n      <data key="title">Engineer</data>\n      <data key="level">1</data>')
+  })
+})
@@ -0,0 +1,187 @@
+import { Employee } from './index'
+import { escapeXml } from './chart-svg'
+
+export interface ChartGraphOptions {
+  /** Only this person and everyone below them */
+  rootId?: string
+  /** Levels below the top to include; 1 keeps the top people and their direct reports */
+  depth?: number
+  /** Written as the graph's name */
+  title?: string
+  /** Runs the graph left to right instead of top down */
+  leftToRight?: boolean
+}
+
+interface ChartGraph {
+  employees: Employee[]
+  // Reporting lines as [manager, report] pairs, both in the graph
+  edges: Array<[Employee, Employee]>
+  // Distance from the top of the graph; people caught in a reporting cycle have none
+  levels: Map<string, number>
+}
+
+// Placeholder the import stores for people without a title
+const UNKNOWN_TITLE = 'Unknown Title'
+
+const displayTitle = (employee: Employee): string =>
+  employee.title && employee.title !== UNKNOWN_TITLE ? employee.title : ''
+
+// Picks the people and reporting lines to draw; the chosen root is drawn as a top-level person
+const selectChartGraph = (employees: Employee[], options: ChartGraphOptions): ChartGraph => {
+  const byId = new Map(employees.map(employee => [employee.id, employee] as [string, Employee]))
+  const reports = new Map<string, Employee[]>()
+  employees.forEach(employee => {
+    if (employee.managerId && byId.has(employee.managerId)) {
+      if (!reports.has(employee.managerId)) {
+        reports.set(employee.managerId, [])
+      }
+      reports.get(employee.managerId)!.push(employee)
+    }
+  })
+
+  const root = options.rootId ? byId.get(options.rootId) : undefined
+  if (options.rootId && !root) {
+    throw new Error('Employee not found')
+  }
+  const top = root ? [root] : employees.filter(employee => !employee.managerId || !byId.has(employee.managerId))
+
+  const levels = new Map<string, number>()
+  const maxLevel = options.depth ?? Infinity
+  let current = top
+  for (let level = 0; current.length > 0 && level <= maxLevel; level++) {
+    const next: Employee[] = []
+    current.forEach(employee => {
+      if (levels.has(employee.id)) return
+      levels.set(employee.id, level)
+      next.push(...(reports.get(employee.id) || []))
+    })
+    current = next
+  }
+
+  // The whole chart keeps everyone, including people a reporting cycle cuts off from the top
+  const included = root || options.depth !== undefined
+    ? employees.filter(employee => levels.has(employee.id))
+    : employees
+  const includedIds = new Set(included.map(employee => employee.id))
+
+  return {
+    employees: included,
+    edges: included
+      .filter(employee => employee !== root && employee.managerId && includedIds.has(employee.managerId))
+      .map(employee => [byId.get(employee.managerId!)!, employee] as [Employee, Employee]),
+    levels
+  }
+}
+
+// Mermaid reads entity codes in quoted labels, which keeps quotes and markup literal
+const escapeMermaid = (value: string): string =>
+  value
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\s+/g, ' ')
+
+const escapeDot = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, '\\n')
+
+/**
+ * A Mermaid flowchart, top-down, for pasting into wikis and Markdown. Node IDs are generated
+ * because Mermaid only accepts plain identifiers.
+ */
+export const renderChartMermaid = (employees: Employee[], options: ChartGraphOptions = {}): string => {
+  const graph = selectChartGraph(employees, options)
+  const nodeIds = new Map(graph.employees.map((employee, index) => [employee.id, `n${index}`] as [string, string]))
+
+  const lines: string[] = []
+  if (options.title) {
+    lines.push('---', `title: ${JSON.stringify(options.title)}`, '---')
+  }
+  lines.push(options.leftToRight ? 'flowchart LR' : 'flowchart TD')
+  graph.employees.forEach(employee => {
+    const label = [employee.name, displayTitle(employee)].filter(Boolean).map(escapeMermaid).join('<br/>')
+    lines.push(`  ${nodeIds.get(employee.id)}["${label}"]`)
+  })
+  graph.edges.forEach(([manager, report]) => {
+    lines.push(`  ${nodeIds.get(manager.id)} --> ${nodeIds.get(report.id)}`)
+  })
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * A Graphviz digraph with employee IDs as node IDs, styled like the chart's cards
+ */
+export const renderChartDot = (employees: Employee[], options: ChartGraphOptions = {}): string => {
+  const graph = selectChartGraph(employees, options)
+
+  const lines = [
+    `digraph "${escapeDot(options.title || 'Organization')}" {`,
+    `  rankdir=${options.leftToRight ? 'LR' : 'TB'};`,
+    '  node [shape=box, style="rounded,filled", fillcolor="#eff6ff", color="#3b82f6", fontname="Helvetica"];',
+    '  edge [color="#94a3b8", arrowhead=none];'
+  ]
+  graph.employees.forEach(employee => {
+    const label = [employee.name, displayTitle(employee)].filter(Boolean).map(escapeDot).join('\\n')
+    lines.push(`  "${escapeDot(employee.id)}" [label="${label}"];`)
+  })
+  graph.edges.forEach(([manager, report]) => {
+    lines.push(`  "${escapeDot(manager.id)}" -> "${escapeDot(report.id)}";`)
+  })
+  lines.push('}')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * A GraphML document for graph analysis tools. Name, title, level and every custom field
+ * become node attributes; reporting lines are directed from manager to report.
+ */
+export const renderChartGraphml = (employees: Employee[], options: ChartGraphOptions = {}): string => {
+  const graph = selectChartGraph(employees, options)
+
+  // Custom fields in the order they first appear, each under its own key
+  const fields: string[] = []
+  graph.employees.forEach(employee => {
+    Object.keys(employee.customFields || {}).forEach(field => {
+      if (!fields.includes(field)) fields.push(field)
+    })
+  })
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+    '  <key id="level" for="node" attr.name="level" attr.type="int"/>',
+    ...fields.map((field, index) => `  <key id="f${index}" for="node" attr.name="${escapeXml(field)}" attr.type="string"/>`),
+    `  <graph id="${escapeXml(options.title || 'organization')}" edgedefault="directed">`
+  ]
+
+  graph.employees.forEach(employee => {
+    const customFields = employee.customFields || {}
+    const level = graph.levels.get(employee.id)
+    lines.push(`    <node id="${escapeXml(employee.id)}">`)
+    lines.push(`      <data key="name">${escapeXml(employee.name)}</data>`)
+    if (displayTitle(employee)) {
+      lines.push(`      <data key="title">${escapeXml(employee.title)}</data>`)
+    }
+    if (level !== undefined) {
+      lines.push(`      <data key="level">${level}</data>`)
+    }
+    fields.forEach((field, index) => {
+      const value = customFields[field]
+      if (value !== undefined && value !== null && value !== '') {
+        lines.push(`      <data key="f${index}">${escapeXml(typeof value === 'object' ? JSON.stringify(value) : String(value))}</data>`)
+      }
+    })
+    lines.push('    </node>')
+  })
+  graph.edges.forEach(([manager, report], index) => {
+    lines.push(`    <edge id="r${index}" source="${escapeXml(manager.id)}" target="${escapeXml(report.id)}"/>`)
+  })
+
+  lines.push('  </graph>', '</graphml>')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CHART_NODE_WIDTH,
+  CHART_NODE_HEIGHT,
+  ChartNode,
+  buildChartTree,
+  calculateChartLayout,
+  calculateChartPositions,
+  flattenChartNodes,
+  getChartConnectionPath,
+  getChartConnections
+} from './chart-layout'
+import { Employee } from './index'
+
+const employee = (id: string, managerId: string | null = null): Employee => ({
+  id,
+  name: `Person ${id}`,
+  title: 'Engineer',
+  organizationId: 'org1',
+  managerId
+})
+
+// A CEO with a manager of two engineers, and a second manager of one
+const employees = [
+  employee('ceo'),
+  employee('m1', 'ceo'),
+  employee('e1', 'm1'),
+  employee('e2', 'm1'),
+  employee('m2', 'ceo'),
+  employee('e3', 'm2')
+]
+
+const positions = (nodes: ChartNode[]) => {
+  const byId: Record<string, { x: number; y: number }> = {}
+  flattenChartNodes(nodes).forEach(node => { byId[node.id] = { x: node.x, y: node.y } })
+  return byId
+}
+
+const overlaps = (nodes: ChartNode[]) => {
+  const flat = flattenChartNodes(nodes)
+  return flat.some((a, i) => flat.slice(i + 1).some(b =>
+    Math.abs(a.x - b.x) < CHART_NODE_WIDTH && Math.abs(a.y - b.y) < CHART_NODE_HEIGHT
+  ))
+}
+
+describe('calculateChartLayout', () => {
+  it('should keep the row-wrapping tree as the top-down layout', () => {
+    const tree = buildChartTree(employees)
+
+    expect(calculateChartLayout(tree)).toEqual(calculateChartPositions(tree))
+  })
+
+  it('should turn levels into columns for the left-to-right layout', () => {
+    const layout = calculateChartLayout(buildChartTree(employees), 'left-right')
+    const at = positions(layout)
+
+    expect(at.ceo.x).toBe(0)
+    expect(at.m1.x).toBe(280)
+    expect(at.e1.x).toBe(560)
+    expect(at.m1.y).toBe((at.e1.y + at.e2.y) / 2)
+    expect(overlaps(layout)).toBe(false)
+  })
+
+  it('should stack teams of individual contributors under their manager in the compact layout', () => {
+    const layout = calculateChartLayout(buildChartTree(employees), 'compact')
+    const at = positions(layout)
+    const nodes = flattenChartNodes(layout)
+
+    expect(at.e1).toEqual({ x: at.m1.x + 40, y: at.m1.y + 120 })
+    expect(at.e2).toEqual({ x: at.m1.x + 40, y: at.m1.y + 220 })
+    expect(nodes.filter(node => node.isStacked).map(node => node.id)).toEqual(['e1', 'e2', 'e3'])
+    expect(overlaps(layout)).toBe(false)
+  })
+
+  it('should place each level on a wider ring around the top of the radial layout', () => {
+    const layout = calculateChartLayout(buildChartTree(employees), 'radial')
+    const nodes = flattenChartNodes(layout)
+    const [ceo] = layout
+    const distance = (node: ChartNode) => Math.hypot(node.x - ceo.x, node.y - ceo.y)
+
+    const ring1 = nodes.filter(node => node.level === 1).map(distance)
+    const ring2 = nodes.filter(node => node.level === 2).map(distance)
+    expect(Math.max(...ring1) - Math.min(...ring1)).toBeLessThan(2)
+    expect(Math.min(...ring2)).toBeGreaterThan(Math.max(...ring1))
+    expect(Math.min(...nodes.map(node => node.x))).toBe(0)
+    expect(overlaps(layout)).toBe(false)
+  })
+
+  it('should list one person per row, indented by level, in the outline layout', () => {
+    const layout = calculateChartLayout(buildChartTree(employees), 'outline')
+    const nodes = flattenChartNodes(layout)
+
+    expect(nodes.map(node => node.id)).toEqual(['ceo', 'm1', 'e1', 'e2', 'm2', 'e3'])
+    expect(nodes.map(node => node.x)).toEqual([0, 40, 80, 80, 40, 80])
+    expect(nodes.map(node => node.y)).toEqual([50, 150, 250, 350, 450, 550])
+  })
+})
+
+describe('getChartConnectionPath', () => {
+  it('should shape reporting lines for the layout', () => {
+    const connection = (layout: 'top-down' | 'left-right' | 'outline') =>
+      getChartConnections(calculateChartLayout(buildChartTree([employee('ceo'), employee('e1', 'ceo')]), layout))[0]
+
+    expect(getChartConnectionPath(connection('top-down'))).toBe('M 100 130 L 100 150 L 100 150 L 100 170')
+    expect(getChartConnectionPath(connection('left-right'), 'left-right')).toBe('M 200 90 L 240 90 L 240 90 L 280 90')
+    // Down the manager's left edge and across into the report
+    expect(getChartConnectionPath(connection('outline'), 'outline')).toBe('M 20 130 L 20 190 L 40 190')
+  })
+})
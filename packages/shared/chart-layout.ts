@@ -0,0 +1,480 @@
+import { ChartLayout, Employee } from './index'
+
+export interface ChartNode {
+  id: string
+  name: string
+  title: string
+  children: ChartNode[]
+  level: number
+  x: number
+  y: number
+  isCollapsed?: boolean
+  // Set by the compact and outline layouts on reports listed under their manager's left edge
+  isStacked?: boolean
+}
+
+export interface ChartConnection {
+  from: ChartNode
+  to: ChartNode
+}
+
+export const CHART_NODE_WIDTH = 200
+export const CHART_NODE_HEIGHT = 80
+const LEVEL_HEIGHT = 120
+const SIBLING_SPACING = 40
+const MAX_CHILDREN_PER_ROW = 5 // Wrap to new row after this many children
+const COLUMN_SPACING = 80 // Gap between levels when the chart runs left to right
+const STACK_INDENT = 40 // How far stacked and outlined reports sit right of their manager
+const STACK_SPACING = 20 // Gap between cards in a column
+
+// Layouts the viewer offers, in the order it lists them
+export const CHART_LAYOUTS: ChartLayout[] = ['top-down', 'left-right', 'compact', 'radial', 'outline']
+
+// Build tree structure from flat employee array; collapsed nodes keep no children
+export const buildChartTree = (employees: Employee[], collapsedIds: Set<string> = new Set()): ChartNode[] => {
+  const childrenMap = new Map<string, Employee[]>()
+
+  employees.forEach(emp => {
+    if (emp.managerId) {
+      if (!childrenMap.has(emp.managerId)) {
+        childrenMap.set(emp.managerId, [])
+      }
+      childrenMap.get(emp.managerId)!.push(emp)
+    }
+  })
+
+  // Build tree recursively
+  const buildNode = (employee: Employee, level: number): ChartNode => {
+    const children = childrenMap.get(employee.id) || []
+    const isCollapsed = collapsedIds.has(employee.id)
+    return {
+      id: employee.id,
+      name: employee.name,
+      title: employee.title,
+      level,
+      x: 0,
+      y: 0,
+      isCollapsed,
+      children: isCollapsed ? [] : children.map(child => buildNode(child, level + 1))
+    }
+  }
+
+  // Find root employees (those without managers)
+  const rootEmployees = employees.filter(emp => !emp.managerId)
+  return rootEmployees.map(emp => buildNode(emp, 0))
+}
+
+// Calculate node positions with row wrapping for many direct reports
+export const calculateChartPositions = (nodes: ChartNode[]): ChartNode[] => {
+  // Split children into rows
+  const splitIntoRows = (children: ChartNode[]): ChartNode[][] => {
+    if (children.length <= MAX_CHILDREN_PER_ROW) return [children]
+    const rows: ChartNode[][] = []
+    for (let i = 0; i < children.length; i += MAX_CHILDREN_PER_ROW) {
+      rows.push(children.slice(i, i + MAX_CHILDREN_PER_ROW))
+    }
+    return rows
+  }
+
+  // Calculate subtree width recursively (always accounts for children's subtrees)
+  const calculateSubtreeWidth = (node: ChartNode): number => {
+    if (node.children.length === 0) return CHART_NODE_WIDTH
+
+    const rows = splitIntoRows(node.children)
+
+    // For each row, sum the subtree widths of children in that row
+    const rowWidths = rows.map(row => {
+      const childrenWidth = row.reduce((sum, child) =>
+        sum + calculateSubtreeWidth(child), 0
+      )
+      const spacingWidth = (row.length - 1) * SIBLING_SPACING
+      return childrenWidth + spacingWidth
+    })
+
+    // Subtree width is the max row width
+    return Math.max(CHART_NODE_WIDTH, Math.max(...rowWidths))
+  }
+
+  // Calculate subtree height (number of levels deep, accounting for row wrapping)
+  const calculateSubtreeHeight = (node: ChartNode): number => {
+    if (node.children.length === 0) return 1
+
+    const rows = splitIntoRows(node.children)
+    const numRows = rows.length
+
+    // Get max height among all children
+    const maxChildHeight = Math.max(...node.children.map(child => calculateSubtreeHeight(child)))
+
+    // Height = 1 (this node) + (numRows - 1) for extra wrapped rows + max child subtree height
+    return 1 + (numRows - 1) + maxChildHeight
+  }
+
+  // Calculate the vertical offset needed for a row based on previous rows' subtree depths
+  const calculateRowYOffset = (rows: ChartNode[][], rowIndex: number): number => {
+    if (rowIndex === 0) return 0
+
+    let offset = 0
+    for (let i = 0; i < rowIndex; i++) {
+      // For each previous row, find the max subtree height
+      const maxSubtreeHeight = Math.max(...rows[i].map(child => calculateSubtreeHeight(child)))
+      // Add enough space for that subtree plus some padding
+      offset += maxSubtreeHeight * LEVEL_HEIGHT
+    }
+    return offset
+  }
+
+  // Store y-offsets for nodes to handle wrapped rows
+  const nodeYOffsets = new Map<string, number>()
+
+  // First pass: calculate y-offsets for all nodes with dynamic row spacing
+  const calculateYOffsets = (nodes: ChartNode[], parentYOffset: number): void => {
+    nodes.forEach(node => {
+      nodeYOffsets.set(node.id, parentYOffset)
+
+      const rows = splitIntoRows(node.children)
+      rows.forEach((row, rowIndex) => {
+        const childYOffset = parentYOffset + calculateRowYOffset(rows, rowIndex)
+        row.forEach(child => {
+          nodeYOffsets.set(child.id, childYOffset)
+          calculateYOffsets([child], childYOffset)
+        })
+      })
+    })
+  }
+
+  // Position a single node and its children recursively
+  const positionNode = (node: ChartNode, nodeX: number, startY: number): ChartNode => {
+    const yOffset = nodeYOffsets.get(node.id) || 0
+    const nodeY = startY + node.level * LEVEL_HEIGHT + yOffset
+
+    const rows = splitIntoRows(node.children)
+    const positionedChildren: ChartNode[] = []
+
+    if (node.children.length === 0) {
+      // No children - nothing to position
+    } else {
+      // Position each row of children, accounting for subtree widths
+      const parentCenterX = nodeX + CHART_NODE_WIDTH / 2
+
+      rows.forEach((row) => {
+        // Calculate actual row width based on subtrees
+        const rowSubtreeWidth = row.reduce((sum, child) =>
+          sum + calculateSubtreeWidth(child), 0
+        ) + (row.length - 1) * SIBLING_SPACING
+
+        let childX = parentCenterX - rowSubtreeWidth / 2
+
+        row.forEach(child => {
+          const childSubtreeWidth = calculateSubtreeWidth(child)
+          const childNodeX = childX + childSubtreeWidth / 2 - CHART_NODE_WIDTH / 2
+          const positionedChild = positionNode(child, childNodeX, startY)
+          positionedChildren.push(positionedChild)
+          childX += childSubtreeWidth + SIBLING_SPACING
+        })
+      })
+    }
+
+    return {
+      ...node,
+      x: nodeX,
+      y: nodeY,
+      children: positionedChildren
+    }
+  }
+
+  const positionNodes = (nodes: ChartNode[], startX: number, startY: number): ChartNode[] => {
+    let currentX = startX
+
+    return nodes.map(node => {
+      const subtreeWidth = calculateSubtreeWidth(node)
+      const nodeX = currentX + subtreeWidth / 2 - CHART_NODE_WIDTH / 2
+      const positionedNode = positionNode(node, nodeX, startY)
+      currentX += subtreeWidth + SIBLING_SPACING
+      return positionedNode
+    })
+  }
+
+  // First pass: calculate y-offsets
+  calculateYOffsets(nodes, 0)
+
+  // Second pass: position nodes
+  return positionNodes(nodes, 0, 50)
+}
+
+// Levels become columns; each person sits level with the middle of their reports
+const calculateLeftRightPositions = (nodes: ChartNode[]): ChartNode[] => {
+  let nextLeafY = 50
+
+  const positionNode = (node: ChartNode): ChartNode => {
+    const x = node.level * (CHART_NODE_WIDTH + COLUMN_SPACING)
+    if (node.children.length === 0) {
+      const y = nextLeafY
+      nextLeafY += CHART_NODE_HEIGHT + STACK_SPACING
+      return { ...node, x, y }
+    }
+
+    const children = node.children.map(positionNode)
+    const y = (children[0].y + children[children.length - 1].y) / 2
+    return { ...node, x, y, children }
+  }
+
+  return nodes.map(node => {
+    const positionedNode = positionNode(node)
+    nextLeafY += SIBLING_SPACING
+    return positionedNode
+  })
+}
+
+// Top-down, except that teams of individual contributors stack in a column under their
+// manager rather than spreading into a row
+const calculateCompactPositions = (nodes: ChartNode[]): ChartNode[] => {
+  const isLeafTeam = (node: ChartNode) =>
+    node.children.length > 0 && node.children.every(child => child.children.length === 0)
+
+  const calculateSubtreeWidth = (node: ChartNode): number => {
+    if (node.children.length === 0) return CHART_NODE_WIDTH
+    if (isLeafTeam(node)) return STACK_INDENT + CHART_NODE_WIDTH
+
+    const rowWidth = node.children.reduce((sum, child) => sum + calculateSubtreeWidth(child), 0) +
+      (node.children.length - 1) * SIBLING_SPACING
+    return Math.max(CHART_NODE_WIDTH, rowWidth)
+  }
+
+  const positionNode = (node: ChartNode, left: number, y: number): ChartNode => {
+    if (isLeafTeam(node)) {
+      return {
+        ...node,
+        x: left,
+        y,
+        children: node.children.map((child, index) => ({
+          ...child,
+          x: left + STACK_INDENT,
+          y: y + LEVEL_HEIGHT + index * (CHART_NODE_HEIGHT + STACK_SPACING),
+          isStacked: true
+        }))
+      }
+    }
+
+    const subtreeWidth = calculateSubtreeWidth(node)
+    const rowWidth = node.children.reduce((sum, child) => sum + calculateSubtreeWidth(child), 0) +
+      (node.children.length - 1) * SIBLING_SPACING
+    let childLeft = left + (subtreeWidth - rowWidth) / 2
+
+    const children = node.children.map(child => {
+      const positionedChild = positionNode(child, childLeft, y + LEVEL_HEIGHT)
+      childLeft += calculateSubtreeWidth(child) + SIBLING_SPACING
+      return positionedChild
+    })
+
+    return { ...node, x: left + subtreeWidth / 2 - CHART_NODE_WIDTH / 2, y, children }
+  }
+
+  let currentX = 0
+  return nodes.map(node => {
+    const positionedNode = positionNode(node, currentX, 50)
+    currentX += calculateSubtreeWidth(node) + SIBLING_SPACING
+    return positionedNode
+  })
+}
+
+// Rings around the top of the chart, one per level. Everyone gets a slice of their manager's
+// angle in proportion to the people at the ends of their branch
+const calculateRadialPositions = (nodes: ChartNode[]): ChartNode[] => {
+  const leafCounts = new Map<string, number>()
+  const countLeaves = (node: ChartNode): number => {
+    const count = node.children.length === 0 ? 1 : node.children.reduce((sum, child) => sum + countLeaves(child), 0)
+    leafCounts.set(node.id, count)
+    return count
+  }
+  const totalLeaves = nodes.reduce((sum, node) => sum + countLeaves(node), 0)
+
+  // Several top-level people share the first ring around an empty centre
+  const firstRing = nodes.length > 1 ? 1 : 0
+
+  // First pass: the middle of each slice, and the narrowest slice on each ring
+  const angles = new Map<string, number>()
+  const narrowestSlice: number[] = []
+  const assignAngles = (node: ChartNode, start: number, slice: number) => {
+    const ring = node.level + firstRing
+    angles.set(node.id, start + slice / 2)
+    narrowestSlice[ring] = Math.min(narrowestSlice[ring] === undefined ? Infinity : narrowestSlice[ring], slice)
+
+    let childStart = start
+    node.children.forEach(child => {
+      const childSlice = slice * leafCounts.get(child.id)! / leafCounts.get(node.id)!
+      assignAngles(child, childStart, childSlice)
+      childStart += childSlice
+    })
+  }
+  let start = -Math.PI / 2
+  nodes.forEach(node => {
+    const slice = 2 * Math.PI * leafCounts.get(node.id)! / totalLeaves
+    assignAngles(node, start, slice)
+    start += slice
+  })
+
+  // Each ring is far enough out for neighbouring cards on it not to overlap
+  const radii = [0]
+  for (let ring = 1; ring < narrowestSlice.length; ring++) {
+    const chord = 2 * Math.sin(Math.min(narrowestSlice[ring], Math.PI) / 2)
+    radii[ring] = Math.max(radii[ring - 1] + CHART_NODE_WIDTH + COLUMN_SPACING, (CHART_NODE_WIDTH + SIBLING_SPACING) / chord)
+  }
+
+  const centred = (node: ChartNode): ChartNode => {
+    const radius = radii[node.level + firstRing]
+    const angle = angles.get(node.id)!
+    return {
+      ...node,
+      x: Math.round(radius * Math.cos(angle)),
+      y: Math.round(radius * Math.sin(angle)),
+      children: node.children.map(centred)
+    }
+  }
+  const positioned = nodes.map(centred)
+
+  // Move the chart to where the other layouts start
+  const flat = flattenChartNodes(positioned)
+  const minX = Math.min(...flat.map(node => node.x))
+  const minY = Math.min(...flat.map(node => node.y))
+  const shift = (node: ChartNode): ChartNode => ({
+    ...node,
+    x: node.x - minX,
+    y: node.y - minY + 50,
+    children: node.children.map(shift)
+  })
+  return positioned.map(shift)
+}
+
+// One row per person in reading order, indented by level
+const calculateOutlinePositions = (nodes: ChartNode[]): ChartNode[] => {
+  let nextY = 50
+
+  const positionNode = (node: ChartNode): ChartNode => {
+    const y = nextY
+    nextY += CHART_NODE_HEIGHT + STACK_SPACING
+    return {
+      ...node,
+      x: node.level * STACK_INDENT,
+      y,
+      isStacked: node.level > 0,
+      children: node.children.map(positionNode)
+    }
+  }
+
+  return nodes.map(positionNode)
+}
+
+// Position nodes with one of the viewer's layouts
+export const calculateChartLayout = (nodes: ChartNode[], layout: ChartLayout = 'top-down'): ChartNode[] => {
+  switch (layout) {
+    case 'left-right':
+      return calculateLeftRightPositions(nodes)
+    case 'compact':
+      return calculateCompactPositions(nodes)
+    case 'radial':
+      return calculateRadialPositions(nodes)
+    case 'outline':
+      return calculateOutlinePositions(nodes)
+    default:
+      return calculateChartPositions(nodes)
+  }
+}
+
+export interface ChartSection {
+  roots: ChartNode[]
+  width: number
+  height: number
+}
+
+// Positions part of a chart on its own, the way export pages and slides show it: people more than
+// `depth` levels below the roots are left off and the section starts at 0, 0. Nodes keep their
+// level in the whole chart, so they are colored the same as in the viewer
+export const calculateChartSection = (roots: ChartNode[], layout: ChartLayout = 'top-down', depth = Infinity): ChartSection => {
+  const chartLevels = new Map<string, number>()
+  const trim = (node: ChartNode, level: number): ChartNode => {
+    chartLevels.set(node.id, node.level)
+    return { ...node, level, children: level < depth ? node.children.map(child => trim(child, level + 1)) : [] }
+  }
+
+  const positioned = calculateChartLayout(roots.map(root => trim(root, 0)), layout)
+  const nodes = flattenChartNodes(positioned)
+  if (nodes.length === 0) {
+    return { roots: [], width: 0, height: 0 }
+  }
+
+  const minX = Math.min(...nodes.map(node => node.x))
+  const minY = Math.min(...nodes.map(node => node.y))
+  const place = (node: ChartNode): ChartNode => ({
+    ...node,
+    level: chartLevels.get(node.id)!,
+    x: node.x - minX,
+    y: node.y - minY,
+    children: node.children.map(place)
+  })
+
+  return {
+    roots: positioned.map(place),
+    width: Math.max(...nodes.map(node => node.x)) - minX + CHART_NODE_WIDTH,
+    height: Math.max(...nodes.map(node => node.y)) - minY + CHART_NODE_HEIGHT
+  }
+}
+
+// Get all nodes in flat array for rendering
+export const flattenChartNodes = (nodes: ChartNode[]): ChartNode[] => {
+  const result: ChartNode[] = []
+  const traverse = (node: ChartNode) => {
+    result.push(node)
+    node.children.forEach(traverse)
+  }
+  nodes.forEach(traverse)
+  return result
+}
+
+// Get connections between nodes
+export const getChartConnections = (nodes: ChartNode[]): ChartConnection[] => {
+  const connections: ChartConnection[] = []
+  const traverse = (node: ChartNode) => {
+    node.children.forEach(child => {
+      connections.push({ from: node, to: child })
+      traverse(child)
+    })
+  }
+  nodes.forEach(traverse)
+  return connections
+}
+
+// Corner points of a reporting line, shaped to suit the layout the nodes were positioned with
+export const getChartConnectionPoints = ({ from, to }: ChartConnection, layout: ChartLayout = 'top-down'): Array<[number, number]> => {
+  if (to.isStacked) {
+    // Down a spine inside the manager's left edge, then across into the report
+    const spineX = from.x + STACK_INDENT / 2
+    const toY = to.y + CHART_NODE_HEIGHT / 2
+    return [[spineX, from.y + CHART_NODE_HEIGHT], [spineX, toY], [to.x, toY]]
+  }
+
+  switch (layout) {
+    case 'left-right': {
+      const fromX = from.x + CHART_NODE_WIDTH
+      const fromY = from.y + CHART_NODE_HEIGHT / 2
+      const toY = to.y + CHART_NODE_HEIGHT / 2
+      const verticalX = fromX + COLUMN_SPACING / 2
+      return [[fromX, fromY], [verticalX, fromY], [verticalX, toY], [to.x, toY]]
+    }
+    case 'radial':
+      // Centre to centre; the cards are drawn over the ends
+      return [[from.x + CHART_NODE_WIDTH / 2, from.y + CHART_NODE_HEIGHT / 2], [to.x + CHART_NODE_WIDTH / 2, to.y + CHART_NODE_HEIGHT / 2]]
+    default: {
+      const fromX = from.x + CHART_NODE_WIDTH / 2
+      const fromY = from.y + CHART_NODE_HEIGHT
+      const toX = to.x + CHART_NODE_WIDTH / 2
+      const horizontalY = fromY + 20
+      return [[fromX, fromY], [fromX, horizontalY], [toX, horizontalY], [toX, to.y]]
+    }
+  }
+}
+
+// SVG path data for a reporting line
+export const getChartConnectionPath = (connection: ChartConnection, layout: ChartLayout = 'top-down'): string =>
+  getChartConnectionPoints(connection, layout)
+    .map(([x, y], index) => `${index === 0 ? 'M' : 'L'} ${x} ${y}`)
+    .join(' ')
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { useChartStore } from './chart-store'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useChartStore, HISTORY_LIMIT } from './chart-store'
 import { Employee } from './index'
 
 const mockChartData = {
@@ -221,6 +221,51 @@ describe('ChartStore', () => {
     expect(state.isLoading).toBe(false) // Error sets loading to false
   })
 
+  describe('updateEmployee', () => {
+    beforeEach(() => {
+      useChartStore.getState().setChartData(mockChartData)
+    })
+
+    it('updates name and title while keeping custom fields', () => {
+      useChartStore.getState().updateEmployee('2', { name: 'Jane Doe', title: 'VP Engineering' })
+
+      const employee = useChartStore.getState().chartData!.employees.find(emp => emp.id === '2')
+      expect(employee).toMatchObject({ name: 'Jane Doe', title: 'VP Engineering', managerId: '1' })
+    })
+
+    it('replaces custom fields when given', () => {
+      useChartStore.getState().updateEmployee('2', { name: 'Jane Smith', title: 'CTO', customFields: { Team: 'Platform' } })
+
+      const employee = useChartStore.getState().chartData!.employees.find(emp => emp.id === '2')
+      expect(employee!.customFields).toEqual({ Team: 'Platform' })
+    })
+  })
+
+  describe('removeEmployee', () => {
+    beforeEach(() => {
+      useChartStore.getState().setChartData(mockChartData)
+    })
+
+    it('removes the employee and applies report updates', () => {
+      const vacancy = { id: 'v1', name: 'Vacant', title: 'CEO', organizationId: 'org1', managerId: null }
+
+      useChartStore.getState().removeEmployee('1', [vacancy, { ...mockChartData.employees[1], managerId: 'v1' }])
+
+      const state = useChartStore.getState()
+      expect(state.chartData!.employees.map(emp => [emp.id, emp.managerId])).toEqual([['2', 'v1'], ['v1', null]])
+      expect(state.chartData!.rootEmployees.map(emp => emp.id)).toEqual(['v1'])
+      expect(state.chartData!.statistics.totalEmployees).toBe(2)
+    })
+
+    it('counts reports left without a manager as roots', () => {
+      useChartStore.getState().removeEmployee('1', [{ ...mockChartData.employees[1], managerId: null }])
+
+      const state = useChartStore.getState()
+      expect(state.chartData!.rootEmployees.map(emp => emp.id)).toEqual(['2'])
+      expect(state.chartData!.orphanedEmployees).toEqual([])
+    })
+  })
+
   describe('updateEmployeeManager', () => {
     beforeEach(() => {
       // Set up initial chart data for manager update tests
@@ -484,4 +529,150 @@ describe('ChartStore', () => {
       })
     })
   })
+
+  describe('dismissManagerMatch', () => {
+    it('removes the reviewed match and keeps the others', () => {
+      const { setChartData, dismissManagerMatch } = useChartStore.getState()
+      const match = (employeeId: string) => ({
+        employeeId,
+        employeeName: `Employee ${employeeId}`,
+        managerReference: 'Jon Doe',
+        candidates: [{ employeeId: '1', name: 'John Doe', score: 0.9 }]
+      })
+      setChartData({
+        ...mockChartData,
+        reconciliation: { autoApplied: [], needsReview: [match('2'), match('3')] }
+      })
+
+      dismissManagerMatch('2')
+
+      const state = useChartStore.getState()
+      expect(state.chartData!.reconciliation!.needsReview.map(item => item.employeeId)).toEqual(['3'])
+    })
+
+    it('does nothing when there is no reconciliation report', () => {
+      const { setChartData, dismissManagerMatch } = useChartStore.getState()
+      setChartData(mockChartData)
+
+      dismissManagerMatch('2')
+
+      expect(useChartStore.getState().chartData!.reconciliation).toBeUndefined()
+    })
+  })
+
+  it('should clear the chart when switching organizations', () => {
+    useChartStore.getState().setChartData(mockChartData)
+
+    useChartStore.getState().setOrganizationId('org2')
+
+    expect(useChartStore.getState().organizationId).toBe('org2')
+    expect(useChartStore.getState().chartData).toBeNull()
+  })
+
+  it('should keep the chart when selecting the current organization again', () => {
+    useChartStore.getState().setOrganizationId('org1')
+    useChartStore.getState().setChartData(mockChartData)
+
+    useChartStore.getState().setOrganizationId('org1')
+
+    expect(useChartStore.getState().chartData).toEqual(mockChartData)
+  })
+
+  describe('history', () => {
+    // Mirrors how the app records a move: apply it locally now, replay it in either direction later
+    const recordMove = (employeeId: string, from: string | null, to: string | null) => {
+      const { updateEmployeeManager, recordChange } = useChartStore.getState()
+      updateEmployeeManager(employeeId, to)
+      recordChange({
+        label: `Moved ${employeeId}`,
+        undo: async () => useChartStore.getState().updateEmployeeManager(employeeId, from),
+        redo: async () => useChartStore.getState().updateEmployeeManager(employeeId, to)
+      })
+    }
+
+    const managerOf = (employeeId: string) =>
+      useChartStore.getState().chartData!.employees.find(emp => emp.id === employeeId)!.managerId
+
+    beforeEach(() => {
+      useChartStore.getState().setChartData(mockChartData)
+    })
+
+    it('undoes and redoes recorded changes in order', async () => {
+      recordMove('2', '1', null)
+
+      const undone = await useChartStore.getState().undo()
+      expect(undone?.label).toBe('Moved 2')
+      expect(managerOf('2')).toBe('1')
+      expect(useChartStore.getState().undoStack).toHaveLength(0)
+      expect(useChartStore.getState().redoStack).toHaveLength(1)
+
+      await useChartStore.getState().redo()
+      expect(managerOf('2')).toBeNull()
+      expect(useChartStore.getState().undoStack).toHaveLength(1)
+      expect(useChartStore.getState().redoStack).toHaveLength(0)
+    })
+
+    it('returns null when there is nothing to undo or redo', async () => {
+      expect(await useChartStore.getState().undo()).toBeNull()
+      expect(await useChartStore.getState().redo()).toBeNull()
+    })
+
+    it('drops redo entries once a new change is recorded', async () => {
+      recordMove('2', '1', null)
+      await useChartStore.getState().undo()
+
+      recordMove('1', null, '2')
+
+      expect(useChartStore.getState().redoStack).toHaveLength(0)
+      expect(useChartStore.getState().undoStack.map(entry => entry.label)).toEqual(['Moved 1'])
+    })
+
+    it('keeps an entry in place when its undo fails', async () => {
+      useChartStore.getState().recordChange({
+        label: 'Renamed 2',
+        undo: vi.fn().mockRejectedValue(new Error('Network error')),
+        redo: vi.fn()
+      })
+
+      await expect(useChartStore.getState().undo()).rejects.toThrow('Network error')
+
+      const state = useChartStore.getState()
+      expect(state.undoStack).toHaveLength(1)
+      expect(state.redoStack).toHaveLength(0)
+      expect(state.isReplayingHistory).toBe(false)
+    })
+
+    it('ignores changes recorded while an entry is being replayed', async () => {
+      useChartStore.getState().recordChange({
+        label: 'Added 3',
+        undo: async () => useChartStore.getState().recordChange({ label: 'Nested', undo: vi.fn(), redo: vi.fn() }),
+        redo: vi.fn()
+      })
+
+      await useChartStore.getState().undo()
+
+      expect(useChartStore.getState().undoStack).toHaveLength(0)
+      expect(useChartStore.getState().redoStack.map(entry => entry.label)).toEqual(['Added 3'])
+    })
+
+    it('caps the undo stack at the history limit', () => {
+      for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+        useChartStore.getState().recordChange({ label: `Change ${i}`, undo: vi.fn(), redo: vi.fn() })
+      }
+
+      const { undoStack } = useChartStore.getState()
+      expect(undoStack).toHaveLength(HISTORY_LIMIT)
+      expect(undoStack[0].label).toBe('Change 5')
+    })
+
+    it('forgets the history when another chart is loaded or the chart is cleared', () => {
+      recordMove('2', '1', null)
+      useChartStore.getState().setChartData(mockChartData)
+      expect(useChartStore.getState().undoStack).toHaveLength(0)
+
+      recordMove('2', '1', null)
+      useChartStore.getState().clearChart()
+      expect(useChartStore.getState().undoStack).toHaveLength(0)
+    })
+  })
 })
\ No newline at end of file
@@ -1,7 +1,19 @@
 import { create } from 'zustand'
 import { Employee } from './index'
 
+export interface ManagerMatchReport {
+  employeeId: string
+  employeeName: string
+  managerReference: string
+  candidates: Array<{
+    employeeId: string
+    name: string
+    score: number
+  }>
+}
+
 export interface ChartData {
+  organizationId?: string
   employees: Employee[]
   hierarchy: any
   rootEmployees: Employee[]
@@ -22,8 +34,40 @@ export interface ChartData {
     orphanedEmployees: number
     totalErrors: number
   }
+  encoding?: {
+    encoding: string
+    confidence: number
+    source: 'bom' | 'heuristic' | 'override'
+    hasBom: boolean
+  } | null
+  worksheets?: {
+    used: string[]
+    skipped: string[]
+  } | null
+  reconciliation?: {
+    autoApplied: ManagerMatchReport[]
+    needsReview: ManagerMatchReport[]
+  }
+}
+
+/**
+ * A chart edit that can be reverted and applied again. Both directions update the
+ * store and issue the API call that brings the server back in line.
+ */
+export interface ChartHistoryCommand {
+  label: string
+  undo: () => Promise<void>
+  redo: () => Promise<void>
 }
 
+export interface ChartHistoryEntry extends ChartHistoryCommand {
+  id: string
+  timestamp: Date
+}
+
+// Older entries are dropped once the undo stack grows past this
+export const HISTORY_LIMIT = 100
+
 interface ChartState {
   chartData: ChartData | null
   isLoading: boolean
@@ -32,6 +76,10 @@ interface ChartState {
   fileName: string | null
   isSaving: boolean
   saveError: string | null
+  organizationId: string
+  undoStack: ChartHistoryEntry[]
+  redoStack: ChartHistoryEntry[]
+  isReplayingHistory: boolean
   
   // Actions
   setChartData: (data: ChartData) => void
@@ -40,12 +88,21 @@ interface ChartState {
   setFileInfo: (fileUrl: string, fileName: string) => void
   clearChart: () => void
   updateEmployeeManager: (employeeId: string, newManagerId: string | null) => void
-  updateEmployee: (employeeId: string, updatedData: { name: string; title: string }) => void
+  updateEmployee: (employeeId: string, updatedData: { name: string; title: string; customFields?: Record<string, any> }) => void
   addEmployee: (employee: Employee) => void
+  removeEmployee: (employeeId: string, updatedEmployees: Employee[]) => void
+  dismissManagerMatch: (employeeId: string) => void
   setSaving: (saving: boolean) => void
   setSaveError: (error: string | null) => void
+  setOrganizationId: (organizationId: string) => void
+  recordChange: (command: ChartHistoryCommand) => void
+  undo: () => Promise<ChartHistoryEntry | null>
+  redo: () => Promise<ChartHistoryEntry | null>
+  clearHistory: () => void
 }
 
+let nextHistoryId = 1
+
 export const useChartStore = create<ChartState>((set, get) => ({
   chartData: null,
   isLoading: false,
@@ -54,8 +111,14 @@ export const useChartStore = create<ChartState>((set, get) => ({
   fileName: null,
   isSaving: false,
   saveError: null,
+  // Empty until the organization list has loaded and one is selected
+  organizationId: '',
+  undoStack: [],
+  redoStack: [],
+  isReplayingHistory: false,
   
-  setChartData: (data) => set({ chartData: data, error: null }),
+  // A freshly loaded or imported chart replaces every employee the history refers to
+  setChartData: (data) => set({ chartData: data, error: null, undoStack: [], redoStack: [] }),
   setLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error, isLoading: false }),
   setFileInfo: (fileUrl, fileName) => set({ fileUrl, fileName }),
@@ -68,8 +131,17 @@ export const useChartStore = create<ChartState>((set, get) => ({
     fileUrl: null,
     fileName: null,
     isSaving: false,
-    saveError: null
+    saveError: null,
+    undoStack: [],
+    redoStack: []
   }),
+  setOrganizationId: (organizationId) => {
+    if (organizationId === get().organizationId) return
+
+    // Each organization has its own chart, so the one on screen no longer applies
+    get().clearChart()
+    set({ organizationId })
+  },
   updateEmployeeManager: (employeeId, newManagerId) => {
     const currentState = get()
     if (!currentState.chartData) return
@@ -106,10 +178,15 @@ export const useChartStore = create<ChartState>((set, get) => ({
     if (!currentState.chartData) return
     
     const updatedEmployees = currentState.chartData.employees.map(emp => 
-      emp.id === employeeId ? { ...emp, name: updatedData.name, title: updatedData.title } : emp
+      emp.id === employeeId ? {
+        ...emp,
+        name: updatedData.name,
+        title: updatedData.title,
+        customFields: updatedData.customFields ?? emp.customFields
+      } : emp
     )
     
-    // Recalculate derived data (no changes needed for rootEmployees/orphanedEmployees since we're only updating name/title)
+    // Recalculate derived data (no changes needed for rootEmployees/orphanedEmployees since we're only updating name/title/custom fields)
     const updatedChartData: ChartData = {
       ...currentState.chartData,
       employees: updatedEmployees
@@ -145,5 +222,109 @@ export const useChartStore = create<ChartState>((set, get) => ({
     }
     
     set({ chartData: updatedChartData })
+  },
+
+  removeEmployee: (employeeId, updatedEmployees) => {
+    const currentState = get()
+    if (!currentState.chartData) return
+
+    // Updated employees replace their current version; new ones (e.g. a vacancy) are appended
+    const updatesById = new Map(updatedEmployees.map(emp => [emp.id, emp]))
+    const remainingEmployees = currentState.chartData.employees
+      .filter(emp => emp.id !== employeeId)
+      .map(emp => updatesById.get(emp.id) || emp)
+    const existingIds = new Set(remainingEmployees.map(emp => emp.id))
+    const updatedEmployeeList = [
+      ...remainingEmployees,
+      ...updatedEmployees.filter(emp => !existingIds.has(emp.id))
+    ]
+
+    // Recalculate derived data
+    const rootEmployees = updatedEmployeeList.filter(emp => !emp.managerId)
+    const orphanedEmployees = updatedEmployeeList.filter(emp => {
+      if (!emp.managerId) return false
+      return !updatedEmployeeList.some(manager => manager.id === emp.managerId)
+    })
+
+    set({
+      chartData: {
+        ...currentState.chartData,
+        employees: updatedEmployeeList,
+        rootEmployees,
+        orphanedEmployees,
+        statistics: {
+          ...currentState.chartData.statistics,
+          totalEmployees: updatedEmployeeList.length,
+          rootEmployees: rootEmployees.length,
+          orphanedEmployees: orphanedEmployees.length
+        }
+      }
+    })
+  },
+
+  recordChange: (command) => {
+    // Replaying an entry must not record the edits it makes as new history
+    if (get().isReplayingHistory) return
+
+    const entry: ChartHistoryEntry = { ...command, id: `change_${nextHistoryId++}`, timestamp: new Date() }
+    set({
+      undoStack: [...get().undoStack, entry].slice(-HISTORY_LIMIT),
+      redoStack: []
+    })
+  },
+
+  undo: async () => {
+    const { undoStack, isReplayingHistory } = get()
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry || isReplayingHistory) return null
+
+    set({ isReplayingHistory: true })
+    try {
+      await entry.undo()
+      set({
+        undoStack: get().undoStack.filter(change => change.id !== entry.id),
+        redoStack: [...get().redoStack, entry]
+      })
+      return entry
+    } finally {
+      // A failed undo leaves the entry where it was so it can be retried
+      set({ isReplayingHistory: false })
+    }
+  },
+
+  redo: async () => {
+    const { redoStack, isReplayingHistory } = get()
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry || isReplayingHistory) return null
+
+    set({ isReplayingHistory: true })
+    try {
+      await entry.redo()
+      set({
+        redoStack: get().redoStack.filter(change => change.id !== entry.id),
+        undoStack: [...get().undoStack, entry]
+      })
+      return entry
+    } finally {
+      set({ isReplayingHistory: false })
+    }
+  },
+
+  clearHistory: () => set({ undoStack: [], redoStack: [] }),
+
+  dismissManagerMatch: (employeeId) => {
+    const currentState = get()
+    if (!currentState.chartData?.reconciliation) return
+
+    const { reconciliation } = currentState.chartData
+    set({
+      chartData: {
+        ...currentState.chartData,
+        reconciliation: {
+          ...reconciliation,
+          needsReview: reconciliation.needsReview.filter(match => match.employeeId !== employeeId)
+        }
+      }
+    })
   }
 }))
\ No newline at end of file
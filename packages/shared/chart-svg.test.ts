@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { renderChartSvg } from './chart-svg'
+import { employee } from './__tests__/fixtures'
+
+describe('renderChartSvg', () => {
+  it('should render every employee with a connector to each report', () => {
+    const svg = renderChartSvg([
+      employee('1', 'Alex Morgan', null, 'CEO'),
+      employee('2', 'Marcus Reed', '1', 'CTO'),
+      employee('3', 'Priya Patel', '2')
+    ])
+
+    expect(svg.startsWith('<?xml')).toBe(true)
+    expect(svg.match(/<g data-employee-id=/g)).toHaveLength(3)
+    expect(svg.match(/<path /g)).toHaveLength(2)
+    expect(svg).toContain('>Marcus Reed</text>')
+    expect(svg).toContain('>CTO</text>')
+  })
+
+  it('should size the document to the whole chart rather than a viewport', () => {
+    // Twelve reports wrap into three rows, well past any screen
+    const employees = [employee('root', 'Alex Morgan', null, 'CEO')]
+    for (let i = 0; i < 12; i++) {
+      employees.push(employee(`e${i}`, `Person ${i}`, 'root'))
+    }
+
+    const svg = renderChartSvg(employees, { padding: 0 })
+    const [, width, height] = svg.match(/width="(\d+)" height="(\d+)"/)!
+
+    // Five 200px nodes and four 40px gaps per row; the root and three rows of reports
+    expect(Number(width)).toBe(1160)
+    expect(Number(height)).toBe(3 * 120 + 80)
+  })
+
+  it('should draw the chosen layout', () => {
+    const employees = [employee('1', 'Alex Morgan', null, 'CEO'), employee('2', 'Marcus Reed', '1', 'CTO'), employee('3', 'Priya Patel', '1')]
+
+    const svg = renderChartSvg(employees, { padding: 0, layout: 'outline' })
+    const [, width, height] = svg.match(/width="(\d+)" height="(\d+)"/)!
+
+    // Three rows of cards, the reports indented under their manager
+    expect(Number(width)).toBe(40 + 200)
+    expect(Number(height)).toBe(3 * 80 + 2 * 20)
+    expect(svg).toContain('<path d="M 20 130 L 20 190 L 40 190"')
+  })
+
+  it('should escape names and print the title', () => {
+    const svg = renderChartSvg([employee('1', 'Ann <Ops> & "Co"', null, 'Unknown Title')], { title: 'R&D' })
+
+    expect(svg).toContain('Ann &lt;Ops&gt; &amp; &quot;Co&quot;')
+    expect(svg).toContain('>R&amp;D</text>')
+    expect(svg).not.toContain('Unknown Title')
+  })
+
+  it('should render an empty chart', () => {
+    expect(renderChartSvg([])).toContain('<svg')
+  })
+})
@@ -0,0 +1,122 @@
+import { ChartLayout, Employee } from './index'
+import {
+  ChartNode,
+  CHART_NODE_WIDTH,
+  CHART_NODE_HEIGHT,
+  buildChartTree,
+  calculateChartLayout,
+  flattenChartNodes,
+  getChartConnectionPath,
+  getChartConnections
+} from './chart-layout'
+
+export interface ChartSvgOptions {
+  /** Printed above the chart */
+  title?: string
+  /** Space around the chart, in pixels */
+  padding?: number
+  background?: string
+  /** One of the viewer's layouts, top-down by default */
+  layout?: ChartLayout
+}
+
+interface NodeStyle {
+  gradient: string
+  stops: [string, string]
+  stroke: string
+  text: string
+  title: string
+}
+
+// Same colors as the chart viewer: one accent per level for the first four levels
+const LEVEL_STYLES: NodeStyle[] = [
+  { gradient: 'ceoGradient', stops: ['#1e3a5f', '#0f2744'], stroke: '#3b82f6', text: '#bfdbfe', title: '#93c5fd' },
+  { gradient: 'directorGradient', stops: ['#4c1d95', '#2e1065'], stroke: '#a855f7', text: '#e9d5ff', title: '#c4b5fd' },
+  { gradient: 'managerGradient', stops: ['#065f46', '#064e3b'], stroke: '#22c55e', text: '#bbf7d0', title: '#86efac' },
+  { gradient: 'teamLeadGradient', stops: ['#78350f', '#451a03'], stroke: '#f59e0b', text: '#fef3c7', title: '#fcd34d' }
+]
+const EMPLOYEE_STYLE: NodeStyle = { gradient: 'employeeGradient', stops: ['#1e293b', '#0f172a'], stroke: '#475569', text: '#f1f5f9', title: '#94a3b8' }
+
+const FONT_FAMILY = 'Inter, system-ui, -apple-system, Segoe UI, Helvetica, Arial, sans-serif'
+const TITLE_HEIGHT = 48
+
+const styleForLevel = (level: number): NodeStyle => LEVEL_STYLES[level] || EMPLOYEE_STYLE
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const renderNode = (node: ChartNode, offsetX: number, offsetY: number): string => {
+  const style = styleForLevel(node.level)
+  const x = node.x + offsetX
+  const y = node.y + offsetY
+  const centerX = x + CHART_NODE_WIDTH / 2
+  const parts = [
+    `<rect x="${x}" y="${y}" width="${CHART_NODE_WIDTH}" height="${CHART_NODE_HEIGHT}" rx="16" fill="url(#${style.gradient})" stroke="${style.stroke}" stroke-width="1" filter="url(#shadow)"/>`,
+    `<text x="${centerX}" y="${y + 28}" text-anchor="middle" font-size="14" font-weight="600" fill="${style.text}">${escapeXml(node.name)}</text>`
+  ]
+
+  // Same rule as the viewer: placeholder titles are not worth printing
+  if (node.title && node.title !== 'Unknown Title') {
+    parts.push(`<text x="${centerX}" y="${y + 50}" text-anchor="middle" font-size="12" fill="${style.title}">${escapeXml(node.title)}</text>`)
+  }
+
+  parts.push(
+    `<circle cx="${x + 188}" cy="${y + 13}" r="8" fill="${style.stroke}" opacity="0.8"/>`,
+    `<text x="${x + 188}" y="${y + 17}" text-anchor="middle" font-size="12" font-weight="700" fill="#ffffff">${node.level}</text>`
+  )
+
+  return `<g data-employee-id="${escapeXml(node.id)}">${parts.join('')}</g>`
+}
+
+/**
+ * Renders the whole chart as a standalone SVG document. Every employee is laid out with one of
+ * the viewer's layouts, with nothing collapsed, filtered or clipped to a viewport, so the same
+ * markup comes out in the browser and on the server.
+ */
+export const renderChartSvg = (employees: Employee[], options: ChartSvgOptions = {}): string => {
+  const padding = options.padding ?? 40
+  const background = options.background || '#020617'
+  const titleHeight = options.title ? TITLE_HEIGHT : 0
+
+  const layout = options.layout || 'top-down'
+  const tree = calculateChartLayout(buildChartTree(employees), layout)
+  const nodes = flattenChartNodes(tree)
+  const connections = getChartConnections(tree)
+
+  const minX = nodes.length > 0 ? Math.min(...nodes.map(node => node.x)) : 0
+  const minY = nodes.length > 0 ? Math.min(...nodes.map(node => node.y)) : 0
+  const maxX = nodes.length > 0 ? Math.max(...nodes.map(node => node.x + CHART_NODE_WIDTH)) : CHART_NODE_WIDTH
+  const maxY = nodes.length > 0 ? Math.max(...nodes.map(node => node.y + CHART_NODE_HEIGHT)) : CHART_NODE_HEIGHT
+
+  const offsetX = padding - minX
+  const offsetY = padding + titleHeight - minY
+  const width = Math.ceil(maxX - minX + padding * 2)
+  const height = Math.ceil(maxY - minY + padding * 2 + titleHeight)
+
+  const gradients = [...LEVEL_STYLES, EMPLOYEE_STYLE].map(style =>
+    `<linearGradient id="${style.gradient}" x1="0%" y1="0%" x2="0%" y2="100%"><stop offset="0%" stop-color="${style.stops[0]}"/><stop offset="100%" stop-color="${style.stops[1]}"/></linearGradient>`
+  )
+
+  // Paths are drawn in layout coordinates and moved into the padded document as a group
+  const lines = connections.map(connection =>
+    `<path d="${getChartConnectionPath(connection, layout)}" stroke="${styleForLevel(connection.from.level).stroke}" stroke-width="1.5" fill="none" opacity="0.4" stroke-linecap="round"/>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<defs><filter id="shadow" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="0" dy="2" stdDeviation="4" flood-color="rgba(0,0,0,0.3)"/></filter>${gradients.join('')}</defs>`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    options.title
+      ? `<text x="${padding}" y="${padding + 24}" font-size="22" font-weight="700" fill="#f1f5f9">${escapeXml(options.title)}</text>`
+      : '',
+    `<g transform="translate(${offsetX} ${offsetY})">${lines.join('')}</g>`,
+    `<g>${nodes.map(node => renderNode(node, offsetX, offsetY)).join('')}</g>`,
+    '</svg>'
+  ].filter(Boolean).join('\n')
+}
@@ -12,6 +12,27 @@ export interface Organization {
   createdAt: Date
 }
 
+// The organization's creator (Organization.userId) is always its owner
+export type OrganizationRole = 'owner' | 'editor' | 'viewer'
+
+export interface OrganizationMember {
+  organizationId: string
+  userId: string
+  role: OrganizationRole
+  addedAt: Date
+}
+
+// Invitations wait for an email that has no account yet and turn into memberships when that account
+// opens the invitation link
+export interface OrganizationInvitation {
+  id: string
+  organizationId: string
+  email: string
+  role: Exclude<OrganizationRole, 'owner'>
+  invitedBy: string
+  createdAt: Date
+}
+
 export interface Employee {
   id: string
   name: string
@@ -21,5 +42,138 @@ export interface Employee {
   customFields?: Record<string, any>
 }
 
-export { useChartStore } from './chart-store'
-export type { ChartData } from './chart-store'
\ No newline at end of file
+export type AuditOperation = 'create' | 'move' | 'edit' | 'delete' | 'import' | 'restore'
+
+// One entry of an organization's append-only change log
+export interface AuditLogEntry {
+  id: string
+  organizationId: string
+  actorId: string
+  timestamp: Date
+  operation: AuditOperation
+  // Imports replace the whole chart and are not tied to one employee
+  employeeId: string | null
+  before: Employee | null
+  after: Employee | null
+  details?: Record<string, any>
+}
+
+export type SnapshotSource = 'manual' | 'import' | 'restore'
+
+// A frozen copy of an organization's employees; restoring one makes it the live chart again
+export interface OrganizationSnapshot {
+  id: string
+  organizationId: string
+  name: string
+  source: SnapshotSource
+  createdBy: string
+  createdAt: Date
+  employees: Employee[]
+}
+
+export type OrganizationSnapshotSummary = Omit<OrganizationSnapshot, 'employees'> & {
+  employeeCount: number
+}
+
+export type OrgChangeType = 'added' | 'removed' | 'moved' | 'retitled' | 'renamed'
+
+// How one person differs between two versions of a chart
+export interface OrgDiffEntry {
+  // ID in the newer version, or in the older one for people who left
+  employeeId: string
+  name: string
+  changes: OrgChangeType[]
+  before: Employee | null
+  after: Employee | null
+  previousManagerName: string | null
+  newManagerName: string | null
+}
+
+export interface OrgDiff {
+  // Only people who changed, leavers first, then new hires, then everyone else
+  entries: OrgDiffEntry[]
+  summary: Record<OrgChangeType, number> & { unchanged: number }
+  // The newer chart plus the leavers under their former managers, to draw both versions at once
+  combinedEmployees: Employee[]
+}
+
+// What merging a re-imported file into an existing chart does, person by person
+export interface ImportSyncSummary {
+  added: number
+  // Matched people whose manager, title or name the file changes
+  updated: number
+  unchanged: number
+  // People the chart has but the file no longer lists
+  missing: number
+  // The missing people that are taken off the chart
+  removed: number
+}
+
+// A chart change read from a typed command; it is only applied once the user confirms it
+export type ChartCommand =
+  | { intent: 'move'; employeeId: string; newManagerId: string }
+  | { intent: 'add'; name: string; title: string; managerId: string | null }
+  | { intent: 'edit'; employeeId: string; name: string; title: string }
+  | { intent: 'remove'; employeeId: string }
+
+// How the chart is arranged on screen and in image exports
+export type ChartLayout = 'top-down' | 'left-right' | 'radial' | 'compact' | 'outline'
+
+// Preferences kept with a person's account, so they follow them to any browser
+export interface UserSettings {
+  chartLayout?: ChartLayout
+}
+
+export type ChartExportFormat = 'svg' | 'pdf' | 'pptx' | 'csv' | 'xlsx' | 'json' | 'jsonld' | 'mermaid' | 'dot' | 'graphml'
+
+// Settings for the paginated formats; each format reads only the ones it understands
+export interface ChartExportOptions {
+  // PDF paper
+  pageSize?: 'a4' | 'letter'
+  orientation?: 'landscape' | 'portrait'
+  // Graph formats: only this person and everyone below them
+  rootId?: string
+  // Graph formats: levels below the top to include. PowerPoint: how many management levels
+  // get team slides. Everything when unset
+  depth?: number
+  // Custom field keys printed on each card
+  fields?: string[]
+  includeOverview?: boolean
+  // SVG, PDF and PowerPoint: the viewer layout to draw. Mermaid and DOT: left-right runs the graph
+  // sideways
+  layout?: ChartLayout
+}
+
+// A rendered chart, ready to be saved under its file name
+export interface ChartExportFile {
+  fileName: string
+  mimeType: string
+  // Binary formats travel as base64
+  encoding: 'utf-8' | 'base64'
+  content: string
+  // Things the file could not show as they are, worth telling the person downloading it
+  warnings?: string[]
+}
+
+// The JSON backup format; the version only changes when existing readers could misread a file
+export interface ChartDocument {
+  format: 'org-chart'
+  version: 1
+  exportedAt: string
+  organization: { name: string }
+  employees: Array<{
+    id: string
+    name: string
+    title: string
+    managerId: string | null
+    customFields: Record<string, any>
+  }>
+}
+
+export { useChartStore, HISTORY_LIMIT } from './chart-store'
+export type { ChartData, ManagerMatchReport, ChartHistoryCommand, ChartHistoryEntry } from './chart-store'
+export { CHART_LAYOUTS } from './chart-layout'
+export { renderChartSvg } from './chart-svg'
+export type { ChartSvgOptions } from './chart-svg'
+export { renderChartMermaid, renderChartDot, renderChartGraphml } from './chart-graph'
+export type { ChartGraphOptions } from './chart-graph'
\ No newline at end of file
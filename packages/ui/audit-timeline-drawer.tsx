@@ -0,0 +1,190 @@
+import React from 'react'
+import { AuditOperation, Employee } from '../shared'
+import { X, Clock, UserPlus, ArrowRightLeft, Pencil, UserMinus, FileSpreadsheet, RotateCcw } from 'lucide-react'
+
+export interface AuditTimelineEntry {
+  id: string
+  operation: AuditOperation
+  // Dates arrive as ISO strings over the wire
+  timestamp: Date | string
+  actorName: string
+  employeeId: string | null
+  before: Employee | null
+  after: Employee | null
+  details?: Record<string, any>
+}
+
+export interface AuditTimelineFilter {
+  employeeId?: string
+  /** Calendar days as YYYY-MM-DD, both inclusive */
+  from?: string
+  to?: string
+}
+
+export interface AuditTimelineDrawerProps {
+  isOpen: boolean
+  entries: AuditTimelineEntry[]
+  /** Current employees, used for the employee filter and to name managers */
+  employees: Employee[]
+  filter: AuditTimelineFilter
+  onFilterChange: (filter: AuditTimelineFilter) => void
+  onClose: () => void
+  isLoading?: boolean
+}
+
+const OPERATION_ICONS: Record<AuditOperation, React.ComponentType<{ className?: string }>> = {
+  create: UserPlus,
+  move: ArrowRightLeft,
+  edit: Pencil,
+  delete: UserMinus,
+  import: FileSpreadsheet,
+  restore: RotateCcw
+}
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm bg-elevated border border-border-default rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500/30'
+
+const describeEntry = (entry: AuditTimelineEntry, employeesById: Map<string, Employee>): { summary: string; changes: string[] } => {
+  const managerName = (managerId?: string | null) =>
+    managerId ? employeesById.get(managerId)?.name || 'a former employee' : 'the top level'
+
+  switch (entry.operation) {
+    case 'create':
+      return { summary: `Added ${entry.after?.name} as ${entry.after?.title}`, changes: [] }
+    case 'delete':
+      return { summary: `Removed ${entry.before?.name}`, changes: [] }
+    case 'move':
+      return {
+        summary: `Moved ${entry.after?.name}`,
+        changes: [`${managerName(entry.before?.managerId)} → ${managerName(entry.after?.managerId)}`]
+      }
+    case 'edit': {
+      const before = entry.before
+      const after = entry.after
+      const changes: string[] = []
+      if (before && after) {
+        if (before.name !== after.name) changes.push(`Name: ${before.name} → ${after.name}`)
+        if (before.title !== after.title) changes.push(`Title: ${before.title} → ${after.title}`)
+
+        const fields = new Set([...Object.keys(before.customFields || {}), ...Object.keys(after.customFields || {})])
+        fields.forEach(field => {
+          const previous = before.customFields?.[field]
+          const next = after.customFields?.[field]
+          if (previous !== next) {
+            changes.push(`${field}: ${previous ?? '—'} → ${next ?? '—'}`)
+          }
+        })
+      }
+      return { summary: `Edited ${before?.name}`, changes }
+    }
+    case 'import':
+      // Syncs log each person separately as well, so only the totals go here
+      if (entry.details?.mode === 'sync') {
+        return {
+          summary: `Merged ${entry.details.fileName || 'a file'}`,
+          changes: [`${entry.details.added} added, ${entry.details.updated} updated, ${entry.details.removed} removed`]
+        }
+      }
+      return {
+        summary: `Imported ${entry.details?.fileName || 'a file'}`,
+        changes: typeof entry.details?.employeeCount === 'number' ? [`${entry.details.employeeCount} employees`] : []
+      }
+    case 'restore':
+      return {
+        summary: `Restored ${entry.details?.snapshotName ? `"${entry.details.snapshotName}"` : 'a snapshot'}`,
+        changes: typeof entry.details?.employeeCount === 'number' ? [`${entry.details.employeeCount} employees`] : []
+      }
+  }
+}
+
+export const AuditTimelineDrawer: React.FC<AuditTimelineDrawerProps> = ({
+  isOpen,
+  entries,
+  employees,
+  filter,
+  onFilterChange,
+  onClose,
+  isLoading = false
+}) => {
+  if (!isOpen) return null
+
+  const employeesById = new Map(employees.map(emp => [emp.id, emp]))
+
+  return (
+    <aside
+      aria-label="Change log"
+      className="fixed inset-y-0 right-0 z-40 w-full max-w-md flex flex-col bg-surface/95 backdrop-blur-md border-l border-border-default shadow-2xl"
+    >
+      <div className="flex items-center justify-between px-5 py-4 border-b border-border-default">
+        <div className="flex items-center space-x-2">
+          <Clock className="w-5 h-5 text-text-muted" />
+          <h2 className="text-lg font-semibold text-text-primary tracking-tight">Change log</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+          aria-label="Close change log"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 px-5 py-3 border-b border-border-default">
+        <select
+          value={filter.employeeId || ''}
+          onChange={(e) => onFilterChange({ ...filter, employeeId: e.target.value || undefined })}
+          className={`${inputClassName} col-span-2`}
+          aria-label="Filter by employee"
+        >
+          <option value="">All employees</option>
+          {employees.map(emp => (
+            <option key={emp.id} value={emp.id}>{emp.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filter.from || ''}
+          onChange={(e) => onFilterChange({ ...filter, from: e.target.value || undefined })}
+          className={inputClassName}
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filter.to || ''}
+          onChange={(e) => onFilterChange({ ...filter, to: e.target.value || undefined })}
+          className={inputClassName}
+          aria-label="To date"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">
+        {isLoading ? (
+          <p className="text-sm text-text-muted text-center">Loading changes…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-text-muted text-center">No changes recorded</p>
+        ) : (
+          <ol aria-label="Changes" className="relative border-l border-border-default ml-3 space-y-5">
+            {entries.map(entry => {
+              const Icon = OPERATION_ICONS[entry.operation]
+              const { summary, changes } = describeEntry(entry, employeesById)
+
+              return (
+                <li key={entry.id} className="ml-5">
+                  <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-elevated border border-border-default">
+                    <Icon className="w-3 h-3 text-text-secondary" />
+                  </span>
+                  <p className="text-sm font-medium text-text-primary">{summary}</p>
+                  {changes.map(change => (
+                    <p key={change} className="text-xs text-text-secondary">{change}</p>
+                  ))}
+                  <p className="mt-0.5 text-xs text-text-muted">
+                    {entry.actorName} · {new Date(entry.timestamp).toLocaleString()}
+                  </p>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -193,6 +193,113 @@ describe('ChartViewer', () => {
     expect(screen.getByText('Manager')).toBeInTheDocument()
   })
 
+  it('offers a remove action in the node context menu', () => {
+    const onNodeRemove = vi.fn()
+    const { container } = render(<ChartViewer employees={mockEmployees} onNodeRemove={onNodeRemove} />)
+
+    fireEvent.contextMenu(container.querySelector('rect')!)
+    fireEvent.click(screen.getByRole('menuitem', { name: /Remove employee/ }))
+
+    expect(onNodeRemove).toHaveBeenCalledWith(mockEmployees[0])
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('does not open a context menu without node actions', () => {
+    const { container } = render(<ChartViewer employees={mockEmployees} />)
+
+    fireEvent.contextMenu(container.querySelector('rect')!)
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('disables moving, editing and removing nodes when read-only', () => {
+    const onManagerChange = vi.fn()
+    const onNodeRemove = vi.fn()
+    const { container } = render(
+      <ChartViewer
+        employees={mockEmployees}
+        onManagerChange={onManagerChange}
+        onNodeEdit={vi.fn()}
+        onNodeRemove={onNodeRemove}
+        readOnly
+      />
+    )
+    const nodes = container.querySelectorAll('rect')
+
+    fireEvent.drop(nodes[0], { dataTransfer: { getData: () => '3' } })
+    fireEvent.contextMenu(nodes[0])
+    fireEvent.doubleClick(screen.getByText('John Doe'))
+
+    expect(onManagerChange).not.toHaveBeenCalled()
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    expect(screen.queryByDisplayValue('John Doe')).not.toBeInTheDocument()
+  })
+
+  it('undoes with Ctrl+Z and redoes with Ctrl+Shift+Z', () => {
+    const onUndo = vi.fn()
+    const onRedo = vi.fn()
+    render(<ChartViewer employees={mockEmployees} onUndo={onUndo} onRedo={onRedo} canUndo canRedo />)
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true })
+    fireEvent.keyDown(window, { key: 'Z', metaKey: true, shiftKey: true })
+
+    expect(onUndo).toHaveBeenCalledOnce()
+    expect(onRedo).toHaveBeenCalledOnce()
+  })
+
+  it('ignores undo shortcuts with nothing to undo, in text fields and when read-only', () => {
+    const onUndo = vi.fn()
+    const onRedo = vi.fn()
+    const { rerender } = render(<ChartViewer employees={mockEmployees} onUndo={onUndo} onRedo={onRedo} canRedo />)
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true })
+    expect(onUndo).not.toHaveBeenCalled()
+
+    rerender(<ChartViewer employees={mockEmployees} onUndo={onUndo} onRedo={onRedo} canUndo canRedo />)
+    const input = document.body.appendChild(document.createElement('input'))
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true })
+    expect(onUndo).not.toHaveBeenCalled()
+    input.remove()
+
+    rerender(<ChartViewer employees={mockEmployees} onUndo={onUndo} onRedo={onRedo} canUndo canRedo readOnly />)
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true })
+    expect(onRedo).not.toHaveBeenCalled()
+    expect(screen.queryByTitle('Undo (Ctrl+Z)')).not.toBeInTheDocument()
+  })
+
+  it('colors nodes by how they changed between versions', () => {
+    const { container } = render(
+      <ChartViewer employees={mockEmployees} diffStatus={{ '2': 'moved', '3': 'removed' }} readOnly />
+    )
+    const nodes = Array.from(container.querySelectorAll('rect[data-diff-status]'))
+
+    expect(nodes.map(node => node.getAttribute('data-diff-status'))).toEqual(['moved', 'removed'])
+    expect(nodes[0]).toHaveAttribute('fill', 'url(#diffMovedGradient)')
+    expect(nodes[1]).toHaveAttribute('stroke-dasharray', '6 4')
+  })
+
+  it('switches layouts from the layout buttons', () => {
+    const onLayoutChange = vi.fn()
+    const { container, rerender } = render(
+      <ChartViewer employees={mockEmployees} layout="top-down" onLayoutChange={onLayoutChange} />
+    )
+
+    expect(screen.getByTitle('Top-down tree')).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByTitle('Outline'))
+    expect(onLayoutChange).toHaveBeenCalledWith('outline')
+
+    rerender(<ChartViewer employees={mockEmployees} layout="outline" onLayoutChange={onLayoutChange} />)
+    const cards = Array.from(container.querySelectorAll('rect[rx="16"]'))
+    expect(cards.map(card => card.getAttribute('x'))).toEqual(['0', '40', '80'])
+    expect(screen.getByTitle('Outline')).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('hides the layout buttons without a layout handler', () => {
+    render(<ChartViewer employees={mockEmployees} layout="radial" />)
+
+    expect(screen.queryByTitle('Radial')).not.toBeInTheDocument()
+  })
+
   describe('Drag and Drop Functionality', () => {
     it('calls onManagerChange when employee is dragged and dropped', () => {
       const onManagerChange = vi.fn()
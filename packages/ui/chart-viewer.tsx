@@ -1,17 +1,11 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react'
-import { ChevronDown, ChevronUp, ZoomIn, ZoomOut, Home } from 'lucide-react'
-import { Employee } from '../shared/index'
-
-export interface ChartNode {
-  id: string
-  name: string
-  title: string
-  children: ChartNode[]
-  level: number
-  x: number
-  y: number
-  isCollapsed?: boolean
-}
+import { ChevronDown, ChevronUp, ZoomIn, ZoomOut, Home, Pencil, UserMinus, Undo2, Redo2, Network, ArrowRightFromLine, Rows3, Orbit, ListTree } from 'lucide-react'
+import { ChartLayout, Employee } from '../shared/index'
+import { ChartNode, buildChartTree, calculateChartLayout, flattenChartNodes, getChartConnectionPath, getChartConnections } from '../shared/chart-layout'
+
+export type { ChartNode }
+
+export type ChartDiffStatus = 'added' | 'removed' | 'moved' | 'changed'
 
 export interface ChartViewerProps {
   employees: Employee[]
@@ -20,12 +14,40 @@ export interface ChartViewerProps {
   onNodeHover?: (employee: Employee | null) => void
   onManagerChange?: (employeeId: string, newManagerId: string | null) => void
   onNodeEdit?: (employeeId: string, updatedData: { name: string; title: string }) => void
+  onNodeRemove?: (employee: Employee) => void
   onCircularReferenceError?: (employeeId: string, targetId: string) => void
   isSaving?: boolean
   saveError?: string | null
   onSaveStatusChange?: (isSaving: boolean, error?: string | null) => void
   onRetry?: () => void
   collapseAll?: boolean
+  /** Viewers can browse the chart but not move, edit or remove anyone */
+  readOnly?: boolean
+  /** Bound to Ctrl+Z / Ctrl+Shift+Z and the undo/redo controls */
+  onUndo?: () => void
+  onRedo?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
+  /** Colors nodes by how they changed between two versions, keyed by employee ID */
+  diffStatus?: Record<string, ChartDiffStatus>
+  /** How the chart is arranged; the layout buttons are shown when onLayoutChange is given */
+  layout?: ChartLayout
+  onLayoutChange?: (layout: ChartLayout) => void
+}
+
+const LAYOUT_OPTIONS: Array<{ layout: ChartLayout; label: string; icon: React.ElementType }> = [
+  { layout: 'top-down', label: 'Top-down tree', icon: Network },
+  { layout: 'left-right', label: 'Left-to-right tree', icon: ArrowRightFromLine },
+  { layout: 'compact', label: 'Compact, with teams stacked', icon: Rows3 },
+  { layout: 'radial', label: 'Radial', icon: Orbit },
+  { layout: 'outline', label: 'Outline', icon: ListTree }
+]
+
+const DIFF_COLORS: Record<ChartDiffStatus, { fill: string; stroke: string; text: string; title: string }> = {
+  added: { fill: 'url(#diffAddedGradient)', stroke: '#22c55e', text: '#dcfce7', title: '#86efac' },
+  removed: { fill: 'url(#diffRemovedGradient)', stroke: '#ef4444', text: '#fecaca', title: '#f87171' },
+  moved: { fill: 'url(#diffMovedGradient)', stroke: '#f59e0b', text: '#fef3c7', title: '#fcd34d' },
+  changed: { fill: 'url(#diffChangedGradient)', stroke: '#38bdf8', text: '#e0f2fe', title: '#7dd3fc' }
 }
 
 export const ChartViewer: React.FC<ChartViewerProps> = ({
@@ -35,12 +57,21 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   onNodeHover,
   onManagerChange,
   onNodeEdit,
+  onNodeRemove,
   onCircularReferenceError,
   isSaving = false,
   saveError = null,
   onSaveStatusChange,
   onRetry,
-  collapseAll = false
+  collapseAll = false,
+  readOnly = false,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  diffStatus,
+  layout = 'top-down',
+  onLayoutChange
 }) => {
   const svgRef = useRef<SVGSVGElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -61,212 +92,9 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   const [focusedEmployeeId, setFocusedEmployeeId] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [showSearchDropdown, setShowSearchDropdown] = useState(false)
+  const [contextMenu, setContextMenu] = useState<{ employeeId: string; x: number; y: number } | null>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
 
-  // Build tree structure from flat employee array
-  const buildTree = (employees: Employee[]): ChartNode[] => {
-    const employeeMap = new Map<string, Employee>()
-    const childrenMap = new Map<string, Employee[]>()
-    
-    // Create maps for quick lookups
-    employees.forEach(emp => {
-      employeeMap.set(emp.id, emp)
-      if (emp.managerId) {
-        if (!childrenMap.has(emp.managerId)) {
-          childrenMap.set(emp.managerId, [])
-        }
-        childrenMap.get(emp.managerId)!.push(emp)
-      }
-    })
-
-    // Build tree recursively
-    const buildNode = (employee: Employee, level: number): ChartNode => {
-      const children = childrenMap.get(employee.id) || []
-      const isCollapsed = collapsedNodes.has(employee.id)
-      return {
-        id: employee.id,
-        name: employee.name,
-        title: employee.title,
-        level,
-        x: 0,
-        y: 0,
-        isCollapsed,
-        children: isCollapsed ? [] : children.map(child => buildNode(child, level + 1))
-      }
-    }
-
-    // Find root employees (those without managers)
-    const rootEmployees = employees.filter(emp => !emp.managerId)
-    return rootEmployees.map(emp => buildNode(emp, 0))
-  }
-
-  // Calculate node positions with row wrapping for many direct reports
-  const calculatePositions = (nodes: ChartNode[]): ChartNode[] => {
-    const nodeWidth = 200
-    const nodeHeight = 80
-    const levelHeight = 120
-    const siblingSpacing = 40
-    const maxChildrenPerRow = 5 // Wrap to new row after this many children
-
-    // Split children into rows
-    const splitIntoRows = (children: ChartNode[]): ChartNode[][] => {
-      if (children.length <= maxChildrenPerRow) return [children]
-      const rows: ChartNode[][] = []
-      for (let i = 0; i < children.length; i += maxChildrenPerRow) {
-        rows.push(children.slice(i, i + maxChildrenPerRow))
-      }
-      return rows
-    }
-
-    // Calculate subtree width recursively (always accounts for children's subtrees)
-    const calculateSubtreeWidth = (node: ChartNode): number => {
-      if (node.children.length === 0) return nodeWidth
-
-      const rows = splitIntoRows(node.children)
-
-      // For each row, sum the subtree widths of children in that row
-      const rowWidths = rows.map(row => {
-        const childrenWidth = row.reduce((sum, child) =>
-          sum + calculateSubtreeWidth(child), 0
-        )
-        const spacingWidth = (row.length - 1) * siblingSpacing
-        return childrenWidth + spacingWidth
-      })
-
-      // Subtree width is the max row width
-      return Math.max(nodeWidth, Math.max(...rowWidths))
-    }
-
-    // Calculate subtree height (number of levels deep, accounting for row wrapping)
-    const calculateSubtreeHeight = (node: ChartNode): number => {
-      if (node.children.length === 0) return 1
-
-      const rows = splitIntoRows(node.children)
-      const numRows = rows.length
-
-      // Get max height among all children
-      const maxChildHeight = Math.max(...node.children.map(child => calculateSubtreeHeight(child)))
-
-      // Height = 1 (this node) + (numRows - 1) for extra wrapped rows + max child subtree height
-      return 1 + (numRows - 1) + maxChildHeight
-    }
-
-    // Calculate the vertical offset needed for a row based on previous rows' subtree depths
-    const calculateRowYOffset = (rows: ChartNode[][], rowIndex: number): number => {
-      if (rowIndex === 0) return 0
-
-      let offset = 0
-      for (let i = 0; i < rowIndex; i++) {
-        // For each previous row, find the max subtree height
-        const maxSubtreeHeight = Math.max(...rows[i].map(child => calculateSubtreeHeight(child)))
-        // Add enough space for that subtree plus some padding
-        offset += maxSubtreeHeight * levelHeight
-      }
-      return offset
-    }
-
-    // Store y-offsets for nodes to handle wrapped rows
-    const nodeYOffsets = new Map<string, number>()
-
-    // First pass: calculate y-offsets for all nodes with dynamic row spacing
-    const calculateYOffsets = (nodes: ChartNode[], parentYOffset: number): void => {
-      nodes.forEach(node => {
-        nodeYOffsets.set(node.id, parentYOffset)
-
-        const rows = splitIntoRows(node.children)
-        rows.forEach((row, rowIndex) => {
-          const childYOffset = parentYOffset + calculateRowYOffset(rows, rowIndex)
-          row.forEach(child => {
-            nodeYOffsets.set(child.id, childYOffset)
-            calculateYOffsets([child], childYOffset)
-          })
-        })
-      })
-    }
-
-    // Position a single node and its children recursively
-    const positionNode = (node: ChartNode, nodeX: number, startY: number): ChartNode => {
-      const yOffset = nodeYOffsets.get(node.id) || 0
-      const nodeY = startY + node.level * levelHeight + yOffset
-
-      const rows = splitIntoRows(node.children)
-      const positionedChildren: ChartNode[] = []
-
-      if (node.children.length === 0) {
-        // No children - nothing to position
-      } else {
-        // Position each row of children, accounting for subtree widths
-        const parentCenterX = nodeX + nodeWidth / 2
-
-        rows.forEach((row) => {
-          // Calculate actual row width based on subtrees
-          const rowSubtreeWidth = row.reduce((sum, child) =>
-            sum + calculateSubtreeWidth(child), 0
-          ) + (row.length - 1) * siblingSpacing
-
-          let childX = parentCenterX - rowSubtreeWidth / 2
-
-          row.forEach(child => {
-            const childSubtreeWidth = calculateSubtreeWidth(child)
-            const childNodeX = childX + childSubtreeWidth / 2 - nodeWidth / 2
-            const positionedChild = positionNode(child, childNodeX, startY)
-            positionedChildren.push(positionedChild)
-            childX += childSubtreeWidth + siblingSpacing
-          })
-        })
-      }
-
-      return {
-        ...node,
-        x: nodeX,
-        y: nodeY,
-        children: positionedChildren
-      }
-    }
-
-    const positionNodes = (nodes: ChartNode[], startX: number, startY: number): ChartNode[] => {
-      let currentX = startX
-
-      return nodes.map(node => {
-        const subtreeWidth = calculateSubtreeWidth(node)
-        const nodeX = currentX + subtreeWidth / 2 - nodeWidth / 2
-        const positionedNode = positionNode(node, nodeX, startY)
-        currentX += subtreeWidth + siblingSpacing
-        return positionedNode
-      })
-    }
-
-    // First pass: calculate y-offsets
-    calculateYOffsets(nodes, 0)
-
-    // Second pass: position nodes
-    return positionNodes(nodes, 0, 50)
-  }
-
-  // Get all nodes in flat array for rendering
-  const getAllNodes = (nodes: ChartNode[]): ChartNode[] => {
-    const result: ChartNode[] = []
-    const traverse = (node: ChartNode) => {
-      result.push(node)
-      node.children.forEach(traverse)
-    }
-    nodes.forEach(traverse)
-    return result
-  }
-
-  // Get connections between nodes
-  const getConnections = (nodes: ChartNode[]): Array<{from: ChartNode, to: ChartNode}> => {
-    const connections: Array<{from: ChartNode, to: ChartNode}> = []
-    const traverse = (node: ChartNode) => {
-      node.children.forEach(child => {
-        connections.push({ from: node, to: child })
-        traverse(child)
-      })
-    }
-    nodes.forEach(traverse)
-    return connections
-  }
-
   // Memoized children map - built once per employees change instead of per nodeHasChildren call
   const childrenMapCached = useMemo(() => {
     const map = new Map<string, Employee[]>()
@@ -340,10 +168,10 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   }, [employees, searchTerm])
 
   // Memoize expensive tree calculations to prevent recalculation on every render
-  const treeData = useMemo(() => buildTree(filteredEmployees), [filteredEmployees, collapsedNodes])
-  const positionedTree = useMemo(() => calculatePositions(treeData), [treeData])
-  const allNodes = useMemo(() => getAllNodes(positionedTree), [positionedTree])
-  const connections = useMemo(() => getConnections(positionedTree), [positionedTree])
+  const treeData = useMemo(() => buildChartTree(filteredEmployees, collapsedNodes), [filteredEmployees, collapsedNodes])
+  const positionedTree = useMemo(() => calculateChartLayout(treeData, layout), [treeData, layout])
+  const allNodes = useMemo(() => flattenChartNodes(positionedTree), [positionedTree])
+  const connections = useMemo(() => getChartConnections(positionedTree), [positionedTree])
 
   // Memoize total dimensions calculation
   const { totalWidth, totalHeight } = useMemo(() => ({
@@ -398,6 +226,12 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
     return () => window.removeEventListener('resize', handleResize)
   }, [])
 
+  // Another layout moves everyone, so the view starts again from the top-left corner
+  useEffect(() => {
+    setScale(1)
+    setTranslate({ x: 0, y: 0 })
+  }, [layout])
+
   // Pan and zoom handlers
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault()
@@ -434,7 +268,7 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   }
 
   const handleNodeDoubleClick = (nodeId: string) => {
-    if (isSaving) return
+    if (isSaving || readOnly) return
     const employee = employees.find(emp => emp.id === nodeId)
     if (employee) {
       setEditingEmployee(employee)
@@ -443,6 +277,63 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
     }
   }
 
+  const handleNodeContextMenu = (e: React.MouseEvent, nodeId: string) => {
+    if (readOnly || (!onNodeRemove && !onNodeEdit)) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (isSaving) return
+
+    // Position the menu relative to the chart container, where it is rendered
+    const bounds = containerRef.current?.getBoundingClientRect()
+    setContextMenu({
+      employeeId: nodeId,
+      x: e.clientX - (bounds?.left || 0),
+      y: e.clientY - (bounds?.top || 0)
+    })
+  }
+
+  // Close the context menu on any outside click or Escape
+  useEffect(() => {
+    if (!contextMenu) return
+
+    const close = () => setContextMenu(null)
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close()
+    }
+
+    window.addEventListener('mousedown', close)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('mousedown', close)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [contextMenu])
+
+  // Undo/redo shortcuts; text fields keep their own undo behaviour
+  useEffect(() => {
+    if (readOnly || (!onUndo && !onRedo)) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || editModalOpen) return
+
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+      if (e.shiftKey) {
+        if (!canRedo || !onRedo) return
+        e.preventDefault()
+        onRedo()
+      } else {
+        if (!canUndo || !onUndo) return
+        e.preventDefault()
+        onUndo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [readOnly, onUndo, onRedo, canUndo, canRedo, editModalOpen])
+
   const handleEditSave = () => {
     setEditSaveClicked(true)
 
@@ -561,7 +452,7 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
 
   // Drag and drop handlers
   const handleEmployeeDragStart = (e: React.DragEvent, employeeId: string) => {
-    if (isSaving) {
+    if (isSaving || readOnly) {
       e.preventDefault()
       return
     }
@@ -605,8 +496,8 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
     e.preventDefault()
     e.stopPropagation()
 
-    // Prevent drops during saving
-    if (isSaving) {
+    // Prevent drops during saving or when the chart is read-only
+    if (isSaving || readOnly) {
       setDraggedEmployee(null)
       setDropTarget(null)
       setIsNodeDragging(false)
@@ -710,16 +601,27 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
             <stop offset="0%" stopColor="#86198f" />
             <stop offset="100%" stopColor="#701a75" />
           </linearGradient>
+          <linearGradient id="diffAddedGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor="#15803d" />
+            <stop offset="100%" stopColor="#14532d" />
+          </linearGradient>
+          <linearGradient id="diffRemovedGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor="#7f1d1d" />
+            <stop offset="100%" stopColor="#450a0a" />
+          </linearGradient>
+          <linearGradient id="diffMovedGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor="#92400e" />
+            <stop offset="100%" stopColor="#451a03" />
+          </linearGradient>
+          <linearGradient id="diffChangedGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor="#075985" />
+            <stop offset="100%" stopColor="#082f49" />
+          </linearGradient>
         </defs>
         
         <g transform={`translate(${translate.x}, ${translate.y}) scale(${scale})`}>
           {/* Render connections (only visible ones for performance) */}
           {visibleConnections.map((conn, index) => {
-            const fromX = conn.from.x + 100
-            const fromY = conn.from.y + 80
-            const toX = conn.to.x + 100
-            const toY = conn.to.y
-
             // Modern connection colors matching node accents
             let connectionColor = "#475569"
             if (conn.from.level === 0) connectionColor = "#3b82f6"
@@ -727,12 +629,10 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
             else if (conn.from.level === 2) connectionColor = "#22c55e"
             else if (conn.from.level === 3) connectionColor = "#f59e0b"
 
-            const horizontalY = fromY + 20
-
             return (
               <g key={index}>
                 <path
-                  d={`M ${fromX} ${fromY} L ${fromX} ${horizontalY} L ${toX} ${horizontalY} L ${toX} ${toY}`}
+                  d={getChartConnectionPath(conn, layout)}
                   stroke={connectionColor}
                   strokeWidth="1.5"
                   fill="none"
@@ -782,6 +682,17 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
               titleColor = "#fcd34d"
             }
 
+            // In a comparison, how a node changed matters more than its level
+            const nodeDiffStatus = diffStatus?.[node.id]
+            if (diffStatus) {
+              const diffColors = nodeDiffStatus ? DIFF_COLORS[nodeDiffStatus] : null
+              fillGradient = diffColors ? diffColors.fill : "url(#employeeGradient)"
+              strokeColor = diffColors ? diffColors.stroke : "#475569"
+              strokeWidth = diffColors ? 2 : 1
+              textColor = diffColors ? diffColors.text : "#f1f5f9"
+              titleColor = diffColors ? diffColors.title : "#94a3b8"
+            }
+
             // Override with state-based colors
             if (isBeingDragged) {
               fillGradient = "url(#draggedGradient)"
@@ -826,14 +737,17 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
                   fill={fillGradient}
                   stroke={strokeColor}
                   strokeWidth={strokeWidth}
+                  strokeDasharray={nodeDiffStatus === 'removed' ? '6 4' : undefined}
                   filter="url(#modernShadow)"
+                  data-diff-status={nodeDiffStatus}
                   style={{
-                    cursor: isBeingDragged ? 'grabbing' : 'grab',
-                    opacity: isBeingDragged ? 0.9 : 1,
+                    cursor: readOnly ? 'pointer' : isBeingDragged ? 'grabbing' : 'grab',
+                    opacity: isBeingDragged ? 0.9 : nodeDiffStatus === 'removed' ? 0.75 : 1,
                     transition: 'opacity 0.2s ease',
                     outline: 'none'
                   }}
                   onClick={() => handleNodeClick(node.id)}
+                  onContextMenu={(e) => handleNodeContextMenu(e, node.id)}
                   onMouseEnter={() => handleNodeHover(node.id)}
                   onMouseLeave={() => handleNodeHover(null)}
                   onDragStart={(e) => handleEmployeeDragStart(e, node.id)}
@@ -886,7 +800,7 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
                 )}
                 
                 {/* Edit hint on hover */}
-                {isHovered && !isBeingDragged && (
+                {isHovered && !isBeingDragged && !readOnly && (
                   <text
                     x={node.x + 100}
                     y={node.y + 70}
@@ -1069,6 +983,44 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
         </div>
       )}
       
+      {/* Node context menu */}
+      {contextMenu && employeeMap.get(contextMenu.employeeId) && (
+        <div
+          role="menu"
+          className="absolute z-40 min-w-[11rem] rounded-lg border border-border-default bg-base p-1 shadow-2xl"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onMouseDown={(e) => e.stopPropagation()}
+          data-chart-overlay
+        >
+          {onNodeEdit && (
+            <button
+              role="menuitem"
+              onClick={() => {
+                handleNodeDoubleClick(contextMenu.employeeId)
+                setContextMenu(null)
+              }}
+              className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm text-text-primary hover:bg-elevated"
+            >
+              <Pencil className="h-4 w-4 text-text-muted" />
+              Edit employee
+            </button>
+          )}
+          {onNodeRemove && (
+            <button
+              role="menuitem"
+              onClick={() => {
+                onNodeRemove(employeeMap.get(contextMenu.employeeId)!)
+                setContextMenu(null)
+              }}
+              className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm text-red-400 hover:bg-elevated"
+            >
+              <UserMinus className="h-4 w-4" />
+              Remove employee…
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Loading overlay */}
       {isSaving && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1149,6 +1101,32 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
 
       {/* Chart and zoom controls */}
       <div className="absolute top-3 right-3 flex flex-col gap-1 z-10 rounded-xl bg-surface/80 backdrop-blur-xl border border-border-default p-1.5 shadow-2xl" data-chart-overlay>
+        {/* Layout group */}
+        {onLayoutChange && (
+          <>
+            {LAYOUT_OPTIONS.map(option => {
+              const Icon = option.icon
+              return (
+                <button
+                  key={option.layout}
+                  onClick={() => onLayoutChange(option.layout)}
+                  aria-pressed={layout === option.layout}
+                  className={`w-9 h-9 rounded-lg flex items-center justify-center transition-colors ${
+                    layout === option.layout
+                      ? 'bg-indigo-500/20 text-indigo-400'
+                      : 'text-text-secondary hover:text-text-primary hover:bg-elevated active:bg-overlay'
+                  }`}
+                  title={option.label}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              )
+            })}
+
+            <div className="mx-1.5 h-px bg-border-default" />
+          </>
+        )}
+
         {/* Collapse/Expand group */}
         <button
           onClick={collapseAllNodes}
@@ -1170,6 +1148,30 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
         {/* Divider */}
         <div className="mx-1.5 h-px bg-border-default" />
 
+        {/* History group */}
+        {!readOnly && (onUndo || onRedo) && (
+          <>
+            <button
+              onClick={onUndo}
+              disabled={isSaving || !canUndo}
+              className="w-9 h-9 rounded-lg flex items-center justify-center text-text-secondary hover:text-text-primary hover:bg-elevated active:bg-overlay disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={isSaving || !canRedo}
+              className="w-9 h-9 rounded-lg flex items-center justify-center text-text-secondary hover:text-text-primary hover:bg-elevated active:bg-overlay disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+
+            <div className="mx-1.5 h-px bg-border-default" />
+          </>
+        )}
+
         {/* Zoom group */}
         <button
           onClick={() => setScale(Math.min(scale * 1.2, 3))}
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { X, Columns, AlertTriangle } from 'lucide-react'
+
+export type MappableField = 'name' | 'manager' | 'title' | 'employeeId' | 'managerId' | 'email' | 'department'
+
+export interface ColumnMappingSelection {
+  nameColumn: number
+  managerColumn: number | null
+  titleColumn: number | null
+  employeeIdColumn: number | null
+  managerIdColumn: number | null
+  emailColumn: number | null
+  departmentColumn: number | null
+}
+
+export interface ColumnCandidateScores {
+  columnIndex: number
+  header: string
+  scores: Record<MappableField, number>
+}
+
+export interface ColumnMappingModalProps {
+  isOpen: boolean
+  fileName: string
+  headers: string[]
+  sampleRows: any[][]
+  totalRows: number
+  candidates: ColumnCandidateScores[]
+  guessedMapping: {
+    nameColumn: number | null
+    managerColumn: number | null
+    titleColumn: number | null
+    employeeIdColumn?: number | null
+    managerIdColumn?: number | null
+  }
+  confidence: number
+  onClose: () => void
+  onSubmit: (mapping: ColumnMappingSelection) => void
+  isLoading?: boolean
+}
+
+const FIELDS: Array<{ field: MappableField; key: keyof ColumnMappingSelection; label: string; required?: boolean }> = [
+  { field: 'name', key: 'nameColumn', label: 'Employee Name', required: true },
+  { field: 'manager', key: 'managerColumn', label: 'Manager' },
+  { field: 'title', key: 'titleColumn', label: 'Job Title' },
+  { field: 'employeeId', key: 'employeeIdColumn', label: 'Employee ID' },
+  { field: 'managerId', key: 'managerIdColumn', label: 'Manager ID' },
+  { field: 'email', key: 'emailColumn', label: 'Email' },
+  { field: 'department', key: 'departmentColumn', label: 'Department' },
+]
+
+// Below this the guessed mapping is flagged for careful review
+const LOW_CONFIDENCE = 0.6
+// Minimum candidate score for suggesting a column the parser did not pick itself
+const SUGGESTION_THRESHOLD = 0.5
+
+type DraftMapping = Record<keyof ColumnMappingSelection, number | null>
+
+const buildInitialMapping = (
+  guessed: ColumnMappingModalProps['guessedMapping'],
+  candidates: ColumnCandidateScores[]
+): DraftMapping => {
+  const mapping: DraftMapping = {
+    nameColumn: guessed.nameColumn,
+    managerColumn: guessed.managerColumn,
+    titleColumn: guessed.titleColumn,
+    employeeIdColumn: guessed.employeeIdColumn ?? null,
+    managerIdColumn: guessed.managerIdColumn ?? null,
+    emailColumn: null,
+    departmentColumn: null,
+  }
+
+  // Suggest the best remaining column for each optional field
+  const used = new Set(Object.values(mapping).filter((column): column is number => column !== null))
+  FIELDS.filter(({ key }) => mapping[key] === null).forEach(({ field, key }) => {
+    const best = candidates
+      .filter(candidate => !used.has(candidate.columnIndex) && candidate.scores[field] >= SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.scores[field] - a.scores[field])[0]
+    if (best) {
+      mapping[key] = best.columnIndex
+      used.add(best.columnIndex)
+    }
+  })
+
+  return mapping
+}
+
+export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
+  isOpen,
+  fileName,
+  headers,
+  sampleRows,
+  totalRows,
+  candidates,
+  guessedMapping,
+  confidence,
+  onClose,
+  onSubmit,
+  isLoading = false
+}) => {
+  const [mapping, setMapping] = useState<DraftMapping>(() => buildInitialMapping(guessedMapping, candidates))
+
+  useEffect(() => {
+    setMapping(buildInitialMapping(guessedMapping, candidates))
+  }, [guessedMapping, candidates])
+
+  const duplicateColumns = useMemo(() => {
+    const counts = new Map<number, number>()
+    Object.values(mapping).forEach(column => {
+      if (column !== null) counts.set(column, (counts.get(column) || 0) + 1)
+    })
+    return new Set(Array.from(counts.entries()).filter(([, count]) => count > 1).map(([column]) => column))
+  }, [mapping])
+
+  const canSubmit = mapping.nameColumn !== null && duplicateColumns.size === 0
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit || mapping.nameColumn === null) return
+    onSubmit({ ...mapping, nameColumn: mapping.nameColumn })
+  }
+
+  const getScore = (field: MappableField, column: number | null): number | null => {
+    if (column === null) return null
+    return candidates.find(candidate => candidate.columnIndex === column)?.scores[field] ?? null
+  }
+
+  const getSamples = (column: number | null): string => {
+    if (column === null) return ''
+    return sampleRows
+      .map(row => String(row[column] ?? '').trim())
+      .filter(value => value.length > 0)
+      .slice(0, 3)
+      .join(', ')
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-3xl w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg shadow-sm">
+              <Columns className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Review Column Mapping</h2>
+              <p className="text-xs text-text-muted truncate max-w-md">
+                {fileName} · {totalRows} row{totalRows !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          {confidence < LOW_CONFIDENCE && (
+            <div className="mb-4 flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                The columns could only be identified with {Math.round(confidence * 100)}% confidence. Please check the mapping below.
+              </span>
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-text-muted border-b border-border-default">
+                <th className="py-2 pr-3 font-medium">Field</th>
+                <th className="py-2 pr-3 font-medium">Column</th>
+                <th className="py-2 pr-3 font-medium">Match</th>
+                <th className="py-2 font-medium">Sample values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {FIELDS.map(({ field, key, label, required }) => {
+                const column = mapping[key]
+                const score = getScore(field, column)
+                const isDuplicate = column !== null && duplicateColumns.has(column)
+
+                return (
+                  <tr key={key} className="border-b border-border-default last:border-b-0">
+                    <td className="py-2 pr-3 font-medium text-text-primary whitespace-nowrap">
+                      {label}{required && ' *'}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select
+                        aria-label={`${label} column`}
+                        value={column === null ? '' : String(column)}
+                        onChange={(e) => {
+                          const value = e.target.value
+                          setMapping(prev => ({ ...prev, [key]: value === '' ? null : Number(value) }))
+                        }}
+                        disabled={isLoading}
+                        className={`w-full px-3 py-2 bg-elevated border rounded-lg text-text-primary outline-none focus:ring-2 focus:ring-indigo-500/30 ${
+                          isDuplicate ? 'border-rose-400' : 'border-border-default'
+                        }`}
+                      >
+                        <option value="">{required ? 'Select a column' : 'Not mapped'}</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-3 text-text-secondary whitespace-nowrap">
+                      {score !== null ? `${Math.round(score * 100)}%` : '—'}
+                    </td>
+                    <td className="py-2 text-xs text-text-muted truncate max-w-[16rem]">
+                      {getSamples(column)}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          {duplicateColumns.size > 0 && (
+            <p className="mt-3 text-sm text-rose-400">Each column can only be mapped to one field.</p>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading || !canSubmit}
+            >
+              {isLoading ? 'Building chart...' : 'Build Chart'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
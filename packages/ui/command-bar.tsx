@@ -0,0 +1,90 @@
+import React from 'react'
+import { Sparkles, Check, X, Loader2 } from 'lucide-react'
+
+export interface CommandBarPreview {
+  description: string
+}
+
+export interface CommandBarProps {
+  value: string
+  onValueChange: (value: string) => void
+  onSubmit: (command: string) => void
+  /** What the submitted command will do; nothing changes until it is confirmed */
+  preview: CommandBarPreview | null
+  error?: string | null
+  onConfirm: () => void
+  onCancel: () => void
+  isLoading?: boolean
+  className?: string
+}
+
+export const CommandBar: React.FC<CommandBarProps> = ({
+  value,
+  onValueChange,
+  onSubmit,
+  preview,
+  error,
+  onConfirm,
+  onCancel,
+  isLoading = false,
+  className = ''
+}) => {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!value.trim()) return
+    onSubmit(value.trim())
+  }
+
+  return (
+    <div className={`mb-3 ${className}`}>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Sparkles className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-indigo-400 pointer-events-none" />
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => onValueChange(e.target.value)}
+            placeholder='Try "move Priya under Marcus" or "add Jane Doe as Senior Engineer reporting to Alex"'
+            className="w-full pl-9 pr-3 py-2.5 text-sm bg-elevated border border-border-default rounded-lg text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-indigo-500/30 focus:border-indigo-400 transition-all duration-200"
+            aria-label="Chart command"
+            disabled={isLoading}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2.5 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          disabled={isLoading || !value.trim()}
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Submit'}
+        </button>
+      </form>
+
+      {error && !preview && (
+        <p role="alert" className="mt-2 text-sm text-red-400">{error}</p>
+      )}
+
+      {preview && (
+        <div
+          aria-label="Command preview"
+          className="mt-2 flex items-center gap-3 rounded-lg border border-indigo-500/30 bg-indigo-500/10 px-4 py-2"
+        >
+          <span className="flex-1 text-sm text-text-primary">{preview.description}</span>
+          <button
+            onClick={onConfirm}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            <Check className="w-3.5 h-3.5" />
+            Apply
+          </button>
+          <button
+            onClick={onCancel}
+            className="p-1.5 text-text-muted hover:text-text-primary hover:bg-elevated rounded-md transition-colors"
+            aria-label="Discard command"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ChevronDown, Download, Loader2 } from 'lucide-react'
+
+export interface ExportOption {
+  id: string
+  label: string
+  /** One line on what the file contains */
+  description?: string
+}
+
+export interface ExportMenuProps {
+  options: ExportOption[]
+  onSelect: (optionId: string) => void
+  isExporting?: boolean
+  disabled?: boolean
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  options,
+  onSelect,
+  isExporting = false,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const handleSelect = (optionId: string) => {
+    setIsOpen(false)
+    onSelect(optionId)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-xl bg-elevated text-text-primary hover:bg-overlay border border-border-default hover:border-text-muted transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-base disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        disabled={disabled || isExporting}
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+        <ChevronDown className="w-4 h-4 text-text-muted" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label="Export formats"
+          className="absolute right-0 mt-2 w-64 rounded-xl border border-border-default bg-surface/95 backdrop-blur-md shadow-2xl z-50 p-1"
+        >
+          {options.map(option => (
+            <button
+              key={option.id}
+              role="menuitem"
+              onClick={() => handleSelect(option.id)}
+              className="w-full rounded-lg px-3 py-2 text-left hover:bg-elevated transition-colors"
+            >
+              <span className="block text-sm text-text-primary">{option.label}</span>
+              {option.description && (
+                <span className="block text-xs text-text-muted">{option.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
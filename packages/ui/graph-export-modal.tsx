@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react'
+import { X, Share2 } from 'lucide-react'
+
+export interface GraphExportSettings {
+  // Only this person and everyone below them; undefined covers the whole chart
+  rootId?: string
+  // Levels below the top to include; undefined includes every level
+  depth?: number
+}
+
+export interface GraphExportModalProps {
+  isOpen: boolean
+  // Name of the format being exported, e.g. "Mermaid"
+  formatLabel: string
+  onClose: () => void
+  onSubmit: (settings: GraphExportSettings) => void
+  // People who can be chosen as the top of the export, usually the managers
+  roots: Array<{ id: string; name: string; title?: string }>
+  // Number of levels below the top of the chart
+  maxDepth: number
+  isLoading?: boolean
+}
+
+export const GraphExportModal: React.FC<GraphExportModalProps> = ({
+  isOpen,
+  formatLabel,
+  onClose,
+  onSubmit,
+  roots,
+  maxDepth,
+  isLoading = false
+}) => {
+  const [rootId, setRootId] = useState('')
+  const [depth, setDepth] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      setRootId('')
+      setDepth('')
+    }
+  }, [isOpen])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      rootId: rootId || undefined,
+      depth: depth ? Number(depth) : undefined
+    })
+  }
+
+  if (!isOpen) return null
+
+  const levels = Array.from({ length: Math.max(0, maxDepth) }, (_, index) => index + 1)
+  const fieldClass = 'w-full px-3 py-2 text-sm bg-elevated border border-border-default rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500/30'
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-md w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <Share2 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Export {formatLabel}</h2>
+              <p className="text-xs text-text-muted">People as nodes, reporting lines as edges</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div>
+            <label htmlFor="graph-root" className="block text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">
+              Starting from
+            </label>
+            <select
+              id="graph-root"
+              value={rootId}
+              onChange={(e) => setRootId(e.target.value)}
+              disabled={isLoading}
+              className={fieldClass}
+            >
+              <option value="">The whole organization</option>
+              {roots.map(root => (
+                <option key={root.id} value={root.id}>
+                  {root.title ? `${root.name} (${root.title})` : root.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="graph-depth" className="block text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">
+              Levels
+            </label>
+            <select
+              id="graph-depth"
+              value={depth}
+              onChange={(e) => setDepth(e.target.value)}
+              disabled={isLoading}
+              className={fieldClass}
+            >
+              <option value="">Everyone below</option>
+              {levels.map(level => (
+                <option key={level} value={level}>
+                  {level === 1 ? 'Direct reports only' : `${level} levels down`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Exporting...' : `Download ${formatLabel}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import React from 'react'
+import { X, History, Undo2, Redo2 } from 'lucide-react'
+
+export interface HistoryPanelEntry {
+  id: string
+  label: string
+  timestamp: Date
+}
+
+export interface HistoryPanelProps {
+  isOpen: boolean
+  /** Changes that can be undone, oldest first */
+  undoEntries: HistoryPanelEntry[]
+  /** Changes that were undone, in the order they were undone; the last one is redone next */
+  redoEntries: HistoryPanelEntry[]
+  onUndo: () => void
+  onRedo: () => void
+  onClose: () => void
+  isBusy?: boolean
+}
+
+const formatTime = (timestamp: Date) =>
+  timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+const iconButtonClassName = 'p-1.5 rounded-md text-text-muted hover:text-text-primary hover:bg-elevated disabled:opacity-40 disabled:cursor-not-allowed transition-colors'
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen,
+  undoEntries,
+  redoEntries,
+  onUndo,
+  onRedo,
+  onClose,
+  isBusy = false
+}) => {
+  if (!isOpen) return null
+
+  // Newest change first, so the next redo sits right above the next undo
+  const undone = [...redoEntries]
+  const applied = [...undoEntries].reverse()
+
+  return (
+    <aside
+      aria-label="Change history"
+      className="fixed right-4 top-20 z-40 w-80 max-h-[70vh] flex flex-col bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl border border-border-default"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border-default">
+        <div className="flex items-center space-x-2">
+          <History className="w-4 h-4 text-text-muted" />
+          <h2 className="text-sm font-semibold text-text-primary">History</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            className={iconButtonClassName}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+            disabled={isBusy || undoEntries.length === 0}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            className={iconButtonClassName}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+            disabled={isBusy || redoEntries.length === 0}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className={iconButtonClassName} aria-label="Close history">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {applied.length === 0 && undone.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-text-muted text-center">No changes yet</p>
+      ) : (
+        <ol aria-label="Recent changes" className="overflow-y-auto py-2">
+          {undone.map(entry => (
+            <li key={entry.id} data-undone="true" className="flex items-center gap-3 px-4 py-1.5 text-sm text-text-muted line-through">
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-xs">{formatTime(entry.timestamp)}</span>
+            </li>
+          ))}
+          {applied.map(entry => (
+            <li key={entry.id} className="flex items-center gap-3 px-4 py-1.5 text-sm text-text-secondary">
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-xs text-text-muted">{formatTime(entry.timestamp)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </aside>
+  )
+}
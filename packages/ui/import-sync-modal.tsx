@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react'
+import { Employee, ImportSyncSummary, OrgDiffEntry } from '../shared'
+import { X, RefreshCw } from 'lucide-react'
+
+export type ImportMode = 'sync' | 'replace'
+
+export interface ImportSyncModalProps {
+  isOpen: boolean
+  fileName: string
+  /** New hires and updated people, as a dry run of the merge */
+  entries: OrgDiffEntry[]
+  /** People the chart has but the file no longer lists */
+  missing: Employee[]
+  summary: ImportSyncSummary
+  onClose: () => void
+  onSubmit: (choice: { mode: ImportMode; removeMissing: boolean }) => void
+  isLoading?: boolean
+}
+
+const describeUpdate = (entry: OrgDiffEntry): string => {
+  const details: string[] = []
+  if (entry.changes.includes('renamed')) details.push(`was ${entry.before?.name}`)
+  if (entry.changes.includes('retitled')) details.push(`${entry.before?.title} → ${entry.after?.title}`)
+  if (entry.changes.includes('moved')) details.push(`now under ${entry.newManagerName || 'the top level'}`)
+  return details.join(' · ')
+}
+
+export const ImportSyncModal: React.FC<ImportSyncModalProps> = ({
+  isOpen,
+  fileName,
+  entries,
+  missing,
+  summary,
+  onClose,
+  onSubmit,
+  isLoading = false
+}) => {
+  const [removeMissing, setRemoveMissing] = useState(false)
+
+  useEffect(() => {
+    setRemoveMissing(false)
+  }, [fileName, isOpen])
+
+  if (!isOpen) return null
+
+  const added = entries.filter(entry => !entry.before)
+  const updated = entries.filter(entry => entry.before && entry.after)
+  const counts = [
+    { label: 'New hires', value: summary.added, className: 'text-green-400' },
+    { label: 'Updated', value: summary.updated, className: 'text-sky-400' },
+    { label: 'Missing', value: summary.missing, className: 'text-red-400' },
+    { label: 'Unchanged', value: summary.unchanged, className: 'text-text-muted' }
+  ]
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-lg w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <RefreshCw className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Update Existing Chart</h2>
+              <p className="text-xs text-text-muted">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-sm text-text-secondary mb-4">
+            Merging matches the file to the people already on the chart and keeps their edits. Nothing changes until you confirm.
+          </p>
+
+          <dl aria-label="Sync summary" className="grid grid-cols-4 gap-2 mb-4">
+            {counts.map(count => (
+              <div key={count.label} className="p-2 rounded-lg bg-elevated border border-border-default text-center">
+                <dt className="text-[10px] uppercase tracking-wide text-text-muted">{count.label}</dt>
+                <dd className={`text-lg font-semibold ${count.className}`}>{count.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="max-h-64 overflow-y-auto space-y-3 text-sm">
+            {added.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">New hires</h3>
+                <ul aria-label="New hires">
+                  {added.map(entry => (
+                    <li key={entry.employeeId} className="text-text-primary">
+                      {entry.name} <span className="text-text-muted">· {entry.after?.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+            {updated.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">Updated</h3>
+                <ul aria-label="Updated">
+                  {updated.map(entry => (
+                    <li key={entry.employeeId} className="text-text-primary">
+                      {entry.name} <span className="text-text-muted">· {describeUpdate(entry)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+            {missing.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">Not in the file</h3>
+                <ul aria-label="Not in the file">
+                  {missing.map(employee => (
+                    <li key={employee.id} className="text-text-primary">
+                      {employee.name} <span className="text-text-muted">· {employee.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+
+          {missing.length > 0 && (
+            <label className="flex items-center gap-2 mt-4 text-sm text-text-secondary">
+              <input
+                type="checkbox"
+                checked={removeMissing}
+                onChange={(e) => setRemoveMissing(e.target.checked)}
+                disabled={isLoading}
+              />
+              Remove the {missing.length} {missing.length === 1 ? 'person' : 'people'} not in the file
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={() => onSubmit({ mode: 'replace', removeMissing: false })}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              title="Discard the current chart and its edits"
+              disabled={isLoading}
+            >
+              Replace Chart
+            </button>
+            <button
+              type="button"
+              onClick={() => onSubmit({ mode: 'sync', removeMissing })}
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-purple-600 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <div className="flex items-center">
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
+                  Importing...
+                </div>
+              ) : (
+                <div className="flex items-center">
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Merge Changes
+                </div>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { render, screen, fireEvent } from '@testing-library/react'
 import { describe, it, expect, vi } from 'vitest'
-import { Button, Header, ChartViewerPlaceholder } from './index'
+import { Button, Header, ChartViewerPlaceholder, LoginForm, OrganizationMembersModal, HistoryPanel, AuditTimelineDrawer, VersionHistoryModal, OrgDiffSidebar, ImportSyncModal, CommandBar, ExportMenu, PdfExportModal, PptxExportModal, GraphExportModal } from './index'
 
 describe('Button Component', () => {
   it('renders button with text', () => {
@@ -51,6 +51,41 @@ describe('Header Component', () => {
     expect(header).toBeInTheDocument()
     expect(header.className).toContain('bg-white')
   })
+
+  it('switches and creates organizations from the organization switcher', () => {
+    const onSelect = vi.fn()
+    const onCreate = vi.fn()
+    render(
+      <Header
+        organizationSwitcher={{
+          organizations: [{ id: 'org1', name: 'Acme' }, { id: 'org2', name: 'Acme EMEA' }],
+          currentOrganizationId: 'org1',
+          onSelect,
+          onCreate,
+          onRename: vi.fn(),
+          onDelete: vi.fn()
+        }}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Acme'))
+    fireEvent.click(screen.getByText('Acme EMEA'))
+    expect(onSelect).toHaveBeenCalledWith('org2')
+
+    fireEvent.click(screen.getByRole('button', { expanded: false }))
+    fireEvent.change(screen.getByLabelText('New organization name'), { target: { value: 'Scenario B' } })
+    fireEvent.click(screen.getByLabelText('Create organization'))
+    expect(onCreate).toHaveBeenCalledWith('Scenario B')
+  })
+
+  it('shows the signed-in user and signs out', () => {
+    const onSignOut = vi.fn()
+    render(<Header account={{ name: 'Jane Smith', email: 'jane@example.com', onSignOut }} />)
+
+    expect(screen.getByText('Jane Smith')).toBeInTheDocument()
+    fireEvent.click(screen.getByLabelText('Sign out'))
+    expect(onSignOut).toHaveBeenCalledOnce()
+  })
 })
 
 describe('ChartViewerPlaceholder Component', () => {
@@ -71,4 +106,467 @@ describe('ChartViewerPlaceholder Component', () => {
     const placeholder = screen.getByText('Organization Chart Preview').parentElement
     expect(placeholder?.className).toContain('border-dashed')
   })
-})
\ No newline at end of file
+})
+
+describe('LoginForm Component', () => {
+  it('signs in with email and password', () => {
+    const onLogin = vi.fn()
+    render(<LoginForm onLogin={onLogin} onRegister={vi.fn()} />)
+
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: ' jane@example.com ' } })
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'password123' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    expect(onLogin).toHaveBeenCalledWith({ email: 'jane@example.com', password: 'password123' })
+  })
+
+  it('switches to account creation and shows errors', () => {
+    const onRegister = vi.fn()
+    render(<LoginForm onLogin={vi.fn()} onRegister={onRegister} error="An account with this email already exists" />)
+
+    fireEvent.click(screen.getByText('Create an account'))
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Jane Smith' } })
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'jane@example.com' } })
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'password123' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Create account' }))
+
+    expect(onRegister).toHaveBeenCalledWith({ email: 'jane@example.com', name: 'Jane Smith', password: 'password123' })
+    expect(screen.getByRole('alert')).toHaveTextContent('An account with this email already exists')
+  })
+})
+
+describe('OrganizationMembersModal Component', () => {
+  const members = [
+    { userId: 'user1', name: 'Jane Smith', email: 'jane@example.com', role: 'owner' as const },
+    { userId: 'user2', name: 'Sam Lee', email: 'sam@example.com', role: 'viewer' as const }
+  ]
+
+  const renderModal = (props: Partial<React.ComponentProps<typeof OrganizationMembersModal>> = {}) => {
+    const handlers = { onClose: vi.fn(), onInvite: vi.fn(), onChangeRole: vi.fn(), onRemove: vi.fn(), onRevoke: vi.fn() }
+    render(
+      <OrganizationMembersModal
+        isOpen
+        organizationName="Acme"
+        members={members}
+        invitations={[{ id: 'inv1', email: 'new@example.com', role: 'editor' }]}
+        currentUserId="user1"
+        canManage
+        {...handlers}
+        {...props}
+      />
+    )
+    return handlers
+  }
+
+  it('lets owners invite, change roles and revoke invitations', () => {
+    const handlers = renderModal()
+
+    fireEvent.change(screen.getByLabelText('Invite email'), { target: { value: 'alex@example.com' } })
+    fireEvent.change(screen.getByLabelText('Invite role'), { target: { value: 'editor' } })
+    fireEvent.click(screen.getByText('Invite'))
+    expect(handlers.onInvite).toHaveBeenCalledWith({ email: 'alex@example.com', role: 'editor' })
+
+    fireEvent.change(screen.getByLabelText('Role for Sam Lee'), { target: { value: 'editor' } })
+    expect(handlers.onChangeRole).toHaveBeenCalledWith('user2', 'editor')
+
+    fireEvent.click(screen.getByLabelText('Revoke invitation for new@example.com'))
+    expect(handlers.onRevoke).toHaveBeenCalledWith('inv1')
+  })
+
+  it('only lets other members leave', () => {
+    const handlers = renderModal({ currentUserId: 'user2', canManage: false })
+
+    expect(screen.queryByLabelText('Invite email')).not.toBeInTheDocument()
+    expect(screen.queryByText('Pending invitations')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText('Leave organization'))
+    expect(handlers.onRemove).toHaveBeenCalledWith('user2')
+  })
+})
+
+describe('HistoryPanel Component', () => {
+  const entry = (id: string, label: string) => ({ id, label, timestamp: new Date('2024-01-01T09:30:00') })
+
+  it('lists recent changes newest first with undone changes on top', () => {
+    render(
+      <HistoryPanel
+        isOpen
+        undoEntries={[entry('1', 'Moved Sam'), entry('2', 'Renamed Alex')]}
+        redoEntries={[entry('4', 'Removed Jo'), entry('3', 'Added Kim')]}
+        onUndo={vi.fn()}
+        onRedo={vi.fn()}
+        onClose={vi.fn()}
+      />
+    )
+
+    const items = screen.getAllByRole('listitem')
+    expect(items.map(item => item.querySelector('span')?.textContent)).toEqual(['Removed Jo', 'Added Kim', 'Renamed Alex', 'Moved Sam'])
+    expect(items[0]).toHaveAttribute('data-undone', 'true')
+    expect(items[2]).not.toHaveAttribute('data-undone')
+  })
+
+  it('calls undo and redo and disables them when there is nothing to replay', () => {
+    const onUndo = vi.fn()
+    const onRedo = vi.fn()
+    render(
+      <HistoryPanel isOpen undoEntries={[entry('1', 'Moved Sam')]} redoEntries={[]} onUndo={onUndo} onRedo={onRedo} onClose={vi.fn()} />
+    )
+
+    fireEvent.click(screen.getByLabelText('Undo'))
+    expect(onUndo).toHaveBeenCalledOnce()
+    expect(screen.getByLabelText('Redo')).toBeDisabled()
+  })
+
+  it('shows an empty state', () => {
+    render(<HistoryPanel isOpen undoEntries={[]} redoEntries={[]} onUndo={vi.fn()} onRedo={vi.fn()} onClose={vi.fn()} />)
+
+    expect(screen.getByText('No changes yet')).toBeInTheDocument()
+  })
+})
+
+describe('AuditTimelineDrawer Component', () => {
+  const jane = { id: 'emp1', name: 'Jane Smith', title: 'CEO', organizationId: 'org1', managerId: null }
+  const john = { id: 'emp2', name: 'John Doe', title: 'Developer', organizationId: 'org1', managerId: 'emp1' }
+  const entry = {
+    actorName: 'Sam Lee',
+    timestamp: '2024-03-01T09:00:00.000Z',
+    employeeId: 'emp2'
+  }
+
+  it('describes each change with who made it', () => {
+    render(
+      <AuditTimelineDrawer
+        isOpen
+        entries={[
+          { ...entry, id: 'a3', operation: 'edit', before: john, after: { ...john, title: 'Lead Developer' } },
+          { ...entry, id: 'a2', operation: 'move', before: { ...john, managerId: null }, after: john },
+          { ...entry, id: 'a1', operation: 'import', employeeId: null, before: null, after: null, details: { fileName: 'roster.csv', employeeCount: 2 } }
+        ]}
+        employees={[jane, john]}
+        filter={{}}
+        onFilterChange={vi.fn()}
+        onClose={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('Edited John Doe')).toBeInTheDocument()
+    expect(screen.getByText('Title: Developer → Lead Developer')).toBeInTheDocument()
+    expect(screen.getByText('the top level → Jane Smith')).toBeInTheDocument()
+    expect(screen.getByText('Imported roster.csv')).toBeInTheDocument()
+    expect(screen.getAllByText(/Sam Lee/)).toHaveLength(3)
+  })
+
+  it('reports filter changes', () => {
+    const onFilterChange = vi.fn()
+    render(
+      <AuditTimelineDrawer
+        isOpen
+        entries={[]}
+        employees={[jane, john]}
+        filter={{ from: '2024-03-01' }}
+        onFilterChange={onFilterChange}
+        onClose={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('No changes recorded')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Filter by employee'), { target: { value: 'emp2' } })
+    expect(onFilterChange).toHaveBeenCalledWith({ from: '2024-03-01', employeeId: 'emp2' })
+
+    fireEvent.change(screen.getByLabelText('From date'), { target: { value: '' } })
+    expect(onFilterChange).toHaveBeenLastCalledWith({ from: undefined })
+  })
+})
+
+describe('VersionHistoryModal Component', () => {
+  const versions = [
+    { id: 's2', name: 'End of Q2', source: 'manual' as const, createdAt: '2024-06-30T17:00:00.000Z', createdByName: 'Sam Lee', employeeCount: 42 },
+    { id: 's1', name: 'Import of roster.csv', source: 'import' as const, createdAt: '2024-04-01T09:00:00.000Z', createdByName: 'Sam Lee', employeeCount: 40 }
+  ]
+
+  const renderModal = (props: Partial<React.ComponentProps<typeof VersionHistoryModal>> = {}) => {
+    const handlers = { onClose: vi.fn(), onCreate: vi.fn(), onView: vi.fn(), onRestore: vi.fn(), onDelete: vi.fn() }
+    render(<VersionHistoryModal isOpen versions={versions} canEdit {...handlers} {...props} />)
+    return handlers
+  }
+
+  it('saves, opens and restores versions', () => {
+    const handlers = renderModal()
+
+    fireEvent.change(screen.getByLabelText('Snapshot name'), { target: { value: ' End of Q3 ' } })
+    fireEvent.click(screen.getByText('Save snapshot'))
+    expect(handlers.onCreate).toHaveBeenCalledWith('End of Q3')
+
+    fireEvent.click(screen.getByLabelText('View End of Q2'))
+    expect(handlers.onView).toHaveBeenCalledWith('s2')
+
+    fireEvent.click(screen.getByLabelText('Restore Import of roster.csv'))
+    expect(handlers.onRestore).toHaveBeenCalledWith('s1')
+    expect(screen.getByText(/42 employees/)).toBeInTheDocument()
+  })
+
+  it('only lets viewers open versions', () => {
+    renderModal({ canEdit: false })
+
+    expect(screen.queryByLabelText('Snapshot name')).not.toBeInTheDocument()
+    expect(screen.queryByLabelText('Restore End of Q2')).not.toBeInTheDocument()
+    expect(screen.getByLabelText('View End of Q2')).toBeInTheDocument()
+  })
+
+  it('compares a version with the current chart', () => {
+    const onCompare = vi.fn()
+    renderModal({ onCompare })
+
+    fireEvent.click(screen.getByLabelText('Compare End of Q2'))
+    expect(onCompare).toHaveBeenCalledWith('s2')
+  })
+})
+
+describe('OrgDiffSidebar Component', () => {
+  const manager = { id: '1', name: 'Jane Smith', title: 'CEO', organizationId: 'org1', managerId: null }
+  const entries = [
+    {
+      employeeId: '4',
+      name: 'Alex Kim',
+      changes: ['removed' as const],
+      before: { id: '4', name: 'Alex Kim', title: 'Engineer', organizationId: 'org1', managerId: '1' },
+      after: null,
+      previousManagerName: 'Jane Smith',
+      newManagerName: null
+    },
+    {
+      employeeId: '3',
+      name: 'Sam Lee',
+      changes: ['moved' as const, 'retitled' as const],
+      before: { id: '3', name: 'Sam Lee', title: 'Engineer', organizationId: 'org1', managerId: '2' },
+      after: { id: '3', name: 'Sam Lee', title: 'Staff Engineer', organizationId: 'org1', managerId: '1' },
+      previousManagerName: 'John Doe',
+      newManagerName: manager.name
+    }
+  ]
+  const summary = { added: 0, removed: 1, moved: 1, retitled: 1, renamed: 0, unchanged: 2 }
+  const versions = [{ id: 's2', name: 'End of Q2' }, { id: 's1', name: 'End of Q1' }]
+
+  it('lists each change with its details and a summary', () => {
+    render(
+      <OrgDiffSidebar
+        isOpen
+        entries={entries}
+        summary={summary}
+        versions={versions}
+        baseVersionId="s1"
+        targetVersionId={null}
+        onVersionsChange={vi.fn()}
+        onClose={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('Was Engineer under Jane Smith')).toBeInTheDocument()
+    expect(screen.getByText('John Doe → Jane Smith')).toBeInTheDocument()
+    expect(screen.getByText('Title: Engineer → Staff Engineer')).toBeInTheDocument()
+    expect(screen.getByLabelText('Summary')).toHaveTextContent('Left: 1')
+    expect(screen.getByLabelText('Compare to')).toHaveValue('__current__')
+  })
+
+  it('switches the compared versions', () => {
+    const onVersionsChange = vi.fn()
+    render(
+      <OrgDiffSidebar
+        isOpen
+        entries={[]}
+        summary={{ ...summary, removed: 0, moved: 0, retitled: 0, unchanged: 3 }}
+        versions={versions}
+        baseVersionId="s1"
+        targetVersionId={null}
+        onVersionsChange={onVersionsChange}
+        onClose={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('No differences')).toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText('Compare to'), { target: { value: 's2' } })
+    expect(onVersionsChange).toHaveBeenCalledWith('s1', 's2')
+  })
+})
+
+describe('ImportSyncModal Component', () => {
+  const jane = { id: '1', name: 'Jane Smith', title: 'CEO', organizationId: 'org1', managerId: null }
+  const entries = [
+    {
+      employeeId: 'row-5',
+      name: 'Priya Patel',
+      changes: ['added' as const],
+      before: null,
+      after: { id: 'row-5', name: 'Priya Patel', title: 'Engineer', organizationId: 'org1', managerId: '1' },
+      previousManagerName: null,
+      newManagerName: jane.name
+    },
+    {
+      employeeId: '3',
+      name: 'Sam Lee',
+      changes: ['retitled' as const],
+      before: { id: '3', name: 'Sam Lee', title: 'Engineer', organizationId: 'org1', managerId: '1' },
+      after: { id: '3', name: 'Sam Lee', title: 'Staff Engineer', organizationId: 'org1', managerId: '1' },
+      previousManagerName: jane.name,
+      newManagerName: jane.name
+    }
+  ]
+  const missing = [{ id: '4', name: 'Alex Kim', title: 'Engineer', organizationId: 'org1', managerId: '1' }]
+  const summary = { added: 1, updated: 1, unchanged: 1, missing: 1, removed: 0 }
+
+  const renderModal = (onSubmit = vi.fn()) => render(
+    <ImportSyncModal
+      isOpen
+      fileName="roster.csv"
+      entries={entries}
+      missing={missing}
+      summary={summary}
+      onClose={vi.fn()}
+      onSubmit={onSubmit}
+    />
+  )
+
+  it('shows the dry run of the merge', () => {
+    renderModal()
+
+    expect(screen.getByLabelText('New hires')).toHaveTextContent('Priya Patel')
+    expect(screen.getByLabelText('Updated')).toHaveTextContent('Engineer → Staff Engineer')
+    expect(screen.getByLabelText('Not in the file')).toHaveTextContent('Alex Kim')
+  })
+
+  it('merges and optionally removes people missing from the file', () => {
+    const onSubmit = vi.fn()
+    renderModal(onSubmit)
+
+    fireEvent.click(screen.getByLabelText('Remove the 1 person not in the file'))
+    fireEvent.click(screen.getByText('Merge Changes'))
+    expect(onSubmit).toHaveBeenCalledWith({ mode: 'sync', removeMissing: true })
+
+    fireEvent.click(screen.getByText('Replace Chart'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ mode: 'replace', removeMissing: false })
+  })
+})
+
+describe('CommandBar Component', () => {
+  const renderBar = (props: Partial<React.ComponentProps<typeof CommandBar>> = {}) => render(
+    <CommandBar
+      value="move Priya under Marcus"
+      onValueChange={vi.fn()}
+      onSubmit={vi.fn()}
+      preview={null}
+      onConfirm={vi.fn()}
+      onCancel={vi.fn()}
+      {...props}
+    />
+  )
+
+  it('submits the typed command', () => {
+    const onSubmit = vi.fn()
+    renderBar({ onSubmit })
+
+    fireEvent.click(screen.getByText('Submit'))
+    expect(onSubmit).toHaveBeenCalledWith('move Priya under Marcus')
+  })
+
+  it('asks to confirm the previewed change', () => {
+    const onConfirm = vi.fn()
+    renderBar({ preview: { description: 'Move Priya Patel under Marcus Reed' }, onConfirm })
+
+    expect(screen.getByLabelText('Command preview')).toHaveTextContent('Move Priya Patel under Marcus Reed')
+    fireEvent.click(screen.getByText('Apply'))
+    expect(onConfirm).toHaveBeenCalled()
+  })
+
+  it('shows why a command was not understood', () => {
+    renderBar({ error: 'No one named Zoe is on this chart' })
+
+    expect(screen.getByRole('alert')).toHaveTextContent('No one named Zoe is on this chart')
+  })
+})
+
+describe('ExportMenu Component', () => {
+  it('lists the formats and exports the chosen one', () => {
+    const onSelect = vi.fn()
+    render(
+      <ExportMenu
+        options={[
+          { id: 'svg', label: 'SVG vector', description: 'The whole chart' },
+          { id: 'png', label: 'PNG image' }
+        ]}
+        onSelect={onSelect}
+      />
+    )
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByText('Export'))
+    fireEvent.click(screen.getByText('SVG vector'))
+
+    expect(onSelect).toHaveBeenCalledWith('svg')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+})
+
+describe('PdfExportModal Component', () => {
+  it('exports on A4 landscape unless other paper is chosen', () => {
+    const onSubmit = vi.fn()
+    render(<PdfExportModal isOpen={true} onClose={vi.fn()} onSubmit={onSubmit} />)
+
+    fireEvent.click(screen.getByText('Download PDF'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ pageSize: 'a4', orientation: 'landscape' })
+
+    fireEvent.click(screen.getByLabelText(/Letter/))
+    fireEvent.click(screen.getByLabelText('Portrait'))
+    fireEvent.click(screen.getByText('Download PDF'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ pageSize: 'letter', orientation: 'portrait' })
+  })
+})
+
+describe('PptxExportModal Component', () => {
+  it('submits the chosen depth, overview and card fields', () => {
+    const onSubmit = vi.fn()
+    render(
+      <PptxExportModal
+        isOpen={true}
+        onClose={vi.fn()}
+        onSubmit={onSubmit}
+        availableFields={['Location', 'Team']}
+        maxDepth={3}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Download PowerPoint'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ depth: undefined, fields: [], includeOverview: true })
+
+    fireEvent.change(screen.getByLabelText('Team slides'), { target: { value: '2' } })
+    fireEvent.click(screen.getByLabelText('Team'))
+    fireEvent.click(screen.getByLabelText('Location'))
+    fireEvent.click(screen.getByLabelText('Start with an overview slide'))
+    fireEvent.click(screen.getByText('Download PowerPoint'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ depth: 2, fields: ['Location', 'Team'], includeOverview: false })
+  })
+})
+
+describe('GraphExportModal Component', () => {
+  it('exports the whole chart unless a subtree or depth is chosen', () => {
+    const onSubmit = vi.fn()
+    render(
+      <GraphExportModal
+        isOpen={true}
+        formatLabel="Mermaid"
+        onClose={vi.fn()}
+        onSubmit={onSubmit}
+        roots={[{ id: '1', name: 'Alex Morgan', title: 'CEO' }, { id: '2', name: 'Marcus Reed' }]}
+        maxDepth={3}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Download Mermaid'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ rootId: undefined, depth: undefined })
+
+    fireEvent.change(screen.getByLabelText('Starting from'), { target: { value: '2' } })
+    fireEvent.change(screen.getByLabelText('Levels'), { target: { value: '1' } })
+    fireEvent.click(screen.getByText('Download Mermaid'))
+    expect(onSubmit).toHaveBeenLastCalledWith({ rootId: '2', depth: 1 })
+  })
+})
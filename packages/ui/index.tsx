@@ -1,5 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react'
-import { ChevronDown, BarChart3, Users, Upload, Plus, X, Network, Sun, Moon } from 'lucide-react'
+import { ChevronDown, BarChart3, Users, Upload, Plus, X, Network, Sun, Moon, LogOut } from 'lucide-react'
+import { OrganizationSwitcher, OrganizationSwitcherProps } from './organization-switcher'
 
 // --- useTheme hook ---
 export function useTheme() {
@@ -84,11 +85,19 @@ export const Button: React.FC<ButtonProps> = ({
   )
 }
 
+export interface HeaderAccount {
+  name: string
+  email: string
+  onSignOut: () => void
+}
+
 export interface HeaderProps {
   title?: string
+  organizationSwitcher?: OrganizationSwitcherProps
+  account?: HeaderAccount
 }
 
-export const Header: React.FC<HeaderProps> = ({ title = 'OrgChart' }) => {
+export const Header: React.FC<HeaderProps> = ({ title = 'OrgChart', organizationSwitcher, account }) => {
   return (
     <header className="sticky top-0 z-40 w-full border-b border-border-default bg-base/80 backdrop-blur-xl">
       <div className="mx-auto max-w-screen-2xl px-6">
@@ -103,8 +112,26 @@ export const Header: React.FC<HeaderProps> = ({ title = 'OrgChart' }) => {
               </h1>
               <p className="text-xs text-text-muted">Organization Visualizer</p>
             </div>
+            {organizationSwitcher && (
+              <div className="ml-4">
+                <OrganizationSwitcher {...organizationSwitcher} />
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-2">
+            {account && (
+              <div className="flex items-center gap-2 mr-2">
+                <span className="text-sm text-text-secondary" title={account.email}>{account.name}</span>
+                <button
+                  onClick={account.onSignOut}
+                  className="p-2 rounded-lg bg-elevated border border-border-default text-text-secondary hover:text-text-primary hover:bg-surface transition-colors"
+                  aria-label="Sign out"
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                </button>
+              </div>
+            )}
             <ThemeToggle />
             <span className="text-xs text-text-muted bg-overlay px-2 py-1 rounded-md">
               v1.0
@@ -148,6 +175,10 @@ export const ChartViewerPlaceholder: React.FC<ChartViewerPlaceholderProps> = ({
             <div className="h-2 w-2 rounded-full bg-purple-500" />
             <span>XLSX</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="h-2 w-2 rounded-full bg-emerald-500" />
+            <span>JSON</span>
+          </div>
         </div>
       </div>
     </div>
@@ -155,8 +186,50 @@ export const ChartViewerPlaceholder: React.FC<ChartViewerPlaceholderProps> = ({
 }
 
 export { ChartViewer, ChartTooltip } from './chart-viewer'
-export type { ChartViewerProps, ChartTooltipProps, ChartNode } from './chart-viewer'
+export type { ChartViewerProps, ChartTooltipProps, ChartNode, ChartDiffStatus } from './chart-viewer'
 export { AddEmployeeModal } from './add-employee-modal'
 export type { AddEmployeeModalProps } from './add-employee-modal'
+export { WorksheetPickerModal } from './worksheet-picker-modal'
+export type { WorksheetPickerModalProps, WorksheetOption } from './worksheet-picker-modal'
+export { ColumnMappingModal } from './column-mapping-modal'
+export type {
+  ColumnMappingModalProps,
+  ColumnMappingSelection,
+  ColumnCandidateScores,
+  MappableField
+} from './column-mapping-modal'
+export { ImportSyncModal } from './import-sync-modal'
+export type { ImportSyncModalProps, ImportMode } from './import-sync-modal'
+export { RemoveEmployeeModal } from './remove-employee-modal'
+export type { RemoveEmployeeModalProps, ReportsStrategy } from './remove-employee-modal'
+export { LoginForm } from './login-form'
+export type { LoginFormProps, LoginFormMode } from './login-form'
+export { OrganizationMembersModal } from './organization-members-modal'
+export type {
+  OrganizationMembersModalProps,
+  OrganizationMemberEntry,
+  PendingInvitation,
+  MemberRole
+} from './organization-members-modal'
+export { AuditTimelineDrawer } from './audit-timeline-drawer'
+export type { AuditTimelineDrawerProps, AuditTimelineEntry, AuditTimelineFilter } from './audit-timeline-drawer'
+export { HistoryPanel } from './history-panel'
+export type { HistoryPanelProps, HistoryPanelEntry } from './history-panel'
+export { VersionHistoryModal } from './version-history-modal'
+export type { VersionHistoryModalProps, VersionEntry } from './version-history-modal'
+export { OrgDiffSidebar } from './org-diff-sidebar'
+export type { OrgDiffSidebarProps, OrgDiffVersionOption } from './org-diff-sidebar'
+export { CommandBar } from './command-bar'
+export type { CommandBarProps, CommandBarPreview } from './command-bar'
+export { ExportMenu } from './export-menu'
+export type { ExportMenuProps, ExportOption } from './export-menu'
+export { PdfExportModal } from './pdf-export-modal'
+export type { PdfExportModalProps, PdfPageSize, PdfOrientation } from './pdf-export-modal'
+export { PptxExportModal } from './pptx-export-modal'
+export type { PptxExportModalProps, PptxExportSettings } from './pptx-export-modal'
+export { GraphExportModal } from './graph-export-modal'
+export type { GraphExportModalProps, GraphExportSettings } from './graph-export-modal'
+export { OrganizationSwitcher } from './organization-switcher'
+export type { OrganizationSwitcherProps, OrganizationOption } from './organization-switcher'
 export { ToastProvider, useToast } from './toast'
 export type { Toast, ToastType } from './toast'
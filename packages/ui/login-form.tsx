@@ -0,0 +1,120 @@
+import React, { useState } from 'react'
+import { LogIn, Network, UserPlus } from 'lucide-react'
+
+export type LoginFormMode = 'login' | 'register'
+
+export interface LoginFormProps {
+  onLogin: (credentials: { email: string; password: string }) => void
+  onRegister: (account: { email: string; name: string; password: string }) => void
+  isLoading?: boolean
+  error?: string | null
+  initialMode?: LoginFormMode
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-elevated border border-border-default rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/30 focus:border-indigo-400 transition-all duration-200 text-text-primary placeholder:text-text-muted'
+
+export const LoginForm: React.FC<LoginFormProps> = ({
+  onLogin,
+  onRegister,
+  isLoading = false,
+  error = null,
+  initialMode = 'login'
+}) => {
+  const [mode, setMode] = useState<LoginFormMode>(initialMode)
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+
+  const isRegistering = mode === 'register'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isRegistering) {
+      onRegister({ email: email.trim(), name: name.trim(), password })
+    } else {
+      onLogin({ email: email.trim(), password })
+    }
+  }
+
+  return (
+    <div className="w-full max-w-sm bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl border border-border-default">
+      <div className="flex items-center gap-3 p-6 border-b border-border-default">
+        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-gradient-to-br from-indigo-500 to-purple-600 shadow-lg shadow-indigo-500/20">
+          <Network className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-text-primary tracking-tight">
+            {isRegistering ? 'Create account' : 'Sign in'}
+          </h2>
+          <p className="text-xs text-text-muted">Organization Visualizer</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {isRegistering && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Name"
+            autoComplete="name"
+            className={inputClassName}
+            disabled={isLoading}
+            required
+          />
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          aria-label="Email"
+          autoComplete="email"
+          className={inputClassName}
+          disabled={isLoading}
+          required
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          aria-label="Password"
+          autoComplete={isRegistering ? 'new-password' : 'current-password'}
+          minLength={isRegistering ? 8 : undefined}
+          className={inputClassName}
+          disabled={isLoading}
+          required
+        />
+
+        {error && (
+          <p role="alert" className="text-sm text-red-400">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          className="w-full px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+          disabled={isLoading}
+        >
+          <span className="flex items-center justify-center">
+            {isRegistering ? <UserPlus className="w-4 h-4 mr-2" /> : <LogIn className="w-4 h-4 mr-2" />}
+            {isRegistering ? 'Create account' : 'Sign in'}
+          </span>
+        </button>
+
+        <p className="text-center text-xs text-text-muted">
+          {isRegistering ? 'Already have an account?' : 'New here?'}{' '}
+          <button
+            type="button"
+            onClick={() => setMode(isRegistering ? 'login' : 'register')}
+            className="font-medium text-indigo-400 hover:text-indigo-300"
+            disabled={isLoading}
+          >
+            {isRegistering ? 'Sign in' : 'Create an account'}
+          </button>
+        </p>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import React from 'react'
+import { OrgChangeType, OrgDiffEntry, OrgDiff } from '../shared'
+import { X, GitCompare } from 'lucide-react'
+
+export interface OrgDiffVersionOption {
+  id: string
+  name: string
+}
+
+export interface OrgDiffSidebarProps {
+  isOpen: boolean
+  entries: OrgDiffEntry[]
+  summary: OrgDiff['summary'] | null
+  /** Saved versions either side of the comparison can be picked from */
+  versions: OrgDiffVersionOption[]
+  baseVersionId: string
+  /** null compares against the current chart */
+  targetVersionId: string | null
+  onVersionsChange: (baseVersionId: string, targetVersionId: string | null) => void
+  onClose: () => void
+  isLoading?: boolean
+}
+
+const CHANGE_LABELS: Record<OrgChangeType, string> = {
+  added: 'New hire',
+  removed: 'Left',
+  moved: 'New manager',
+  retitled: 'New title',
+  renamed: 'Renamed'
+}
+
+// Same accents as the highlighted nodes in the chart
+const CHANGE_BADGE_CLASSES: Record<OrgChangeType, string> = {
+  added: 'bg-green-500/15 text-green-400 border-green-500/30',
+  removed: 'bg-red-500/15 text-red-400 border-red-500/30',
+  moved: 'bg-amber-500/15 text-amber-400 border-amber-500/30',
+  retitled: 'bg-sky-500/15 text-sky-400 border-sky-500/30',
+  renamed: 'bg-sky-500/15 text-sky-400 border-sky-500/30'
+}
+
+const CURRENT_CHART = '__current__'
+
+const selectClassName = 'w-full px-2 py-1.5 text-sm bg-elevated border border-border-default rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500/30'
+
+const describeEntry = (entry: OrgDiffEntry): string[] => {
+  const details: string[] = []
+  const managerName = (name: string | null) => name || 'the top level'
+
+  entry.changes.forEach(change => {
+    switch (change) {
+      case 'added':
+        details.push(`${entry.after?.title} under ${managerName(entry.newManagerName)}`)
+        break
+      case 'removed':
+        details.push(`Was ${entry.before?.title} under ${managerName(entry.previousManagerName)}`)
+        break
+      case 'moved':
+        details.push(`${managerName(entry.previousManagerName)} → ${managerName(entry.newManagerName)}`)
+        break
+      case 'retitled':
+        details.push(`Title: ${entry.before?.title} → ${entry.after?.title}`)
+        break
+      case 'renamed':
+        details.push(`Name: ${entry.before?.name} → ${entry.after?.name}`)
+        break
+    }
+  })
+  return details
+}
+
+export const OrgDiffSidebar: React.FC<OrgDiffSidebarProps> = ({
+  isOpen,
+  entries,
+  summary,
+  versions,
+  baseVersionId,
+  targetVersionId,
+  onVersionsChange,
+  onClose,
+  isLoading = false
+}) => {
+  if (!isOpen) return null
+
+  return (
+    <aside
+      aria-label="Changes between versions"
+      className="fixed inset-y-0 right-0 z-40 w-full max-w-md flex flex-col bg-surface/95 backdrop-blur-md border-l border-border-default shadow-2xl"
+    >
+      <div className="flex items-center justify-between px-5 py-4 border-b border-border-default">
+        <div className="flex items-center space-x-2">
+          <GitCompare className="w-5 h-5 text-text-muted" />
+          <h2 className="text-lg font-semibold text-text-primary tracking-tight">Compare versions</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+          aria-label="Close comparison"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 px-5 py-3 border-b border-border-default">
+        <select
+          value={baseVersionId}
+          onChange={(e) => onVersionsChange(e.target.value, targetVersionId)}
+          className={selectClassName}
+          aria-label="Compare from"
+        >
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{version.name}</option>
+          ))}
+        </select>
+        <select
+          value={targetVersionId ?? CURRENT_CHART}
+          onChange={(e) => onVersionsChange(baseVersionId, e.target.value === CURRENT_CHART ? null : e.target.value)}
+          className={selectClassName}
+          aria-label="Compare to"
+        >
+          <option value={CURRENT_CHART}>Current chart</option>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{version.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {summary && !isLoading && (
+        <div aria-label="Summary" className="flex flex-wrap gap-2 px-5 py-3 border-b border-border-default">
+          {(Object.keys(CHANGE_LABELS) as OrgChangeType[]).map(change => (
+            <span key={change} className={`text-xs px-2 py-0.5 rounded-full border ${CHANGE_BADGE_CLASSES[change]}`}>
+              {CHANGE_LABELS[change]}: {summary[change]}
+            </span>
+          ))}
+          <span className="text-xs px-2 py-0.5 rounded-full border border-border-default text-text-muted">
+            Unchanged: {summary.unchanged}
+          </span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">
+        {isLoading ? (
+          <p className="text-sm text-text-muted text-center">Comparing versions…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-text-muted text-center">No differences</p>
+        ) : (
+          <ul aria-label="Changed employees" className="space-y-3">
+            {entries.map(entry => (
+              <li key={entry.employeeId} data-changes={entry.changes.join(' ')}>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium text-text-primary">{entry.name}</span>
+                  {entry.changes.map(change => (
+                    <span key={change} className={`text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded border ${CHANGE_BADGE_CLASSES[change]}`}>
+                      {CHANGE_LABELS[change]}
+                    </span>
+                  ))}
+                </div>
+                {describeEntry(entry).map(detail => (
+                  <p key={detail} className="text-xs text-text-secondary">{detail}</p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react'
+import { X, Users, UserPlus, Trash2, Mail } from 'lucide-react'
+
+export type MemberRole = 'editor' | 'viewer'
+
+export interface OrganizationMemberEntry {
+  userId: string
+  name: string
+  email: string
+  role: 'owner' | MemberRole
+}
+
+export interface PendingInvitation {
+  id: string
+  email: string
+  role: MemberRole
+}
+
+export interface OrganizationMembersModalProps {
+  isOpen: boolean
+  organizationName: string
+  members: OrganizationMemberEntry[]
+  invitations: PendingInvitation[]
+  currentUserId: string
+  /** Only owners can invite, change roles and remove other members */
+  canManage: boolean
+  onClose: () => void
+  onInvite: (invite: { email: string; role: MemberRole }) => void
+  onChangeRole: (userId: string, role: MemberRole) => void
+  onRemove: (userId: string) => void
+  onRevoke: (invitationId: string) => void
+  isLoading?: boolean
+}
+
+const ROLE_LABELS: Record<OrganizationMemberEntry['role'], string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+const selectClassName = 'px-2 py-1 text-sm bg-elevated border border-border-default rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50'
+
+export const OrganizationMembersModal: React.FC<OrganizationMembersModalProps> = ({
+  isOpen,
+  organizationName,
+  members,
+  invitations,
+  currentUserId,
+  canManage,
+  onClose,
+  onInvite,
+  onChangeRole,
+  onRemove,
+  onRevoke,
+  isLoading = false
+}) => {
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<MemberRole>('viewer')
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = email.trim()
+    if (!trimmed) return
+
+    onInvite({ email: trimmed, role })
+    setEmail('')
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-lg w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <Users className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Members</h2>
+              <p className="text-xs text-text-muted">{organizationName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <ul aria-label="Members" className="space-y-2">
+            {members.map(member => {
+              const isOwner = member.role === 'owner'
+              const isSelf = member.userId === currentUserId
+
+              return (
+                <li key={member.userId} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-text-primary truncate">
+                      {member.name}{isSelf && <span className="text-text-muted"> (you)</span>}
+                    </div>
+                    <div className="text-xs text-text-muted truncate">{member.email}</div>
+                  </div>
+                  {canManage && !isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => onChangeRole(member.userId, e.target.value as MemberRole)}
+                      className={selectClassName}
+                      aria-label={`Role for ${member.name}`}
+                      disabled={isLoading}
+                    >
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                  ) : (
+                    <span className="text-xs text-text-muted bg-overlay px-2 py-1 rounded-md">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {!isOwner && (canManage || isSelf) && (
+                    <button
+                      onClick={() => onRemove(member.userId)}
+                      className="p-1.5 rounded-md text-text-muted hover:text-red-400 hover:bg-elevated disabled:opacity-50"
+                      aria-label={isSelf ? 'Leave organization' : `Remove ${member.name}`}
+                      title={isSelf ? 'Leave organization' : 'Remove member'}
+                      disabled={isLoading}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+
+          {canManage && invitations.length > 0 && (
+            <div>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">Pending invitations</h3>
+              <ul aria-label="Pending invitations" className="space-y-2">
+                {invitations.map(invitation => (
+                  <li key={invitation.id} className="flex items-center gap-3">
+                    <Mail className="w-4 h-4 text-text-muted" />
+                    <span className="flex-1 text-sm text-text-secondary truncate">{invitation.email}</span>
+                    <span className="text-xs text-text-muted bg-overlay px-2 py-1 rounded-md">{ROLE_LABELS[invitation.role]}</span>
+                    <button
+                      onClick={() => onRevoke(invitation.id)}
+                      className="p-1.5 rounded-md text-text-muted hover:text-red-400 hover:bg-elevated disabled:opacity-50"
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                      disabled={isLoading}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {canManage && (
+            <form onSubmit={handleInvite} className="flex items-center gap-2 pt-4 border-t border-border-default">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email address"
+                aria-label="Invite email"
+                className="flex-1 px-3 py-2 text-sm bg-elevated border border-border-default rounded-lg text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                disabled={isLoading}
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as MemberRole)}
+                className={selectClassName}
+                aria-label="Invite role"
+                disabled={isLoading}
+              >
+                <option value="viewer">Viewer</option>
+                <option value="editor">Editor</option>
+              </select>
+              <button
+                type="submit"
+                className="flex items-center px-3 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:opacity-50"
+                disabled={isLoading || !email.trim()}
+              >
+                <UserPlus className="w-4 h-4 mr-1.5" />
+                Invite
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Building2, Check, ChevronDown, Pencil, Plus, Trash2 } from 'lucide-react'
+
+export interface OrganizationOption {
+  id: string
+  name: string
+  /** The current user's role; only owners can rename or delete */
+  role?: 'owner' | 'editor' | 'viewer'
+}
+
+export interface OrganizationSwitcherProps {
+  organizations: OrganizationOption[]
+  currentOrganizationId: string
+  onSelect: (organizationId: string) => void
+  onCreate: (name: string) => void
+  onRename: (organizationId: string, name: string) => void
+  onDelete: (organizationId: string) => void
+  isLoading?: boolean
+}
+
+export const OrganizationSwitcher: React.FC<OrganizationSwitcherProps> = ({
+  organizations,
+  currentOrganizationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  isLoading = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [newName, setNewName] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const current = organizations.find(organization => organization.id === currentOrganizationId)
+
+  // Close the menu when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setEditingId(null)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const handleSelect = (organizationId: string) => {
+    onSelect(organizationId)
+    setIsOpen(false)
+  }
+
+  const startRename = (organization: OrganizationOption) => {
+    setEditingId(organization.id)
+    setDraftName(organization.name)
+  }
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = draftName.trim()
+    if (editingId && name) {
+      onRename(editingId, name)
+    }
+    setEditingId(null)
+  }
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+
+    onCreate(name)
+    setNewName('')
+    setIsOpen(false)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-elevated border border-border-default text-sm text-text-primary hover:bg-surface transition-colors"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        disabled={isLoading}
+      >
+        <Building2 className="h-4 w-4 text-indigo-400" />
+        <span className="max-w-[12rem] truncate">{current?.name || 'Select organization'}</span>
+        <ChevronDown className="h-4 w-4 text-text-muted" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 rounded-xl border border-border-default bg-surface/95 backdrop-blur-md shadow-2xl z-50">
+          <ul role="listbox" aria-label="Organizations" className="max-h-64 overflow-y-auto p-1">
+            {organizations.map(organization => (
+              <li
+                key={organization.id}
+                role="option"
+                aria-selected={organization.id === currentOrganizationId}
+                className="group flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-elevated"
+              >
+                {editingId === organization.id ? (
+                  <form onSubmit={handleRenameSubmit} className="flex-1">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={handleRenameSubmit}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="w-full px-2 py-1 text-sm bg-base border border-border-default rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      aria-label="Organization name"
+                    />
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleSelect(organization.id)}
+                      className="flex flex-1 items-center gap-2 text-left text-sm text-text-primary truncate"
+                    >
+                      <Check className={`h-4 w-4 shrink-0 ${organization.id === currentOrganizationId ? 'text-indigo-400' : 'invisible'}`} />
+                      <span className="truncate">{organization.name}</span>
+                      {organization.role && organization.role !== 'owner' && (
+                        <span className="shrink-0 rounded bg-overlay px-1.5 py-0.5 text-[10px] uppercase tracking-wide text-text-muted">
+                          {organization.role}
+                        </span>
+                      )}
+                    </button>
+                    {(!organization.role || organization.role === 'owner') && (
+                      <>
+                        <button
+                          onClick={() => startRename(organization)}
+                          className="p-1 rounded-md text-text-muted opacity-0 group-hover:opacity-100 hover:text-text-primary"
+                          aria-label={`Rename ${organization.name}`}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onDelete(organization.id)}
+                          className="p-1 rounded-md text-text-muted opacity-0 group-hover:opacity-100 hover:text-red-400"
+                          aria-label={`Delete ${organization.name}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCreateSubmit} className="flex items-center gap-2 border-t border-border-default p-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New organization"
+              className="flex-1 px-2 py-1 text-sm bg-base border border-border-default rounded-md text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="New organization name"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="p-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+              aria-label="Create organization"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react'
+import { X, FileText } from 'lucide-react'
+
+export type PdfPageSize = 'a4' | 'letter'
+export type PdfOrientation = 'landscape' | 'portrait'
+
+export interface PdfExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (settings: { pageSize: PdfPageSize; orientation: PdfOrientation }) => void
+  isLoading?: boolean
+}
+
+const PAGE_SIZES: Array<{ value: PdfPageSize; label: string; description: string }> = [
+  { value: 'a4', label: 'A4', description: '210 × 297 mm' },
+  { value: 'letter', label: 'Letter', description: '8.5 × 11 in' }
+]
+
+const ORIENTATIONS: Array<{ value: PdfOrientation; label: string }> = [
+  { value: 'landscape', label: 'Landscape' },
+  { value: 'portrait', label: 'Portrait' }
+]
+
+export const PdfExportModal: React.FC<PdfExportModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  isLoading = false
+}) => {
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4')
+  const [orientation, setOrientation] = useState<PdfOrientation>('landscape')
+
+  useEffect(() => {
+    if (isOpen) {
+      setPageSize('a4')
+      setOrientation('landscape')
+    }
+  }, [isOpen])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({ pageSize, orientation })
+  }
+
+  if (!isOpen) return null
+
+  const optionClass = (selected: boolean) => `flex-1 flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+    selected ? 'border-indigo-400 bg-indigo-500/10' : 'border-border-default hover:bg-elevated'
+  }`
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-md w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Export PDF</h2>
+              <p className="text-xs text-text-muted">A cover page, then one page per department</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <fieldset>
+            <legend className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">Paper</legend>
+            <div className="flex gap-2">
+              {PAGE_SIZES.map(size => (
+                <label key={size.value} className={optionClass(pageSize === size.value)}>
+                  <input
+                    type="radio"
+                    name="pageSize"
+                    value={size.value}
+                    checked={pageSize === size.value}
+                    onChange={() => setPageSize(size.value)}
+                    disabled={isLoading}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-sm font-semibold text-text-primary">{size.label}</div>
+                    <div className="text-xs text-text-secondary">{size.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">Orientation</legend>
+            <div className="flex gap-2">
+              {ORIENTATIONS.map(item => (
+                <label key={item.value} className={optionClass(orientation === item.value)}>
+                  <input
+                    type="radio"
+                    name="orientation"
+                    value={item.value}
+                    checked={orientation === item.value}
+                    onChange={() => setOrientation(item.value)}
+                    disabled={isLoading}
+                    className="mt-1"
+                  />
+                  <div className="text-sm font-semibold text-text-primary">{item.label}</div>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="flex justify-end space-x-3 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Exporting...' : 'Download PDF'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react'
+import { X, Presentation } from 'lucide-react'
+
+export interface PptxExportSettings {
+  // Management levels that get team slides; undefined covers every level
+  depth?: number
+  fields: string[]
+  includeOverview: boolean
+}
+
+export interface PptxExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (settings: PptxExportSettings) => void
+  // Custom field keys found on the chart's employees
+  availableFields: string[]
+  // Number of management levels in the chart
+  maxDepth: number
+  isLoading?: boolean
+}
+
+export const PptxExportModal: React.FC<PptxExportModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  availableFields,
+  maxDepth,
+  isLoading = false
+}) => {
+  const [depth, setDepth] = useState('')
+  const [fields, setFields] = useState<string[]>([])
+  const [includeOverview, setIncludeOverview] = useState(true)
+
+  useEffect(() => {
+    if (isOpen) {
+      setDepth('')
+      setFields([])
+      setIncludeOverview(true)
+    }
+  }, [isOpen])
+
+  const toggleField = (field: string) => {
+    setFields(current => current.includes(field) ? current.filter(item => item !== field) : [...current, field])
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      depth: depth ? Number(depth) : undefined,
+      // Keep the order the fields are listed in
+      fields: availableFields.filter(field => fields.includes(field)),
+      includeOverview
+    })
+  }
+
+  if (!isOpen) return null
+
+  const levels = Array.from({ length: Math.max(0, maxDepth) }, (_, index) => index + 1)
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-md w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <Presentation className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Export PowerPoint</h2>
+              <p className="text-xs text-text-muted">One editable slide per manager and their direct reports</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div>
+            <label htmlFor="pptx-depth" className="block text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">
+              Team slides
+            </label>
+            <select
+              id="pptx-depth"
+              value={depth}
+              onChange={(e) => setDepth(e.target.value)}
+              disabled={isLoading}
+              className="w-full px-3 py-2 text-sm bg-elevated border border-border-default rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+            >
+              <option value="">Every manager</option>
+              {levels.map(level => (
+                <option key={level} value={level}>
+                  {level === 1 ? 'Top level only' : `Top ${level} levels`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-3 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeOverview}
+              onChange={(e) => setIncludeOverview(e.target.checked)}
+              disabled={isLoading}
+            />
+            Start with an overview slide
+          </label>
+
+          <fieldset>
+            <legend className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">Fields on cards</legend>
+            {availableFields.length === 0 ? (
+              <p className="text-sm text-text-secondary">Cards show each person's name and title.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {availableFields.map(field => (
+                  <label key={field} className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={fields.includes(field)}
+                      onChange={() => toggleField(field)}
+                      disabled={isLoading}
+                    />
+                    {field}
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          <div className="flex justify-end space-x-3 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Exporting...' : 'Download PowerPoint'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Employee } from '../shared'
+import { X, UserMinus, ChevronDown } from 'lucide-react'
+
+export type ReportsStrategy = 'manager' | 'reassign' | 'vacancy'
+
+export interface RemoveEmployeeModalProps {
+  isOpen: boolean
+  employee: Employee | null
+  employees: Employee[]
+  onClose: () => void
+  onSubmit: (removal: { reportsStrategy: ReportsStrategy; newManagerId?: string }) => void
+  isLoading?: boolean
+}
+
+// Everyone who reports to employeeId, directly or indirectly
+const getSubtreeIds = (employeeId: string, employees: Employee[]): Set<string> => {
+  const subtree = new Set<string>([employeeId])
+  let added = true
+  while (added) {
+    added = false
+    employees.forEach(emp => {
+      if (emp.managerId && subtree.has(emp.managerId) && !subtree.has(emp.id)) {
+        subtree.add(emp.id)
+        added = true
+      }
+    })
+  }
+  return subtree
+}
+
+export const RemoveEmployeeModal: React.FC<RemoveEmployeeModalProps> = ({
+  isOpen,
+  employee,
+  employees,
+  onClose,
+  onSubmit,
+  isLoading = false
+}) => {
+  const [strategy, setStrategy] = useState<ReportsStrategy>('manager')
+  const [newManagerId, setNewManagerId] = useState('')
+
+  useEffect(() => {
+    setStrategy('manager')
+    setNewManagerId('')
+  }, [employee])
+
+  const directReports = useMemo(
+    () => (employee ? employees.filter(emp => emp.managerId === employee.id) : []),
+    [employee, employees]
+  )
+
+  const currentManager = employee?.managerId ? employees.find(emp => emp.id === employee.managerId) : undefined
+
+  // Reports cannot move into the departing employee's own subtree
+  const eligibleManagers = useMemo(() => {
+    if (!employee) return []
+    const subtree = getSubtreeIds(employee.id, employees)
+    return employees.filter(emp => !subtree.has(emp.id))
+  }, [employee, employees])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (strategy === 'reassign') {
+      if (!newManagerId) return
+      onSubmit({ reportsStrategy: strategy, newManagerId })
+    } else {
+      onSubmit({ reportsStrategy: strategy })
+    }
+  }
+
+  if (!isOpen || !employee) return null
+
+  const options: Array<{ value: ReportsStrategy; label: string; description: string }> = [
+    {
+      value: 'manager',
+      label: currentManager ? `Move to ${currentManager.name}` : 'Move to top level',
+      description: currentManager ? `Reports move up to ${employee.name}'s manager` : 'Reports become top-level employees'
+    },
+    {
+      value: 'reassign',
+      label: 'Move to another manager',
+      description: 'Pick who the reports move to'
+    },
+    {
+      value: 'vacancy',
+      label: 'Leave as a vacancy',
+      description: 'Keep the position open so it can be backfilled later'
+    }
+  ]
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-md w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-red-500 to-rose-600 rounded-lg shadow-sm">
+              <UserMinus className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Remove Employee</h2>
+              <p className="text-xs text-text-muted">{employee.name} · {employee.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <p className="text-sm text-text-secondary mb-4">
+            {directReports.length === 0
+              ? `${employee.name} has no direct reports.`
+              : `What should happen to ${employee.name}'s ${directReports.length} direct report${directReports.length !== 1 ? 's' : ''}?`}
+          </p>
+
+          <div className="space-y-2">
+            {options.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  strategy === option.value ? 'border-indigo-400 bg-indigo-500/10' : 'border-border-default hover:bg-elevated'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="reports-strategy"
+                  value={option.value}
+                  checked={strategy === option.value}
+                  onChange={() => setStrategy(option.value)}
+                  className="mt-1"
+                  disabled={isLoading}
+                />
+                <div>
+                  <div className="text-sm font-medium text-text-primary">{option.label}</div>
+                  <div className="text-xs text-text-muted">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {strategy === 'reassign' && (
+            <div className="relative mt-4">
+              <select
+                value={newManagerId}
+                onChange={(e) => setNewManagerId(e.target.value)}
+                className="w-full px-4 py-3 bg-elevated border border-border-default rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/30 focus:border-indigo-400 transition-all duration-200 backdrop-blur-sm font-medium appearance-none text-text-primary"
+                aria-label="New manager"
+                disabled={isLoading}
+              >
+                <option value="">Select a manager</option>
+                {eligibleManagers.map(manager => (
+                  <option key={manager.id} value={manager.id}>
+                    {manager.name} - {manager.title}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-3.5 h-4 w-4 text-text-muted pointer-events-none" />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-red-600 to-red-700 border border-red-600 rounded-lg hover:from-red-700 hover:to-red-800 focus:outline-none focus:ring-2 focus:ring-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading || (strategy === 'reassign' && !newManagerId)}
+            >
+              {isLoading ? (
+                <div className="flex items-center">
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
+                  Removing...
+                </div>
+              ) : (
+                <div className="flex items-center">
+                  <UserMinus className="w-4 h-4 mr-2" />
+                  Remove Employee
+                </div>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
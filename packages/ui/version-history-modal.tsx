@@ -0,0 +1,179 @@
+import React, { useState } from 'react'
+import { SnapshotSource } from '../shared'
+import { X, History, Camera, Eye, GitCompare, RotateCcw, Trash2 } from 'lucide-react'
+
+export interface VersionEntry {
+  id: string
+  name: string
+  source: SnapshotSource
+  // Dates arrive as ISO strings over the wire
+  createdAt: Date | string
+  createdByName: string
+  employeeCount: number
+}
+
+export interface VersionHistoryModalProps {
+  isOpen: boolean
+  versions: VersionEntry[]
+  /** The version open in the chart, if any */
+  viewingVersionId?: string | null
+  /** Editors and owners can save, restore and delete versions */
+  canEdit: boolean
+  onClose: () => void
+  onCreate: (name: string) => void
+  onView: (versionId: string) => void
+  /** Shows what changed between the version and the current chart */
+  onCompare?: (versionId: string) => void
+  onRestore: (versionId: string) => void
+  onDelete: (versionId: string) => void
+  isLoading?: boolean
+}
+
+const SOURCE_LABELS: Record<SnapshotSource, string> = {
+  manual: 'Saved',
+  import: 'Import',
+  restore: 'Before restore'
+}
+
+const iconButtonClassName = 'p-1.5 rounded-md text-text-muted hover:text-text-primary hover:bg-elevated disabled:opacity-40 disabled:cursor-not-allowed transition-colors'
+
+export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
+  isOpen,
+  versions,
+  viewingVersionId = null,
+  canEdit,
+  onClose,
+  onCreate,
+  onView,
+  onCompare,
+  onRestore,
+  onDelete,
+  isLoading = false
+}) => {
+  const [name, setName] = useState('')
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = name.trim()
+    if (!trimmed) return
+
+    onCreate(trimmed)
+    setName('')
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-lg w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-sm">
+              <History className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold text-text-primary tracking-tight">Version history</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {canEdit && (
+            <form onSubmit={handleCreate} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. End of Q2"
+                aria-label="Snapshot name"
+                maxLength={100}
+                className="flex-1 px-3 py-2 text-sm bg-elevated border border-border-default rounded-lg text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                disabled={isLoading}
+              />
+              <button
+                type="submit"
+                className="flex items-center px-3 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:opacity-50"
+                disabled={isLoading || !name.trim()}
+              >
+                <Camera className="w-4 h-4 mr-1.5" />
+                Save snapshot
+              </button>
+            </form>
+          )}
+
+          {versions.length === 0 ? (
+            <p className="text-sm text-text-muted text-center">No versions yet</p>
+          ) : (
+            <ul aria-label="Versions" className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {versions.map(version => (
+                <li
+                  key={version.id}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-lg ${version.id === viewingVersionId ? 'bg-indigo-500/10 border border-indigo-500/30' : ''}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-text-primary truncate">{version.name}</span>
+                      <span className="text-[10px] uppercase tracking-wide text-text-muted bg-overlay px-1.5 py-0.5 rounded">
+                        {SOURCE_LABELS[version.source]}
+                      </span>
+                    </div>
+                    <div className="text-xs text-text-muted truncate">
+                      {new Date(version.createdAt).toLocaleString()} · {version.createdByName} · {version.employeeCount} employees
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onView(version.id)}
+                    className={iconButtonClassName}
+                    aria-label={`View ${version.name}`}
+                    title="View read-only"
+                    disabled={isLoading}
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  {onCompare && (
+                    <button
+                      onClick={() => onCompare(version.id)}
+                      className={iconButtonClassName}
+                      aria-label={`Compare ${version.name}`}
+                      title="Compare with the current chart"
+                      disabled={isLoading}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => onRestore(version.id)}
+                        className={iconButtonClassName}
+                        aria-label={`Restore ${version.name}`}
+                        title="Restore this version"
+                        disabled={isLoading}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(version.id)}
+                        className={`${iconButtonClassName} hover:text-red-400`}
+                        aria-label={`Delete ${version.name}`}
+                        title="Delete version"
+                        disabled={isLoading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
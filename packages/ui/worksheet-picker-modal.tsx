@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react'
+import { X, FileSpreadsheet, Layers } from 'lucide-react'
+
+export interface WorksheetOption {
+  name: string
+  rowCount: number
+  headers: string[]
+}
+
+export interface WorksheetPickerModalProps {
+  isOpen: boolean
+  fileName: string
+  sheets: WorksheetOption[]
+  onClose: () => void
+  onSubmit: (selection: { sheetName?: string; mergeSheets?: boolean }) => void
+  isLoading?: boolean
+}
+
+const MERGE_ALL = '__merge_all__'
+
+// Preselect the sheet with the most rows, since cover/instructions tabs are usually short
+const getDefaultSheet = (sheets: WorksheetOption[]): string => {
+  const largest = sheets.reduce<WorksheetOption | null>(
+    (best, sheet) => (!best || sheet.rowCount > best.rowCount ? sheet : best),
+    null
+  )
+  return largest?.name || ''
+}
+
+export const WorksheetPickerModal: React.FC<WorksheetPickerModalProps> = ({
+  isOpen,
+  fileName,
+  sheets,
+  onClose,
+  onSubmit,
+  isLoading = false
+}) => {
+  const [selected, setSelected] = useState(() => getDefaultSheet(sheets))
+
+  useEffect(() => {
+    setSelected(getDefaultSheet(sheets))
+  }, [sheets])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+
+    if (selected === MERGE_ALL) {
+      onSubmit({ mergeSheets: true })
+    } else {
+      onSubmit({ sheetName: selected })
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-surface/95 backdrop-blur-md rounded-xl shadow-2xl max-w-lg w-full mx-4 border border-border-default">
+        <div className="flex items-center justify-between p-6 border-b border-border-default">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg shadow-sm">
+              <FileSpreadsheet className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary tracking-tight">Choose Worksheet</h2>
+              <p className="text-xs text-text-muted truncate max-w-xs">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-text-primary hover:bg-elevated rounded-lg transition-all duration-200"
+            disabled={isLoading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {sheets.map((sheet) => (
+              <label
+                key={sheet.name}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  selected === sheet.name ? 'border-indigo-400 bg-indigo-500/10' : 'border-border-default hover:bg-elevated'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="worksheet"
+                  value={sheet.name}
+                  checked={selected === sheet.name}
+                  onChange={() => setSelected(sheet.name)}
+                  disabled={isLoading}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-text-primary">
+                    {sheet.name}
+                    <span className="ml-2 text-xs font-normal text-text-muted">
+                      {sheet.rowCount} row{sheet.rowCount !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="text-xs text-text-secondary truncate">
+                    {sheet.headers.length > 0 ? sheet.headers.join(', ') : 'No headers detected'}
+                  </div>
+                </div>
+              </label>
+            ))}
+
+            <label
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected === MERGE_ALL ? 'border-indigo-400 bg-indigo-500/10' : 'border-border-default hover:bg-elevated'
+              }`}
+            >
+              <input
+                type="radio"
+                name="worksheet"
+                value={MERGE_ALL}
+                checked={selected === MERGE_ALL}
+                onChange={() => setSelected(MERGE_ALL)}
+                disabled={isLoading}
+                className="mt-1"
+              />
+              <div>
+                <div className="flex items-center gap-2 text-sm font-semibold text-text-primary">
+                  <Layers className="w-4 h-4" />
+                  Merge all sheets with compatible headers
+                </div>
+                <div className="text-xs text-text-secondary">
+                  Combines every sheet that shares the most common set of columns
+                </div>
+              </div>
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-border-default">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-text-secondary bg-elevated border border-border-default rounded-lg hover:bg-overlay focus:outline-none focus:ring-2 focus:ring-slate-500/30 disabled:opacity-50 transition-all duration-200 backdrop-blur-sm shadow-sm"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-3 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-700 border border-indigo-600 rounded-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl backdrop-blur-sm"
+              disabled={isLoading || !selected}
+            >
+              {isLoading ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}